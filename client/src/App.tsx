@@ -19,6 +19,10 @@ import SettingsSpotify from "@/pages/settings-spotify";
 import SettingsDatabase from "@/pages/settings-database";
 import SettingsAutomation from "@/pages/settings-automation";
 import SettingsScoring from "@/pages/settings-scoring";
+import SettingsAlerts from "@/pages/settings-alerts";
+import SettingsLabels from "@/pages/settings-labels";
+import SettingsSources from "@/pages/settings-sources";
+import SettingsJobs from "@/pages/settings-jobs";
 import SettingsDev from "@/pages/settings-dev";
 import DetailPreviewPage from "@/pages/detail-preview";
 import ScoringPreview from "@/pages/scoring-preview";
@@ -56,6 +60,10 @@ function Router() {
       <Route path="/settings/database" component={SettingsDatabase} />
       <Route path="/settings/automation" component={SettingsAutomation} />
       <Route path="/settings/scoring" component={SettingsScoring} />
+      <Route path="/settings/alerts" component={SettingsAlerts} />
+      <Route path="/settings/labels" component={SettingsLabels} />
+      <Route path="/settings/sources" component={SettingsSources} />
+      <Route path="/settings/jobs" component={SettingsJobs} />
       <Route path="/settings/dev" component={SettingsDev} />
       
       {/* Preview */}
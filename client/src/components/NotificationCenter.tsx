@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Bell, Check, X, CheckCheck, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { Bell, Check, X, CheckCheck, Loader2, CheckCircle2, XCircle, PauseCircle, Clock, Ban } from "lucide-react";
 import {
   Popover,
   PopoverContent,
@@ -14,6 +14,8 @@ import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { JobControls, type ControllableJobStatus } from "@/components/job-controls";
+import { JobEventFeed } from "@/components/job-event-feed";
 
 interface SystemNotification {
   id: string;
@@ -36,7 +38,7 @@ interface ActiveJob {
   trackCount: number;
   enrichedCount: number;
   phase: number;
-  status: 'running' | 'success' | 'error';
+  status: 'queued' | 'running' | 'paused' | 'cancelled' | 'success' | 'error';
   startTime: number;
   completedAt?: number;
   errorMessage?: string;
@@ -58,6 +60,14 @@ export function NotificationCenter() {
     return () => clearInterval(interval);
   }, [activeJobs]);
 
+  const setJobStatus = (jobId: string | undefined, status: ControllableJobStatus) => {
+    setActiveJobs(prev => prev.map(job =>
+      job.jobId === jobId
+        ? { ...job, status, completedAt: status === 'cancelled' ? Date.now() : job.completedAt }
+        : job
+    ));
+  };
+
   const { isConnected } = useWebSocket({
     onConnected: () => {
       console.log('NotificationCenter: WebSocket connected');
@@ -65,8 +75,11 @@ export function NotificationCenter() {
     onJobStarted: (data) => {
       console.log('NotificationCenter: Job started', data);
       setActiveJobs(prev => {
+        // A resumed job is started again by the worker
         const exists = prev.some(job => job.jobId === data.jobId);
-        if (exists) return prev;
+        if (exists) {
+          return prev.map(job => job.jobId === data.jobId ? { ...job, status: 'running' } : job);
+        }
         return [...prev, {
           jobId: data.jobId || '',
           playlistName: data.playlistName,
@@ -118,6 +131,9 @@ export function NotificationCenter() {
       queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
       queryClient.invalidateQueries({ queryKey: ["/api/notifications/count"] });
     },
+    onJobCancelled: (data) => setJobStatus(data.jobId, 'cancelled'),
+    onJobPaused: (data) => setJobStatus(data.jobId, 'paused'),
+    onJobResumed: (data) => setJobStatus(data.jobId, 'queued'),
   });
 
   const { data: notifications = [], isLoading } = useQuery<SystemNotification[]>({
@@ -267,7 +283,7 @@ export function NotificationCenter() {
                 const progress = job.trackCount > 0 
                   ? Math.round((job.enrichedCount / job.trackCount) * 100)
                   : 0;
-                const isComplete = job.status === 'success' || job.status === 'error';
+                const isComplete = job.status === 'success' || job.status === 'error' || job.status === 'cancelled';
                 const elapsed = isComplete && job.completedAt
                   ? job.completedAt - job.startTime
                   : currentTime - job.startTime;
@@ -299,6 +315,24 @@ export function NotificationCenter() {
                                 Phase {job.phase}/3
                               </Badge>
                             )}
+                            {job.status === 'queued' && (
+                              <Badge variant="secondary" className="text-xs">
+                                <Clock className="h-3 w-3 mr-1" />
+                                Queued
+                              </Badge>
+                            )}
+                            {job.status === 'paused' && (
+                              <Badge variant="outline" className="text-xs">
+                                <PauseCircle className="h-3 w-3 mr-1" />
+                                Paused
+                              </Badge>
+                            )}
+                            {job.status === 'cancelled' && (
+                              <Badge variant="outline" className="text-xs">
+                                <Ban className="h-3 w-3 mr-1" />
+                                Cancelled
+                              </Badge>
+                            )}
                             {job.status === 'success' && (
                               <Badge variant="success" className="text-xs">
                                 <CheckCircle2 className="h-3 w-3 mr-1" />
@@ -313,6 +347,13 @@ export function NotificationCenter() {
                             )}
                           </div>
                         </div>
+                        {!isComplete && (
+                          <JobControls
+                            jobId={job.jobId}
+                            status={job.status as ControllableJobStatus}
+                            onStatusChange={setJobStatus}
+                          />
+                        )}
                       </div>
                       
                       {job.status === 'running' && (
@@ -322,6 +363,7 @@ export function NotificationCenter() {
                             <span>{job.enrichedCount} / {job.trackCount} tracks</span>
                             <span>{minutes}:{seconds.toString().padStart(2, '0')}</span>
                           </div>
+                          <JobEventFeed jobId={job.jobId} pageSize={3} />
                         </>
                       )}
                       
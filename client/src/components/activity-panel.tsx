@@ -2,9 +2,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { X, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import { X, Loader2, CheckCircle2, AlertCircle, PauseCircle, Clock, Ban } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, useEffect } from "react";
+import { JobControls, type ControllableJobStatus } from "@/components/job-controls";
+import { JobEventFeed } from "@/components/job-event-feed";
 
 export interface EnrichmentJob {
   jobId: string;
@@ -12,7 +14,7 @@ export interface EnrichmentJob {
   trackCount: number;
   enrichedCount: number;
   phase: number;
-  status: 'running' | 'success' | 'error';
+  status: 'queued' | 'running' | 'paused' | 'cancelled' | 'success' | 'error';
   errorMessage?: string;
   startTime: number;
   completedAt?: number;
@@ -21,6 +23,8 @@ export interface EnrichmentJob {
 interface ActivityPanelProps {
   jobs: EnrichmentJob[];
   onDismiss?: (jobId: string) => void;
+  // Enables cancel, pause/resume and "run next" on unfinished jobs
+  onStatusChange?: (jobId: string, status: ControllableJobStatus) => void;
   className?: string;
 }
 
@@ -40,7 +44,7 @@ function formatDuration(ms: number): string {
   return `${seconds}s`;
 }
 
-export function ActivityPanel({ jobs, onDismiss, className }: ActivityPanelProps) {
+export function ActivityPanel({ jobs, onDismiss, onStatusChange, className }: ActivityPanelProps) {
   const [currentTime, setCurrentTime] = useState(Date.now());
   const hasRunningJobs = jobs.some(job => job.status === 'running');
 
@@ -63,7 +67,7 @@ export function ActivityPanel({ jobs, onDismiss, className }: ActivityPanelProps
         const progress = job.trackCount > 0 
           ? Math.round((job.enrichedCount / job.trackCount) * 100)
           : 0;
-        const isComplete = job.status === 'success' || job.status === 'error';
+        const isComplete = job.status === 'success' || job.status === 'error' || job.status === 'cancelled';
         // Use completedAt for finished jobs to freeze elapsed time, currentTime for running jobs
         const elapsed = isComplete && job.completedAt 
           ? job.completedAt - job.startTime 
@@ -75,7 +79,8 @@ export function ActivityPanel({ jobs, onDismiss, className }: ActivityPanelProps
             className={cn(
               "shadow-lg",
               job.status === 'success' && "border-l-4 border-l-green-500",
-              job.status === 'error' && "border-l-4 border-l-destructive"
+              job.status === 'error' && "border-l-4 border-l-destructive",
+              job.status === 'paused' && "border-l-4 border-l-amber-500"
             )}
             data-testid={`activity-job-${job.jobId}`}
           >
@@ -92,6 +97,24 @@ export function ActivityPanel({ jobs, onDismiss, className }: ActivityPanelProps
                         Phase {job.phase}/3
                       </Badge>
                     )}
+                    {job.status === 'queued' && (
+                      <Badge variant="secondary" className="text-xs">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Queued
+                      </Badge>
+                    )}
+                    {job.status === 'paused' && (
+                      <Badge variant="outline" className="text-xs">
+                        <PauseCircle className="h-3 w-3 mr-1" />
+                        Paused
+                      </Badge>
+                    )}
+                    {job.status === 'cancelled' && (
+                      <Badge variant="outline" className="text-xs">
+                        <Ban className="h-3 w-3 mr-1" />
+                        Cancelled
+                      </Badge>
+                    )}
                     {job.status === 'success' && (
                       <Badge variant="success" className="text-xs">
                         <CheckCircle2 className="h-3 w-3 mr-1" />
@@ -106,6 +129,13 @@ export function ActivityPanel({ jobs, onDismiss, className }: ActivityPanelProps
                     )}
                   </div>
                 </div>
+                {onStatusChange && !isComplete && (
+                  <JobControls
+                    jobId={job.jobId}
+                    status={job.status as ControllableJobStatus}
+                    onStatusChange={onStatusChange}
+                  />
+                )}
                 {onDismiss && isComplete && (
                   <Button
                     size="icon"
@@ -130,8 +160,19 @@ export function ActivityPanel({ jobs, onDismiss, className }: ActivityPanelProps
                   <div className="text-xs text-muted-foreground">
                     Elapsed: {formatDuration(elapsed)}
                   </div>
+                  <JobEventFeed jobId={job.jobId} pageSize={3} className="pt-1 border-t" />
                 </>
               )}
+              {job.status === 'paused' && (
+                <p className="text-sm text-muted-foreground">
+                  {job.enrichedCount}/{job.trackCount} tracks · resume to pick up where it stopped
+                </p>
+              )}
+              {job.status === 'cancelled' && (
+                <p className="text-sm text-muted-foreground">
+                  Cancelled · {job.enrichedCount} tracks enriched before stopping
+                </p>
+              )}
               {job.status === 'success' && (
                 <p className="text-sm text-muted-foreground">
                   {job.enrichedCount} tracks enriched · {formatDuration(elapsed)}
@@ -12,7 +12,11 @@ import {
   Zap,
   Code2,
   ChevronRight,
-  User
+  User,
+  Bell,
+  Disc3,
+  GitMerge,
+  ListChecks
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
@@ -69,7 +73,8 @@ const workflowSections = [
     icon: Users,
     items: [
       { title: "Contacts", url: "/contacts", icon: Users },
-      { title: "Pipeline", url: "/outreach", icon: Target },
+      { title: "Outreach", url: "/outreach", icon: MessageCircle },
+      { title: "Deals", url: "/deals", icon: Target },
     ],
   },
 ];
@@ -83,6 +88,10 @@ const settingsSection = {
     { title: "Database & Storage", url: "/settings/database", icon: Database },
     { title: "Automation", url: "/settings/automation", icon: Zap },
     { title: "Scoring & Narrative", url: "/settings/scoring", icon: Sparkles },
+    { title: "Alert Rules", url: "/settings/alerts", icon: Bell },
+    { title: "Label Registry", url: "/settings/labels", icon: Disc3 },
+    { title: "Data Sources", url: "/settings/sources", icon: GitMerge },
+    { title: "Enrichment Jobs", url: "/settings/jobs", icon: ListChecks },
     { title: "Dev", url: "/settings/dev", icon: Code2, hidden: true },
   ],
 };
@@ -5,7 +5,8 @@ import {
   Mail, MessageCircle, RefreshCw, TrendingUp, Music, Activity, 
   FileText, ExternalLink, Instagram, Twitter, Flame, Edit,
   Phone, Hash, Building, User as UserIcon, Award, Target, Check, X, Share2,
-  Truck, Star, Package, Database, CheckCircle, Facebook, Sparkles
+  Truck, Star, Package, Database, CheckCircle, Facebook, Sparkles,
+  Bell, Clock, Zap, Lock, LockOpen, History, ArrowUp, ArrowDown
 } from "lucide-react";
 import { SiTiktok } from "react-icons/si";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -39,7 +40,12 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import type { ContactWithSongwriter, PlaylistSnapshot } from "@shared/schema";
+import { LogOutreachDialog } from "@/components/log-outreach-dialog";
+import { PlaylistAppearances } from "@/components/playlist-appearances";
+import { OUTREACH_TYPE_CONFIG, getOutcomeLabel } from "@/lib/outreachConfig";
+import { DEAL_STAGE_CONFIG, isDealStage } from "@/lib/dealConfig";
+import { describeSignalChange, type ScoreSignalChange } from "@/lib/scoringConfig";
+import type { ContactAlert, ContactWithSongwriter, OutreachActivityWithContact, PlaylistSnapshot } from "@shared/schema";
 
 const STAGE_CONFIG = {
   discovery: {
@@ -56,6 +62,17 @@ const STAGE_CONFIG = {
   },
 };
 
+const ALERT_TYPE_CONFIG = {
+  velocity_spike: { label: "Velocity Spike", icon: Zap },
+  stream_threshold: { label: "Stream Milestone", icon: TrendingUp },
+  inactivity: { label: "No Outreach", icon: Clock },
+  manual: { label: "Reminder", icon: Bell },
+  custom_rule: { label: "Alert Rule", icon: Target },
+};
+
+// Matches DEFAULT_VELOCITY_ALERT_PCT in server/services/contactAlerts.ts
+const DEFAULT_VELOCITY_ALERT_PCT = 50;
+
 interface ContactDetailDrawerProps {
   contactId: string | null;
   open: boolean;
@@ -178,7 +195,7 @@ function getCategoryNarrative(category: {
   category: string;
   score: number;
   maxScore: number;
-  signals: Array<{ description: string; weight: number }>;
+  signals: Array<{ signal?: string; description: string; weight: number }>;
 }): string {
   const { category: name, score, maxScore, signals } = category;
   const firstSignalDesc = signals?.find(s => s?.description)?.description;
@@ -187,6 +204,9 @@ function getCategoryNarrative(category: {
   // Category-specific microcopy
   switch (name) {
     case "Publishing Status":
+      if (signals?.some(s => s?.signal === "ADMIN_ONLY_PUBLISHER" || s?.signal === "SELF_PUBLISHED")) {
+        return firstSignalDesc || "Writer's share is not held by a full publishing deal.";
+      }
       if (percentage >= 80) {
         return "This songwriter has no publishing representation across any tracks.";
       } else if (percentage > 0) {
@@ -198,7 +218,8 @@ function getCategoryNarrative(category: {
       if (percentage > 0) {
         return firstSignalDesc || "DIY or independent distribution signals detected.";
       }
-      return "No DIY or independent distribution signals found.";
+      // Major-owned labels still carry their ownership chain in the signal description
+      return firstSignalDesc || "No DIY or independent distribution signals found.";
       
     case "Early Career Signals":
       if (percentage >= 80) {
@@ -282,6 +303,7 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
   const [noteText, setNoteText] = useState("");
   const [activeTab, setActiveTab] = useState("scoring");
   const [isEditingContact, setIsEditingContact] = useState(false);
+  const [logOutreachOpen, setLogOutreachOpen] = useState(false);
   const { aiNarrativeMode } = useAINarrativeMode();
   const [savedContactData, setSavedContactData] = useState<{
     email: string;
@@ -342,6 +364,55 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
     enabled: !!contactId && open,
   });
 
+  // Fetch outreach log for this contact
+  const { data: outreachActivities = [], isLoading: loadingOutreach } = useQuery<OutreachActivityWithContact[]>({
+    queryKey: ["/api/contacts", contactId, "outreach"],
+    queryFn: async () => {
+      if (!contactId) return [];
+      const response = await fetch(`/api/contacts/${contactId}/outreach`);
+      if (!response.ok) return [];
+      return response.json();
+    },
+    enabled: !!contactId && open && activeTab === "activity",
+  });
+
+  // Fetch pending alerts for this contact
+  const { data: pendingAlerts = [] } = useQuery<ContactAlert[]>({
+    queryKey: ["/api/contacts", contactId, "alerts"],
+    queryFn: async () => {
+      if (!contactId) return [];
+      const response = await fetch(`/api/contacts/${contactId}/alerts?status=pending`);
+      if (!response.ok) return [];
+      return response.json();
+    },
+    enabled: !!contactId && open,
+  });
+
+  // Fetch score history with per-calculation signal changes
+  const { data: scoreHistory = [] } = useQuery<Array<{
+    id: string;
+    finalScore: number;
+    rawScore: number | null;
+    confidence: string | null;
+    calculatedAt: string;
+    previousScore: number | null;
+    changes: ScoreSignalChange[];
+  }>>({
+    queryKey: ["/api/contacts", contactId, "score-history"],
+    queryFn: async () => {
+      if (!contactId) return [];
+      const response = await fetch(`/api/contacts/${contactId}/score-history`);
+      if (!response.ok) return [];
+      return response.json();
+    },
+    enabled: !!contactId && open && activeTab === "scoring",
+  });
+
+  // Only calculations that moved the score or changed a signal are worth showing
+  const scoreChanges = scoreHistory.filter(
+    (entry) => entry.previousScore !== null && (entry.previousScore !== entry.finalScore || entry.changes.length > 0)
+  );
+
   // Fetch commentary (rules-based or AI)
   const { data: commentary, isLoading: loadingCommentary, refetch: refetchCommentary } = useQuery<{
     topLine: string;
@@ -405,6 +476,39 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
     updateContactMutation.mutate({ stage: newStage });
   };
 
+  const handleVelocityThresholdChange = (value: string) => {
+    if (!contact) return;
+    const parsed = value.trim() === "" ? null : parseInt(value, 10);
+    if (parsed !== null && isNaN(parsed)) return;
+    if (parsed === contact.velocityAlertThresholdPct) return;
+    updateContactMutation.mutate({ velocityAlertThresholdPct: parsed });
+  };
+
+  // Resolve or dismiss an alert
+  const alertStatusMutation = useMutation({
+    mutationFn: async ({ alertId, action }: { alertId: string; action: "resolve" | "dismiss" }) => {
+      return apiRequest("POST", `/api/alerts/${alertId}/${action}`);
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts", contactId, "alerts"] });
+      toast({
+        title: action === "resolve" ? "Alert resolved" : "Alert dismissed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStageLockToggle = () => {
+    if (!contact) return;
+    updateContactMutation.mutate({ stageLocked: contact.stageLocked > 0 ? 0 : 1 });
+  };
+
   const handleHotLeadToggle = () => {
     if (!contact) return;
     updateContactMutation.mutate({ hotLead: contact.hotLead > 0 ? 0 : 1 });
@@ -611,8 +715,27 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
                     <SelectItem value="discovery">Discovery Pool</SelectItem>
                     <SelectItem value="watch">Watch List</SelectItem>
                     <SelectItem value="search">Active Search</SelectItem>
+                    {isDealStage(contact.stage) && (
+                      <SelectItem value={contact.stage} disabled>
+                        {DEAL_STAGE_CONFIG[contact.stage].label} (Deal)
+                      </SelectItem>
+                    )}
                   </SelectContent>
                 </Select>
+                {!isDealStage(contact.stage) && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className={cn("h-9 w-9 flex-shrink-0", contact.stageLocked > 0 && "text-primary")}
+                    onClick={handleStageLockToggle}
+                    title={contact.stageLocked > 0
+                      ? "Stage locked: the weekly funnel run won't change it"
+                      : "Stage unlocked: the weekly funnel run may change it"}
+                    data-testid="button-toggle-stage-lock"
+                  >
+                    {contact.stageLocked > 0 ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                  </Button>
+                )}
               </div>
             </Card>
 
@@ -910,6 +1033,57 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
               </div>
             </Card>
 
+            {/* Pending Alerts */}
+            {pendingAlerts.length > 0 && (
+              <Card className="p-5 mb-6 border-yellow-500/30" data-testid="card-contact-alerts">
+                <div className="flex items-center gap-2 mb-3">
+                  <Bell className="h-4 w-4 text-yellow-400" />
+                  <h3 className="text-sm font-medium">Alerts</h3>
+                  <Badge variant="outline" className="text-xs">{pendingAlerts.length}</Badge>
+                </div>
+                <div className="space-y-3">
+                  {pendingAlerts.map((alert) => {
+                    const alertConfig = ALERT_TYPE_CONFIG[alert.alertType];
+                    const AlertIcon = alertConfig.icon;
+                    return (
+                      <div key={alert.id} className="flex items-start gap-3" data-testid={`alert-${alert.id}`}>
+                        <AlertIcon className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm">{alert.message}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {alertConfig.label} · {formatDate(alert.triggeredAt)}
+                          </p>
+                        </div>
+                        <div className="flex gap-1 flex-shrink-0">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2"
+                            onClick={() => alertStatusMutation.mutate({ alertId: alert.id, action: "resolve" })}
+                            disabled={alertStatusMutation.isPending}
+                            data-testid={`button-resolve-alert-${alert.id}`}
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Resolve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-muted-foreground"
+                            onClick={() => alertStatusMutation.mutate({ alertId: alert.id, action: "dismiss" })}
+                            disabled={alertStatusMutation.isPending}
+                            data-testid={`button-dismiss-alert-${alert.id}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
+
             {/* Tabs */}
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
               <TabsList className="grid w-full grid-cols-5">
@@ -1077,6 +1251,42 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
                       </Card>
                     )}
 
+                    {/* Score History - what changed between calculations */}
+                    {scoreChanges.length > 0 && (
+                      <Card className="p-5" data-testid="card-score-history">
+                        <h4 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                          <History className="h-4 w-4" />
+                          Score History
+                        </h4>
+                        <div className="space-y-3">
+                          {scoreChanges.map((entry) => {
+                            const delta = entry.finalScore - (entry.previousScore ?? entry.finalScore);
+                            return (
+                              <div key={entry.id} className="border-l-2 border-border pl-3 space-y-1" data-testid={`score-history-${entry.id}`}>
+                                <div className="flex items-center gap-2 text-sm">
+                                  <span className="font-medium">
+                                    {entry.previousScore} → {entry.finalScore}
+                                  </span>
+                                  {delta !== 0 && (
+                                    <span className={cn("flex items-center text-xs", delta > 0 ? "text-emerald-400" : "text-red-400")}>
+                                      {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                                      {Math.abs(delta)}
+                                    </span>
+                                  )}
+                                  <span className="text-xs text-muted-foreground ml-auto">{formatDate(entry.calculatedAt)}</span>
+                                </div>
+                                {entry.changes.map((change, idx) => (
+                                  <p key={idx} className="text-xs text-muted-foreground">
+                                    {describeSignalChange(change)} ({change.pointsDelta > 0 ? "+" : ""}{Number(change.pointsDelta.toFixed(1))} {change.category})
+                                  </p>
+                                ))}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </Card>
+                    )}
+
                     {/* Last Updated */}
                     {contact.unsignedScoreUpdatedAt && (
                       <p className="text-xs text-muted-foreground text-center">
@@ -1117,8 +1327,29 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
                       <span className="text-sm text-muted-foreground">Total Tracks</span>
                       <span className="font-medium">{contact.totalTracks || 0}</span>
                     </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Velocity Alert Threshold</span>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          key={`${contact.id}-${contact.velocityAlertThresholdPct ?? "default"}`}
+                          type="number"
+                          min={0}
+                          className="h-8 w-20 text-right"
+                          placeholder={String(DEFAULT_VELOCITY_ALERT_PCT)}
+                          defaultValue={contact.velocityAlertThresholdPct ?? ""}
+                          onBlur={(e) => handleVelocityThresholdChange(e.target.value)}
+                          data-testid="input-velocity-alert-threshold"
+                        />
+                        <span className="text-sm text-muted-foreground">%</span>
+                      </div>
+                    </div>
                   </div>
                 </Card>
+                <PlaylistAppearances
+                  queryKey={["/api/contacts", contact.id, "appearances"]}
+                  enabled={open && activeTab === "performance"}
+                  showTrackCount
+                />
                 <div className="text-center py-8 text-muted-foreground">
                   <TrendingUp className="h-12 w-12 mx-auto mb-2 opacity-50" />
                   <p className="text-sm">Detailed performance charts coming soon</p>
@@ -1140,15 +1371,61 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
                   <div className="flex items-start gap-3">
                     <div className="w-2 h-2 rounded-full bg-muted mt-2" />
                     <div className="flex-1">
-                      <p className="text-sm font-medium">Stage updated to {STAGE_CONFIG[contact.stage as keyof typeof STAGE_CONFIG]?.label}</p>
+                      <p className="text-sm font-medium">Stage updated to {(STAGE_CONFIG[contact.stage as keyof typeof STAGE_CONFIG] || DEAL_STAGE_CONFIG[contact.stage])?.label}</p>
                       <p className="text-xs text-muted-foreground">{formatDate(contact.stageUpdatedAt)}</p>
                     </div>
                   </div>
                 </Card>
-                <div className="text-center py-8 text-muted-foreground">
-                  <Activity className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">Detailed activity timeline coming soon</p>
+                <div className="flex items-center justify-between pt-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Outreach</h3>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLogOutreachOpen(true)}
+                    data-testid="button-drawer-log-outreach"
+                  >
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    Log Outreach
+                  </Button>
                 </div>
+                {loadingOutreach ? (
+                  <div className="space-y-2">
+                    <Skeleton className="h-16 w-full" />
+                    <Skeleton className="h-16 w-full" />
+                  </div>
+                ) : outreachActivities.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Activity className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">No outreach logged yet</p>
+                  </div>
+                ) : (
+                  outreachActivities.map((activity) => {
+                    const typeConfig = OUTREACH_TYPE_CONFIG[activity.activityType] || OUTREACH_TYPE_CONFIG.other;
+                    const outcomeLabel = getOutcomeLabel(activity.outcome);
+                    return (
+                      <Card key={activity.id} className="p-4" data-testid={`card-drawer-outreach-${activity.id}`}>
+                        <div className="flex items-start gap-3">
+                          <typeConfig.icon className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                          <div className="flex-1 min-w-0 space-y-1">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <p className="text-sm font-medium">{activity.subject || typeConfig.label}</p>
+                              {outcomeLabel && <Badge variant="secondary" className="text-xs">{outcomeLabel}</Badge>}
+                            </div>
+                            {activity.body && (
+                              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{activity.body}</p>
+                            )}
+                            {activity.relatedTrackName && (
+                              <p className="text-xs text-muted-foreground">Re: {activity.relatedTrackName}</p>
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                              {typeConfig.label}{activity.channel ? ` · ${activity.channel}` : ""} · {formatDate(activity.performedAt)}
+                            </p>
+                          </div>
+                        </div>
+                      </Card>
+                    );
+                  })
+                )}
               </TabsContent>
 
               {/* Notes Tab */}
@@ -1185,6 +1462,11 @@ export function ContactDetailDrawer({ contactId, open, onOpenChange }: ContactDe
           </div>
         )}
       </SheetContent>
+      <LogOutreachDialog
+        open={logOutreachOpen}
+        onOpenChange={setLogOutreachOpen}
+        contactId={contactId}
+      />
     </Sheet>
   );
 }
@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DEAL_STAGE_CONFIG, DEAL_TYPE_LABELS } from "@/lib/dealConfig";
+import type { ContactWithSongwriter, Deal } from "@shared/schema";
+
+interface DealDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contactId?: string | null;
+  deal?: Deal | null;
+}
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function DealDialog({ open, onOpenChange, contactId, deal }: DealDialogProps) {
+  const { toast } = useToast();
+  const isEditing = !!deal;
+  const [selectedContactId, setSelectedContactId] = useState<string | null>(contactId ?? null);
+  const [contactSearch, setContactSearch] = useState("");
+  const debouncedContactSearch = useDebounce(contactSearch, 300);
+  const [form, setForm] = useState({
+    title: "",
+    stage: "offer_sent",
+    dealType: "co_publishing",
+    publisherSharePct: "",
+    adminFeePct: "",
+    advanceAmount: "",
+    termMonths: "",
+    territory: "World",
+    notes: "",
+  });
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSelectedContactId(deal?.contactId ?? contactId ?? null);
+    setContactSearch("");
+    setForm({
+      title: deal?.title ?? "",
+      stage: deal?.stage ?? "offer_sent",
+      dealType: deal?.dealType ?? "co_publishing",
+      publisherSharePct: deal?.publisherSharePct?.toString() ?? "",
+      adminFeePct: deal?.adminFeePct?.toString() ?? "",
+      advanceAmount: deal?.advanceAmount?.toString() ?? "",
+      termMonths: deal?.termMonths?.toString() ?? "",
+      territory: deal?.territory ?? "World",
+      notes: deal?.notes ?? "",
+    });
+  }, [open, contactId, deal]);
+
+  // Contact picker (only when the dialog isn't scoped to a contact)
+  const { data: contactResults } = useQuery<{ contacts: ContactWithSongwriter[] }>({
+    queryKey: ["/api/contacts", { search: debouncedContactSearch, limit: 8 }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "8", sortField: "songwriterName", sortDirection: "asc" });
+      if (debouncedContactSearch) params.append("search", debouncedContactSearch);
+      const response = await fetch(`/api/contacts?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch contacts");
+      return response.json();
+    },
+    enabled: open && !contactId && !isEditing,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedContactId) throw new Error("Select a contact first");
+      const payload = {
+        title: form.title.trim(),
+        dealType: form.dealType,
+        publisherSharePct: toNumberOrNull(form.publisherSharePct),
+        adminFeePct: toNumberOrNull(form.adminFeePct),
+        advanceAmount: toNumberOrNull(form.advanceAmount),
+        termMonths: toNumberOrNull(form.termMonths),
+        territory: form.territory || null,
+        notes: form.notes || null,
+      };
+      if (isEditing && deal) {
+        return apiRequest("PATCH", `/api/deals/${deal.id}`, payload);
+      }
+      return apiRequest("POST", "/api/deals", { ...payload, contactId: selectedContactId, stage: form.stage });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      toast({
+        title: isEditing ? "Deal updated" : "Deal created",
+        description: isEditing ? "The deal terms have been updated" : "The deal has been added to the pipeline",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save deal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedContactName = contactResults?.contacts.find(c => c.id === selectedContactId)?.songwriterName;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-deal">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Deal" : "New Deal"}</DialogTitle>
+          <DialogDescription>
+            Track a publishing offer and its terms through to signing
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!contactId && !isEditing && (
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <Input
+                placeholder="Search songwriters..."
+                value={contactSearch}
+                onChange={(e) => setContactSearch(e.target.value)}
+                data-testid="input-deal-contact-search"
+              />
+              <div className="max-h-40 overflow-y-auto rounded-md border divide-y">
+                {(contactResults?.contacts || []).map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    onClick={() => setSelectedContactId(c.id)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 text-sm hover-elevate",
+                      selectedContactId === c.id && "bg-primary/10 text-primary font-medium"
+                    )}
+                    data-testid={`button-deal-contact-${c.id}`}
+                  >
+                    {c.songwriterName}
+                  </button>
+                ))}
+                {contactResults && contactResults.contacts.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-muted-foreground">No contacts found</p>
+                )}
+              </div>
+              {selectedContactName && (
+                <p className="text-xs text-muted-foreground">Selected: {selectedContactName}</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Title</Label>
+            <Input
+              placeholder="e.g. 50/50 co-pub, 3 years"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              data-testid="input-deal-title"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Deal Type</Label>
+              <Select value={form.dealType} onValueChange={(value) => setForm({ ...form, dealType: value })}>
+                <SelectTrigger data-testid="select-deal-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DEAL_TYPE_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select
+                value={form.stage}
+                onValueChange={(value) => setForm({ ...form, stage: value })}
+                disabled={isEditing}
+              >
+                <SelectTrigger data-testid="select-deal-stage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DEAL_STAGE_CONFIG).map(([key, config]) => (
+                    <SelectItem key={key} value={key}>{config.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Publisher Share (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="50"
+                value={form.publisherSharePct}
+                onChange={(e) => setForm({ ...form, publisherSharePct: e.target.value })}
+                data-testid="input-deal-publisher-share"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Admin Fee (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="15"
+                value={form.adminFeePct}
+                onChange={(e) => setForm({ ...form, adminFeePct: e.target.value })}
+                data-testid="input-deal-admin-fee"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Advance ($)</Label>
+              <Input
+                type="number"
+                min={0}
+                placeholder="25000"
+                value={form.advanceAmount}
+                onChange={(e) => setForm({ ...form, advanceAmount: e.target.value })}
+                data-testid="input-deal-advance"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Term (months)</Label>
+              <Input
+                type="number"
+                min={0}
+                placeholder="36"
+                value={form.termMonths}
+                onChange={(e) => setForm({ ...form, termMonths: e.target.value })}
+                data-testid="input-deal-term"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Territory</Label>
+              <Input
+                placeholder="World"
+                value={form.territory}
+                onChange={(e) => setForm({ ...form, territory: e.target.value })}
+                data-testid="input-deal-territory"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              placeholder="Key terms, reversion, options..."
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={3}
+              data-testid="textarea-deal-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-deal">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!selectedContactId || !form.title.trim() || saveMutation.isPending}
+            data-testid="button-save-deal"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isEditing ? "Save Changes" : "Create Deal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
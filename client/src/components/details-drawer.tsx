@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { type PlaylistSnapshot, type ActivityHistory, type Artist, type Tag } from "@shared/schema";
+import { type PlaylistSnapshot, type ActivityHistory, type Artist, type Tag, type TrackPositionHistory } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -32,6 +32,11 @@ import {
   Facebook,
   Youtube,
   RefreshCw,
+  ListOrdered,
+  ArrowUp,
+  ArrowDown,
+  LogIn,
+  LogOut,
 } from "lucide-react";
 import { formatDistanceToNow, parseISO } from "date-fns";
 import { TrackTagPopover } from "@/components/track-tag-popover";
@@ -40,11 +45,18 @@ import { PublisherStatusBadge } from "./publisher-status-badge";
 import { SongwriterDisplay } from "./songwriter-display";
 import { SongwriterPanel } from "./songwriter-panel";
 import { EnrichmentSourceIndicator } from "./enrichment-source-indicator";
+import { PlaylistAppearances } from "./playlist-appearances";
+import { FieldProvenance } from "./field-provenance";
 import { cn } from "@/lib/utils";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { queryClient } from "@/lib/queryClient";
 import { useState, useEffect, useRef } from "react";
 
+// Any classified publisher counts as verified; "published" is the status older enrichments stored
+function hasVerifiedPublisher(status: string | null | undefined): boolean {
+  return !!status && status !== 'unknown' && status !== 'unsigned';
+}
+
 interface DetailsDrawerProps {
   track: PlaylistSnapshot | null;
   open: boolean;
@@ -58,6 +70,29 @@ interface FullTrackDetails extends PlaylistSnapshot {
   tags: Tag[];
   activity: ActivityHistory[];
   artists: Artist[];
+  daysOnPlaylist: number | null;
+  removedAt: string | null;
+}
+
+interface TrackPositions {
+  playlistName: string;
+  currentPosition: number | null;
+  bestPosition: number | null;
+  removedAt: string | null;
+  entries: TrackPositionHistory[];
+}
+
+function describePositionChange(entry: TrackPositionHistory): { label: string; icon: typeof ArrowUp; className: string } {
+  if (entry.position === null) {
+    return { label: `Removed (was #${entry.previousPosition})`, icon: LogOut, className: "text-red-500" };
+  }
+  if (entry.previousPosition === null) {
+    return { label: `Entered at #${entry.position}`, icon: LogIn, className: "text-blue-500" };
+  }
+  const delta = entry.previousPosition - entry.position;
+  return delta > 0
+    ? { label: `Up ${delta} to #${entry.position}`, icon: ArrowUp, className: "text-green-500" }
+    : { label: `Down ${-delta} to #${entry.position}`, icon: ArrowDown, className: "text-amber-500" };
 }
 
 export function DetailsDrawer({
@@ -89,6 +124,11 @@ export function DetailsDrawer({
     refetchOnMount: "always",
   });
 
+  const { data: positions } = useQuery<TrackPositions>({
+    queryKey: ["/api/tracks", track?.id, "positions"],
+    enabled: !!track?.id && open,
+  });
+
   // Listen for WebSocket updates
   useWebSocket({
     onTrackEnriched: (data) => {
@@ -264,6 +304,23 @@ export function DetailsDrawer({
                         Added {formatDistanceToNow(new Date(displayTrack.addedAt), { addSuffix: true })}
                       </Badge>
                     )}
+
+                    {fullTrack && fullTrack.daysOnPlaylist !== null && (
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-xs",
+                          fullTrack.removedAt
+                            ? "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20"
+                            : "text-muted-foreground"
+                        )}
+                        data-testid={`badge-days-on-playlist-${displayTrack.id}`}
+                      >
+                        {fullTrack.removedAt
+                          ? `Removed ${formatDistanceToNow(new Date(fullTrack.removedAt), { addSuffix: true })} after ${fullTrack.daysOnPlaylist}d`
+                          : `${fullTrack.daysOnPlaylist}d on playlist`}
+                      </Badge>
+                    )}
                   </div>
                 </div>
               </div>
@@ -796,6 +853,75 @@ export function DetailsDrawer({
                     </Card>
                   </section>
 
+                  {/* Playlist Position */}
+                  {positions && (positions.entries.length > 0 || positions.currentPosition !== null) && (
+                    <section className="space-y-4">
+                      <h3 className="text-sm font-semibold font-heading flex items-center gap-2">
+                        <ListOrdered className="h-4 w-4" />
+                        PLAYLIST POSITION
+                      </h3>
+                      <Card className="p-4 rounded-lg space-y-3" data-testid="card-playlist-position">
+                        <div className="grid grid-cols-2 gap-4 text-sm">
+                          <div>
+                            <span className="text-muted-foreground block mb-1">Current</span>
+                            <span className="font-semibold text-lg" data-testid="text-current-position">
+                              {positions.removedAt ? "Removed" : positions.currentPosition !== null ? `#${positions.currentPosition}` : "—"}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground block mb-1">Best</span>
+                            <div className="flex items-center gap-2">
+                              <span className="font-semibold text-lg">
+                                {positions.bestPosition !== null ? `#${positions.bestPosition}` : "—"}
+                              </span>
+                              {positions.bestPosition !== null && positions.bestPosition <= 10 && (
+                                <Badge variant="outline" className="text-xs bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+                                  Top 10
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        {positions.removedAt && (
+                          <p className="text-xs text-muted-foreground">
+                            {positions.playlistName.toLowerCase().includes("fresh finds") ? "Dropped off Fresh Finds" : `Removed from ${positions.playlistName}`}{" "}
+                            {formatDistanceToNow(new Date(positions.removedAt), { addSuffix: true })}
+                          </p>
+                        )}
+
+                        {positions.entries.length > 0 && (
+                          <div className="space-y-1.5 pt-2 border-t">
+                            {positions.entries.slice().reverse().slice(0, 10).map((entry) => {
+                              const change = describePositionChange(entry);
+                              const Icon = change.icon;
+                              return (
+                                <div key={entry.id} className="flex items-center justify-between text-xs" data-testid={`position-entry-${entry.id}`}>
+                                  <span className="flex items-center gap-2">
+                                    <Icon className={cn("h-3.5 w-3.5", change.className)} />
+                                    {change.label}
+                                  </span>
+                                  <span className="text-muted-foreground">
+                                    {formatDistanceToNow(new Date(entry.observedAt), { addSuffix: true })}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </Card>
+                    </section>
+                  )}
+
+                  {/* Cross-playlist appearances */}
+                  <PlaylistAppearances
+                    queryKey={["/api/tracks", displayTrack.id, "appearances"]}
+                    enabled={open}
+                  />
+
+                  {/* Field provenance */}
+                  <FieldProvenance trackId={displayTrack.id} enabled={open} />
+
                   {/* Enrichment Timeline */}
                   <section className="space-y-4">
                     <h3 className="text-sm font-semibold font-heading flex items-center gap-2">
@@ -931,12 +1057,12 @@ export function DetailsDrawer({
                       <div className="flex items-center gap-3 p-3 bg-background/40 rounded-lg transition-all duration-300" data-testid="enrichment-phase-5">
                         <div className={cn(
                           "h-2 w-2 rounded-full transition-all duration-300 flex-shrink-0",
-                          displayTrack.publisherStatus === 'published' ? "bg-green-500 shadow-lg shadow-green-500/50" : "bg-muted animate-pulse"
+                          hasVerifiedPublisher(displayTrack.publisherStatus) ? "bg-green-500 shadow-lg shadow-green-500/50" : "bg-muted animate-pulse"
                         )} />
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium">Phase 5: MLC Lookup</p>
                           <p className="text-xs text-muted-foreground truncate">
-                            {displayTrack.publisherStatus === 'published'
+                            {hasVerifiedPublisher(displayTrack.publisherStatus)
                               ? `✓ Publisher verified: ${displayTrack.publisher || 'Unknown'}` 
                               : displayTrack.publisherStatus === 'unsigned'
                                 ? "✓ Unsigned artist confirmed"
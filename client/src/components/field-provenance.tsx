@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type TrackFieldProvenance } from "@shared/schema";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertTriangle, ChevronDown, History } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface FieldProvenanceSummary {
+  field: string;
+  current: TrackFieldProvenance;
+  history: TrackFieldProvenance[];
+  conflicting: boolean;
+}
+
+export const SOURCE_LABELS: Record<TrackFieldProvenance["source"], string> = {
+  spotify_api: "Spotify API",
+  credits_scrape: "Spotify Credits",
+  musicbrainz: "MusicBrainz",
+  mlc: "MLC",
+  chartmetric: "Chartmetric",
+  youtube: "YouTube",
+  manual: "Manual",
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  publisher: "Publisher",
+  songwriter: "Songwriter",
+  label: "Label",
+  producer: "Producer",
+  isrc: "ISRC",
+  spotifyStreams: "Spotify Streams",
+  publisherStatus: "Publisher Status",
+  mlcSongCode: "MLC Song Code",
+};
+
+// Credit fields lead; everything else follows alphabetically
+const FIELD_ORDER = ["publisher", "songwriter", "label", "producer"];
+
+function fieldRank(field: string): number {
+  const index = FIELD_ORDER.indexOf(field);
+  return index === -1 ? FIELD_ORDER.length : index;
+}
+
+function ProvenanceEntry({ entry }: { entry: TrackFieldProvenance }) {
+  return (
+    <div className="flex items-center justify-between gap-3 text-xs">
+      <span className="truncate">{entry.value || "—"}</span>
+      <span className="text-muted-foreground flex-shrink-0">
+        {SOURCE_LABELS[entry.source]} · {Math.round(entry.confidence * 100)}% · {formatDistanceToNow(new Date(entry.recordedAt), { addSuffix: true })}
+      </span>
+    </div>
+  );
+}
+
+function FieldProvenanceRow({ summary }: { summary: FieldProvenanceSummary }) {
+  const [open, setOpen] = useState(summary.conflicting);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} data-testid={`provenance-field-${summary.field}`}>
+      <CollapsibleTrigger className="w-full text-left">
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">{FIELD_LABELS[summary.field] || summary.field}</span>
+              {summary.conflicting && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0 gap-1 bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20">
+                  <AlertTriangle className="h-3 w-3" />
+                  Sources disagree
+                </Badge>
+              )}
+            </div>
+            <p className="font-medium truncate">{summary.current.value || "—"}</p>
+          </div>
+          <Badge variant="secondary" className="text-xs flex-shrink-0">
+            {SOURCE_LABELS[summary.current.source]}
+          </Badge>
+          {summary.history.length > 1 && (
+            <ChevronDown className={cn("h-4 w-4 flex-shrink-0 transition-transform", open && "rotate-180")} />
+          )}
+        </div>
+      </CollapsibleTrigger>
+      {summary.history.length > 1 && (
+        <CollapsibleContent className="mt-2 space-y-1 pl-3 border-l">
+          {summary.history.map((entry) => (
+            <ProvenanceEntry key={entry.id} entry={entry} />
+          ))}
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
+
+interface FieldProvenanceProps {
+  trackId: string;
+  enabled: boolean;
+}
+
+// Where each enriched field came from, with the full write history when sources disagree
+export function FieldProvenance({ trackId, enabled }: FieldProvenanceProps) {
+  const { data, isLoading } = useQuery<{ fields: FieldProvenanceSummary[] }>({
+    queryKey: ["/api/tracks", trackId, "provenance"],
+    enabled,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!data || data.fields.length === 0) {
+    return null;
+  }
+
+  const fields = [...data.fields].sort((a, b) =>
+    fieldRank(a.field) - fieldRank(b.field) || a.field.localeCompare(b.field)
+  );
+
+  return (
+    <Card className="p-4 rounded-lg space-y-3" data-testid="card-field-provenance">
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Data Sources
+      </h3>
+      <div className="space-y-3">
+        {fields.map((summary) => (
+          <FieldProvenanceRow key={summary.field} summary={summary} />
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { ChevronsUp, Loader2, Pause, Play, Square } from "lucide-react";
+
+export type ControllableJobStatus = 'queued' | 'running' | 'paused' | 'cancelled';
+
+// Matches JOB_PRIORITY.URGENT on the server: ahead of user-triggered and scheduled jobs
+const RUN_NEXT_PRIORITY = 20;
+
+interface JobControlsProps {
+  jobId: string;
+  status: ControllableJobStatus;
+  onStatusChange?: (jobId: string, status: ControllableJobStatus) => void;
+}
+
+// Cancel, pause/resume and "run next" for a queued, running or paused enrichment job
+export function JobControls({ jobId, status, onStatusChange }: JobControlsProps) {
+  const { toast } = useToast();
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: 'cancel' | 'pause' | 'resume') => {
+      const response = await apiRequest("POST", `/api/enrichment-jobs/${jobId}/${action}`);
+      return response.json() as Promise<{ status: ControllableJobStatus }>;
+    },
+    onSuccess: (data) => {
+      onStatusChange?.(jobId, data.status);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/enrichment-jobs/${jobId}/priority`, { priority: RUN_NEXT_PRIORITY });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Job moved to the front of the queue" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change job priority",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (status === 'cancelled') return null;
+
+  const isPending = actionMutation.isPending || priorityMutation.isPending;
+
+  return (
+    <div className="flex items-center gap-1">
+      {isPending && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+      {status === 'queued' && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          title="Run next"
+          onClick={() => priorityMutation.mutate()}
+          disabled={isPending}
+          data-testid={`button-prioritize-job-${jobId}`}
+        >
+          <ChevronsUp className="h-3.5 w-3.5" />
+        </Button>
+      )}
+      {status === 'paused' ? (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          title="Resume"
+          onClick={() => actionMutation.mutate('resume')}
+          disabled={isPending}
+          data-testid={`button-resume-job-${jobId}`}
+        >
+          <Play className="h-3.5 w-3.5" />
+        </Button>
+      ) : (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          title="Pause"
+          onClick={() => actionMutation.mutate('pause')}
+          disabled={isPending}
+          data-testid={`button-pause-job-${jobId}`}
+        >
+          <Pause className="h-3.5 w-3.5" />
+        </Button>
+      )}
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6 text-destructive"
+        title="Cancel"
+        onClick={() => actionMutation.mutate('cancel')}
+        disabled={isPending}
+        data-testid={`button-cancel-job-${jobId}`}
+      >
+        <Square className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
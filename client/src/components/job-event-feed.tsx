@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { cn } from "@/lib/utils";
+import type { EnrichmentJobEvent } from "@shared/schema";
+
+export type JobEventEntry = Omit<EnrichmentJobEvent, "metadata"> & {
+  metadata: Record<string, unknown> | null;
+};
+
+interface JobEventsPage {
+  events: { items: JobEventEntry[]; total: number; limit: number; offset: number };
+}
+
+const LEVEL_STYLES: Record<JobEventEntry["level"], string> = {
+  info: "text-muted-foreground",
+  warn: "text-amber-700 dark:text-amber-400",
+  error: "text-destructive",
+};
+
+interface JobEventFeedProps {
+  jobId: string;
+  // Events shown initially, and added per "Show older" click when expandable
+  pageSize?: number;
+  expandable?: boolean;
+  className?: string;
+}
+
+// A job's event log, newest at the bottom, with new events streamed in over the WebSocket
+export function JobEventFeed({ jobId, pageSize = 5, expandable = false, className }: JobEventFeedProps) {
+  const [limit, setLimit] = useState(pageSize);
+  const [streamed, setStreamed] = useState<JobEventEntry[]>([]);
+
+  const { data, isLoading } = useQuery<JobEventsPage>({
+    queryKey: ["/api/enrichment-jobs", jobId, "events", { limit }],
+    queryFn: async () => {
+      const response = await fetch(`/api/enrichment-jobs/${jobId}?limit=${limit}`);
+      if (!response.ok) throw new Error("Failed to fetch job events");
+      return response.json();
+    },
+  });
+
+  useWebSocket({
+    onJobEvent: (message) => {
+      if (message.jobId !== jobId || !message.event) return;
+      setStreamed(prev => [...prev, message.event as JobEventEntry]);
+    },
+  });
+
+  const fetched = data?.events.items || [];
+  const seen = new Set<string>();
+  const events = [...fetched].reverse().concat(streamed)
+    .filter(event => {
+      if (seen.has(event.id)) return false;
+      seen.add(event.id);
+      return true;
+    })
+    .slice(-limit);
+  const hasOlder = (data?.events.total || 0) > fetched.length;
+
+  if (isLoading) {
+    return <Skeleton className={cn("h-16 w-full", className)} />;
+  }
+
+  if (events.length === 0) {
+    return <p className={cn("text-xs text-muted-foreground", className)}>No events yet</p>;
+  }
+
+  return (
+    <div className={cn("space-y-1", className)} data-testid={`job-events-${jobId}`}>
+      {expandable && hasOlder && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => setLimit(limit + pageSize)}
+          data-testid={`button-older-events-${jobId}`}
+        >
+          Show older
+        </Button>
+      )}
+      <div className="font-mono text-[11px] leading-relaxed space-y-0.5">
+        {events.map((event) => (
+          <div key={event.id} className={cn("flex gap-2", LEVEL_STYLES[event.level])}>
+            <span className="flex-shrink-0 opacity-70">{format(new Date(event.createdAt), "HH:mm:ss")}</span>
+            <span className="break-words min-w-0">{event.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
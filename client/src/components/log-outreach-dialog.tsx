@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { OUTREACH_TYPE_CONFIG, OUTREACH_OUTCOMES } from "@/lib/outreachConfig";
+import type { ContactWithSongwriter, OutreachActivity, PlaylistSnapshot } from "@shared/schema";
+
+interface LogOutreachDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contactId?: string | null;
+  activity?: OutreachActivity | null;
+}
+
+const NO_TRACK = "none";
+const NO_OUTCOME = "none";
+
+function toDateTimeInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function LogOutreachDialog({ open, onOpenChange, contactId, activity }: LogOutreachDialogProps) {
+  const { toast } = useToast();
+  const isEditing = !!activity;
+  const [selectedContactId, setSelectedContactId] = useState<string | null>(contactId ?? null);
+  const [contactSearch, setContactSearch] = useState("");
+  const debouncedContactSearch = useDebounce(contactSearch, 300);
+  const [form, setForm] = useState({
+    activityType: "email",
+    channel: "",
+    subject: "",
+    body: "",
+    outcome: NO_OUTCOME,
+    relatedTrackId: NO_TRACK,
+    performedAt: toDateTimeInput(new Date()),
+  });
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSelectedContactId(activity?.contactId ?? contactId ?? null);
+    setContactSearch("");
+    setForm({
+      activityType: activity?.activityType ?? "email",
+      channel: activity?.channel ?? "",
+      subject: activity?.subject ?? "",
+      body: activity?.body ?? "",
+      outcome: activity?.outcome ?? NO_OUTCOME,
+      relatedTrackId: activity?.relatedTrackId ?? NO_TRACK,
+      performedAt: toDateTimeInput(activity ? new Date(activity.performedAt) : new Date()),
+    });
+  }, [open, contactId, activity]);
+
+  // Contact picker (only when the dialog isn't scoped to a contact)
+  const { data: contactResults } = useQuery<{ contacts: ContactWithSongwriter[] }>({
+    queryKey: ["/api/contacts", { search: debouncedContactSearch, limit: 8 }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "8", sortField: "songwriterName", sortDirection: "asc" });
+      if (debouncedContactSearch) params.append("search", debouncedContactSearch);
+      const response = await fetch(`/api/contacts?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch contacts");
+      return response.json();
+    },
+    enabled: open && !contactId && !isEditing,
+  });
+
+  // Tracks for the related-track selector
+  const { data: contactTracks = [] } = useQuery<PlaylistSnapshot[]>({
+    queryKey: ["/api/contacts", selectedContactId, "tracks"],
+    queryFn: async () => {
+      if (!selectedContactId) return [];
+      const response = await fetch(`/api/contacts/${selectedContactId}/tracks`);
+      if (!response.ok) return [];
+      return response.json();
+    },
+    enabled: open && !!selectedContactId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedContactId) throw new Error("Select a contact first");
+      const payload = {
+        activityType: form.activityType,
+        channel: form.channel || null,
+        subject: form.subject || null,
+        body: form.body || null,
+        outcome: form.outcome === NO_OUTCOME ? null : form.outcome,
+        relatedTrackId: form.relatedTrackId === NO_TRACK ? null : form.relatedTrackId,
+        performedAt: new Date(form.performedAt).toISOString(),
+      };
+      if (isEditing && activity) {
+        return apiRequest("PATCH", `/api/contacts/${selectedContactId}/outreach/${activity.id}`, payload);
+      }
+      return apiRequest("POST", `/api/contacts/${selectedContactId}/outreach`, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/outreach"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts", selectedContactId, "outreach"] });
+      toast({
+        title: isEditing ? "Outreach updated" : "Outreach logged",
+        description: isEditing ? "The outreach entry has been updated" : "The touch has been added to the outreach log",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save outreach",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedContactName = contactResults?.contacts.find(c => c.id === selectedContactId)?.songwriterName;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-log-outreach">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Outreach" : "Log Outreach"}</DialogTitle>
+          <DialogDescription>
+            Record a touch with a songwriter so the team can see the full history
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!contactId && !isEditing && (
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <Input
+                placeholder="Search songwriters..."
+                value={contactSearch}
+                onChange={(e) => setContactSearch(e.target.value)}
+                data-testid="input-outreach-contact-search"
+              />
+              <div className="max-h-40 overflow-y-auto rounded-md border divide-y">
+                {(contactResults?.contacts || []).map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    onClick={() => setSelectedContactId(c.id)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 text-sm hover-elevate",
+                      selectedContactId === c.id && "bg-primary/10 text-primary font-medium"
+                    )}
+                    data-testid={`button-outreach-contact-${c.id}`}
+                  >
+                    {c.songwriterName}
+                  </button>
+                ))}
+                {contactResults && contactResults.contacts.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-muted-foreground">No contacts found</p>
+                )}
+              </div>
+              {selectedContactName && (
+                <p className="text-xs text-muted-foreground">Selected: {selectedContactName}</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.activityType} onValueChange={(value) => setForm({ ...form, activityType: value })}>
+                <SelectTrigger data-testid="select-outreach-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(OUTREACH_TYPE_CONFIG).map(([key, config]) => (
+                    <SelectItem key={key} value={key}>{config.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Outcome</Label>
+              <Select value={form.outcome} onValueChange={(value) => setForm({ ...form, outcome: value })}>
+                <SelectTrigger data-testid="select-outreach-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OUTCOME}>Pending</SelectItem>
+                  {OUTREACH_OUTCOMES.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Input
+                placeholder="e.g. Instagram, Gmail"
+                value={form.channel}
+                onChange={(e) => setForm({ ...form, channel: e.target.value })}
+                data-testid="input-outreach-channel"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input
+                type="datetime-local"
+                value={form.performedAt}
+                onChange={(e) => setForm({ ...form, performedAt: e.target.value })}
+                data-testid="input-outreach-date"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Related Track</Label>
+            <Select
+              value={form.relatedTrackId}
+              onValueChange={(value) => setForm({ ...form, relatedTrackId: value })}
+              disabled={!selectedContactId}
+            >
+              <SelectTrigger data-testid="select-outreach-track">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TRACK}>None</SelectItem>
+                {contactTracks.map((track) => (
+                  <SelectItem key={track.id} value={track.id}>
+                    {track.trackName} — {track.artistName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Subject</Label>
+            <Input
+              placeholder="Subject or summary"
+              value={form.subject}
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              data-testid="input-outreach-subject"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              placeholder="What was said, next steps..."
+              value={form.body}
+              onChange={(e) => setForm({ ...form, body: e.target.value })}
+              rows={4}
+              data-testid="textarea-outreach-body"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-outreach">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!selectedContactId || saveMutation.isPending}
+            data-testid="button-save-outreach"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isEditing ? "Save Changes" : "Log Outreach"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ListMusic, Zap } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface PlaylistAppearanceSummary {
+  appearances: Array<{
+    playlistId: string;
+    playlistName: string;
+    isEditorial: boolean;
+    followers: number | null;
+    imageUrl: string | null;
+    trackCount: number;
+    firstSeenAt: string;
+    lastSeenAt: string;
+  }>;
+  totalPlaylists: number;
+  editorialPlaylists: number;
+  combinedReach: number;
+  momentum: {
+    score: number;
+    level: "high" | "medium" | "low" | "none";
+    windowDays: number;
+    playlists: string[];
+  };
+}
+
+const MOMENTUM_STYLES: Record<PlaylistAppearanceSummary["momentum"]["level"], string> = {
+  high: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
+  medium: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  low: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
+  none: "text-muted-foreground",
+};
+
+interface PlaylistAppearancesProps {
+  queryKey: string[];
+  enabled: boolean;
+  showTrackCount?: boolean;
+}
+
+// Every tracked playlist a track or writer has appeared on, with reach and editorial momentum
+export function PlaylistAppearances({ queryKey, enabled, showTrackCount = false }: PlaylistAppearancesProps) {
+  const { data, isLoading } = useQuery<PlaylistAppearanceSummary>({
+    queryKey,
+    enabled,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!data || data.totalPlaylists === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-4 rounded-lg space-y-3" data-testid="card-playlist-appearances">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <ListMusic className="h-4 w-4" />
+          Playlist Appearances
+        </h3>
+        <Badge
+          variant="outline"
+          className={cn("text-xs gap-1", MOMENTUM_STYLES[data.momentum.level])}
+          title={data.momentum.playlists.join(", ") || undefined}
+          data-testid="badge-playlist-momentum"
+        >
+          <Zap className="h-3 w-3" />
+          {data.momentum.score} editorial pickup{data.momentum.score === 1 ? "" : "s"} in {data.momentum.windowDays}d
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <span className="text-xs text-muted-foreground block mb-1">Playlists</span>
+          <span className="font-semibold" data-testid="text-total-playlists">{data.totalPlaylists}</span>
+        </div>
+        <div>
+          <span className="text-xs text-muted-foreground block mb-1">Editorial</span>
+          <span className="font-semibold">{data.editorialPlaylists}</span>
+        </div>
+        <div>
+          <span className="text-xs text-muted-foreground block mb-1">Combined Reach</span>
+          <span className="font-semibold" data-testid="text-combined-reach">{data.combinedReach.toLocaleString()}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2 pt-2 border-t">
+        {data.appearances.map((appearance) => (
+          <div key={appearance.playlistId} className="flex items-center justify-between gap-3 text-xs" data-testid={`row-appearance-${appearance.playlistId}`}>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{appearance.playlistName}</span>
+                {appearance.isEditorial && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">Editorial</Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground">
+                {format(new Date(appearance.firstSeenAt), "MMM d, yyyy")} – {format(new Date(appearance.lastSeenAt), "MMM d, yyyy")}
+                {showTrackCount && ` · ${appearance.trackCount} track${appearance.trackCount === 1 ? "" : "s"}`}
+              </p>
+            </div>
+            <span className="text-muted-foreground flex-shrink-0">
+              {appearance.followers !== null ? `${appearance.followers.toLocaleString()} followers` : "—"}
+            </span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,284 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { type PlaylistCandidate, type TrackedPlaylist } from "@shared/schema";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Music2, Plus, X, Telescope, Loader2, ExternalLink } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface PlaylistDiscoveryQueueProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPlaylistTracked?: (playlistId: string) => void;
+}
+
+interface MatchedContact {
+  contactId: string;
+  songwriterName: string;
+  unsignedScore: number;
+  trackNames: string[];
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  chartmetric_track: "On contact tracks",
+  chartmetric_search: "Chartmetric search",
+  spotify_search: "Spotify search",
+};
+
+function parseMatchedContacts(candidate: PlaylistCandidate): MatchedContact[] {
+  if (!candidate.matchedContacts) return [];
+  try {
+    return JSON.parse(candidate.matchedContacts);
+  } catch {
+    return [];
+  }
+}
+
+// Review queue for playlists suggested by the discovery job, ranked by overlap with high-score contacts
+export function PlaylistDiscoveryQueue({ open, onOpenChange, onPlaylistTracked }: PlaylistDiscoveryQueueProps) {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ candidates: PlaylistCandidate[]; isRunning: boolean }>({
+    queryKey: ["/api/playlist-discovery/candidates"],
+    enabled: open,
+  });
+
+  const candidates = data?.candidates || [];
+  const isRunning = data?.isRunning ?? false;
+
+  useWebSocket({
+    onMessage: (message) => {
+      if (message.type === 'playlist_discovery_complete') {
+        queryClient.invalidateQueries({ queryKey: ["/api/playlist-discovery/candidates"] });
+        if (open) {
+          toast({
+            title: "Playlist discovery complete",
+            description: `${message.candidatesFound ?? 0} candidate playlists from ${message.contactsScanned ?? 0} contacts`,
+            variant: "success",
+          });
+        }
+      }
+    },
+  });
+
+  const runDiscoveryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/playlist-discovery/run", {});
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlist-discovery/candidates"] });
+      toast({
+        title: "Discovery started",
+        description: "Searching playlists for your top contacts' tracks. This can take a few minutes.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start discovery",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const trackPlaylistMutation = useMutation({
+    mutationFn: async (candidate: PlaylistCandidate): Promise<TrackedPlaylist> => {
+      const response = await apiRequest("POST", "/api/tracked-playlists", {
+        name: candidate.name,
+        playlistId: candidate.playlistId,
+        spotifyUrl: candidate.spotifyUrl,
+        useScraping: candidate.isEditorial === 1,
+        totalTracks: candidate.totalTracks,
+        curator: candidate.curator,
+        followers: candidate.followers,
+        imageUrl: candidate.imageUrl,
+      });
+      return await response.json();
+    },
+    onSuccess: (playlist) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlist-discovery/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tracked-playlists"] });
+      toast({
+        title: "Playlist tracked",
+        description: `${playlist.name} added. Fetching tracks...`,
+      });
+      onPlaylistTracked?.(playlist.playlistId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to track playlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (candidateId: string) => {
+      const response = await apiRequest("PATCH", `/api/playlist-discovery/candidates/${candidateId}`, { status: 'dismissed' });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlist-discovery/candidates"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to dismiss playlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Telescope className="h-5 w-5" />
+            Discover Playlists
+          </SheetTitle>
+          <SheetDescription>
+            Untracked playlists featuring your high-score contacts, ranked by overlap.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center justify-between gap-2 py-4">
+          <span className="text-sm text-muted-foreground" data-testid="text-candidate-count">
+            {candidates.length} playlist{candidates.length === 1 ? "" : "s"} to review
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => runDiscoveryMutation.mutate()}
+            disabled={isRunning || runDiscoveryMutation.isPending}
+            data-testid="button-run-discovery"
+          >
+            {isRunning || runDiscoveryMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Telescope className="h-4 w-4" />
+            )}
+            {isRunning ? "Discovering..." : "Run Discovery"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : candidates.length === 0 ? (
+          <div className="text-center py-12 text-sm text-muted-foreground" data-testid="text-no-candidates">
+            No playlists waiting for review. Run discovery to search for new ones.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {candidates.map((candidate) => {
+              const matchedContacts = parseMatchedContacts(candidate);
+              const isTracking = trackPlaylistMutation.isPending && trackPlaylistMutation.variables?.id === candidate.id;
+
+              return (
+                <Card key={candidate.id} className="p-4 space-y-3" data-testid={`card-candidate-${candidate.id}`}>
+                  <div className="flex items-start gap-3">
+                    <Avatar className="h-12 w-12 rounded-md flex-shrink-0">
+                      <AvatarImage src={candidate.imageUrl || undefined} alt={candidate.name} className="object-cover" />
+                      <AvatarFallback className="rounded-md bg-primary/10">
+                        <Music2 className="h-5 w-5 text-primary" />
+                      </AvatarFallback>
+                    </Avatar>
+
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <a
+                          href={candidate.spotifyUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium truncate hover:underline"
+                        >
+                          {candidate.name}
+                        </a>
+                        <ExternalLink className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {candidate.curator || "Unknown curator"}
+                        {candidate.followers !== null && ` · ${candidate.followers.toLocaleString()} followers`}
+                        {candidate.totalTracks !== null && ` · ${candidate.totalTracks} tracks`}
+                      </p>
+                    </div>
+
+                    <Badge variant="secondary" className="flex-shrink-0" title="Overlap with high-score contacts" data-testid={`badge-overlap-${candidate.id}`}>
+                      {candidate.overlapScore.toFixed(1)}
+                    </Badge>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    {candidate.isEditorial === 1 && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">Editorial</Badge>
+                    )}
+                    {(candidate.sources || []).map((source) => (
+                      <Badge key={source} variant="outline" className="text-[10px] px-1.5 py-0">
+                        {SOURCE_LABELS[source] || source}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  {matchedContacts.length > 0 && (
+                    <p className="text-xs">
+                      <span className="text-muted-foreground">Matches: </span>
+                      {matchedContacts.slice(0, 3).map((contact) => (
+                        `${contact.songwriterName} (${contact.unsignedScore})`
+                      )).join(", ")}
+                      {matchedContacts.length > 3 && ` +${matchedContacts.length - 3} more`}
+                      {candidate.matchedTrackCount > 0 && (
+                        <span className="text-muted-foreground"> · {candidate.matchedTrackCount} track{candidate.matchedTrackCount === 1 ? "" : "s"} on playlist</span>
+                      )}
+                    </p>
+                  )}
+
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      Found {formatDistanceToNow(new Date(candidate.lastDiscoveredAt), { addSuffix: true })}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => dismissMutation.mutate(candidate.id)}
+                        disabled={dismissMutation.isPending}
+                        data-testid={`button-dismiss-candidate-${candidate.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => trackPlaylistMutation.mutate(candidate)}
+                        disabled={trackPlaylistMutation.isPending}
+                        data-testid={`button-track-candidate-${candidate.id}`}
+                      >
+                        {isTracking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                        Track this playlist
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
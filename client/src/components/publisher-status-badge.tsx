@@ -1,8 +1,8 @@
 import { Badge } from "@/components/ui/badge";
-import { Building2, User, Users, Building } from "lucide-react";
+import { Building2, User, Users, Building, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-type PublisherStatus = "Unsigned" | "Self-Published" | "Indie" | "Major" | null | undefined;
+type PublisherStatus = "Unsigned" | "Self-Published" | "Admin" | "Indie" | "Major" | null | undefined;
 
 interface PublisherStatusBadgeProps {
   status: PublisherStatus | string;
@@ -16,6 +16,7 @@ function normalizeStatus(status: PublisherStatus | string): PublisherStatus {
   
   if (normalized.includes("unsigned") || normalized === "none") return "Unsigned";
   if (normalized.includes("self") || normalized.includes("self-published")) return "Self-Published";
+  if (normalized.includes("admin")) return "Admin";
   if (normalized.includes("indie") || normalized.includes("independent")) return "Indie";
   if (normalized.includes("major")) return "Major";
   
@@ -38,26 +39,33 @@ function getStatusConfig(status: PublisherStatus) {
         icon: User,
         priority: 2,
       };
+    case "Admin":
+      return {
+        label: "Admin",
+        className: "bg-teal-500/20 text-teal-400 border-teal-500/30 hover-elevate",
+        icon: FileText,
+        priority: 3,
+      };
     case "Indie":
       return {
         label: "Indie",
         className: "bg-amber-500/20 text-amber-400 border-amber-500/30 hover-elevate",
         icon: Users,
-        priority: 3,
+        priority: 4,
       };
     case "Major":
       return {
         label: "Major",
         className: "bg-slate-500/20 text-slate-400 border-slate-500/30 hover-elevate",
         icon: Building,
-        priority: 4,
+        priority: 5,
       };
     default:
       return {
         label: "Unknown",
         className: "bg-muted/40 text-muted-foreground border-muted hover-elevate",
         icon: Building2,
-        priority: 5,
+        priority: 6,
       };
   }
 }
@@ -59,6 +59,8 @@ interface FullTrackDetails extends PlaylistSnapshot {
   tags: Tag[];
   activity: ActivityHistory[];
   artists: Artist[];
+  daysOnPlaylist: number | null;
+  removedAt: string | null;
 }
 
 export function TrackDetailDrawerV2({
@@ -321,6 +323,23 @@ export function TrackDetailDrawerV2({
                         Added {formatDistanceToNow(new Date(displayTrack.addedAt), { addSuffix: true })}
                       </Badge>
                     )}
+
+                    {fullTrack && fullTrack.daysOnPlaylist !== null && (
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-xs",
+                          fullTrack.removedAt
+                            ? "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20"
+                            : "text-muted-foreground"
+                        )}
+                        data-testid={`badge-days-on-playlist-${displayTrack.id}`}
+                      >
+                        {fullTrack.removedAt
+                          ? `Removed ${formatDistanceToNow(new Date(fullTrack.removedAt), { addSuffix: true })} after ${fullTrack.daysOnPlaylist}d`
+                          : `${fullTrack.daysOnPlaylist}d on playlist`}
+                      </Badge>
+                    )}
                   </div>
                 </div>
               </div>
@@ -2,7 +2,7 @@ import { useEffect, useCallback } from 'react';
 import { useWebSocketContext } from '@/contexts/WebSocketContext';
 
 interface WebSocketMessage {
-  type: 'connected' | 'track_enriched' | 'batch_complete' | 'enrichment_progress' | 'metric_update' | 'playlist_error' | 'playlist_updated' | 'playlist_quality_updated' | 'playlist_fetch_complete' | 'enrichment_job_started' | 'enrichment_job_completed' | 'enrichment_job_failed' | 'enrichment_phase_started';
+  type: 'connected' | 'track_enriched' | 'batch_complete' | 'enrichment_progress' | 'metric_update' | 'playlist_error' | 'playlist_updated' | 'playlist_quality_updated' | 'playlist_fetch_complete' | 'playlist_discovery_complete' | 'enrichment_job_started' | 'enrichment_job_completed' | 'enrichment_job_failed' | 'enrichment_phase_started' | 'enrichment_job_cancelled' | 'enrichment_job_paused' | 'enrichment_job_resumed' | 'enrichment_job_event';
   trackId?: string;
   trackName?: string;
   artistName?: string;
@@ -27,6 +27,11 @@ interface WebSocketMessage {
   success?: boolean;
   phase?: number;
   phaseName?: string;
+  status?: string;
+  stopped?: boolean;
+  event?: any;
+  contactsScanned?: number;
+  candidatesFound?: number;
 }
 
 interface UseWebSocketOptions {
@@ -40,6 +45,10 @@ interface UseWebSocketOptions {
   onJobCompleted?: (data: WebSocketMessage) => void;
   onJobFailed?: (data: WebSocketMessage) => void;
   onPhaseStarted?: (data: WebSocketMessage) => void;
+  onJobCancelled?: (data: WebSocketMessage) => void;
+  onJobPaused?: (data: WebSocketMessage) => void;
+  onJobResumed?: (data: WebSocketMessage) => void;
+  onJobEvent?: (data: WebSocketMessage) => void;
   onConnected?: () => void;
   onMessage?: (data: WebSocketMessage) => void;
 }
@@ -121,6 +130,26 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
           options.onPhaseStarted(data);
         }
         break;
+      case 'enrichment_job_cancelled':
+        if (options.onJobCancelled) {
+          options.onJobCancelled(data);
+        }
+        break;
+      case 'enrichment_job_paused':
+        if (options.onJobPaused) {
+          options.onJobPaused(data);
+        }
+        break;
+      case 'enrichment_job_resumed':
+        if (options.onJobResumed) {
+          options.onJobResumed(data);
+        }
+        break;
+      case 'enrichment_job_event':
+        if (options.onJobEvent) {
+          options.onJobEvent(data);
+        }
+        break;
     }
   }, [options]);
 
@@ -0,0 +1,52 @@
+import { Send, Handshake, FileSignature, XCircle } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+/**
+ * DEAL CONFIGURATION
+ *
+ * Display metadata for deal pipeline stages and publishing deal types.
+ * Deal stages continue the contact funnel past 'search'
+ */
+
+export const DEAL_STAGE_CONFIG: Record<string, { label: string; icon: LucideIcon; color: string }> = {
+  offer_sent: {
+    label: "Offer Sent",
+    icon: Send,
+    color: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  },
+  negotiating: {
+    label: "Negotiating",
+    icon: Handshake,
+    color: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  },
+  signed: {
+    label: "Signed",
+    icon: FileSignature,
+    color: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
+  },
+  passed: {
+    label: "Passed",
+    icon: XCircle,
+    color: "bg-muted text-muted-foreground border-border",
+  },
+};
+
+export const DEAL_TYPE_LABELS: Record<string, string> = {
+  co_publishing: "Co-Publishing",
+  administration: "Administration",
+  full_publishing: "Full Publishing",
+};
+
+export function isDealStage(stage: string | null | undefined): boolean {
+  return !!stage && stage in DEAL_STAGE_CONFIG;
+}
+
+/**
+ * Compact advance display, e.g. 25000 -> "$25K"
+ */
+export function formatAdvance(amount: number | null | undefined): string | null {
+  if (amount === null || amount === undefined) return null;
+  if (amount >= 1_000_000) return `$${(amount / 1_000_000).toFixed(1)}M`;
+  if (amount >= 1_000) return `$${Math.round(amount / 1_000)}K`;
+  return `$${amount}`;
+}
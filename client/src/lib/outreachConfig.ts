@@ -0,0 +1,60 @@
+import { Mail, MessageCircle, Phone, Users, Share2, MoreHorizontal } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+/**
+ * OUTREACH CONFIGURATION
+ *
+ * Display metadata for outreach activity types and the outcome
+ * vocabulary used when logging touches against a contact
+ */
+
+export const OUTREACH_TYPE_CONFIG: Record<string, { label: string; icon: LucideIcon; color: string }> = {
+  dm: {
+    label: "DM",
+    icon: MessageCircle,
+    color: "bg-purple-500/20 text-purple-400 border-purple-500/30",
+  },
+  email: {
+    label: "Email",
+    icon: Mail,
+    color: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  },
+  call: {
+    label: "Call",
+    icon: Phone,
+    color: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
+  },
+  meeting: {
+    label: "Meeting",
+    icon: Users,
+    color: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  },
+  social_touch: {
+    label: "Social Touch",
+    icon: Share2,
+    color: "bg-pink-500/20 text-pink-400 border-pink-500/30",
+  },
+  other: {
+    label: "Other",
+    icon: MoreHorizontal,
+    color: "bg-muted text-muted-foreground border-border",
+  },
+};
+
+export const OUTREACH_OUTCOMES = [
+  { value: "no_response", label: "No Response" },
+  { value: "replied", label: "Replied" },
+  { value: "interested", label: "Interested" },
+  { value: "not_interested", label: "Not Interested" },
+  { value: "meeting_booked", label: "Meeting Booked" },
+  { value: "follow_up", label: "Follow Up Needed" },
+];
+
+/**
+ * Human-readable label for an outcome value (falls back to the raw value
+ * for outcomes logged outside the standard vocabulary)
+ */
+export function getOutcomeLabel(outcome: string | null | undefined): string | null {
+  if (!outcome) return null;
+  return OUTREACH_OUTCOMES.find(o => o.value === outcome)?.label || outcome;
+}
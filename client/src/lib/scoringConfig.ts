@@ -0,0 +1,94 @@
+/**
+ * SCORING CONFIGURATION
+ *
+ * Display metadata for the contact scoring categories and the signals each one awards.
+ * Keys match the category and signal names in server/scoring/contactScoring.ts
+ */
+
+export const SCORING_CATEGORIES: Array<{ name: string; signals: Array<{ key: string; label: string }> }> = [
+  {
+    name: "Publishing Status",
+    signals: [
+      { key: "NO_PUBLISHER", label: "No publisher on any track" },
+      { key: "SELF_PUBLISHED", label: "Self-published" },
+      { key: "ADMIN_ONLY_PUBLISHER", label: "Admin-only publisher" },
+    ],
+  },
+  {
+    name: "Release Pathway",
+    signals: [
+      { key: "DIY_DISTRIBUTION", label: "DIY distribution" },
+      { key: "INDEPENDENT_DISTRIBUTOR", label: "Independent distributor" },
+      { key: "MAJOR_DISTRIBUTION", label: "Major-owned distribution" },
+      { key: "MAJOR_LABEL", label: "Major label" },
+      { key: "UNKNOWN_LABEL", label: "Unknown label" },
+    ],
+  },
+  {
+    name: "Early Career Signals",
+    signals: [
+      { key: "FRESH_FINDS", label: "On Fresh Finds" },
+    ],
+  },
+  {
+    name: "Metadata Quality",
+    signals: [
+      { key: "COMPLETENESS_UNDER_25", label: "Under 25% complete" },
+      { key: "COMPLETENESS_25_50", label: "25-50% complete" },
+      { key: "COMPLETENESS_50_75", label: "50-75% complete" },
+      { key: "COMPLETENESS_75_PLUS", label: "75%+ complete" },
+    ],
+  },
+  {
+    name: "Catalog Patterns",
+    signals: [
+      { key: "UNSIGNED_DISTRIBUTION_PATTERN", label: "Mostly DIY/indie releases" },
+    ],
+  },
+  {
+    name: "Profile Verification",
+    signals: [
+      { key: "MUSICBRAINZ_PRESENT", label: "Found on MusicBrainz" },
+    ],
+  },
+];
+
+export const SCORE_BAND_LABELS: Record<string, string> = {
+  high: "High (7-10)",
+  medium: "Medium (4-6)",
+  low: "Low (0-3)",
+  unscored: "Unscored",
+};
+
+// How a signal dropping out reads in the score history, e.g. NO_PUBLISHER -> a publisher was found
+const SIGNAL_LOST_LABELS: Record<string, string> = {
+  NO_PUBLISHER: "Publisher found",
+  SELF_PUBLISHED: "No longer self-published",
+  ADMIN_ONLY_PUBLISHER: "No longer admin-only",
+  FRESH_FINDS: "No longer on Fresh Finds",
+  MUSICBRAINZ_PRESENT: "No longer found on MusicBrainz",
+  UNSIGNED_DISTRIBUTION_PATTERN: "Catalog no longer mostly DIY/indie",
+};
+
+export interface ScoreSignalChange {
+  category: string;
+  signal: string;
+  change: "gained" | "lost" | "reweighted";
+  description: string;
+  pointsDelta: number;
+}
+
+export function getSignalLabel(signal: string): string | null {
+  for (const category of SCORING_CATEGORIES) {
+    const match = category.signals.find((s) => s.key === signal);
+    if (match) return match.label;
+  }
+  return null;
+}
+
+export function describeSignalChange(change: ScoreSignalChange): string {
+  const label = getSignalLabel(change.signal) || change.description;
+  if (change.change === "lost") return SIGNAL_LOST_LABELS[change.signal] || `No longer: ${label}`;
+  if (change.change === "reweighted") return `${label} reweighted`;
+  return label;
+}
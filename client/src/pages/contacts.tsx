@@ -34,6 +34,7 @@ import {
 import { DataTable, type DataTableColumn } from "@/components/ui/data-table";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
+import { DEAL_STAGE_CONFIG } from "@/lib/dealConfig";
 import type { ContactWithSongwriter } from "@shared/schema";
 import { ContactDetailDrawer } from "@/components/contact-detail-drawer";
 import { PageContainer } from "@/components/layout/page-container";
@@ -286,7 +287,7 @@ export default function Contacts() {
       header: "Stage",
       sortField: "stage",
       cell: (contact) => {
-        const stageConfig = STAGE_CONFIG[contact.stage as keyof typeof STAGE_CONFIG];
+        const stageConfig = STAGE_CONFIG[contact.stage as keyof typeof STAGE_CONFIG] || DEAL_STAGE_CONFIG[contact.stage];
         const Icon = stageConfig?.icon;
 
         return (
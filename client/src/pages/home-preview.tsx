@@ -555,7 +555,7 @@ function MissionControlConcept({ stats, contacts, playlists }: any) {
                 <AlertCircle className="h-4 w-4 mt-0.5 text-muted-foreground" />
                 <div className="flex-1 min-w-0">
                   <p className="font-medium">Failed Retry</p>
-                  <p className="text-xs text-muted-foreground">Daily 2:00 AM</p>
+                  <p className="text-xs text-muted-foreground">Hourly</p>
                 </div>
               </div>
             </CardContent>
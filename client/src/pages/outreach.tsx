@@ -1,18 +1,346 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Plus, Music, MessageCircle, MoreHorizontal, Edit, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SimplePagination } from "@/components/ui/simple-pagination";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PageContainer } from "@/components/layout/page-container";
+import { FilterBar } from "@/components/layout/filter-bar";
+import { StickyHeaderContainer } from "@/components/layout/sticky-header-container";
+import { ContactDetailDrawer } from "@/components/contact-detail-drawer";
+import { LogOutreachDialog } from "@/components/log-outreach-dialog";
+import { OUTREACH_TYPE_CONFIG, OUTREACH_OUTCOMES, getOutcomeLabel } from "@/lib/outreachConfig";
+import { cn } from "@/lib/utils";
+import type { OutreachActivityWithContact } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+interface OutreachFeedResponse {
+  activities: OutreachActivityWithContact[];
+  total: number;
+  outcomes: string[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
 
 export default function OutreachPipeline() {
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [outcomeFilter, setOutcomeFilter] = useState("all");
+  const [trackFilter, setTrackFilter] = useState<{ id: string; name: string } | null>(null);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [logDialogOpen, setLogDialogOpen] = useState(false);
+  const [editingActivity, setEditingActivity] = useState<OutreachActivityWithContact | null>(null);
+  const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<OutreachFeedResponse>({
+    queryKey: ["/api/outreach", { typeFilter, outcomeFilter, trackId: trackFilter?.id, fromDate, toDate, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (typeFilter !== "all") params.append("type", typeFilter);
+      if (outcomeFilter !== "all") params.append("outcome", outcomeFilter);
+      if (trackFilter) params.append("trackId", trackFilter.id);
+      if (fromDate) params.append("from", new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) params.append("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+      params.append("limit", PAGE_SIZE.toString());
+      params.append("offset", ((page - 1) * PAGE_SIZE).toString());
+
+      const response = await fetch(`/api/outreach?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch outreach feed");
+      return response.json();
+    },
+  });
+
+  const activities = data?.activities || [];
+  const total = data?.total || 0;
+
+  // Merge the standard outcome vocabulary with any custom outcomes already logged
+  const outcomeOptions = useMemo(() => {
+    const options = [{ value: "all", label: "All Outcomes" }, ...OUTREACH_OUTCOMES];
+    for (const outcome of data?.outcomes || []) {
+      if (!options.some(o => o.value === outcome)) {
+        options.push({ value: outcome, label: outcome });
+      }
+    }
+    return options;
+  }, [data?.outcomes]);
+
+  // Group the timeline by calendar day
+  const groupedActivities = useMemo(() => {
+    const groups: Array<{ day: string; items: OutreachActivityWithContact[] }> = [];
+    for (const activity of activities) {
+      const day = format(new Date(activity.performedAt), "EEEE, MMM d, yyyy");
+      const group = groups[groups.length - 1];
+      if (group && group.day === day) {
+        group.items.push(activity);
+      } else {
+        groups.push({ day, items: [activity] });
+      }
+    }
+    return groups;
+  }, [activities]);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (activity: OutreachActivityWithContact) => {
+      return apiRequest("DELETE", `/api/contacts/${activity.contactId}/outreach/${activity.id}`);
+    },
+    onSuccess: (_data, activity) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/outreach"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts", activity.contactId, "outreach"] });
+      toast({
+        title: "Outreach deleted",
+        description: "The entry has been removed from the outreach log",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete outreach",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasFilters = typeFilter !== "all" || outcomeFilter !== "all" || !!trackFilter || !!fromDate || !!toDate;
+
+  const clearFilters = () => {
+    setTypeFilter("all");
+    setOutcomeFilter("all");
+    setTrackFilter(null);
+    setFromDate("");
+    setToDate("");
+    setPage(1);
+  };
+
+  const handleViewContact = (contactId: string) => {
+    setSelectedContactId(contactId);
+    setDrawerOpen(true);
+  };
+
+  const handleLogNew = () => {
+    setEditingActivity(null);
+    setLogDialogOpen(true);
+  };
+
+  const handleEdit = (activity: OutreachActivityWithContact) => {
+    setEditingActivity(activity);
+    setLogDialogOpen(true);
+  };
+
   return (
-    <div className="p-8">
-      <h1 className="text-3xl font-bold mb-2">Outreach Pipeline</h1>
-      <p className="text-muted-foreground mb-6">
-        Track interactions, outreach history, and publishing opportunities
-      </p>
-      
-      <Card className="glass-panel p-6">
+    <PageContainer className="space-y-6 fade-in">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Outreach</h1>
         <p className="text-muted-foreground">
-          Outreach Pipeline view - Coming soon. This will combine engagement tracking and opportunity management in one unified workflow.
+          Every touch logged across all contacts, newest first
         </p>
-      </Card>
-    </div>
+      </div>
+
+      <StickyHeaderContainer className="pb-4 border-b">
+        <FilterBar>
+          <FilterBar.FiltersGroup className="flex-wrap">
+            <FilterBar.Dropdown
+              value={typeFilter}
+              onChange={(value) => { setTypeFilter(value); setPage(1); }}
+              options={[
+                { value: "all", label: "All Types" },
+                ...Object.entries(OUTREACH_TYPE_CONFIG).map(([value, config]) => ({ value, label: config.label })),
+              ]}
+              testId="select-outreach-type-filter"
+            />
+            <FilterBar.Dropdown
+              value={outcomeFilter}
+              onChange={(value) => { setOutcomeFilter(value); setPage(1); }}
+              options={outcomeOptions}
+              testId="select-outreach-outcome-filter"
+            />
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={fromDate}
+                onChange={(e) => { setFromDate(e.target.value); setPage(1); }}
+                className="w-[150px]"
+                data-testid="input-outreach-from"
+              />
+              <span className="text-xs text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={toDate}
+                onChange={(e) => { setToDate(e.target.value); setPage(1); }}
+                className="w-[150px]"
+                data-testid="input-outreach-to"
+              />
+            </div>
+            {trackFilter && (
+              <Badge variant="default" className="gap-1 whitespace-nowrap" data-testid="badge-outreach-track-filter">
+                <Music className="h-3 w-3" />
+                {trackFilter.name}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => { setTrackFilter(null); setPage(1); }} />
+              </Badge>
+            )}
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters} data-testid="button-clear-outreach-filters">
+                <X className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            )}
+          </FilterBar.FiltersGroup>
+
+          <FilterBar.Actions>
+            <Button variant="gradient" size="sm" className="gap-2" onClick={handleLogNew} data-testid="button-log-outreach">
+              <Plus className="h-4 w-4" />
+              <span className="hidden sm:inline">Log Outreach</span>
+            </Button>
+          </FilterBar.Actions>
+        </FilterBar>
+      </StickyHeaderContainer>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : activities.length === 0 ? (
+        <Card className="glass-panel p-12">
+          <div className="flex flex-col items-center justify-center text-center">
+            <MessageCircle className="h-16 w-16 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No outreach logged</h3>
+            <p className="text-sm text-muted-foreground">
+              {hasFilters ? "Try adjusting your filters" : "Log a DM, email, call or meeting to start the timeline"}
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {groupedActivities.map((group) => (
+            <div key={group.day} className="space-y-3">
+              <h3 className="text-sm font-medium text-muted-foreground">{group.day}</h3>
+              <div className="relative space-y-3 border-l pl-6 ml-2">
+                {group.items.map((activity) => {
+                  const typeConfig = OUTREACH_TYPE_CONFIG[activity.activityType] || OUTREACH_TYPE_CONFIG.other;
+                  const Icon = typeConfig.icon;
+                  const outcomeLabel = getOutcomeLabel(activity.outcome);
+
+                  return (
+                    <Card key={activity.id} className="p-4 relative" data-testid={`card-outreach-${activity.id}`}>
+                      <div className="absolute -left-[2.15rem] top-4 h-6 w-6 rounded-full bg-background border flex items-center justify-center">
+                        <Icon className="h-3 w-3 text-muted-foreground" />
+                      </div>
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1 min-w-0 space-y-2">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <button
+                              type="button"
+                              className="font-medium hover:underline"
+                              onClick={() => handleViewContact(activity.contactId)}
+                              data-testid={`link-outreach-contact-${activity.id}`}
+                            >
+                              {activity.songwriterName}
+                            </button>
+                            <Badge variant="outline" className={cn("gap-1", typeConfig.color)}>
+                              <Icon className="h-3 w-3" />
+                              {typeConfig.label}
+                            </Badge>
+                            {activity.channel && (
+                              <Badge variant="outline" className="font-normal">{activity.channel}</Badge>
+                            )}
+                            {outcomeLabel && (
+                              <Badge variant="secondary" data-testid={`badge-outreach-outcome-${activity.id}`}>
+                                {outcomeLabel}
+                              </Badge>
+                            )}
+                            <span className="text-xs text-muted-foreground ml-auto">
+                              {format(new Date(activity.performedAt), "h:mm a")}
+                            </span>
+                          </div>
+                          {activity.subject && (
+                            <p className="text-sm font-medium">{activity.subject}</p>
+                          )}
+                          {activity.body && (
+                            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{activity.body}</p>
+                          )}
+                          {activity.relatedTrackId && activity.relatedTrackName && (
+                            <Badge
+                              variant="outline"
+                              className="gap-1 font-normal cursor-pointer hover-elevate"
+                              onClick={() => {
+                                setTrackFilter({ id: activity.relatedTrackId!, name: activity.relatedTrackName! });
+                                setPage(1);
+                              }}
+                              data-testid={`badge-outreach-track-${activity.id}`}
+                            >
+                              <Music className="h-3 w-3" />
+                              {activity.relatedTrackName}
+                              {activity.relatedArtistName && ` — ${activity.relatedArtistName}`}
+                            </Badge>
+                          )}
+                        </div>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" data-testid={`button-outreach-actions-${activity.id}`}>
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleEdit(activity)}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onClick={() => deleteMutation.mutate(activity)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <SimplePagination
+            currentPage={page}
+            totalItems={total}
+            itemsPerPage={PAGE_SIZE}
+            onPageChange={setPage}
+            itemName="activities"
+          />
+        </div>
+      )}
+
+      <LogOutreachDialog
+        open={logDialogOpen}
+        onOpenChange={setLogDialogOpen}
+        activity={editingActivity}
+      />
+
+      <ContactDetailDrawer
+        contactId={selectedContactId}
+        open={drawerOpen}
+        onOpenChange={setDrawerOpen}
+      />
+    </PageContainer>
   );
 }
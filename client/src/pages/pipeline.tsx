@@ -1,18 +1,321 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Plus, MoreHorizontal, Edit, Trash2, DollarSign, Clock, Globe } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PageContainer } from "@/components/layout/page-container";
+import { ContactDetailDrawer } from "@/components/contact-detail-drawer";
+import { DealDialog } from "@/components/deal-dialog";
+import { DEAL_STAGE_CONFIG, DEAL_TYPE_LABELS, formatAdvance } from "@/lib/dealConfig";
+import { cn } from "@/lib/utils";
+import type { DealWithContact } from "@shared/schema";
 
 export default function Pipeline() {
-  return (
-    <div className="p-8">
-      <h1 className="text-3xl font-bold mb-2">Pipeline</h1>
-      <p className="text-muted-foreground mb-6">
-        Visualize your deals pipeline
-      </p>
-      
-      <Card className="glass-panel p-6">
-        <p className="text-muted-foreground">
-          Pipeline view placeholder - Coming soon
-        </p>
+  const { toast } = useToast();
+  const [dealDialogOpen, setDealDialogOpen] = useState(false);
+  const [editingDeal, setEditingDeal] = useState<DealWithContact | null>(null);
+  const [draggedDealId, setDraggedDealId] = useState<string | null>(null);
+  const [dropTargetStage, setDropTargetStage] = useState<string | null>(null);
+  const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+
+  const { data: deals = [], isLoading } = useQuery<DealWithContact[]>({
+    queryKey: ["/api/deals"],
+  });
+
+  const dealsByStage = useMemo(() => {
+    const grouped: Record<string, DealWithContact[]> = {};
+    for (const stage of Object.keys(DEAL_STAGE_CONFIG)) {
+      grouped[stage] = [];
+    }
+    for (const deal of deals) {
+      grouped[deal.stage]?.push(deal);
+    }
+    return grouped;
+  }, [deals]);
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ dealId, stage }: { dealId: string; stage: string }) => {
+      return apiRequest("POST", `/api/deals/${dealId}/move`, { stage });
+    },
+    onMutate: async ({ dealId, stage }) => {
+      // Optimistically move the card so the board doesn't snap back while the request is in flight
+      await queryClient.cancelQueries({ queryKey: ["/api/deals"] });
+      const previous = queryClient.getQueryData<DealWithContact[]>(["/api/deals"]);
+      queryClient.setQueryData<DealWithContact[]>(["/api/deals"], (old = []) =>
+        old.map((d) => (d.id === dealId ? { ...d, stage: stage as DealWithContact["stage"] } : d))
+      );
+      return { previous };
+    },
+    onError: (error: any, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(["/api/deals"], context.previous);
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move deal",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (dealId: string) => {
+      return apiRequest("DELETE", `/api/deals/${dealId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      toast({
+        title: "Deal deleted",
+        description: "The deal has been removed from the pipeline",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete deal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleNewDeal = () => {
+    setEditingDeal(null);
+    setDealDialogOpen(true);
+  };
+
+  const handleEditDeal = (deal: DealWithContact) => {
+    setEditingDeal(deal);
+    setDealDialogOpen(true);
+  };
+
+  const handleViewContact = (contactId: string) => {
+    setSelectedContactId(contactId);
+    setDrawerOpen(true);
+  };
+
+  const handleDrop = (stage: string) => {
+    const deal = deals.find((d) => d.id === draggedDealId);
+    setDraggedDealId(null);
+    setDropTargetStage(null);
+    if (!deal || deal.stage === stage) return;
+    moveMutation.mutate({ dealId: deal.id, stage });
+  };
+
+  const renderDealCard = (deal: DealWithContact) => {
+    const advance = formatAdvance(deal.advanceAmount);
+
+    return (
+      <Card
+        key={deal.id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          setDraggedDealId(deal.id);
+        }}
+        onDragEnd={() => {
+          setDraggedDealId(null);
+          setDropTargetStage(null);
+        }}
+        className={cn(
+          "glass-panel p-4 mb-3 cursor-grab active:cursor-grabbing transition-all duration-200",
+          draggedDealId === deal.id && "opacity-50"
+        )}
+        data-testid={`deal-card-${deal.id}`}
+      >
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex-1 min-w-0">
+              <button
+                type="button"
+                className="font-semibold text-sm truncate hover:underline text-left"
+                onClick={() => handleViewContact(deal.contactId)}
+                data-testid={`link-deal-contact-${deal.id}`}
+              >
+                {deal.songwriterName}
+              </button>
+              <p className="text-xs text-muted-foreground truncate">{deal.title}</p>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7" data-testid={`button-deal-menu-${deal.id}`}>
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleEditDeal(deal)} data-testid={`menu-edit-deal-${deal.id}`}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Terms
+                </DropdownMenuItem>
+                {Object.entries(DEAL_STAGE_CONFIG)
+                  .filter(([key]) => key !== deal.stage)
+                  .map(([key, config]) => (
+                    <DropdownMenuItem
+                      key={key}
+                      onClick={() => moveMutation.mutate({ dealId: deal.id, stage: key })}
+                      data-testid={`menu-move-deal-${key}-${deal.id}`}
+                    >
+                      <config.icon className="h-4 w-4 mr-2" />
+                      Move to {config.label}
+                    </DropdownMenuItem>
+                  ))}
+                <DropdownMenuItem
+                  className="text-destructive"
+                  onClick={() => deleteMutation.mutate(deal.id)}
+                  data-testid={`menu-delete-deal-${deal.id}`}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {DEAL_TYPE_LABELS[deal.dealType] || deal.dealType}
+            </Badge>
+            {deal.publisherSharePct !== null && (
+              <Badge variant="outline" className="text-xs">
+                {deal.publisherSharePct}/{100 - deal.publisherSharePct}
+              </Badge>
+            )}
+            {deal.adminFeePct !== null && (
+              <Badge variant="outline" className="text-xs">
+                {deal.adminFeePct}% admin
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {advance && (
+              <span className="flex items-center gap-1">
+                <DollarSign className="h-3 w-3" />
+                {advance}
+              </span>
+            )}
+            {deal.termMonths !== null && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {deal.termMonths} mo
+              </span>
+            )}
+            {deal.territory && (
+              <span className="flex items-center gap-1">
+                <Globe className="h-3 w-3" />
+                {deal.territory}
+              </span>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            In stage {formatDistanceToNow(new Date(deal.stageUpdatedAt))}
+          </p>
+        </div>
       </Card>
-    </div>
+    );
+  };
+
+  return (
+    <PageContainer className="space-y-6 fade-in">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Deals</h1>
+          <p className="text-muted-foreground">
+            Publishing offers from first terms to signature. Drag a card to move it between stages
+          </p>
+        </div>
+        <Button variant="gradient" size="sm" className="gap-2" onClick={handleNewDeal} data-testid="button-new-deal">
+          <Plus className="h-4 w-4" />
+          New Deal
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        {Object.entries(DEAL_STAGE_CONFIG).map(([stage, config]) => {
+          const stageDeals = dealsByStage[stage] || [];
+          const totalAdvance = stageDeals.reduce((sum, d) => sum + (d.advanceAmount || 0), 0);
+
+          return (
+            <div
+              key={stage}
+              className={cn(
+                "glass-panel rounded-lg p-4 transition-colors",
+                dropTargetStage === stage && "ring-2 ring-primary bg-primary/5"
+              )}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                if (dropTargetStage !== stage) setDropTargetStage(stage);
+              }}
+              onDragLeave={() => setDropTargetStage(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(stage);
+              }}
+              data-testid={`deal-column-${stage}`}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <config.icon className="h-4 w-4 text-muted-foreground" />
+                  <h3 className="font-semibold text-sm">{config.label}</h3>
+                </div>
+                <Badge variant="outline" className={cn("text-xs", config.color)}>
+                  {stageDeals.length}
+                </Badge>
+              </div>
+              {totalAdvance > 0 && (
+                <p className="text-xs text-muted-foreground mb-3">
+                  {formatAdvance(totalAdvance)} in advances
+                </p>
+              )}
+              <ScrollArea className="h-[calc(100vh-320px)]">
+                {isLoading ? (
+                  <div className="space-y-3">
+                    {[1, 2].map((i) => (
+                      <Skeleton key={i} className="h-28 w-full" />
+                    ))}
+                  </div>
+                ) : stageDeals.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    No deals
+                  </p>
+                ) : (
+                  stageDeals.map(renderDealCard)
+                )}
+              </ScrollArea>
+            </div>
+          );
+        })}
+      </div>
+
+      <DealDialog
+        open={dealDialogOpen}
+        onOpenChange={setDealDialogOpen}
+        deal={editingDeal}
+      />
+
+      <ContactDetailDrawer
+        contactId={selectedContactId}
+        open={drawerOpen}
+        onOpenChange={setDrawerOpen}
+      />
+    </PageContainer>
   );
 }
@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Music2, List, Calendar, Search, Filter, ExternalLink, MoreVertical, Eye, EyeOff, RefreshCw, Plus, LayoutGrid, LayoutList, User2, Users, ChevronDown, UserCheck, Trophy, TrendingUp, TrendingDown, Minus, Clock, Settings2, Flame, Link as LinkIcon, AlertTriangle, CheckCircle, XCircle, X } from "lucide-react";
+import { Music2, List, Calendar, Search, Filter, ExternalLink, MoreVertical, Eye, EyeOff, RefreshCw, Plus, LayoutGrid, LayoutList, User2, Users, ChevronDown, UserCheck, Trophy, TrendingUp, TrendingDown, Minus, Clock, Settings2, Flame, Link as LinkIcon, AlertTriangle, CheckCircle, XCircle, X, Telescope } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocket } from "@/hooks/use-websocket";
@@ -38,6 +38,7 @@ import { PageHeaderControls, type ViewMode } from "@/components/layout/page-head
 import { FilterBar } from "@/components/layout/filter-bar";
 import { StickyHeaderContainer } from "@/components/layout/sticky-header-container";
 import { AddPlaylistDialog } from "@/components/add-playlist-dialog";
+import { PlaylistDiscoveryQueue } from "@/components/playlist-discovery-queue";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 
@@ -48,6 +49,7 @@ export default function PlaylistsView() {
   const [selectedPlaylist, setSelectedPlaylist] = useState<TrackedPlaylist | null>(null);
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [discoveryOpen, setDiscoveryOpen] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("table");
   const [selectedPlaylistIds, setSelectedPlaylistIds] = useState<Set<string>>(new Set());
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
@@ -855,6 +857,17 @@ export default function PlaylistsView() {
             </DropdownMenuContent>
           </DropdownMenu>
 
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => setDiscoveryOpen(true)}
+            data-testid="button-discover-playlists"
+          >
+            <Telescope className="h-4 w-4" />
+            <span className="hidden sm:inline">Discover</span>
+          </Button>
+
           <Button 
             variant="gradient" 
             size="sm" 
@@ -878,6 +891,12 @@ export default function PlaylistsView() {
               });
             }}
           />
+
+          <PlaylistDiscoveryQueue
+            open={discoveryOpen}
+            onOpenChange={setDiscoveryOpen}
+            onPlaylistTracked={(spotifyPlaylistId) => fetchPlaylistDataMutation.mutate(spotifyPlaylistId)}
+          />
         </FilterBar.Actions>
       </FilterBar>
       </StickyHeaderContainer>
@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Bell, Plus, Play, Loader2, Edit, Trash2, X } from "lucide-react";
+import { DEAL_STAGE_CONFIG } from "@/lib/dealConfig";
+import type { AlertRule, Tag } from "@shared/schema";
+
+const METRIC_OPTIONS = [
+  { value: "spotify_streams", label: "Spotify Streams" },
+  { value: "youtube_views", label: "YouTube Views" },
+  { value: "wow_pct", label: "WoW Growth %" },
+  { value: "unsigned_score", label: "Unsigned Score" },
+  { value: "playlist_adds", label: "Playlist Adds (7 days)" },
+];
+
+const COMPARATOR_OPTIONS = [
+  { value: "gt", label: ">" },
+  { value: "gte", label: "≥" },
+  { value: "lt", label: "<" },
+  { value: "lte", label: "≤" },
+  { value: "eq", label: "=" },
+];
+
+const STAGE_OPTIONS = [
+  { value: "discovery", label: "Discovery" },
+  { value: "watch", label: "Watch List" },
+  { value: "search", label: "Active Search" },
+  ...Object.entries(DEAL_STAGE_CONFIG).map(([value, config]) => ({ value, label: config.label })),
+];
+
+const EMPTY_FORM = {
+  name: "",
+  metric: "wow_pct",
+  comparator: "gt",
+  threshold: "",
+  scope: "all",
+  scopeValue: "",
+};
+
+export default function SettingsAlerts() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alert-rules"],
+  });
+
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingRuleId(null);
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name.trim(),
+        metric: form.metric,
+        comparator: form.comparator,
+        threshold: parseInt(form.threshold, 10),
+        scope: form.scope,
+        scopeValue: form.scope === "all" ? null : form.scopeValue,
+      };
+      if (editingRuleId) {
+        return apiRequest("PATCH", `/api/alert-rules/${editingRuleId}`, payload);
+      }
+      return apiRequest("POST", "/api/alert-rules", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      toast({
+        title: editingRuleId ? "Rule updated" : "Rule created",
+        description: "The rule will be evaluated after the next snapshot or enrichment job",
+      });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save alert rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return apiRequest("PATCH", `/api/alert-rules/${id}`, { enabled: enabled ? 1 : 0 });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update alert rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/alert-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      toast({
+        title: "Rule deleted",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete alert rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const evaluateRulesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/alert-rules/evaluate");
+      return response.json();
+    },
+    onSuccess: (data: { rulesEvaluated: number; alertsCreated: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      toast({
+        title: "Rules Evaluated",
+        description: `${data.rulesEvaluated} rules checked, ${data.alertsCreated} new alerts`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to evaluate alert rules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (rule: AlertRule) => {
+    setEditingRuleId(rule.id);
+    setForm({
+      name: rule.name,
+      metric: rule.metric,
+      comparator: rule.comparator,
+      threshold: String(rule.threshold),
+      scope: rule.scope,
+      scopeValue: rule.scopeValue ?? "",
+    });
+  };
+
+  const describeScope = (rule: AlertRule) => {
+    if (rule.scope === "tag") {
+      return `Tag: ${tags.find(t => t.id === rule.scopeValue)?.name || "Unknown"}`;
+    }
+    if (rule.scope === "stage") {
+      return `Stage: ${STAGE_OPTIONS.find(s => s.value === rule.scopeValue)?.label || rule.scopeValue}`;
+    }
+    return "All contacts";
+  };
+
+  const canSave = form.name.trim() !== ""
+    && form.threshold.trim() !== ""
+    && !isNaN(parseInt(form.threshold, 10))
+    && (form.scope === "all" || form.scopeValue !== "");
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Alert Rules</h1>
+        <p className="text-muted-foreground">
+          Define the signals you want to be alerted on. Rules run after every performance snapshot and enrichment job
+        </p>
+      </div>
+
+      <Card className="glass-panel mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {editingRuleId ? <Edit className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+            {editingRuleId ? "Edit Rule" : "New Rule"}
+          </CardTitle>
+          <CardDescription>
+            Alerts show on the contact and fire at most once a week per rule
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              placeholder="e.g. Breakout velocity"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              data-testid="input-rule-name"
+            />
+          </div>
+
+          <div className="grid grid-cols-[2fr_1fr_2fr] gap-3">
+            <div className="space-y-2">
+              <Label>Metric</Label>
+              <Select value={form.metric} onValueChange={(value) => setForm({ ...form, metric: value })}>
+                <SelectTrigger data-testid="select-rule-metric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METRIC_OPTIONS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Comparator</Label>
+              <Select value={form.comparator} onValueChange={(value) => setForm({ ...form, comparator: value })}>
+                <SelectTrigger data-testid="select-rule-comparator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPARATOR_OPTIONS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Threshold</Label>
+              <Input
+                type="number"
+                placeholder="50"
+                value={form.threshold}
+                onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                data-testid="input-rule-threshold"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Scope</Label>
+              <Select value={form.scope} onValueChange={(value) => setForm({ ...form, scope: value, scopeValue: "" })}>
+                <SelectTrigger data-testid="select-rule-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All contacts</SelectItem>
+                  <SelectItem value="tag">Tag</SelectItem>
+                  <SelectItem value="stage">Stage</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope !== "all" && (
+              <div className="space-y-2">
+                <Label>{form.scope === "tag" ? "Tag" : "Stage"}</Label>
+                <Select value={form.scopeValue} onValueChange={(value) => setForm({ ...form, scopeValue: value })}>
+                  <SelectTrigger data-testid="select-rule-scope-value">
+                    <SelectValue placeholder={form.scope === "tag" ? "Select a tag" : "Select a stage"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {form.scope === "tag"
+                      ? tags.map((tag) => (
+                          <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                        ))
+                      : STAGE_OPTIONS.map((o) => (
+                          <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingRuleId && (
+              <Button variant="outline" onClick={resetForm} data-testid="button-cancel-rule-edit">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+            <Button
+              variant="gradient"
+              onClick={() => saveRuleMutation.mutate()}
+              disabled={!canSave || saveRuleMutation.isPending}
+              data-testid="button-save-rule"
+            >
+              {saveRuleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingRuleId ? "Save Changes" : "Add Rule"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-panel">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                Rules
+              </CardTitle>
+              <CardDescription className="mt-1.5">
+                Disable a rule to pause it without losing its settings
+              </CardDescription>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => evaluateRulesMutation.mutate()}
+              disabled={evaluateRulesMutation.isPending || rules.length === 0}
+              data-testid="button-evaluate-rules"
+            >
+              {evaluateRulesMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Running...
+                </>
+              ) : (
+                <>
+                  <Play className="h-4 w-4 mr-2" />
+                  Run Now
+                </>
+              )}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No alert rules yet
+            </p>
+          ) : (
+            rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 p-4 border rounded-lg"
+                data-testid={`row-alert-rule-${rule.id}`}
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium truncate">{rule.name}</h4>
+                    <Badge variant="outline" className="text-xs">{describeScope(rule)}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {METRIC_OPTIONS.find(o => o.value === rule.metric)?.label}{" "}
+                    {COMPARATOR_OPTIONS.find(o => o.value === rule.comparator)?.label}{" "}
+                    {rule.threshold.toLocaleString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {rule.lastEvaluatedAt
+                      ? `Last evaluated ${formatDistanceToNow(new Date(rule.lastEvaluatedAt), { addSuffix: true })}`
+                      : "Not evaluated yet"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.enabled === 1}
+                    onCheckedChange={(checked) => toggleRuleMutation.mutate({ id: rule.id, enabled: checked })}
+                    data-testid={`switch-alert-rule-${rule.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(rule)}
+                    data-testid={`button-edit-alert-rule-${rule.id}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    data-testid={`button-delete-alert-rule-${rule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
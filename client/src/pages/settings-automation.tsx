@@ -1,13 +1,222 @@
+import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Play, Loader2 } from "lucide-react";
+import { Play, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import type { FunnelTierRule } from "@shared/schema";
+
+const TIER_STAGE_OPTIONS = [
+  { value: "discovery", label: "Discovery Pool" },
+  { value: "watch", label: "Watch List" },
+  { value: "search", label: "Active Search" },
+];
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function FunnelTierRuleRow({ rule }: { rule: FunnelTierRule }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState({
+    name: rule.name,
+    stage: rule.stage as string,
+    minStreams: rule.minStreams?.toString() ?? "",
+    minWowPct: rule.minWowPct?.toString() ?? "",
+    priority: rule.priority.toString(),
+  });
+
+  useEffect(() => {
+    setDraft({
+      name: rule.name,
+      stage: rule.stage,
+      minStreams: rule.minStreams?.toString() ?? "",
+      minWowPct: rule.minWowPct?.toString() ?? "",
+      priority: rule.priority.toString(),
+    });
+  }, [rule]);
+
+  const isDirty = draft.name !== rule.name
+    || draft.stage !== rule.stage
+    || toNumberOrNull(draft.minStreams) !== rule.minStreams
+    || toNumberOrNull(draft.minWowPct) !== rule.minWowPct
+    || (toNumberOrNull(draft.priority) ?? 0) !== rule.priority;
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async (updates: Record<string, unknown>) => {
+      return apiRequest("PATCH", `/api/funnel-tier-rules/${rule.id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/funnel-tier-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update funnel tier rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/funnel-tier-rules/${rule.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/funnel-tier-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete funnel tier rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    updateRuleMutation.mutate({
+      name: draft.name.trim() || rule.name,
+      stage: draft.stage,
+      minStreams: toNumberOrNull(draft.minStreams),
+      minWowPct: toNumberOrNull(draft.minWowPct),
+      priority: toNumberOrNull(draft.priority) ?? 0,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-[2fr_2fr_1.5fr_1fr_1fr_auto] items-center gap-2 p-3 border rounded-lg" data-testid={`row-funnel-rule-${rule.id}`}>
+      <Input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        className="h-9"
+        data-testid={`input-funnel-rule-name-${rule.id}`}
+      />
+      <Select value={draft.stage} onValueChange={(value) => setDraft({ ...draft, stage: value })}>
+        <SelectTrigger className="h-9" data-testid={`select-funnel-rule-stage-${rule.id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TIER_STAGE_OPTIONS.map((o) => (
+            <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        placeholder="—"
+        value={draft.minStreams}
+        onChange={(e) => setDraft({ ...draft, minStreams: e.target.value })}
+        className="h-9"
+        data-testid={`input-funnel-rule-streams-${rule.id}`}
+      />
+      <Input
+        type="number"
+        placeholder="—"
+        value={draft.minWowPct}
+        onChange={(e) => setDraft({ ...draft, minWowPct: e.target.value })}
+        className="h-9"
+        data-testid={`input-funnel-rule-wow-${rule.id}`}
+      />
+      <Input
+        type="number"
+        value={draft.priority}
+        onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+        className="h-9"
+        data-testid={`input-funnel-rule-priority-${rule.id}`}
+      />
+      <div className="flex items-center gap-1">
+        <Switch
+          checked={rule.enabled === 1}
+          onCheckedChange={(checked) => updateRuleMutation.mutate({ enabled: checked ? 1 : 0 })}
+          data-testid={`switch-funnel-rule-${rule.id}`}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleSave}
+          disabled={!isDirty || updateRuleMutation.isPending}
+          data-testid={`button-save-funnel-rule-${rule.id}`}
+        >
+          <Save className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => deleteRuleMutation.mutate()}
+          disabled={deleteRuleMutation.isPending}
+          data-testid={`button-delete-funnel-rule-${rule.id}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
 
 export default function SettingsAutomation() {
   const { toast } = useToast();
 
+  const { data: funnelRules = [], isLoading: loadingFunnelRules } = useQuery<FunnelTierRule[]>({
+    queryKey: ["/api/funnel-tier-rules"],
+  });
+
+  const createFunnelRuleMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/funnel-tier-rules", {
+        name: "New Rule",
+        stage: "watch",
+        minStreams: 100000,
+        minWowPct: null,
+        priority: 0,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/funnel-tier-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create funnel tier rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runFunnelTiersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs/run-funnel-tiers");
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      toast({
+        title: "Funnel Tiers Updated",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run funnel tier assignment",
+        variant: "destructive",
+      });
+    },
+  });
+
   const runPlaylistUpdateMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch("/api/jobs/run-playlist-update", {
@@ -142,10 +351,10 @@ export default function SettingsAutomation() {
                 <div className="flex-1">
                   <h4 className="font-medium mb-1">Failed Enrichment Retry</h4>
                   <p className="text-sm text-muted-foreground">
-                    Retries failed or incomplete track enrichments (up to 100 tracks per day)
+                    Retries failed track enrichments per phase with exponential backoff; tracks that keep failing are dead-lettered on the Enrichment Jobs page
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Scheduled: Daily at 2:00 AM
+                    Scheduled: Hourly
                   </p>
                 </div>
                 <Button
@@ -162,6 +371,74 @@ export default function SettingsAutomation() {
             </div>
           </div>
         </Card>
+
+        <Card className="glass-panel p-6">
+          <div className="space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold mb-1">Funnel Tier Rules</h3>
+                <p className="text-sm text-muted-foreground">
+                  Runs after each weekly snapshot. Rules are checked from highest priority down and the first match wins;
+                  a rule matches when total streams OR WoW growth exceed its thresholds. Unmatched contacts go to Discovery.
+                  Locked contacts and contacts in the deals pipeline are never moved. Deleting every rule restores the defaults.
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => createFunnelRuleMutation.mutate()}
+                  disabled={createFunnelRuleMutation.isPending}
+                  data-testid="button-add-funnel-rule"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rule
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => runFunnelTiersMutation.mutate()}
+                  disabled={runFunnelTiersMutation.isPending}
+                  data-testid="button-run-funnel-tiers"
+                >
+                  {runFunnelTiersMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Running...
+                    </>
+                  ) : (
+                    <>
+                      <Play className="h-4 w-4 mr-2" />
+                      Run Now
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[2fr_2fr_1.5fr_1fr_1fr_auto] gap-2 px-3 text-xs font-medium text-muted-foreground">
+                <span>Name</span>
+                <span>Stage</span>
+                <span>Streams &gt;</span>
+                <span>WoW % &gt;</span>
+                <span>Priority</span>
+                <span className="w-[120px]" />
+              </div>
+              {loadingFunnelRules ? (
+                <>
+                  <Skeleton className="h-14 w-full" />
+                  <Skeleton className="h-14 w-full" />
+                </>
+              ) : funnelRules.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No rules yet
+                </p>
+              ) : (
+                funnelRules.map((rule) => <FunnelTierRuleRow key={rule.id} rule={rule} />)
+              )}
+            </div>
+          </div>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,509 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { AlertCircle, Ban, ChevronDown, Inbox, ListChecks, Loader2, RotateCcw, Timer } from "lucide-react";
+import { JobControls, type ControllableJobStatus } from "@/components/job-controls";
+import { JobEventFeed } from "@/components/job-event-feed";
+import type { EnrichmentErrorClass, EnrichmentJobFailureWithTrack, EnrichmentJobSummary, EnrichmentPhaseTiming, TrackEnrichmentAttemptWithTrack, TrackedPlaylist } from "@shared/schema";
+
+type EnrichmentJobRow = Omit<EnrichmentJobSummary, "phaseTimings"> & {
+  phaseTimings: Record<string, EnrichmentPhaseTiming>;
+};
+
+interface DeadLetterPage {
+  items: TrackEnrichmentAttemptWithTrack[];
+  total: number;
+}
+
+const PAGE_SIZE = 25;
+const EVENT_PAGE_SIZE = 50;
+const DEAD_LETTER_PAGE_SIZE = 25;
+
+const ERROR_CLASS_LABELS: Record<EnrichmentErrorClass, string> = {
+  rate_limit: "Rate limited",
+  not_found: "Not found",
+  auth: "Auth",
+  timeout: "Timeout",
+  unknown: "Error",
+};
+
+const STATUS_OPTIONS = [
+  { value: "all", label: "All Statuses" },
+  { value: "queued", label: "Queued" },
+  { value: "running", label: "Running" },
+  { value: "paused", label: "Paused" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+const TYPE_OPTIONS = [
+  { value: "all", label: "All Types" },
+  { value: "enrich-playlist", label: "Playlist" },
+  { value: "enrich-tracks", label: "Tracks" },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: "bg-muted text-muted-foreground",
+  running: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  paused: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
+  completed: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+const FINISHED_STATUSES = ["completed", "failed", "cancelled"];
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+function PhaseTimings({ timings }: { timings: Record<string, EnrichmentPhaseTiming> }) {
+  const entries = Object.entries(timings).sort(([, a], [, b]) => a.startedAt.localeCompare(b.startedAt));
+  const longest = Math.max(...entries.map(([, timing]) => timing.durationMs), 1);
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No phases timed yet</p>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {entries.map(([phase, timing]) => (
+        <div key={phase} className="flex items-center gap-3 text-xs">
+          <span className="w-28 truncate text-muted-foreground">{phase}</span>
+          <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${(timing.durationMs / longest) * 100}%` }} />
+          </div>
+          <span className="w-16 text-right tabular-nums">{formatDuration(timing.durationMs)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function JobDetail({ job }: { job: EnrichmentJobRow }) {
+  const { toast } = useToast();
+  // Keep failures live while the job is still going; events stream in on their own
+  const refetchInterval = FINISHED_STATUSES.includes(job.status) ? false : 5000;
+
+  const { data: failures = [], isLoading: failuresLoading } = useQuery<EnrichmentJobFailureWithTrack[]>({
+    queryKey: ["/api/enrichment-jobs", job.id, "failures"],
+    refetchInterval,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/enrichment-jobs/${job.id}/retry-failed`);
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/enrichment-jobs"] });
+      toast({ title: "Retry queued", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to retry failed tracks",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="mt-3 space-y-4 pl-3 border-l">
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1">
+          <Timer className="h-3.5 w-3.5" />
+          Phase Timings
+        </h4>
+        <PhaseTimings timings={job.phaseTimings} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1">
+            <AlertCircle className="h-3.5 w-3.5" />
+            Failed Tracks
+          </h4>
+          {FINISHED_STATUSES.includes(job.status) && failures.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1 h-7"
+              onClick={() => retryMutation.mutate()}
+              disabled={retryMutation.isPending}
+              data-testid={`button-retry-failed-${job.id}`}
+            >
+              {retryMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+              Retry failed tracks only
+            </Button>
+          )}
+        </div>
+        {failuresLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : failures.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No track failures</p>
+        ) : (
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {failures.map((failure) => (
+              <div key={failure.id} className="flex items-start justify-between gap-3 text-xs" data-testid={`row-job-failure-${failure.id}`}>
+                <span className="min-w-0 truncate">
+                  <span className="font-medium">{failure.trackName}</span>
+                  <span className="text-muted-foreground"> · {failure.artistName}</span>
+                </span>
+                <span className="text-muted-foreground text-right flex-shrink-0 max-w-[50%] truncate" title={failure.reason}>
+                  {failure.phase}: {failure.reason}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Events
+        </h4>
+        <JobEventFeed jobId={job.id} pageSize={EVENT_PAGE_SIZE} expandable className="bg-muted/50 rounded-md p-2 max-h-64 overflow-auto" />
+      </div>
+    </div>
+  );
+}
+
+function JobRow({ job }: { job: EnrichmentJobRow }) {
+  const [open, setOpen] = useState(false);
+  const isActive = !FINISHED_STATUSES.includes(job.status);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="p-3 border rounded-lg" data-testid={`row-job-${job.id}`}>
+      <div className="flex items-center gap-3">
+        <CollapsibleTrigger className="flex-1 min-w-0 text-left">
+          <div className="flex items-center gap-2">
+            <ChevronDown className={cn("h-4 w-4 flex-shrink-0 transition-transform", open && "rotate-180")} />
+            <span className="font-medium truncate">{job.playlistName || "Track enrichment"}</span>
+            <Badge variant="outline" className={cn("text-xs capitalize", STATUS_STYLES[job.status])}>
+              {job.status}
+            </Badge>
+            {job.targetPhase && <Badge variant="secondary" className="text-xs">{job.targetPhase}</Badge>}
+            {job.retryOfJobId && <Badge variant="secondary" className="text-xs">Retry</Badge>}
+          </div>
+          <div className="flex items-center gap-3 mt-1 pl-6 text-xs text-muted-foreground">
+            <span title={format(new Date(job.createdAt), "PPpp")}>
+              {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+            </span>
+            <span>{job.enrichedTracks}/{job.totalTracks} tracks enriched</span>
+            {job.failedTrackCount > 0 && (
+              <span className="text-destructive">{job.failedTrackCount} failed</span>
+            )}
+            {job.priority > 0 && <span>Priority {job.priority}</span>}
+          </div>
+        </CollapsibleTrigger>
+        {isActive && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Progress value={job.progress} className="h-2 w-24" />
+            <JobControls
+              jobId={job.id}
+              status={job.status as ControllableJobStatus}
+              onStatusChange={() => queryClient.invalidateQueries({ queryKey: ["/api/enrichment-jobs"] })}
+            />
+          </div>
+        )}
+      </div>
+      <CollapsibleContent>
+        <JobDetail job={job} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function DeadLetterQueue() {
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<DeadLetterPage>({
+    queryKey: ["/api/enrichment-dead-letters", { page }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      params.append("limit", DEAD_LETTER_PAGE_SIZE.toString());
+      params.append("offset", ((page - 1) * DEAD_LETTER_PAGE_SIZE).toString());
+
+      const response = await fetch(`/api/enrichment-dead-letters?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch dead-lettered tracks");
+      return response.json();
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "requeue" | "resolve-no-data" }) => {
+      const response = await apiRequest("POST", `/api/enrichment-dead-letters/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/enrichment-dead-letters"] });
+      if (action === "requeue") {
+        queryClient.invalidateQueries({ queryKey: ["/api/enrichment-jobs"] });
+      }
+      toast({ title: action === "requeue" ? "Track requeued" : "Marked as no data" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update track",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items = data?.items || [];
+  const total = data?.total || 0;
+
+  return (
+    <Card className="glass-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Dead-Lettered Tracks
+          {total > 0 && <Badge variant="secondary">{total}</Badge>}
+        </CardTitle>
+        <CardDescription className="mt-1.5">
+          Tracks that failed a phase too many times and are no longer retried automatically. Requeue one to give it a fresh set of attempts, or mark it as having no data at the source
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No dead-lettered tracks</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map((attempt) => {
+              const isUpdating = actionMutation.isPending && actionMutation.variables?.id === attempt.id;
+
+              return (
+                <div key={attempt.id} className="p-3 border rounded-lg flex items-center gap-3" data-testid={`row-dead-letter-${attempt.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{attempt.trackName}</span>
+                      <span className="text-sm text-muted-foreground truncate">· {attempt.artistName}</span>
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      <Badge variant="secondary" className="text-xs">{attempt.phase}</Badge>
+                      <Badge variant="outline" className="text-xs">{ERROR_CLASS_LABELS[attempt.errorClass]}</Badge>
+                      <span>{attempt.attempts} attempts</span>
+                      <span title={format(new Date(attempt.lastAttemptAt), "PPpp")}>
+                        last {formatDistanceToNow(new Date(attempt.lastAttemptAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate mt-1" title={attempt.lastError}>{attempt.lastError}</p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {isUpdating && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1 h-7"
+                      onClick={() => actionMutation.mutate({ id: attempt.id, action: "requeue" })}
+                      disabled={isUpdating}
+                      data-testid={`button-requeue-dead-letter-${attempt.id}`}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      Requeue
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1 h-7"
+                      onClick={() => actionMutation.mutate({ id: attempt.id, action: "resolve-no-data" })}
+                      disabled={isUpdating}
+                      data-testid={`button-no-data-dead-letter-${attempt.id}`}
+                    >
+                      <Ban className="h-3.5 w-3.5" />
+                      No data exists
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {total > DEAD_LETTER_PAGE_SIZE && (
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Page {page} of {Math.ceil(total / DEAD_LETTER_PAGE_SIZE)}</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page * DEAD_LETTER_PAGE_SIZE >= total}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsJobs() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [playlistFilter, setPlaylistFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+
+  const { data: playlists = [] } = useQuery<TrackedPlaylist[]>({
+    queryKey: ["/api/tracked-playlists"],
+  });
+
+  const { data: jobs = [], isLoading } = useQuery<EnrichmentJobRow[]>({
+    queryKey: ["/api/enrichment-jobs", { statusFilter, typeFilter, playlistFilter, fromDate, toDate, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.append("status", statusFilter);
+      if (typeFilter !== "all") params.append("type", typeFilter);
+      if (playlistFilter !== "all") params.append("playlistId", playlistFilter);
+      if (fromDate) params.append("from", new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) params.append("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+      params.append("limit", PAGE_SIZE.toString());
+      params.append("offset", ((page - 1) * PAGE_SIZE).toString());
+
+      const response = await fetch(`/api/enrichment-jobs?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch enrichment jobs");
+      return response.json();
+    },
+    refetchInterval: 10000,
+  });
+
+  const resetPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="p-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Enrichment Jobs</h1>
+        <p className="text-muted-foreground">
+          Job history with phase timings, failed tracks and event logs, plus tracks that ran out of retries
+        </p>
+      </div>
+
+      <Card className="glass-panel">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Jobs
+          </CardTitle>
+          <CardDescription className="mt-1.5">
+            Expand a job to see where its time went and which tracks failed. Retrying failed tracks queues a new job with only those tracks
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={statusFilter} onValueChange={resetPage(setStatusFilter)}>
+              <SelectTrigger className="w-40" data-testid="select-job-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={resetPage(setTypeFilter)}>
+              <SelectTrigger className="w-36" data-testid="select-job-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={playlistFilter} onValueChange={resetPage(setPlaylistFilter)}>
+              <SelectTrigger className="w-48" data-testid="select-job-playlist">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Playlists</SelectItem>
+                {playlists.map((playlist) => (
+                  <SelectItem key={playlist.id} value={playlist.id}>{playlist.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              className="w-40"
+              value={fromDate}
+              onChange={(e) => resetPage(setFromDate)(e.target.value)}
+              data-testid="input-job-from"
+            />
+            <Input
+              type="date"
+              className="w-40"
+              value={toDate}
+              onChange={(e) => resetPage(setToDate)(e.target.value)}
+              data-testid="input-job-to"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No jobs match these filters</p>
+          ) : (
+            <div className="space-y-2">
+              {jobs.map((job) => (
+                <JobRow key={job.id} job={job} />
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Page {page}</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={jobs.length < PAGE_SIZE}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <DeadLetterQueue />
+    </div>
+  );
+}
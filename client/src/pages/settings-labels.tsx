@@ -0,0 +1,294 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Disc3, Edit, Loader2, Save, Search, Undo2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LabelOverride } from "@shared/schema";
+
+interface LabelRegistryEntry {
+  label: string;
+  trackCount: number;
+  classification: {
+    tier: string;
+    score: number;
+    confidence: "high" | "medium" | "low";
+    reasoning: string;
+    matchedOverride?: string;
+  };
+  override: LabelOverride | null;
+}
+
+const LABEL_TIER_CONFIG: Record<string, { label: string; color: string }> = {
+  diy: { label: "DIY", color: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  indie: { label: "Indie", color: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
+  majorDistribution: { label: "Major Distribution", color: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30" },
+  major: { label: "Major", color: "bg-red-500/20 text-red-400 border-red-500/30" },
+  unknown: { label: "Unknown", color: "bg-muted text-muted-foreground border-border" },
+};
+
+// Rendering thousands of rows isn't useful; search narrows the list instead
+const MAX_VISIBLE_LABELS = 200;
+
+const PARENT_ONLY = "parent";
+
+export default function SettingsLabels() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [tierFilter, setTierFilter] = useState("all");
+  const [editingLabel, setEditingLabel] = useState<string | null>(null);
+  const [form, setForm] = useState({ tier: "major", parentCompany: "", notes: "" });
+
+  const { data: entries = [], isLoading } = useQuery<LabelRegistryEntry[]>({
+    queryKey: ["/api/labels"],
+  });
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (tierFilter === "overridden" && !entry.override) return false;
+      if (tierFilter !== "all" && tierFilter !== "overridden" && entry.classification.tier !== tierFilter) return false;
+      return !query || entry.label.toLowerCase().includes(query);
+    });
+  }, [entries, search, tierFilter]);
+
+  const startEditing = (entry: LabelRegistryEntry) => {
+    setEditingLabel(entry.label);
+    setForm({
+      tier: entry.override ? entry.override.tier ?? PARENT_ONLY : entry.classification.tier === "unknown" ? "diy" : entry.classification.tier,
+      parentCompany: entry.override?.parentCompany ?? "",
+      notes: entry.override?.notes ?? "",
+    });
+  };
+
+  const onRescored = (result: { rescoredContacts: number; errorCount: number }, title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/labels"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+    toast({
+      title,
+      description: `Rescored ${result.rescoredContacts} contact${result.rescoredContacts === 1 ? "" : "s"}${result.errorCount ? ` (${result.errorCount} failed)` : ""}`,
+    });
+  };
+
+  const saveOverrideMutation = useMutation({
+    mutationFn: async (label: string) => {
+      const response = await apiRequest("PUT", "/api/labels/overrides", {
+        label,
+        tier: form.tier === PARENT_ONLY ? null : form.tier,
+        parentCompany: form.parentCompany.trim() || null,
+        notes: form.notes.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setEditingLabel(null);
+      onRescored(result, "Label override saved");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save label override",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeOverrideMutation = useMutation({
+    mutationFn: async (overrideId: string) => {
+      const response = await apiRequest("DELETE", `/api/labels/overrides/${overrideId}`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      onRescored(result, "Label override removed");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove label override",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-8 max-w-5xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Label Registry</h1>
+        <p className="text-muted-foreground">
+          Review how each track label is classified for scoring and correct mis-classified imprints
+        </p>
+      </div>
+
+      <Card className="glass-panel">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Disc3 className="h-5 w-5" />
+            Labels
+          </CardTitle>
+          <CardDescription className="mt-1.5">
+            Overrides take precedence over the built-in label lists. Set a tier directly, or map a vanity imprint to its parent company and it will be classified like the parent. Contacts with tracks on the label are rescored when an override changes
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[220px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search labels..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+                data-testid="input-label-search"
+              />
+            </div>
+            <Select value={tierFilter} onValueChange={setTierFilter}>
+              <SelectTrigger className="w-48" data-testid="select-label-tier-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tiers</SelectItem>
+                <SelectItem value="overridden">Overridden</SelectItem>
+                {Object.entries(LABEL_TIER_CONFIG).map(([value, config]) => (
+                  <SelectItem key={value} value={value}>{config.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No labels found</p>
+          ) : (
+            <div className="space-y-2">
+              {filtered.slice(0, MAX_VISIBLE_LABELS).map((entry) => {
+                const tierConfig = LABEL_TIER_CONFIG[entry.classification.tier] || LABEL_TIER_CONFIG.unknown;
+                const isEditing = editingLabel === entry.label;
+
+                return (
+                  <div key={entry.label} className="p-3 border rounded-lg space-y-3" data-testid={`row-label-${entry.label}`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium truncate">{entry.label}</span>
+                          <Badge variant="outline" className={cn("text-xs", tierConfig.color)}>
+                            {tierConfig.label}
+                          </Badge>
+                          {entry.override && (
+                            <Badge variant="outline" className="text-xs">Override</Badge>
+                          )}
+                          <span className="text-xs text-muted-foreground">
+                            {entry.trackCount} track{entry.trackCount === 1 ? "" : "s"}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{entry.classification.reasoning}</p>
+                        {entry.override?.notes && (
+                          <p className="text-xs text-muted-foreground italic">{entry.override.notes}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => (isEditing ? setEditingLabel(null) : startEditing(entry))}
+                          data-testid={`button-edit-label-${entry.label}`}
+                        >
+                          {isEditing ? <X className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+                        </Button>
+                        {entry.override && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeOverrideMutation.mutate(entry.override!.id)}
+                            disabled={removeOverrideMutation.isPending}
+                            data-testid={`button-remove-override-${entry.label}`}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {isEditing && (
+                      <div className="grid grid-cols-[1fr_1fr_1.5fr_auto] items-end gap-2">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Tier</Label>
+                          <Select value={form.tier} onValueChange={(value) => setForm({ ...form, tier: value })}>
+                            <SelectTrigger className="h-9" data-testid="select-override-tier">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(LABEL_TIER_CONFIG)
+                                .filter(([value]) => value !== "unknown")
+                                .map(([value, config]) => (
+                                  <SelectItem key={value} value={value}>{config.label}</SelectItem>
+                                ))}
+                              <SelectItem value={PARENT_ONLY}>Same as parent company</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Parent Company</Label>
+                          <Input
+                            placeholder="e.g. Warner Records"
+                            value={form.parentCompany}
+                            onChange={(e) => setForm({ ...form, parentCompany: e.target.value })}
+                            className="h-9"
+                            data-testid="input-override-parent"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Notes</Label>
+                          <Input
+                            placeholder="Why this label was reclassified"
+                            value={form.notes}
+                            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                            className="h-9"
+                            data-testid="input-override-notes"
+                          />
+                        </div>
+                        <Button
+                          variant="gradient"
+                          size="sm"
+                          className="gap-2 h-9"
+                          onClick={() => saveOverrideMutation.mutate(entry.label)}
+                          disabled={(form.tier === PARENT_ONLY && !form.parentCompany.trim()) || saveOverrideMutation.isPending}
+                          data-testid="button-save-override"
+                        >
+                          {saveOverrideMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          Save
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {filtered.length > MAX_VISIBLE_LABELS && (
+                <p className="text-xs text-muted-foreground text-center pt-2">
+                  Showing {MAX_VISIBLE_LABELS} of {filtered.length} labels. Search to narrow the list
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,398 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { useAINarrativeMode } from "@/lib/commentarySettings";
-import { Sparkles, FileText, Info } from "lucide-react";
+import { SCORING_CATEGORIES, SCORE_BAND_LABELS } from "@/lib/scoringConfig";
+import { Sparkles, FileText, Info, Scale, Copy, Save, Trash2, Eye, CheckCircle2, Loader2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { ScoringProfile, ScoringWeights } from "@shared/schema";
+
+interface ScoringPreview {
+  totalContacts: number;
+  changedCount: number;
+  transitions: Record<string, number>;
+  samples: Array<{
+    contactId: string;
+    songwriterName: string | null;
+    currentScore: number | null;
+    newScore: number;
+    fromBand: string;
+    toBand: string;
+  }>;
+}
+
+function parseWeights(raw: string): ScoringWeights {
+  try {
+    const parsed = JSON.parse(raw);
+    return { categories: parsed.categories || {}, signals: parsed.signals || {} };
+  } catch {
+    return { categories: {}, signals: {} };
+  }
+}
+
+function toWeight(value: string): number {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+}
+
+function ScoringProfilesCard() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ name: string; description: string; categories: Record<string, string>; signals: Record<string, string> }>({
+    name: "",
+    description: "",
+    categories: {},
+    signals: {},
+  });
+  const [preview, setPreview] = useState<ScoringPreview | null>(null);
+
+  const { data: profiles = [], isLoading } = useQuery<ScoringProfile[]>({
+    queryKey: ["/api/scoring-profiles"],
+  });
+
+  const selected = profiles.find((p) => p.id === selectedId) || profiles.find((p) => p.isActive === 1) || profiles[0];
+
+  // Load the selected profile into the editor
+  useEffect(() => {
+    if (!selected) return;
+    const weights = parseWeights(selected.weights);
+    setDraft({
+      name: selected.name,
+      description: selected.description ?? "",
+      categories: Object.fromEntries(Object.entries(weights.categories).map(([k, v]) => [k, v.toString()])),
+      signals: Object.fromEntries(Object.entries(weights.signals).map(([k, v]) => [k, v.toString()])),
+    });
+    setPreview(null);
+  }, [selected?.id, selected?.updatedAt]);
+
+  const buildPayload = () => ({
+    name: draft.name.trim() || selected?.name,
+    description: draft.description || null,
+    weights: {
+      categories: Object.fromEntries(Object.entries(draft.categories).map(([k, v]) => [k, toWeight(v)])),
+      signals: Object.fromEntries(Object.entries(draft.signals).map(([k, v]) => [k, toWeight(v)])),
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/scoring-profiles/${selected!.id}`, buildPayload());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      toast({
+        title: "Profile saved",
+        description: selected?.isActive === 1
+          ? "New weights apply the next time scores are recalculated"
+          : "Preview the profile to see how it would change scores",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save scoring profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      const payload = buildPayload();
+      const response = await apiRequest("POST", "/api/scoring-profiles", {
+        ...payload,
+        name: `${payload.name} (copy)`,
+      });
+      return response.json() as Promise<ScoringProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      setSelectedId(profile.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create scoring profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/scoring-profiles/${selected!.id}`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete scoring profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/scoring-profiles/${selected!.id}/preview`);
+      return response.json() as Promise<ScoringPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to preview scoring profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/scoring-profiles/${selected!.id}/activate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      toast({
+        title: "Profile activated",
+        description: "Rescoring every contact in the background; scores update over the next few minutes",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to activate scoring profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isDirty = !!selected && (
+    draft.name !== selected.name
+    || draft.description !== (selected.description ?? "")
+    || JSON.stringify(buildPayload().weights) !== JSON.stringify(parseWeights(selected.weights))
+  );
+
+  const maxTotal = Object.values(draft.categories).reduce((sum, v) => sum + toWeight(v), 0);
+
+  return (
+    <Card className="glass-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Scoring Profiles
+        </CardTitle>
+        <CardDescription className="mt-1.5">
+          Named sets of category caps and signal points. Preview a profile to see how many contacts would change score band, then activate it to rescore every contact
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !selected ? (
+          <p className="text-sm text-muted-foreground">No scoring profiles yet</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={selected.id} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-64" data-testid="select-scoring-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}{p.isActive === 1 ? " (active)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selected.isActive === 1 && (
+                <Badge variant="outline" className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30" data-testid="badge-active-profile">
+                  Active
+                </Badge>
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => duplicateMutation.mutate()}
+                  disabled={duplicateMutation.isPending}
+                  data-testid="button-duplicate-profile"
+                >
+                  <Copy className="h-4 w-4" />
+                  Duplicate
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate()}
+                  disabled={selected.isActive === 1 || deleteMutation.isPending}
+                  data-testid="button-delete-profile"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-profile-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Input
+                  placeholder="e.g. Hip-hop roster"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  data-testid="input-profile-description"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {SCORING_CATEGORIES.map((category) => (
+                <div key={category.name} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <Label className="font-medium">{category.name}</Label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">Max</span>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min={0}
+                        value={draft.categories[category.name] ?? ""}
+                        onChange={(e) => setDraft({ ...draft, categories: { ...draft.categories, [category.name]: e.target.value } })}
+                        className="h-8 w-20"
+                        data-testid={`input-category-max-${category.name}`}
+                      />
+                    </div>
+                  </div>
+                  {category.signals.map((signal) => (
+                    <div key={signal.key} className="flex items-center justify-between gap-4 pl-4">
+                      <span className="text-sm text-muted-foreground">{signal.label}</span>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min={0}
+                        value={draft.signals[signal.key] ?? ""}
+                        onChange={(e) => setDraft({ ...draft, signals: { ...draft.signals, [signal.key]: e.target.value } })}
+                        className="h-8 w-20"
+                        data-testid={`input-signal-points-${signal.key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Signal points are capped at their category max, and each weight is at most 10. Category maxes currently total {maxTotal.toFixed(1)}; custom maxes are scaled to the default total and capped at 10
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => saveMutation.mutate()}
+                disabled={!isDirty || saveMutation.isPending}
+                data-testid="button-save-profile"
+              >
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => previewMutation.mutate()}
+                disabled={isDirty || previewMutation.isPending}
+                data-testid="button-preview-profile"
+              >
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                Preview
+              </Button>
+              <Button
+                variant="gradient"
+                size="sm"
+                className="gap-2"
+                onClick={() => activateMutation.mutate()}
+                disabled={isDirty || selected.isActive === 1 || activateMutation.isPending}
+                data-testid="button-activate-profile"
+              >
+                {activateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+                Activate & Rescore
+              </Button>
+              {isDirty && (
+                <span className="text-xs text-muted-foreground">Save changes before previewing or activating</span>
+              )}
+            </div>
+
+            {preview && (
+              <Alert data-testid="alert-profile-preview">
+                <Info className="h-4 w-4" />
+                <AlertTitle>
+                  {preview.changedCount} of {preview.totalContacts} contacts would change score band
+                </AlertTitle>
+                <AlertDescription className="space-y-2 mt-2">
+                  {Object.keys(preview.transitions).length > 0 && (
+                    <ul className="text-sm space-y-1 ml-4 list-disc">
+                      {Object.entries(preview.transitions).map(([key, count]) => {
+                        const [from, to] = key.split("->");
+                        return (
+                          <li key={key}>
+                            {count} from {SCORE_BAND_LABELS[from] || from} to {SCORE_BAND_LABELS[to] || to}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  {preview.samples.length > 0 && (
+                    <div className="text-xs text-muted-foreground space-y-0.5">
+                      {preview.samples.map((sample) => (
+                        <p key={sample.contactId}>
+                          {sample.songwriterName || "Unknown"}: {sample.currentScore ?? "—"} → {sample.newScore}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function SettingsScoring() {
   const { aiNarrativeMode, toggleAINarrative } = useAINarrativeMode();
@@ -125,29 +514,7 @@ export default function SettingsScoring() {
         </CardContent>
       </Card>
 
-      {/* Future Settings Placeholder */}
-      <Card className="glass-panel">
-        <CardHeader>
-          <CardTitle className="text-base">Additional Scoring Settings</CardTitle>
-          <CardDescription>More configuration options coming soon</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            <div className="flex items-center justify-between opacity-50 cursor-not-allowed">
-              <Label className="text-sm">Custom Score Weights</Label>
-              <Switch disabled />
-            </div>
-            <div className="flex items-center justify-between opacity-50 cursor-not-allowed">
-              <Label className="text-sm">Auto-Refresh Scoring</Label>
-              <Switch disabled />
-            </div>
-            <div className="flex items-center justify-between opacity-50 cursor-not-allowed">
-              <Label className="text-sm">Export Commentary Templates</Label>
-              <Switch disabled />
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <ScoringProfilesCard />
     </div>
   );
 }
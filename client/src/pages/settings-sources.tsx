@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, Check, GitMerge, Loader2, Save, Scale, Undo2 } from "lucide-react";
+import { SOURCE_LABELS, FIELD_LABELS } from "@/components/field-provenance";
+import type { FieldConflict, FieldSource } from "@shared/schema";
+
+interface FieldPrecedenceEntry {
+  field: string;
+  sources: FieldSource[];
+  defaultSources: FieldSource[];
+  isCustom: boolean;
+}
+
+type FieldConflictWithTrack = FieldConflict & { trackName: string; artistName: string };
+
+const ALL_SOURCES = Object.keys(SOURCE_LABELS) as FieldSource[];
+
+function PrecedenceEditor({ entry }: { entry: FieldPrecedenceEntry }) {
+  const { toast } = useToast();
+  const [sources, setSources] = useState<FieldSource[]>(entry.sources);
+  const unlisted = ALL_SOURCES.filter((source) => !sources.includes(source));
+  const isDirty = sources.join(",") !== entry.sources.join(",");
+
+  const move = (index: number, offset: number) => {
+    const next = [...sources];
+    const [source] = next.splice(index, 1);
+    next.splice(index + offset, 0, source);
+    setSources(next);
+  };
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/field-precedence"] });
+    toast({ title });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/field-precedence/${entry.field}`, { sources });
+      return response.json();
+    },
+    onSuccess: () => onSaved("Precedence saved"),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save precedence",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/field-precedence/${entry.field}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSources(entry.defaultSources);
+      onSaved("Precedence reset to default");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset precedence",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3" data-testid={`row-precedence-${entry.field}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{FIELD_LABELS[entry.field] || entry.field}</span>
+          {entry.isCustom && <Badge variant="outline" className="text-xs">Custom</Badge>}
+        </div>
+        <div className="flex items-center gap-1">
+          {entry.isCustom && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => resetMutation.mutate()}
+              disabled={resetMutation.isPending}
+              data-testid={`button-reset-precedence-${entry.field}`}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="gradient"
+            size="sm"
+            className="gap-2"
+            onClick={() => saveMutation.mutate()}
+            disabled={!isDirty || sources.length === 0 || saveMutation.isPending}
+            data-testid={`button-save-precedence-${entry.field}`}
+          >
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <ol className="space-y-1">
+        {sources.map((source, index) => (
+          <li key={source} className="flex items-center gap-2 text-sm">
+            <span className="w-5 text-xs text-muted-foreground">{index + 1}.</span>
+            <span className="flex-1">{SOURCE_LABELS[source]}</span>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(index, -1)} disabled={index === 0}>
+              <ArrowUp className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(index, 1)} disabled={index === sources.length - 1}>
+              <ArrowDown className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setSources(sources.filter((s) => s !== source))}
+              disabled={sources.length === 1}
+            >
+              Remove
+            </Button>
+          </li>
+        ))}
+      </ol>
+
+      {unlisted.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Unranked:</span>
+          {unlisted.map((source) => (
+            <Badge
+              key={source}
+              variant="outline"
+              className="text-xs cursor-pointer hover-elevate"
+              onClick={() => setSources([...sources, source])}
+            >
+              + {SOURCE_LABELS[source]}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SettingsSources() {
+  const { toast } = useToast();
+
+  const { data: precedence = [], isLoading: precedenceLoading } = useQuery<FieldPrecedenceEntry[]>({
+    queryKey: ["/api/field-precedence"],
+  });
+
+  const { data: conflicts = [], isLoading: conflictsLoading } = useQuery<FieldConflictWithTrack[]>({
+    queryKey: ["/api/field-conflicts"],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, choice }: { id: string; choice: "applied" | "overridden" }) => {
+      const response = await apiRequest("POST", `/api/field-conflicts/${id}/resolve`, { choice });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/field-conflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tracks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve conflict",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Data Sources</h1>
+        <p className="text-muted-foreground">
+          Decide which enrichment source wins when sources disagree, and review the disagreements
+        </p>
+      </div>
+
+      <Card className="glass-panel">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Field Precedence
+          </CardTitle>
+          <CardDescription className="mt-1.5">
+            A source can overwrite a value written by a source ranked at or below it, never one ranked above. Unranked sources lose to every ranked source
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {precedenceLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-32 w-full" />
+              ))}
+            </div>
+          ) : (
+            precedence.map((entry) => (
+              <PrecedenceEditor key={`${entry.field}-${entry.sources.join(",")}`} entry={entry} />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-panel">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Conflict Review
+            {conflicts.length > 0 && <Badge variant="secondary">{conflicts.length}</Badge>}
+          </CardTitle>
+          <CardDescription className="mt-1.5">
+            Enrichment kept the value from the higher-precedence source. Keep it, or switch to the other value; either choice is saved as a manual value
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {conflictsLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : conflicts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No conflicts waiting for review</p>
+          ) : (
+            <div className="space-y-2">
+              {conflicts.map((conflict) => {
+                const isResolving = resolveMutation.isPending && resolveMutation.variables?.id === conflict.id;
+
+                return (
+                  <div key={conflict.id} className="p-3 border rounded-lg space-y-2" data-testid={`row-conflict-${conflict.id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="font-medium truncate">{conflict.trackName}</span>
+                        <span className="text-sm text-muted-foreground"> · {conflict.artistName}</span>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Badge variant="outline" className="text-xs">{FIELD_LABELS[conflict.field] || conflict.field}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(conflict.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="p-2 rounded-md bg-muted/50 space-y-1">
+                        <p className="text-xs text-muted-foreground">Kept · {SOURCE_LABELS[conflict.appliedSource]}</p>
+                        <p className="text-sm break-words">{conflict.appliedValue || "—"}</p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1 h-7"
+                          onClick={() => resolveMutation.mutate({ id: conflict.id, choice: "applied" })}
+                          disabled={isResolving}
+                          data-testid={`button-keep-${conflict.id}`}
+                        >
+                          {isResolving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+                          Keep
+                        </Button>
+                      </div>
+                      <div className="p-2 rounded-md border border-dashed space-y-1">
+                        <p className="text-xs text-muted-foreground">Overridden · {conflict.overriddenSource ? SOURCE_LABELS[conflict.overriddenSource] : "No recorded source"}</p>
+                        <p className="text-sm break-words">{conflict.overriddenValue || "—"}</p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1 h-7"
+                          onClick={() => resolveMutation.mutate({ id: conflict.id, choice: "overridden" })}
+                          disabled={isResolving}
+                          data-testid={`button-use-overridden-${conflict.id}`}
+                        >
+                          Use this
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, CheckCircle2, Calendar, Clock, Cookie, ExternalLink, AlertTriangle, ShieldCheck } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, CheckCircle2, Calendar, Clock, Cookie, ExternalLink, AlertTriangle, Gauge, ShieldCheck, Database, Trash2, Loader2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 interface CookieStatus {
@@ -20,7 +24,45 @@ interface AuthStatus {
   error?: string;
 }
 
+interface ProviderQuotaStatus {
+  provider: string;
+  label: string;
+  unitLabel: string;
+  dailyQuota: number | null;
+  usedToday: number;
+  remaining: number | null;
+  requestsPerSecond: number;
+  configuredRequestsPerSecond: number;
+  backedOffUntil: string | null;
+}
+
+interface ResponseCacheStatus {
+  providers: Array<{
+    provider: string;
+    hitTtlMs: number;
+    notFoundTtlMs: number;
+    entries: number;
+    notFound: number;
+    expired: number;
+    hits: number;
+  }>;
+  bypassed: boolean;
+}
+
+const CACHE_PROVIDER_LABELS: Record<string, string> = {
+  chartmetric: "Chartmetric",
+  musicbrainz: "MusicBrainz",
+  mlc: "MLC",
+};
+
+const formatTtl = (ms: number) => {
+  const days = ms / (1000 * 60 * 60 * 24);
+  return days >= 1 ? `${Math.round(days)}d` : `${Math.round(days * 24)}h`;
+};
+
 export default function SettingsSpotify() {
+  const { toast } = useToast();
+
   const { data: authStatus, isLoading: authLoading, refetch: refetchAuth } = useQuery<AuthStatus>({
     queryKey: ["/api/spotify/status"],
     refetchInterval: 5000,
@@ -52,6 +94,38 @@ export default function SettingsSpotify() {
     refetchInterval: 30000,
   });
 
+  const { data: quotas = [], isLoading: quotasLoading } = useQuery<ProviderQuotaStatus[]>({
+    queryKey: ["/api/api-quotas"],
+    refetchInterval: 30000,
+  });
+
+  const { data: responseCache, isLoading: responseCacheLoading } = useQuery<ResponseCacheStatus>({
+    queryKey: ["/api/response-cache"],
+    refetchInterval: 30000,
+  });
+
+  const purgeCacheMutation = useMutation({
+    mutationFn: async (options: { provider?: string; expired?: boolean }) => {
+      const params = new URLSearchParams();
+      if (options.provider) params.set("provider", options.provider);
+      if (options.expired) params.set("expired", "true");
+      const query = params.toString();
+      const response = await apiRequest("DELETE", `/api/response-cache${query ? `?${query}` : ""}`);
+      return response.json() as Promise<{ purged: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/response-cache"] });
+      toast({ title: `Purged ${data.purged.toLocaleString()} cached responses` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to purge response cache",
+        variant: "destructive",
+      });
+    },
+  });
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return "Never";
     const date = new Date(dateString);
@@ -312,18 +386,138 @@ export default function SettingsSpotify() {
         </CardContent>
       </Card>
 
-      {/* Additional API Settings Placeholder */}
       <Card className="glass-panel">
         <CardHeader>
-          <CardTitle>Other API Integrations</CardTitle>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            API Quotas & Rate Limits
+          </CardTitle>
           <CardDescription>
-            Configure additional API services (Coming soon)
+            Usage today (UTC) per provider. Jobs that would exceed a daily budget are refused, and a phase is skipped once its provider's budget runs out
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <p className="text-sm text-muted-foreground">
-            MusicBrainz, OpenAI, and other API configurations will appear here.
-          </p>
+          {quotasLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {quotas.map((quota) => (
+                <div key={quota.provider} className="space-y-1.5" data-testid={`quota-${quota.provider}`}>
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{quota.label}</span>
+                      {quota.backedOffUntil && (
+                        <Badge variant="outline" className="text-xs bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20">
+                          Rate limited
+                        </Badge>
+                      )}
+                    </div>
+                    <span className="text-muted-foreground">
+                      {quota.dailyQuota === null
+                        ? `${quota.usedToday.toLocaleString()} ${quota.unitLabel} today · no daily cap`
+                        : `${(quota.remaining ?? 0).toLocaleString()} of ${quota.dailyQuota.toLocaleString()} ${quota.unitLabel} left`}
+                    </span>
+                  </div>
+                  {quota.dailyQuota !== null && (
+                    <Progress value={Math.min(100, (quota.usedToday / quota.dailyQuota) * 100)} className="h-2" />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {quota.requestsPerSecond < quota.configuredRequestsPerSecond
+                      ? `Slowed to ${quota.requestsPerSecond.toFixed(2)} of ${quota.configuredRequestsPerSecond} requests/sec after rate limiting`
+                      : `${quota.configuredRequestsPerSecond} requests/sec`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-panel mt-6">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5" />
+                Response Cache
+              </CardTitle>
+              <CardDescription>
+                ISRC lookups already resolved are served from the cache until they expire, including "not found" results. Purge a provider to force fresh lookups; requeued dead-lettered tracks always bypass the cache
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {purgeCacheMutation.isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => purgeCacheMutation.mutate({ expired: true })}
+                disabled={purgeCacheMutation.isPending}
+                data-testid="button-purge-expired-cache"
+              >
+                Purge expired
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => purgeCacheMutation.mutate({})}
+                disabled={purgeCacheMutation.isPending}
+                data-testid="button-purge-all-cache"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Purge all
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {responseCacheLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : responseCache ? (
+            <div className="space-y-3">
+              {responseCache.bypassed && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <code className="bg-white/5 px-1 rounded text-xs">RESPONSE_CACHE_BYPASS</code> is set: every lookup goes to the provider and only refreshes the cache
+                  </AlertDescription>
+                </Alert>
+              )}
+              {responseCache.providers.map((entry) => (
+                <div
+                  key={entry.provider}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/10"
+                  data-testid={`response-cache-${entry.provider}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{CACHE_PROVIDER_LABELS[entry.provider] || entry.provider}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.entries.toLocaleString()} cached ({entry.notFound.toLocaleString()} not found, {entry.expired.toLocaleString()} expired) · {entry.hits.toLocaleString()} hits · TTL {formatTtl(entry.hitTtlMs)}, not found {formatTtl(entry.notFoundTtlMs)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => purgeCacheMutation.mutate({ provider: entry.provider })}
+                    disabled={purgeCacheMutation.isPending || entry.entries === 0}
+                    data-testid={`button-purge-cache-${entry.provider}`}
+                  >
+                    Purge
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">Unable to load response cache status</p>
+          )}
         </CardContent>
       </Card>
     </div>
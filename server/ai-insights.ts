@@ -1,4 +1,5 @@
 import OpenAI from "openai";
+import { providerLimiters } from "./services/rateLimiters";
 import type { PlaylistSnapshot } from "@shared/schema";
 
 const openai = new OpenAI({
@@ -44,7 +45,7 @@ Consider:
 Respond ONLY with valid JSON, no markdown or additional text.`;
 
   try {
-    const response = await openai.chat.completions.create({
+    const response = await providerLimiters.openai.schedule(() => openai.chat.completions.create({
       model: "gpt-4o-mini",
       messages: [
         {
@@ -58,7 +59,7 @@ Respond ONLY with valid JSON, no markdown or additional text.`;
       ],
       temperature: 0.7,
       max_tokens: 500,
-    });
+    }), { units: (completion) => completion.usage?.total_tokens ?? 1 });
 
     const content = response.choices[0]?.message?.content || "{}";
     
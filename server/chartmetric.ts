@@ -1,4 +1,6 @@
 import type { PlaylistSnapshot } from "@shared/schema";
+import { providerLimiters } from "./services/rateLimiters";
+import { withResponseCache } from "./services/responseCache";
 
 interface ChartmetricAuthResponse {
   token: string;
@@ -64,27 +66,7 @@ let tokenExpiry: number = 0;
 const BASE_URL = "https://api.chartmetric.com/api";
 const API_KEY = process.env.CHARTMETRIC_API_KEY;
 
-class ChartmetricRateLimiter {
-  private lastRequestTime: number = 0;
-  private readonly minInterval: number = 2000; // 2 seconds = 30 requests per minute
-
-  async throttle(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.minInterval) {
-      const waitTime = this.minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastRequestTime = Date.now();
-  }
-}
-
-const rateLimiter = new ChartmetricRateLimiter();
-
 // In-memory caches for batch processing
-const isrcCache = new Map<string, ChartmetricTrack | null>();
 const metadataCache = new Map<string, any>();
 
 async function getAuthToken(): Promise<string> {
@@ -97,9 +79,7 @@ async function getAuthToken(): Promise<string> {
     return cachedToken;
   }
 
-  await rateLimiter.throttle();
-
-  const response = await fetch(`${BASE_URL}/token`, {
+  const response = await providerLimiters.chartmetric.fetch(`${BASE_URL}/token`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -127,9 +107,9 @@ async function getAuthToken(): Promise<string> {
 
 async function makeChartmetricRequest<T>(endpoint: string, method: string = "GET", retryCount: number = 0): Promise<T> {
   const token = await getAuthToken();
-  await rateLimiter.throttle();
 
-  const response = await fetch(`${BASE_URL}${endpoint}`, {
+  // 429s are retried by the limiter, honoring Retry-After
+  const response = await providerLimiters.chartmetric.fetch(`${BASE_URL}${endpoint}`, {
     method,
     headers: {
       "Authorization": `Bearer ${token}`,
@@ -137,8 +117,8 @@ async function makeChartmetricRequest<T>(endpoint: string, method: string = "GET
     },
   });
 
-  // Retry once on 429 (rate limit) or 5xx (server errors) with jitter
-  if (!response.ok && retryCount === 0 && (response.status === 429 || response.status >= 500)) {
+  // Retry once on 5xx (server errors) with jitter
+  if (!response.ok && retryCount === 0 && response.status >= 500) {
     const jitter = Math.random() * 2000; // 0-2 seconds random jitter
     const retryDelay = 3000 + jitter; // 3-5 seconds total
     
@@ -164,12 +144,21 @@ async function makeChartmetricRequest<T>(endpoint: string, method: string = "GET
 }
 
 export async function getTrackByISRC(isrc: string): Promise<ChartmetricTrack | null> {
-  // Check cache first
-  if (isrcCache.has(isrc)) {
-    console.log(`💾 Chartmetric: Using cached result for ISRC ${isrc}`);
-    return isrcCache.get(isrc)!;
+  try {
+    return await getCachedTrackByISRC(isrc);
+  } catch (error: any) {
+    console.error(`❌ Chartmetric: Error looking up ISRC ${isrc}:`, error.message);
+    return null; // Return null instead of throwing to handle gracefully
   }
+}
+
+// Only the persistent cache, which honors bypass and purge; throws on errors so they aren't remembered
+function getCachedTrackByISRC(isrc: string): Promise<ChartmetricTrack | null> {
+  return withResponseCache('chartmetric', 'track/isrc/get-ids', { isrc }, () => lookupTrackByISRC(isrc));
+}
 
+// Resolves null when Chartmetric has no track for the ISRC; throws on any other error
+async function lookupTrackByISRC(isrc: string): Promise<ChartmetricTrack | null> {
   try {
     console.log(`🔍 Chartmetric: Looking up track by ISRC ${isrc}`);
     const result = await makeChartmetricRequest<any>(`/track/isrc/${isrc}/get-ids`);
@@ -177,7 +166,6 @@ export async function getTrackByISRC(isrc: string): Promise<ChartmetricTrack | n
     // get-ids returns an array of track IDs with metadata
     if (!result || (Array.isArray(result) && result.length === 0)) {
       console.log(`⚠️  Chartmetric: No track found for ISRC ${isrc}`);
-      isrcCache.set(isrc, null);
       return null;
     }
     
@@ -188,7 +176,6 @@ export async function getTrackByISRC(isrc: string): Promise<ChartmetricTrack | n
     
     if (!chartmetricIds || chartmetricIds.length === 0) {
       console.log(`⚠️  Chartmetric: No Chartmetric ID in response for ISRC ${isrc}`);
-      isrcCache.set(isrc, null);
       return null;
     }
     
@@ -196,25 +183,19 @@ export async function getTrackByISRC(isrc: string): Promise<ChartmetricTrack | n
     console.log(`✅ Chartmetric: Found track with Chartmetric ID ${trackId}`);
     
     // Convert to our ChartmetricTrack format
-    const track: ChartmetricTrack = {
+    return {
       id: trackId.toString(),
       name: '', // Will be populated by metadata call if needed
       isrc: trackData.isrc || isrc,
       release_date: '',
       artists: []
     };
-    
-    isrcCache.set(isrc, track);
-    return track;
   } catch (error: any) {
     if (error.message.includes("404")) {
       console.log(`⚠️  Chartmetric: No track found for ISRC ${isrc}`);
-      isrcCache.set(isrc, null);
       return null;
     }
-    console.error(`❌ Chartmetric: Error looking up ISRC ${isrc}:`, error.message);
-    isrcCache.set(isrc, null);
-    return null; // Return null instead of throwing to handle gracefully
+    throw error;
   }
 }
 
@@ -523,7 +504,7 @@ export async function lookupIsrcBatch(tracks: BatchLookupInput[]): Promise<Batch
   const lookupPromises = uniqueIsrcs.map(isrc =>
     semaphore.run(async () => {
       try {
-        const track = await getTrackByISRC(isrc);
+        const track = await getCachedTrackByISRC(isrc);
         completed++;
         
         // Progress logging every 25 tracks for large batches
@@ -539,7 +520,8 @@ export async function lookupIsrcBatch(tracks: BatchLookupInput[]): Promise<Batch
     })
   );
 
-  const lookupResults = await Promise.allSettled(lookupPromises);
+  const lookupResults = await Promise.all(lookupPromises);
+  const lookups = new Map(lookupResults.map(result => [result.isrc, result]));
 
   // Step 3: Build results map for each track ID
   const results: Record<string, BatchLookupResult> = {};
@@ -555,13 +537,13 @@ export async function lookupIsrcBatch(tracks: BatchLookupInput[]): Promise<Batch
       continue;
     }
 
-    // Get the cached result from isrcCache
-    const cachedTrack = isrcCache.get(isrc);
+    const lookup = lookups.get(isrc);
+    const cachedTrack = lookup?.track ?? null;
 
-    if (cachedTrack === undefined) {
+    if (!lookup || lookup.error) {
       results[track.trackId] = {
         status: "error",
-        error: "Lookup failed",
+        error: lookup?.error || "Lookup failed",
       };
       stats.failed++;
     } else if (cachedTrack === null) {
@@ -801,12 +783,73 @@ export async function searchPlaylists(
   }
 }
 
+export interface ChartmetricTrackPlaylist extends ChartmetricPlaylistSearchResult {
+  isEditorial?: boolean;
+  position?: number;
+}
+
+export async function getTrackPlaylists(
+  chartmetricId: string,
+  platform: string = 'spotify',
+  limit: number = 100
+): Promise<ChartmetricTrackPlaylist[]> {
+  try {
+    console.log(`🎧 Chartmetric: Fetching current playlists for track ${chartmetricId}`);
+    const response = await makeChartmetricRequest<any>(
+      `/track/${chartmetricId}/${platform}/current/playlists?limit=${limit}`
+    );
+
+    // Entries are { playlist, track } pairs; older responses return bare playlist objects
+    const entries: any[] = Array.isArray(response) ? response : (response?.data || []);
+
+    const playlists = entries
+      .map((entry: any): ChartmetricTrackPlaylist | null => {
+        const p = entry.playlist || entry;
+        const platformId = p.playlist_id || p.platform_id || p.spotify_id;
+        if (!platformId) return null;
+
+        let imageUrl: string | undefined;
+        if (p.images && Array.isArray(p.images) && p.images.length > 0) {
+          const firstImage = p.images[0];
+          imageUrl = typeof firstImage === 'string' ? firstImage : firstImage?.url;
+        } else if (p.image_url) {
+          imageUrl = p.image_url;
+        }
+
+        return {
+          id: p.id?.toString() || '',
+          name: p.name || '',
+          platform,
+          curator: p.owner_name || p.curator_name || p.curator,
+          followerCount: p.followers || p.follower_count,
+          trackCount: p.num_track || p.track_count,
+          imageUrl,
+          platformId,
+          isEditorial: p.editorial === true || p.editorial === 1,
+          position: typeof entry.track?.position === 'number' ? entry.track.position : undefined,
+        };
+      })
+      .filter((playlist): playlist is ChartmetricTrackPlaylist => playlist !== null);
+
+    console.log(`✅ Chartmetric: Track ${chartmetricId} is on ${playlists.length} ${platform} playlists`);
+    return playlists;
+  } catch (error: any) {
+    if (error.message?.includes('401')) {
+      console.log(`ℹ️  Chartmetric: Track playlists endpoint requires Enterprise tier (track: ${chartmetricId})`);
+    } else {
+      console.error(`❌ Chartmetric: Error fetching playlists for track ${chartmetricId}:`, error.message);
+    }
+    return [];
+  }
+}
+
 export interface ChartmetricPlaylistTrack {
   chartmetricId: string;
   spotifyId?: string;
   name: string;
   artists: Array<{ id?: string; name: string }>;
   isrc?: string;
+  position?: number;
   album?: {
     name: string;
     image_url?: string;
@@ -886,6 +929,7 @@ export async function getPlaylistTracks(
               }))
             : [],
           isrc: track.isrc || undefined,
+          position: typeof track.position === 'number' ? track.position : undefined,
           album: track.album ? {
             name: track.album.name || '',
             image_url: track.album.image_url || track.album.images?.[0]?.url
@@ -0,0 +1,110 @@
+import type { FieldSource, InsertFieldConflict, PlaylistSnapshot } from "@shared/schema";
+import type { IStorage } from "../storage";
+import type { TrackMetadataUpdate } from "./trackStateContext";
+
+/**
+ * Field precedence policy
+ *
+ * For each governed field, an ordered list of sources, highest precedence first. A phase may
+ * overwrite a value written by a source of equal or lower precedence; a value from a higher
+ * source is kept. Sources missing from a field's list rank below every listed source.
+ *
+ * Whenever two different sources disagree on a non-empty value the disagreement is flagged
+ * for review, whichever value the policy kept, unless the kept value was set by hand: a manual
+ * value is already a reviewer's decision. Values with no recorded source (written before
+ * provenance existed, or edited by hand back then) rank below every source and are overwritten,
+ * but the overwrite is flagged so a reviewer can restore the old value.
+ */
+
+export type FieldPrecedencePolicy = Record<string, FieldSource[]>;
+
+export const DEFAULT_FIELD_PRECEDENCE: FieldPrecedencePolicy = {
+  songwriter: ['manual', 'mlc', 'credits_scrape', 'musicbrainz', 'chartmetric'],
+  publisher: ['manual', 'mlc', 'credits_scrape', 'chartmetric'],
+  producer: ['manual', 'credits_scrape', 'musicbrainz', 'chartmetric'],
+  label: ['manual', 'spotify_api', 'credits_scrape', 'chartmetric'],
+  composerName: ['manual', 'credits_scrape', 'musicbrainz', 'chartmetric'],
+};
+
+/**
+ * Built-in defaults overlaid with the rules saved in settings
+ */
+export async function loadFieldPrecedencePolicy(storage: IStorage): Promise<FieldPrecedencePolicy> {
+  const policy: FieldPrecedencePolicy = { ...DEFAULT_FIELD_PRECEDENCE };
+  const rules = await storage.getFieldPrecedenceRules();
+  for (const rule of rules) {
+    policy[rule.field] = rule.sources;
+  }
+  return policy;
+}
+
+function precedenceRank(sources: FieldSource[], source: FieldSource): number {
+  const index = sources.indexOf(source);
+  return index === -1 ? sources.length : index;
+}
+
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim().toLowerCase();
+}
+
+export type FieldConflictCandidate = Omit<InsertFieldConflict, 'jobId'>;
+
+/**
+ * Drop the fields of a patch that would overwrite a higher-precedence value,
+ * and report every governed field where the incoming value disagrees with the current one
+ */
+export function resolveFieldPatch(
+  track: PlaylistSnapshot,
+  patch: TrackMetadataUpdate,
+  source: FieldSource,
+  currentSources: Record<string, FieldSource>,
+  policy: FieldPrecedencePolicy
+): { patch: TrackMetadataUpdate; conflicts: FieldConflictCandidate[] } {
+  const resolved: Record<string, unknown> = { ...patch };
+  const conflicts: FieldConflictCandidate[] = [];
+
+  for (const field of Object.keys(patch)) {
+    const order = policy[field];
+    const incomingValue = (patch as Record<string, unknown>)[field];
+    if (!order || incomingValue === undefined) continue;
+
+    const currentValue = (track as Record<string, unknown>)[field];
+    const currentSource = currentSources[field];
+    if (currentSource === source) continue;
+
+    const current = normalizeValue(currentValue);
+    const incoming = normalizeValue(incomingValue);
+    if (!current || !incoming || current === incoming) continue;
+
+    if (!currentSource) {
+      conflicts.push({
+        trackId: track.id,
+        field,
+        appliedValue: String(incomingValue),
+        appliedSource: source,
+        overriddenValue: String(currentValue),
+        overriddenSource: null,
+      });
+      continue;
+    }
+
+    const incomingWins = precedenceRank(order, source) <= precedenceRank(order, currentSource);
+
+    if (!incomingWins) {
+      delete resolved[field];
+      if (currentSource === 'manual') continue;
+    }
+
+    conflicts.push({
+      trackId: track.id,
+      field,
+      appliedValue: String(incomingWins ? incomingValue : currentValue),
+      appliedSource: incomingWins ? source : currentSource,
+      overriddenValue: String(incomingWins ? currentValue : incomingValue),
+      overriddenSource: incomingWins ? currentSource : source,
+    });
+  }
+
+  return { patch: resolved as TrackMetadataUpdate, conflicts };
+}
@@ -1,33 +1,70 @@
-import type { EnrichmentJob, InsertEnrichmentJob } from "@shared/schema";
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import type { EnrichmentJob, EnrichmentJobEvent, EnrichmentPhaseTiming, InsertEnrichmentJob, InsertTrackEnrichmentAttempt, TrackEnrichmentAttempt } from "@shared/schema";
 import type { IStorage } from "../storage";
+import { planNextAttempt, planQuotaDeferral } from "./retryPolicy";
+
+// Claim order is priority DESC, then oldest first
+export const JOB_PRIORITY = {
+  SCHEDULED: 0,
+  USER: 10,
+  URGENT: 20,
+} as const;
+
+export interface JobEventInput {
+  message: string;
+  level?: EnrichmentJobEvent['level'];
+  phase?: string;
+  trackId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Due retries are pushed back this far once queued, so a job that never runs doesn't strand them
+const RETRY_CLAIM_MS = 24 * 60 * 60 * 1000;
+
+// A worker renews its leases every DEFAULT_LEASE_MS / 3; a job is reclaimable once its lease runs out
+const DEFAULT_LEASE_MS = 60_000;
 
 export interface JobQueueOptions {
   maxConcurrency?: number;
   storage: IStorage;
+  // Unique per process; defaults to host, pid and a random suffix
+  workerId?: string;
+  leaseMs?: number;
+  // Streams each job event to clients as enrichment_job_event
+  wsBroadcast?: (event: string, data: any) => void;
 }
 
 export class JobQueue {
   private maxConcurrency: number;
   private storage: IStorage;
+  private wsBroadcast?: (event: string, data: any) => void;
+  readonly workerId: string;
+  readonly leaseMs: number;
 
   constructor(options: JobQueueOptions) {
     this.maxConcurrency = options.maxConcurrency || 1;
     this.storage = options.storage;
+    this.wsBroadcast = options.wsBroadcast;
+    this.workerId = options.workerId || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+    this.leaseMs = options.leaseMs || DEFAULT_LEASE_MS;
   }
 
+  /**
+   * Running jobs are left alone: other workers may own them. Jobs orphaned by a crashed
+   * worker are picked up by getNextJob once their lease expires.
+   */
   async initialize() {
+    const queuedJobs = await this.storage.getEnrichmentJobsByStatus(['queued']);
     const runningJobs = await this.storage.getEnrichmentJobsByStatus(['running']);
-    
-    for (const job of runningJobs) {
-      await this.storage.updateEnrichmentJob(job.id, {
-        status: 'queued',
-        logs: [...(job.logs || []), `[${new Date().toISOString()}] Job reset to queued after process restart`],
-        updatedAt: new Date(),
-      });
-    }
+    const now = Date.now();
+    const expired = runningJobs.filter(job => !job.leaseExpiresAt || job.leaseExpiresAt.getTime() < now);
 
-    const queuedJobs = await this.storage.getEnrichmentJobsByStatus(['queued']);
-    console.log(`📦 JobQueue initialized with ${queuedJobs.length} pending jobs`);
+    console.log(`📦 JobQueue initialized as worker ${this.workerId} (concurrency ${this.maxConcurrency}) with ${queuedJobs.length} pending jobs, ${expired.length} expired leases to reclaim`);
+  }
+
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
   }
 
   async enqueue(jobData: InsertEnrichmentJob): Promise<EnrichmentJob> {
@@ -42,7 +79,19 @@ export class JobQueue {
 
   async getNextJob(): Promise<EnrichmentJob | null> {
     try {
-      return await this.storage.claimNextEnrichmentJob();
+      const claim = await this.storage.claimNextEnrichmentJob(this.workerId, this.leaseMs);
+      if (!claim) return null;
+
+      if (claim.reclaimedFromWorkerId) {
+        console.warn(`⚠️ Job ${claim.job.id} reclaimed from worker ${claim.reclaimedFromWorkerId} after its lease expired`);
+        await this.logEvent(claim.job.id, {
+          level: 'warn',
+          message: `Lease expired on worker ${claim.reclaimedFromWorkerId}; reclaimed by ${this.workerId}`,
+          metadata: { previousWorkerId: claim.reclaimedFromWorkerId, workerId: this.workerId },
+        });
+      }
+
+      return claim.job;
     } catch (error) {
       console.error(`❌ Failed to claim next job:`, error);
       return null;
@@ -55,48 +104,335 @@ export class JobQueue {
       progress?: number;
       enrichedTracks?: number;
       errorCount?: number;
-      logs?: string[];
+      event?: JobEventInput;
     }
   ): Promise<void> {
-    const currentJob = await this.storage.getEnrichmentJobById(jobId);
-    if (!currentJob) {
-      console.warn(`⚠️ Job ${jobId} not found`);
+    const { event, ...counters } = updates;
+
+    if (Object.values(counters).some(value => value !== undefined)) {
+      await this.storage.updateEnrichmentJob(jobId, {
+        ...counters,
+        updatedAt: new Date(),
+      });
+    }
+
+    if (event) {
+      await this.logEvent(jobId, event);
+    }
+  }
+
+  /**
+   * Finish a job this worker is running. Only a job still running under the given claim
+   * moves: one paused, cancelled or claimed again since keeps its state and its new owner
+   * reports on it.
+   */
+  async completeJob(job: EnrichmentJob, success: boolean, finalEvent?: JobEventInput): Promise<void> {
+    const completed = await this.storage.transitionEnrichmentJob(job.id, ['running'], {
+      status: success ? 'completed' : 'failed',
+      ...(success ? { progress: 100 } : {}),
+      leaseExpiresAt: null,
+      completedAt: new Date(),
+    }, job.claimToken);
+
+    if (!completed) {
+      console.warn(`⚠️ Job ${job.id} is no longer running under this claim, not marking it ${success ? 'completed' : 'failed'}`);
       return;
     }
 
-    const newLogs = updates.logs
-      ? [...(currentJob.logs || []), ...updates.logs]
-      : currentJob.logs;
+    if (finalEvent) {
+      await this.logEvent(job.id, { level: success ? 'info' : 'error', ...finalEvent });
+    }
 
-    await this.storage.updateEnrichmentJob(jobId, {
-      progress: updates.progress,
-      enrichedTracks: updates.enrichedTracks,
-      errorCount: updates.errorCount,
-      logs: newLogs,
-      updatedAt: new Date(),
+    console.log(`${success ? '✅' : '❌'} Job ${job.id} ${success ? 'completed' : 'failed'}`);
+  }
+
+  /**
+   * Append one event to the job log and stream it to clients
+   */
+  async logEvent(jobId: string, event: JobEventInput): Promise<void> {
+    const [saved] = await this.storage.appendEnrichmentJobEvents([{
+      jobId,
+      level: event.level || 'info',
+      phase: event.phase ?? null,
+      trackId: event.trackId ?? null,
+      message: event.message,
+      metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+    }]);
+
+    if (saved && this.wsBroadcast) {
+      this.wsBroadcast('enrichment_job_event', {
+        type: 'enrichment_job_event',
+        jobId,
+        event: { ...saved, metadata: event.metadata ?? null },
+      });
+    }
+  }
+
+  /**
+   * Queued and paused jobs are cancelled on the spot. A running job is flagged and
+   * the worker stops it at its next checkpoint, keeping whatever it already wrote.
+   */
+  async cancelJob(jobId: string): Promise<EnrichmentJob | null> {
+    const stopped = await this.storage.transitionEnrichmentJob(jobId, ['queued', 'paused'], {
+      status: 'cancelled',
+      completedAt: new Date(),
     });
+    if (stopped) {
+      await this.logEvent(jobId, { level: 'warn', message: 'Job cancelled' });
+      return stopped;
+    }
+
+    const flagged = await this.storage.transitionEnrichmentJob(jobId, ['running'], { status: 'cancelled' });
+    if (flagged) {
+      await this.logEvent(jobId, { level: 'warn', message: 'Cancellation requested; stopping at next checkpoint' });
+    }
+    return flagged;
   }
 
-  async completeJob(jobId: string, success: boolean, finalLogs?: string[]): Promise<void> {
+  async pauseJob(jobId: string): Promise<EnrichmentJob | null> {
+    const job = await this.storage.transitionEnrichmentJob(jobId, ['queued', 'running'], { status: 'paused' });
+    if (job) {
+      await this.logEvent(jobId, { message: 'Job paused' });
+    }
+    return job;
+  }
+
+  // A resumed job goes back into the queue and skips the phases it already finished
+  async resumeJob(jobId: string): Promise<EnrichmentJob | null> {
+    const job = await this.storage.transitionEnrichmentJob(jobId, ['paused'], { status: 'queued' });
+    if (job) {
+      await this.logEvent(jobId, { message: 'Job resumed' });
+    }
+    return job;
+  }
+
+  async setJobPriority(jobId: string, priority: number): Promise<EnrichmentJob | null> {
+    return this.storage.transitionEnrichmentJob(jobId, ['queued', 'running', 'paused'], { priority });
+  }
+
+  async markPhaseCompleted(jobId: string, phase: string): Promise<void> {
+    await this.storage.markEnrichmentJobPhaseCompleted(jobId, phase);
+  }
+
+  /**
+   * Renew the lease on a claimed job. Returns false once the job has been claimed again,
+   * by another worker or another slot of this one.
+   */
+  async heartbeat(job: EnrichmentJob): Promise<boolean> {
+    if (!job.claimToken) return false;
+    return this.storage.renewEnrichmentJobLease(job.id, job.claimToken, this.leaseMs);
+  }
+
+  async releaseLeases(): Promise<void> {
+    const released = await this.storage.releaseEnrichmentJobLeases(this.workerId);
+    if (released > 0) {
+      console.log(`🔓 Released ${released} job leases held by worker ${this.workerId}`);
+    }
+  }
+
+  /**
+   * Whether a running job has been cancelled or paused since it was claimed, or claimed again.
+   * A new claim token means another worker, or another slot of this worker after a pause and
+   * resume, has taken the job over. A job that is already back in the queue (paused, then
+   * resumed before the worker reached a checkpoint) counts as paused: the worker stops and
+   * the next claim continues it.
+   */
+  async getInterruption(claimed: EnrichmentJob): Promise<'paused' | 'cancelled' | 'lease_lost' | null> {
+    const job = await this.storage.getEnrichmentJobById(claimed.id);
+    if (!job) {
+      return null;
+    }
+    if (job.claimToken !== claimed.claimToken) {
+      return 'lease_lost';
+    }
+    if (job.status === 'running') {
+      return null;
+    }
+    return job.status === 'cancelled' ? 'cancelled' : 'paused';
+  }
+
+  async recordPhaseTiming(jobId: string, phase: string, timing: EnrichmentPhaseTiming): Promise<void> {
     const currentJob = await this.storage.getEnrichmentJobById(jobId);
-    if (!currentJob) {
-      console.warn(`⚠️ Job ${jobId} not found`);
-      return;
+    if (!currentJob) return;
+
+    const timings: Record<string, EnrichmentPhaseTiming> = currentJob.phaseTimings
+      ? JSON.parse(currentJob.phaseTimings)
+      : {};
+    timings[phase] = timing;
+
+    await this.storage.updateEnrichmentJob(jobId, { phaseTimings: JSON.stringify(timings) });
+  }
+
+  async recordTrackFailures(jobId: string, phase: string, failures: Array<{ trackId: string; reason: string }>): Promise<void> {
+    await this.storage.recordEnrichmentJobFailures(
+      failures.map(failure => ({ jobId, phase, ...failure }))
+    );
+  }
+
+  /**
+   * Enqueue a new job for just the tracks that failed in a finished job, with the
+   * same playlist and target phase. Returns null when nothing failed.
+   */
+  async retryFailedTracks(jobId: string, priority: number = JOB_PRIORITY.USER): Promise<EnrichmentJob | null> {
+    const job = await this.storage.getEnrichmentJobById(jobId);
+    if (!job) return null;
+
+    const failures = await this.storage.getEnrichmentJobFailures(jobId);
+    const trackIds = Array.from(new Set(failures.map(f => f.trackId)));
+    if (trackIds.length === 0) return null;
+
+    const retryJob = await this.enqueue({
+      type: job.type,
+      playlistId: job.playlistId,
+      trackIds,
+      targetPhase: job.targetPhase,
+      priority,
+      bypassCache: job.bypassCache,
+      retryOfJobId: job.id,
+      status: 'queued',
+      progress: 0,
+      totalTracks: trackIds.length,
+      enrichedTracks: 0,
+      errorCount: 0,
+    });
+
+    await this.logEvent(retryJob.id, {
+      message: `Retrying ${trackIds.length} failed tracks from job ${job.id}`,
+      metadata: { retryOfJobId: job.id },
+    });
+
+    return retryJob;
+  }
+
+  /**
+   * Count one more failed attempt per track for a phase and schedule its next retry.
+   * Returns the tracks that just crossed into the dead-letter state.
+   */
+  async recordTrackAttempts(phase: string, failures: Array<{ trackId: string; reason: string }>): Promise<TrackEnrichmentAttempt[]> {
+    // A track can fail a phase more than once in a job (e.g. scrape and then save); count it once
+    const byTrack = new Map<string, string>();
+    failures.forEach(failure => byTrack.set(failure.trackId, failure.reason));
+    const trackIds = Array.from(byTrack.keys());
+    if (trackIds.length === 0) return [];
+
+    const previous = new Map<string, TrackEnrichmentAttempt>();
+    (await this.storage.getTrackEnrichmentAttempts(phase, trackIds)).forEach(attempt => previous.set(attempt.trackId, attempt));
+
+    const now = new Date();
+    const planned: InsertTrackEnrichmentAttempt[] = [];
+    for (const trackId of trackIds) {
+      const next = planNextAttempt(previous.get(trackId), { trackId, phase, reason: byTrack.get(trackId)! }, now);
+      if (next) planned.push(next);
     }
 
-    const logs = finalLogs
-      ? [...(currentJob.logs || []), ...finalLogs]
-      : currentJob.logs;
+    const saved = await this.storage.upsertTrackEnrichmentAttempts(planned);
+    return saved.filter(attempt => attempt.status === 'dead_letter' && previous.get(attempt.trackId)?.status !== 'dead_letter');
+  }
 
-    await this.storage.updateEnrichmentJob(jobId, {
-      status: success ? 'completed' : 'failed',
-      progress: success ? 100 : currentJob.progress,
-      logs,
-      completedAt: new Date(),
-      updatedAt: new Date(),
+  // Tracks left out of a phase for lack of quota: due again when it resets, without counting an attempt
+  async deferTrackAttemptsForQuota(phase: string, trackIds: string[], reason: string): Promise<void> {
+    if (trackIds.length === 0) return;
+
+    const previous = new Map<string, TrackEnrichmentAttempt>();
+    (await this.storage.getTrackEnrichmentAttempts(phase, trackIds)).forEach(attempt => previous.set(attempt.trackId, attempt));
+
+    const now = new Date();
+    const planned: InsertTrackEnrichmentAttempt[] = [];
+    for (const trackId of trackIds) {
+      const next = planQuotaDeferral(previous.get(trackId), { trackId, phase, reason }, now);
+      if (next) planned.push(next);
+    }
+
+    await this.storage.upsertTrackEnrichmentAttempts(planned);
+  }
+
+  // A phase succeeded (or no longer applies) for these tracks: drop their retry state
+  async clearTrackAttempts(phase: string, trackIds: string[]): Promise<void> {
+    await this.storage.deleteTrackEnrichmentAttempts(phase, trackIds);
+  }
+
+  /**
+   * Enqueue one targeted job per phase for tracks whose backoff has elapsed.
+   * Returns the jobs created.
+   */
+  async enqueueDueRetries(limit: number = 500): Promise<EnrichmentJob[]> {
+    const seeded = await this.storage.seedLegacyTrackEnrichmentAttempts();
+    if (seeded > 0) {
+      console.log(`🌱 Seeded retry attempts for ${seeded} tracks that failed before retry tracking`);
+    }
+
+    const due = await this.storage.getDueTrackEnrichmentAttempts(new Date(), limit);
+    if (due.length === 0) return [];
+
+    const byPhase = new Map<string, TrackEnrichmentAttempt[]>();
+    due.forEach(attempt => {
+      byPhase.set(attempt.phase, [...(byPhase.get(attempt.phase) || []), attempt]);
     });
 
-    console.log(`${success ? '✅' : '❌'} Job ${jobId} ${success ? 'completed' : 'failed'}`);
+    const jobs: EnrichmentJob[] = [];
+    for (const [phase, attempts] of Array.from(byPhase.entries())) {
+      const trackIds = attempts.map(attempt => attempt.trackId);
+      const job = await this.enqueue({
+        type: 'enrich-tracks',
+        playlistId: null,
+        trackIds,
+        targetPhase: phase,
+        priority: JOB_PRIORITY.SCHEDULED,
+        status: 'queued',
+        progress: 0,
+        totalTracks: trackIds.length,
+        enrichedTracks: 0,
+        errorCount: 0,
+      });
+      await this.storage.deferTrackEnrichmentAttempts(
+        attempts.map(attempt => attempt.id),
+        new Date(Date.now() + RETRY_CLAIM_MS)
+      );
+      await this.logEvent(job.id, {
+        message: `Retrying ${trackIds.length} tracks whose ${phase} backoff elapsed`,
+        metadata: { retryTrackCount: trackIds.length },
+      });
+      jobs.push(job);
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Give a dead-lettered track a fresh set of attempts and enqueue it for its phase now.
+   * Returns null when the attempt doesn't exist or isn't dead-lettered.
+   */
+  async requeueDeadLetter(attemptId: string, priority: number = JOB_PRIORITY.USER): Promise<EnrichmentJob | null> {
+    const attempt = await this.storage.getTrackEnrichmentAttemptById(attemptId);
+    if (!attempt || attempt.status !== 'dead_letter') return null;
+
+    await this.storage.updateTrackEnrichmentAttempt(attempt.id, {
+      status: 'retrying',
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + RETRY_CLAIM_MS),
+    });
+
+    const job = await this.enqueue({
+      type: 'enrich-tracks',
+      playlistId: null,
+      trackIds: [attempt.trackId],
+      targetPhase: attempt.phase,
+      priority,
+      bypassCache: 1, // A cached "not found" would dead-letter it again without a fresh lookup
+      status: 'queued',
+      progress: 0,
+      totalTracks: 1,
+      enrichedTracks: 0,
+      errorCount: 0,
+    });
+
+    await this.logEvent(job.id, {
+      message: `Requeued dead-lettered track for ${attempt.phase} after ${attempt.attempts} attempts`,
+      trackId: attempt.trackId,
+      metadata: { lastError: attempt.lastError, errorClass: attempt.errorClass },
+    });
+
+    return job;
   }
 
   async getJob(jobId: string): Promise<EnrichmentJob | null> {
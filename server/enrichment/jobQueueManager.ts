@@ -18,8 +18,9 @@ export async function initializeJobQueue(options?: JobQueueManagerOptions): Prom
   console.log("🔧 Initializing job queue and worker...");
 
   jobQueue = new JobQueue({
-    maxConcurrency: 1,
+    maxConcurrency: parseInt(process.env.ENRICHMENT_WORKER_CONCURRENCY || "1", 10) || 1,
     storage,
+    wsBroadcast: options?.wsBroadcast,
   });
 
   await jobQueue.initialize();
@@ -49,6 +50,10 @@ export async function shutdownJobQueue(): Promise<void> {
     worker = null;
   }
 
+  if (jobQueue) {
+    await jobQueue.releaseLeases();
+  }
+
   jobQueue = null;
 
   console.log("🛑 Job queue and worker shut down");
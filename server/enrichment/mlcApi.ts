@@ -1,4 +1,7 @@
 import type { PlaylistSnapshot } from "@shared/schema";
+import { classifyPublishers, toPublisherStatus, type PublisherStatus } from "../scoring/publisherClassifier";
+import { providerLimiters } from "../services/rateLimiters";
+import { withResponseCache } from "../services/responseCache";
 
 interface MLCAuthResponse {
   accessToken: string;
@@ -73,17 +76,107 @@ interface MLCSearchRecording {
   artist?: string;
 }
 
+export interface MLCWriterShare {
+  writerName: string | null;
+  writerIpi: string | null;
+  publisherName: string | null;
+  publisherIpi: string | null;
+  administrators: string | null;
+  collectionShare: number | null;
+}
+
 export interface MLCEnrichmentResult {
   trackId: string;
   hasPublisher: boolean;
   publisherNames: string[];
   writerNames: string[];
+  writerShares?: MLCWriterShare[];
   administrators?: string;
   mlcSongCode?: string;
   iswc?: string;
   error?: string;
 }
 
+/**
+ * publisherStatus for a Phase 5 result: classified tier when publishers were found,
+ * 'unknown' when MLC had nothing (so the track is retried), undefined on error
+ */
+export function getMLCPublisherStatus(result: MLCEnrichmentResult): PublisherStatus | 'unknown' | undefined {
+  if (result.error) return undefined;
+  if (!result.hasPublisher) return 'unknown';
+  
+  const administrators = result.administrators ? result.administrators.split(', ') : [];
+  return toPublisherStatus(classifyPublishers([...result.publisherNames, ...administrators], result.writerNames).tier);
+}
+
+function normalizeShareName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Split a work into one row per writer share.
+ * MLC lists publishers at work level, so each publisher is tied to a writer when the
+ * work has a single writer, the publisher name contains the writer's name, or exactly
+ * one writer is left without a publisher. Anything else stays as a writer-less share.
+ */
+export function buildWriterShares(work: MLCWork): MLCWriterShare[] {
+  const writers = (work.writers || [])
+    .map(w => ({
+      name: `${w.writerFirstName || ''} ${w.writerLastName || ''}`.trim(),
+      ipi: w.writerIPI || null,
+    }))
+    .filter(w => !!w.name);
+  const publishers = (work.publishers || []).filter(p => !!p.publisherName);
+
+  const attributed = new Map<number, MLCPublisher[]>();
+  const unattributed: MLCPublisher[] = [];
+
+  for (const publisher of publishers) {
+    const publisherKey = normalizeShareName(publisher.publisherName!);
+    const writerIndex = writers.length === 1
+      ? 0
+      : writers.findIndex(w => normalizeShareName(w.name).length >= 3 && publisherKey.includes(normalizeShareName(w.name)));
+
+    if (writerIndex >= 0) {
+      attributed.set(writerIndex, [...(attributed.get(writerIndex) || []), publisher]);
+    } else {
+      unattributed.push(publisher);
+    }
+  }
+
+  const writersWithoutPublisher = writers.map((_, index) => index).filter(index => !attributed.has(index));
+  if (unattributed.length > 0 && writersWithoutPublisher.length === 1) {
+    attributed.set(writersWithoutPublisher[0], unattributed.splice(0));
+  }
+
+  const toShare = (writer: { name: string; ipi: string | null } | null, publisher: MLCPublisher | null): MLCWriterShare => {
+    const adminNames = (publisher?.administrators || [])
+      .map(admin => admin.publisherName)
+      .filter((name): name is string => !!name);
+    return {
+      writerName: writer?.name ?? null,
+      writerIpi: writer?.ipi ?? null,
+      publisherName: publisher?.publisherName ?? null,
+      publisherIpi: publisher?.publisherIpiNumber ?? null,
+      administrators: adminNames.length > 0 ? adminNames.join(", ") : null,
+      collectionShare: publisher?.collectionShare ?? null,
+    };
+  };
+
+  const shares: MLCWriterShare[] = [];
+  writers.forEach((writer, index) => {
+    const writerPublishers = attributed.get(index);
+    if (writerPublishers) {
+      shares.push(...writerPublishers.map(publisher => toShare(writer, publisher)));
+    } else {
+      shares.push(toShare(writer, null));
+    }
+  });
+  shares.push(...unattributed.map(publisher => toShare(null, publisher)));
+
+  return shares;
+}
+
 class MLCApiClient {
   private baseUrl = "https://public-api.themlc.com";
   private username: string;
@@ -106,7 +199,7 @@ class MLCApiClient {
     console.log("[MLC API] Authenticating...");
     
     try {
-      const response = await fetch(`${this.baseUrl}/oauth/token`, {
+      const response = await providerLimiters.mlc.fetch(`${this.baseUrl}/oauth/token`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -143,6 +236,14 @@ class MLCApiClient {
   }
 
   async searchByISRC(isrc: string, title?: string, artist?: string): Promise<MLCRecording[]> {
+    const recordings = await withResponseCache('mlc', 'search/recordings', { isrc, title, artist }, async () => {
+      const results = await this.fetchRecordingsByISRC(isrc, title, artist);
+      return results.length > 0 ? results : null;
+    });
+    return recordings || [];
+  }
+
+  private async fetchRecordingsByISRC(isrc: string, title?: string, artist?: string): Promise<MLCRecording[]> {
     await this.authenticate();
 
     const searchPayload: MLCSearchRecording = {
@@ -151,7 +252,7 @@ class MLCApiClient {
       ...(artist && { artist }),
     };
 
-    const response = await fetch(`${this.baseUrl}/search/recordings`, {
+    const response = await providerLimiters.mlc.fetch(`${this.baseUrl}/search/recordings`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -176,7 +277,7 @@ class MLCApiClient {
       ...(writers && writers.length > 0 && { writers }),
     };
 
-    const response = await fetch(`${this.baseUrl}/search/songcode`, {
+    const response = await providerLimiters.mlc.fetch(`${this.baseUrl}/search/songcode`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -196,7 +297,7 @@ class MLCApiClient {
   async getWorkById(mlcSongCode: string): Promise<MLCWork> {
     await this.authenticate();
 
-    const response = await fetch(`${this.baseUrl}/work/id/${mlcSongCode}`, {
+    const response = await providerLimiters.mlc.fetch(`${this.baseUrl}/work/id/${mlcSongCode}`, {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
@@ -298,6 +399,7 @@ async function enrichSingleTrack(
         hasPublisher: publishers.length > 0,
         publisherNames,
         writerNames,
+        writerShares: buildWriterShares(mlcWork),
         administrators,
         mlcSongCode: mlcWork.mlcSongCode,
         iswc: mlcWork.iswc,
@@ -323,6 +425,37 @@ async function enrichSingleTrack(
   }
 }
 
+/**
+ * Writer shares for works already matched to a song code, one work lookup per code.
+ * Codes whose lookup fails are left out so they can be tried again later.
+ */
+export async function fetchWriterSharesBySongCode(songCodes: string[]): Promise<Map<string, MLCWriterShare[]>> {
+  const username = process.env.MLC_USERNAME;
+  const password = process.env.MLC_PASSWORD;
+  const sharesByCode = new Map<string, MLCWriterShare[]>();
+
+  if (!username || !password) {
+    console.warn("[MLC] No credentials found, skipping writer share lookup");
+    return sharesByCode;
+  }
+
+  const client = new MLCApiClient(username, password);
+  const CONCURRENCY = 5;
+
+  for (let i = 0; i < songCodes.length; i += CONCURRENCY) {
+    const batch = songCodes.slice(i, i + CONCURRENCY);
+    await Promise.all(batch.map(async (songCode) => {
+      try {
+        sharesByCode.set(songCode, buildWriterShares(await client.getWorkById(songCode)));
+      } catch (error) {
+        console.error(`[MLC] Failed to fetch work ${songCode} for writer shares:`, error);
+      }
+    }));
+  }
+
+  return sharesByCode;
+}
+
 export async function enrichTracksWithMLC(
   tracks: Pick<PlaylistSnapshot, "id" | "isrc" | "trackName" | "artistName" | "songwriter">[]
 ): Promise<MLCEnrichmentResult[]> {
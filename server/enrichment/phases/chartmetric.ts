@@ -0,0 +1,87 @@
+import { enrichTrackWithChartmetric } from "../../chartmetric";
+import type { EnrichmentPhase, TrackPatch, TrackFailure } from "./types";
+
+/**
+ * Chartmetric streaming analytics, moods and activities, looked up by ISRC
+ */
+export const chartmetricPhase: EnrichmentPhase = {
+  name: 'chartmetric',
+  label: 'Chartmetric Analytics',
+  legacyNumber: 4,
+  source: 'chartmetric',
+  quota: { provider: 'chartmetric', unitsPerTrack: 2 },
+  dependsOn: ['spotify-api'],
+  appliesTo: (track) => track.chartmetricStatus !== 'success' && track.chartmetricStatus !== 'not_found',
+
+  async run(tracks, { isInterrupted }) {
+    const patches: TrackPatch[] = [];
+    const failures: TrackFailure[] = [];
+    let enrichedCount = 0;
+    let notFoundCount = 0;
+    let failedCount = 0;
+    let interrupted = false;
+
+    for (const track of tracks) {
+      if (await isInterrupted()) {
+        interrupted = true;
+        break;
+      }
+
+      if (!track.isrc) {
+        patches.push({
+          trackId: track.id,
+          patch: { chartmetricStatus: 'failed_missing_isrc', chartmetricEnrichedAt: new Date() },
+        });
+        failures.push({ trackId: track.id, reason: 'Missing ISRC' });
+        failedCount++;
+        continue;
+      }
+
+      try {
+        const chartmetricData = await enrichTrackWithChartmetric(track);
+
+        if (chartmetricData && chartmetricData.chartmetricId) {
+          patches.push({
+            trackId: track.id,
+            patch: {
+              chartmetricId: chartmetricData.chartmetricId,
+              spotifyStreams: chartmetricData.spotifyStreams,
+              streamingVelocity: chartmetricData.streamingVelocity?.toString(),
+              youtubeViews: chartmetricData.youtubeViews,
+              trackStage: chartmetricData.trackStage,
+              moods: chartmetricData.moods,
+              activities: chartmetricData.activities,
+              chartmetricStatus: 'success',
+              chartmetricEnrichedAt: new Date(),
+            },
+          });
+          enrichedCount++;
+          console.log(`[Chartmetric] ✅ Enriched ${track.trackName}: ${chartmetricData.spotifyStreams?.toLocaleString()} streams`);
+        } else {
+          patches.push({
+            trackId: track.id,
+            patch: { chartmetricStatus: 'not_found', chartmetricEnrichedAt: new Date() },
+          });
+          notFoundCount++;
+        }
+      } catch (error) {
+        console.error(`[Chartmetric] Error enriching track ${track.id}:`, error);
+        patches.push({
+          trackId: track.id,
+          patch: { chartmetricStatus: 'failed_api', chartmetricEnrichedAt: new Date() },
+        });
+        failures.push({ trackId: track.id, reason: error instanceof Error ? error.message : String(error) });
+        failedCount++;
+      }
+    }
+
+    return {
+      patches,
+      enrichedCount,
+      summary: `${enrichedCount} enriched, ${notFoundCount} not found, ${failedCount} failed`,
+      qualityMetrics: { tracksEnriched: enrichedCount },
+      failures,
+      interrupted,
+    };
+  },
+};
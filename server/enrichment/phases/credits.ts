@@ -0,0 +1,138 @@
+import { enrichTracksWithCredits } from "../spotifyCreditsScaper";
+import { calculateUnsignedScore } from "../../scoring";
+import type { EnrichmentPhase, TrackPatch } from "./types";
+
+/**
+ * Spotify credits scraping (Puppeteer): songwriter, producer, publisher, label and stream counts.
+ * Credits belong to the song, so every patch is applied to all job tracks sharing the Spotify URL.
+ * Unsigned scores are recalculated once the credits are persisted.
+ */
+export const creditsPhase: EnrichmentPhase = {
+  name: 'credits',
+  label: 'Credits Scraping',
+  legacyNumber: 2,
+  source: 'credits_scrape',
+  dependsOn: ['spotify-api'],
+  appliesTo: () => true,
+
+  async run(tracks, { storage, allTracks }) {
+    const result = await enrichTracksWithCredits(tracks.map(t => ({
+      id: t.id,
+      spotifyUrl: t.spotifyUrl,
+      songwriter: t.songwriter,
+      spotifyStreams: t.spotifyStreams,
+    })));
+
+    const enrichedTrackIds = new Set(result.enrichedTracks.map(t => t.trackId));
+    const failedTrackIds = new Set(result.errorDetails.map(e => e.trackId));
+    const patches: TrackPatch[] = [];
+
+    for (const enrichedTrack of result.enrichedTracks) {
+      const hasCredits = !!(enrichedTrack.songwriter || enrichedTrack.producer || enrichedTrack.publisher);
+
+      patches.push({
+        trackId: enrichedTrack.trackId,
+        allInstances: true,
+        patch: {
+          songwriter: enrichedTrack.songwriter || undefined,
+          producer: enrichedTrack.producer || undefined,
+          publisher: enrichedTrack.publisher || undefined,
+          label: enrichedTrack.label || undefined,
+          spotifyStreams: enrichedTrack.spotifyStreams || undefined,
+          enrichedAt: new Date(),
+          enrichmentStatus: 'enriched',
+          creditsStatus: hasCredits ? 'success' : 'no_data',
+          lastEnrichmentAttempt: new Date(),
+        },
+      });
+    }
+
+    // Processed but nothing scraped
+    for (const track of tracks) {
+      if (!enrichedTrackIds.has(track.id) && !failedTrackIds.has(track.id)) {
+        patches.push({
+          trackId: track.id,
+          allInstances: true,
+          patch: {
+            enrichmentStatus: 'partial',
+            creditsStatus: 'no_data',
+            lastEnrichmentAttempt: new Date(),
+          },
+        });
+      }
+    }
+
+    for (const errorDetail of result.errorDetails) {
+      patches.push({
+        trackId: errorDetail.trackId,
+        allInstances: true,
+        patch: {
+          enrichmentStatus: 'partial',
+          creditsStatus: 'failed',
+          lastEnrichmentAttempt: new Date(),
+        },
+      });
+    }
+
+    return {
+      patches,
+      enrichedCount: result.tracksEnriched,
+      summary: `${result.tracksEnriched}/${result.tracksProcessed} tracks enriched`,
+      jobTotals: { enrichedTracks: result.tracksEnriched, errorCount: result.errors },
+      failures: result.errorDetails.map(e => ({ trackId: e.trackId, reason: e.error })),
+
+      async afterPersist(persistFailedIds) {
+        // Scores are written directly, not through the patch system
+        let scoresUpdated = 0;
+        for (const track of allTracks) {
+          const score = calculateUnsignedScore({
+            playlistName: track.playlistName,
+            label: track.label ?? null,
+            publisher: track.publisher ?? undefined,
+            writer: track.songwriter ?? undefined,
+            artistName: track.artistName,
+            songwriter: track.songwriter ?? undefined,
+            wowGrowthPct: undefined, // Will be calculated in performance tracking
+          });
+
+          try {
+            await storage.updateTrackMetadata(track.id, { unsignedScore: score });
+            scoresUpdated++;
+          } catch (error) {
+            console.error(`[Scoring] Failed to update score for track ${track.id}:`, error);
+          }
+        }
+        console.log(`[Scoring] ✅ Updated ${scoresUpdated} tracks`);
+
+        for (const enrichedTrack of result.enrichedTracks) {
+          if (persistFailedIds.includes(enrichedTrack.trackId)) continue;
+
+          const creditsFound = [];
+          if (enrichedTrack.songwriter) creditsFound.push('songwriter');
+          if (enrichedTrack.producer) creditsFound.push('producer');
+          if (enrichedTrack.label) creditsFound.push('label');
+
+          const streamsText = enrichedTrack.spotifyStreams
+            ? `, ${enrichedTrack.spotifyStreams.toLocaleString()} streams`
+            : '';
+
+          await storage.logActivity({
+            entityType: 'track',
+            trackId: enrichedTrack.trackId,
+            playlistId: null,
+            eventType: 'credits_enriched',
+            eventDescription: `Phase 2: Scraped ${creditsFound.length > 0 ? creditsFound.join(', ') : 'no credits'}${streamsText}`,
+            metadata: JSON.stringify({
+              phase: 2,
+              songwriter: enrichedTrack.songwriter,
+              producer: enrichedTrack.producer,
+              publisher: enrichedTrack.publisher,
+              label: enrichedTrack.label,
+              spotifyStreams: enrichedTrack.spotifyStreams,
+            }),
+          });
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,21 @@
+import { registerEnrichmentPhase } from "./registry";
+import { spotifyApiPhase } from "./spotifyApi";
+import { creditsPhase } from "./credits";
+import { musicbrainzPhase } from "./musicbrainz";
+import { chartmetricPhase } from "./chartmetric";
+import { mlcPhase } from "./mlc";
+import { youtubePhase } from "./youtube";
+
+/**
+ * Built-in enrichment phases. New data sources register here;
+ * the worker runs whatever is registered, in dependency order.
+ */
+registerEnrichmentPhase(spotifyApiPhase);
+registerEnrichmentPhase(creditsPhase);
+registerEnrichmentPhase(musicbrainzPhase);
+registerEnrichmentPhase(chartmetricPhase);
+registerEnrichmentPhase(mlcPhase);
+registerEnrichmentPhase(youtubePhase);
+
+export { registerEnrichmentPhase, getEnrichmentPhases, resolveEnrichmentPhase, estimateQuotaUsage } from "./registry";
+export type { EnrichmentPhase, PhaseResult, PhaseRunContext, TrackFailure, TrackPatch } from "./types";
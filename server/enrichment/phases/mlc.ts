@@ -0,0 +1,126 @@
+import { enrichTracksWithMLC, fetchWriterSharesBySongCode, getMLCPublisherStatus } from "../mlcApi";
+import type { IStorage } from "../../storage";
+import type { EnrichmentPhase } from "./types";
+
+/**
+ * MLC publisher lookup: publisher names, publisher status, song code and per-writer shares.
+ * Tracks that already have a publisher status are skipped.
+ */
+export const mlcPhase: EnrichmentPhase = {
+  name: 'mlc',
+  label: 'MLC Publisher Lookup',
+  legacyNumber: 5,
+  source: 'mlc',
+  quota: { provider: 'mlc', unitsPerTrack: 2 },
+  dependsOn: ['credits'],
+  appliesTo: (track) => !track.publisherStatus || track.publisherStatus === 'unknown',
+
+  async run(tracks, { storage }) {
+    const mlcResults = await enrichTracksWithMLC(tracks.map(t => ({
+      id: t.id,
+      isrc: t.isrc,
+      trackName: t.trackName,
+      artistName: t.artistName,
+      songwriter: t.songwriter,
+    })));
+
+    const withPublisher = mlcResults.filter(r => r.hasPublisher).length;
+
+    return {
+      patches: mlcResults.map(mlcResult => ({
+        trackId: mlcResult.trackId,
+        patch: {
+          publisher: mlcResult.publisherNames.join(', ') || undefined,
+          publisherStatus: getMLCPublisherStatus(mlcResult),
+          mlcSongCode: mlcResult.mlcSongCode || undefined,
+          enrichmentStatus: 'enriched',
+        },
+      })),
+      enrichedCount: withPublisher,
+      summary: `${withPublisher}/${mlcResults.length} tracks have publishers`,
+      qualityMetrics: { tracksWithPublisher: withPublisher, totalTracks: mlcResults.length },
+      failures: mlcResults
+        .filter(r => r.error)
+        .map(r => ({ trackId: r.trackId, reason: r.error! })),
+
+      async afterPersist(failedTrackIds) {
+        for (const mlcResult of mlcResults) {
+          if (failedTrackIds.includes(mlcResult.trackId)) continue;
+
+          // Store per-writer shares so scoring can tell a writer's own share from a co-writer's
+          if (mlcResult.writerShares) {
+            try {
+              await storage.replaceMlcWriterShares(
+                mlcResult.trackId,
+                mlcResult.writerShares.map(share => ({ ...share, mlcSongCode: mlcResult.mlcSongCode || null }))
+              );
+            } catch (shareError) {
+              console.error(`[MLC] Failed to store writer shares for ${mlcResult.trackId}:`, shareError);
+            }
+          }
+
+          const mlcDescription = mlcResult.error
+            ? `MLC: Error - ${mlcResult.error}`
+            : mlcResult.hasPublisher
+              ? `MLC: Publisher found - ${mlcResult.publisherNames.join(', ')}`
+              : 'MLC: No publisher found (unsigned/unknown)';
+
+          await storage.logActivity({
+            entityType: 'track',
+            trackId: mlcResult.trackId,
+            playlistId: null,
+            eventType: 'mlc_enrichment_completed',
+            eventDescription: mlcDescription,
+            metadata: JSON.stringify({
+              hasPublisher: mlcResult.hasPublisher,
+              publisherNames: mlcResult.publisherNames,
+              mlcSongCode: mlcResult.mlcSongCode,
+              publisherStatus: getMLCPublisherStatus(mlcResult),
+              error: mlcResult.error,
+            }),
+          });
+        }
+      },
+    };
+  },
+
+  // Mark tracks as looked up so they don't stay pending after an MLC outage
+  onError: (tracks) => tracks.map(track => ({
+    trackId: track.id,
+    patch: {
+      enrichmentStatus: 'enriched',
+      publisherStatus: 'unknown',
+      enrichedAt: new Date(),
+    },
+  })),
+};
+
+/**
+ * The phase skips tracks that already have a publisher status, so tracks looked up before writer
+ * shares were stored never get them. Fetch the work by its saved song code and store the shares.
+ */
+export async function backfillMlcWriterShares(storage: IStorage, limit: number = 100): Promise<{ tracks: number; updated: number }> {
+  const tracks = await storage.getTracksMissingWriterShares(limit);
+  if (tracks.length === 0) return { tracks: 0, updated: 0 };
+
+  const songCodes = Array.from(new Set(tracks.map(t => t.mlcSongCode)));
+  const sharesByCode = await fetchWriterSharesBySongCode(songCodes);
+
+  let updated = 0;
+  for (const track of tracks) {
+    const shares = sharesByCode.get(track.mlcSongCode);
+    if (!shares) continue;
+    try {
+      await storage.replaceMlcWriterShares(
+        track.id,
+        shares.map(share => ({ ...share, mlcSongCode: track.mlcSongCode }))
+      );
+      updated++;
+    } catch (shareError) {
+      console.error(`[MLC] Failed to store writer shares for ${track.id}:`, shareError);
+    }
+  }
+
+  console.log(`[MLC] Writer share backfill: ${updated}/${tracks.length} tracks updated from ${songCodes.length} works`);
+  return { tracks: tracks.length, updated };
+}
@@ -0,0 +1,91 @@
+import { searchArtistByName, getArtistExternalLinks } from "../../musicbrainz";
+import type { EnrichmentPhase } from "./types";
+
+/**
+ * MusicBrainz artist social links for each credited songwriter.
+ * Writes artists and artist-track links directly; produces no track patches.
+ */
+export const musicbrainzPhase: EnrichmentPhase = {
+  name: 'musicbrainz',
+  label: 'MusicBrainz Artist Links',
+  legacyNumber: 3,
+  source: 'musicbrainz',
+  quota: { provider: 'musicbrainz', unitsPerTrack: 2 },
+  dependsOn: ['credits'],
+  appliesTo: (track) => !!track.songwriter,
+
+  async run(tracks, { storage, isInterrupted }) {
+    // Deduplicate songwriter names across all tracks
+    const songwriterToTracks = new Map<string, string[]>();
+
+    for (const track of tracks) {
+      const songwriterNames = track.songwriter!
+        .split(',')
+        .map(s => s.trim())
+        .filter(Boolean);
+
+      for (const songwriterName of songwriterNames) {
+        if (!songwriterToTracks.has(songwriterName)) {
+          songwriterToTracks.set(songwriterName, []);
+        }
+        songwriterToTracks.get(songwriterName)!.push(track.id);
+      }
+    }
+
+    const uniqueSongwriters = Array.from(songwriterToTracks.keys());
+    const totalSongwriters = uniqueSongwriters.reduce((sum, name) => sum + songwriterToTracks.get(name)!.length, 0);
+    const duplicatesAvoided = totalSongwriters - uniqueSongwriters.length;
+
+    if (duplicatesAvoided > 0) {
+      console.log(`[MusicBrainz] Deduped ${totalSongwriters} songwriter mentions to ${uniqueSongwriters.length} unique names (${duplicatesAvoided} duplicates avoided)`);
+    }
+
+    let artistsCreated = 0;
+    let linksFound = 0;
+    let interrupted = false;
+
+    for (const songwriterName of uniqueSongwriters) {
+      if (await isInterrupted()) {
+        interrupted = true;
+        break;
+      }
+
+      const trackIds = songwriterToTracks.get(songwriterName)!;
+
+      try {
+        const artistResult = await searchArtistByName(songwriterName);
+
+        if (artistResult && artistResult.score >= 90) {
+          const links = await getArtistExternalLinks(artistResult.id);
+
+          const artist = await storage.createOrUpdateArtist({
+            name: songwriterName,
+            musicbrainzId: artistResult.id,
+            ...links,
+          });
+
+          for (const trackId of trackIds) {
+            await storage.linkArtistToTrack(artist.id, trackId);
+          }
+
+          artistsCreated++;
+
+          if (Object.keys(links).length > 0) {
+            linksFound++;
+            console.log(`[MusicBrainz] ✅ Found ${Object.keys(links).length} social links for ${songwriterName} (linked to ${trackIds.length} tracks)`);
+          }
+        }
+      } catch (error) {
+        console.error(`[MusicBrainz] Error enriching artist ${songwriterName}:`, error);
+      }
+    }
+
+    return {
+      patches: [],
+      enrichedCount: linksFound,
+      summary: `${artistsCreated} artists created, ${linksFound} with social links`,
+      qualityMetrics: { artistsWithLinks: linksFound },
+      interrupted,
+    };
+  },
+};
@@ -0,0 +1,78 @@
+import type { PlaylistSnapshot } from "@shared/schema";
+import type { RateLimitedProvider } from "../../services/rateLimiters";
+import type { EnrichmentPhase } from "./types";
+
+const registeredPhases: EnrichmentPhase[] = [];
+
+export function registerEnrichmentPhase(phase: EnrichmentPhase) {
+  if (registeredPhases.some(p => p.name === phase.name)) {
+    throw new Error(`Enrichment phase "${phase.name}" is already registered`);
+  }
+  registeredPhases.push(phase);
+}
+
+/**
+ * Registered phases in dependency order.
+ * Phases without a dependency between them keep their registration order.
+ */
+export function getEnrichmentPhases(): EnrichmentPhase[] {
+  const names = new Set(registeredPhases.map(p => p.name));
+  for (const phase of registeredPhases) {
+    const missing = phase.dependsOn.filter(dep => !names.has(dep));
+    if (missing.length > 0) {
+      throw new Error(`Enrichment phase "${phase.name}" depends on unregistered phase(s): ${missing.join(', ')}`);
+    }
+  }
+
+  const ordered: EnrichmentPhase[] = [];
+  const placed = new Set<string>();
+
+  while (ordered.length < registeredPhases.length) {
+    const next = registeredPhases.find(p =>
+      !placed.has(p.name) && p.dependsOn.every(dep => placed.has(dep))
+    );
+
+    if (!next) {
+      const remaining = registeredPhases.filter(p => !placed.has(p.name)).map(p => p.name);
+      throw new Error(`Circular enrichment phase dependencies: ${remaining.join(', ')}`);
+    }
+
+    ordered.push(next);
+    placed.add(next.name);
+  }
+
+  return ordered;
+}
+
+/**
+ * Resolve a job's targetPhase to a registered phase.
+ * Accepts a phase name or a legacy phase number ("1"-"6" or 1-6).
+ */
+export function resolveEnrichmentPhase(target: string | number): EnrichmentPhase | null {
+  const key = String(target).trim();
+  const byName = registeredPhases.find(p => p.name === key);
+  if (byName) return byName;
+
+  if (/^\d+$/.test(key)) {
+    const legacyNumber = parseInt(key, 10);
+    return registeredPhases.find(p => p.legacyNumber === legacyNumber) || null;
+  }
+
+  return null;
+}
+
+/**
+ * Expected daily-quota units per provider for running these phases over the tracks,
+ * counting only the tracks each phase currently applies to
+ */
+export function estimateQuotaUsage(phases: EnrichmentPhase[], tracks: PlaylistSnapshot[]): Partial<Record<RateLimitedProvider, number>> {
+  const estimate: Partial<Record<RateLimitedProvider, number>> = {};
+  for (const phase of phases) {
+    if (!phase.quota) continue;
+    const { provider, unitsPerTrack, partial } = phase.quota;
+    const applicable = tracks.filter(t => phase.appliesTo(t)).length;
+    const trackCount = partial ? Math.min(applicable, 1) : applicable;
+    estimate[provider] = (estimate[provider] || 0) + Math.ceil(trackCount * unitsPerTrack);
+  }
+  return estimate;
+}
@@ -0,0 +1,38 @@
+import { getUncachableSpotifyClient } from "../../spotify";
+import { enrichTracksWithSpotifyAPI } from "../spotifyBatchEnrichment";
+import type { EnrichmentPhase, TrackPatch } from "./types";
+
+/**
+ * Spotify API batch enrichment: ISRC recovery, label, popularity and album metadata
+ */
+export const spotifyApiPhase: EnrichmentPhase = {
+  name: 'spotify-api',
+  label: 'Spotify API',
+  legacyNumber: 1,
+  source: 'spotify_api',
+  quota: { provider: 'spotify', unitsPerTrack: 0.1 }, // Batched: ~3 calls per 50 tracks
+  dependsOn: [],
+  appliesTo: () => true,
+
+  async run(tracks) {
+    const spotify = await getUncachableSpotifyClient();
+    const patches: TrackPatch[] = [];
+
+    const result = await enrichTracksWithSpotifyAPI(spotify, tracks, async (trackId, metadata) => {
+      patches.push({ trackId, patch: metadata });
+    });
+
+    console.log(`[Spotify API] ISRC Recovery: ${result.isrcRecovered} tracks`);
+    console.log(`[Spotify API] Field Stats:`, result.fieldStats);
+
+    return {
+      patches,
+      enrichedCount: result.tracksEnriched,
+      summary: `${result.tracksEnriched}/${result.tracksProcessed} tracks enriched, ISRC recovered=${result.isrcRecovered}, API calls=${result.apiCalls}`,
+      qualityMetrics: {
+        isrcRecovered: result.isrcRecovered,
+        tracksEnriched: result.tracksEnriched,
+      },
+    };
+  },
+};
@@ -0,0 +1,64 @@
+import type { EnrichmentJob, FieldSource, PlaylistSnapshot } from "@shared/schema";
+import type { IStorage } from "../../storage";
+import type { TrackMetadataUpdate } from "../trackStateContext";
+import type { JobEventInput } from "../jobQueue";
+import type { RateLimitedProvider } from "../../services/rateLimiters";
+
+/**
+ * A patch for one track. With allInstances set, the patch also goes to every other
+ * track in the job sharing its Spotify URL (same song on several playlists).
+ */
+export interface TrackPatch {
+  trackId: string;
+  patch: TrackMetadataUpdate;
+  allInstances?: boolean;
+}
+
+export interface TrackFailure {
+  trackId: string;
+  reason: string;
+}
+
+export interface PhaseRunContext {
+  job: EnrichmentJob;
+  storage: IStorage;
+  // Every track in the job, including the ones this phase doesn't apply to
+  allTracks: PlaylistSnapshot[];
+  // Appends a job event tagged with this phase
+  log: (message: string, details?: Pick<JobEventInput, 'level' | 'trackId' | 'metadata'>) => Promise<void>;
+  broadcast?: (event: string, data: any) => void;
+  // True once the job has been paused or cancelled; long loops check it between tracks
+  isInterrupted: () => Promise<boolean>;
+}
+
+export interface PhaseResult {
+  patches: TrackPatch[];
+  enrichedCount: number;
+  // Job log / progress message, e.g. "12/20 tracks enriched"
+  summary: string;
+  // Extra fields for the playlist_quality_updated broadcast
+  qualityMetrics?: Record<string, any>;
+  // Overwrite the job's enrichedTracks/errorCount totals
+  jobTotals?: { enrichedTracks: number; errorCount: number };
+  // Side effects that need the patches persisted first (activity logs, scores, related tables)
+  afterPersist?: (failedTrackIds: string[]) => Promise<void>;
+  // Tracks the phase couldn't enrich and why; shown on the Jobs page and used by "retry failed"
+  failures?: TrackFailure[];
+  // Stopped early for a pause or cancel; the phase is re-run when the job resumes
+  interrupted?: boolean;
+}
+
+export interface EnrichmentPhase {
+  name: string; // Stable key used as enrichment_jobs.target_phase
+  label: string; // Display name for logs, progress messages and broadcasts
+  legacyNumber?: number; // Integer targetPhase used before phases had names
+  source: FieldSource; // Recorded in the field provenance ledger for every value the phase writes
+  // Rate-limited provider the phase calls, and the daily quota it's expected to use per applicable track.
+  // partial: the phase stops at the remaining budget itself, so it only needs enough for one track
+  quota?: { provider: RateLimitedProvider; unitsPerTrack: number; partial?: boolean };
+  dependsOn: string[];
+  appliesTo: (track: PlaylistSnapshot) => boolean;
+  run: (tracks: PlaylistSnapshot[], context: PhaseRunContext) => Promise<PhaseResult>;
+  // Patches to persist when run throws, so tracks don't stay in a half-enriched state
+  onError?: (tracks: PlaylistSnapshot[], error: unknown) => TrackPatch[];
+}
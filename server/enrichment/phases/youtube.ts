@@ -0,0 +1,161 @@
+import { enrichTrackWithYouTube } from "../../youtube";
+import { providerLimiters } from "../../services/rateLimiters";
+import type { EnrichmentPhase, TrackPatch, TrackFailure } from "./types";
+
+/**
+ * YouTube API Quota Management
+ *
+ * YouTube Data API v3 has a daily quota of 10,000 units that resets at midnight Pacific Time.
+ * Each search operation costs 100 units (plus 1 for video.list, 100 more if the fallback search runs).
+ *
+ * The YouTube rate limiter counts every call's units in api_quota_usage and stops at a safe
+ * quota of 8,000 units (YOUTUBE_DAILY_QUOTA overrides it), leaving margin for concurrent workers.
+ *
+ * Quota checks occur:
+ * 1. Before starting YouTube enrichment phase
+ * 2. Before EACH individual search (prevents mid-loop overshoot)
+ *
+ * Warnings trigger at:
+ * - 80% of safe quota: Warning log
+ * - 90% of safe quota: Critical alert
+ */
+const SEARCH_COST = 100;
+
+async function checkYouTubeQuota(): Promise<{ allowed: boolean; remaining: number; used: number; quota: number }> {
+  const status = await providerLimiters.youtube.getStatus();
+  const quota = status.dailyQuota ?? Infinity;
+  const remaining = status.remaining ?? Infinity;
+
+  return {
+    allowed: remaining >= SEARCH_COST,
+    remaining,
+    used: status.usedToday,
+    quota,
+  };
+}
+
+/**
+ * YouTube video metadata for tracks with an ISRC and no existing video, within the daily quota
+ */
+export const youtubePhase: EnrichmentPhase = {
+  name: 'youtube',
+  label: 'YouTube Metadata',
+  legacyNumber: 6,
+  source: 'youtube',
+  quota: { provider: 'youtube', unitsPerTrack: 101, partial: true }, // One search and one videos.list call
+  dependsOn: ['spotify-api'],
+  appliesTo: (track) => !!track.isrc && !track.youtubeVideoId,
+
+  async run(tracks, { isInterrupted }) {
+    const patches: TrackPatch[] = [];
+    let enrichedCount = 0;
+    let notFoundCount = 0;
+    let failedCount = 0;
+    let skippedCount = 0;
+    let quotaLimitReached = false;
+    let interrupted = false;
+    const failures: TrackFailure[] = [];
+
+    // Check global YouTube quota from persistent storage
+    const quotaCheck = await checkYouTubeQuota();
+
+    if (!quotaCheck.allowed) {
+      console.log(`[YouTube] ⚠️ Daily safe quota reached (${quotaCheck.used}/${quotaCheck.quota} units). Skipping YouTube enrichment for this job.`);
+
+      return {
+        patches,
+        enrichedCount: 0,
+        summary: `skipped: Safe quota limit reached (${quotaCheck.used}/${quotaCheck.quota} units used)`,
+      };
+    }
+
+    console.log(`[YouTube] ${tracks.length} tracks need YouTube enrichment (have ISRC, no existing data)`);
+    console.log(`[YouTube] Quota remaining: ${quotaCheck.remaining}/${quotaCheck.quota} safe units`);
+
+    // Each search costs ~100 units, so calculate how many searches we can do
+    const maxSearches = Math.floor(quotaCheck.remaining / SEARCH_COST);
+    const tracksToEnrich = tracks.slice(0, maxSearches);
+
+    if (tracks.length > maxSearches) {
+      quotaLimitReached = true;
+      console.log(`[YouTube] ⚠️ Quota limit: Only enriching ${maxSearches} tracks, skipping ${tracks.length - maxSearches} to preserve safe quota margin`);
+    }
+
+    for (const track of tracksToEnrich) {
+      if (await isInterrupted()) {
+        interrupted = true;
+        break;
+      }
+
+      // Pre-check quota before each search to prevent overshoot from concurrent workers
+      const preSearchQuota = await checkYouTubeQuota();
+
+      if (!preSearchQuota.allowed) {
+        console.log(`[YouTube] ⚠️ Insufficient quota remaining (${preSearchQuota.remaining} units) for search. Stopping enrichment.`);
+        quotaLimitReached = true;
+        break;
+      }
+
+      try {
+        const youtubeData = await enrichTrackWithYouTube(
+          track.isrc!,
+          track.trackName,
+          track.artistName
+        );
+
+        // Alert if approaching safe limit
+        const newQuota = preSearchQuota.used + SEARCH_COST;
+        const quotaUsagePercent = (newQuota / preSearchQuota.quota) * 100;
+        if (quotaUsagePercent >= 80 && quotaUsagePercent < 90) {
+          console.warn(`[YouTube] ⚠️ WARNING: Approaching safe quota limit (${quotaUsagePercent.toFixed(1)}% of safe limit: ${newQuota}/${preSearchQuota.quota} units)`);
+        } else if (quotaUsagePercent >= 90) {
+          console.error(`[YouTube] 🚨 CRITICAL: Nearly exhausted safe quota (${quotaUsagePercent.toFixed(1)}% of safe limit: ${newQuota}/${preSearchQuota.quota} units)`);
+        }
+
+        if (youtubeData) {
+          patches.push({
+            trackId: track.id,
+            patch: {
+              youtubeVideoId: youtubeData.videoId,
+              youtubeChannelId: youtubeData.channelId,
+              youtubeViews: youtubeData.views,
+              youtubeLikes: youtubeData.likes,
+              youtubeComments: youtubeData.comments,
+              youtubePublishedAt: youtubeData.publishedAt,
+              youtubeDescription: youtubeData.description,
+              youtubeLicensed: youtubeData.licensed ? 1 : 0,
+            },
+          });
+          enrichedCount++;
+
+          console.log(`[YouTube] ✅ ${track.trackName} - ${youtubeData.views.toLocaleString()} views (Quota: ${newQuota}/${preSearchQuota.quota} safe)`);
+        } else {
+          notFoundCount++;
+          console.log(`[YouTube] ⚠️ No video found for ${track.trackName} (ISRC: ${track.isrc})`);
+        }
+      } catch (trackError) {
+        console.error(`[YouTube] ❌ Failed to enrich ${track.trackName}:`, trackError);
+        failures.push({ trackId: track.id, reason: trackError instanceof Error ? trackError.message : String(trackError) });
+        failedCount++;
+      }
+    }
+
+    // Count tracks that were skipped due to quota
+    if (quotaLimitReached) {
+      skippedCount = tracks.length - enrichedCount - notFoundCount - failedCount;
+    }
+
+    const quotaMessage = quotaLimitReached
+      ? `, ${skippedCount} skipped (quota limit)`
+      : '';
+
+    return {
+      patches,
+      enrichedCount,
+      summary: `${enrichedCount} enriched, ${notFoundCount} not found, ${failedCount} failed${quotaMessage}`,
+      qualityMetrics: { tracksEnriched: enrichedCount },
+      failures,
+      interrupted,
+    };
+  },
+};
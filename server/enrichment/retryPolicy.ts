@@ -0,0 +1,106 @@
+import type { EnrichmentErrorClass, InsertTrackEnrichmentAttempt, TrackEnrichmentAttempt } from "@shared/schema";
+
+/**
+ * Per-track enrichment retry policy
+ *
+ * Each failure is classified from its error message. The class sets the base delay before
+ * the next attempt, doubled for every attempt after the first, and how many attempts a track
+ * gets before it is dead-lettered. Rate limits and timeouts clear up on their own, so they
+ * retry soon and often; a missing record rarely appears later, so it backs off for days.
+ */
+
+interface RetryRule {
+  baseDelayMs: number;
+  maxAttempts: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MAX_RETRY_DELAY_MS = 14 * DAY_MS;
+
+export const RETRY_RULES: Record<EnrichmentErrorClass, RetryRule> = {
+  rate_limit: { baseDelayMs: 15 * MINUTE_MS, maxAttempts: 8 },
+  timeout: { baseDelayMs: 30 * MINUTE_MS, maxAttempts: 6 },
+  unknown: { baseDelayMs: 2 * HOUR_MS, maxAttempts: 5 },
+  auth: { baseDelayMs: 6 * HOUR_MS, maxAttempts: 4 },
+  not_found: { baseDelayMs: DAY_MS, maxAttempts: 3 },
+};
+
+// Checked in order; the first match wins
+const ERROR_PATTERNS: Array<[EnrichmentErrorClass, RegExp]> = [
+  ['rate_limit', /\b429\b|rate.?limit|too many requests|quota/i],
+  ['auth', /\b40[13]\b|unauthori[sz]ed|forbidden|authenticat|invalid.*token|token.*expired/i],
+  ['timeout', /time[sd]?.?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up/i],
+  ['not_found', /\b404\b|not found|no match|no results|no data|missing isrc/i],
+];
+
+export function classifyEnrichmentError(reason: string): EnrichmentErrorClass {
+  for (const [errorClass, pattern] of ERROR_PATTERNS) {
+    if (pattern.test(reason)) return errorClass;
+  }
+  return 'unknown';
+}
+
+export function retryDelayMs(errorClass: EnrichmentErrorClass, attempts: number): number {
+  const { baseDelayMs } = RETRY_RULES[errorClass];
+  return Math.min(baseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The attempt row after one more failure. Returns null for tracks resolved as "no data",
+ * which stay resolved until a phase succeeds for them. Dead-lettered tracks keep counting
+ * attempts but are never rescheduled automatically.
+ */
+export function planNextAttempt(
+  previous: TrackEnrichmentAttempt | undefined,
+  failure: { trackId: string; phase: string; reason: string },
+  now: Date = new Date()
+): InsertTrackEnrichmentAttempt | null {
+  if (previous?.status === 'no_data') return null;
+
+  const errorClass = classifyEnrichmentError(failure.reason);
+  const attempts = (previous?.attempts || 0) + 1;
+  const deadLettered = previous?.status === 'dead_letter' || attempts >= RETRY_RULES[errorClass].maxAttempts;
+
+  return {
+    trackId: failure.trackId,
+    phase: failure.phase,
+    status: deadLettered ? 'dead_letter' : 'retrying',
+    attempts,
+    errorClass,
+    lastError: failure.reason,
+    lastAttemptAt: now,
+    nextAttemptAt: deadLettered ? null : new Date(now.getTime() + retryDelayMs(errorClass, attempts)),
+  };
+}
+
+// Daily provider quotas reset at midnight UTC
+export function nextQuotaDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+/**
+ * The attempt row for a track skipped because the provider's daily quota ran out. Nothing was
+ * tried, so the attempt count stays as it was; the track is due again once the quota resets.
+ * Returns null for tracks already resolved as "no data" or dead-lettered.
+ */
+export function planQuotaDeferral(
+  previous: TrackEnrichmentAttempt | undefined,
+  deferral: { trackId: string; phase: string; reason: string },
+  now: Date = new Date()
+): InsertTrackEnrichmentAttempt | null {
+  if (previous?.status === 'no_data' || previous?.status === 'dead_letter') return null;
+
+  return {
+    trackId: deferral.trackId,
+    phase: deferral.phase,
+    status: 'retrying',
+    attempts: previous?.attempts || 0,
+    errorClass: 'rate_limit',
+    lastError: deferral.reason,
+    lastAttemptAt: previous?.lastAttemptAt ?? now,
+    nextAttemptAt: nextQuotaDayStart(now),
+  };
+}
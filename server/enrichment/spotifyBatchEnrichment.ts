@@ -1,5 +1,6 @@
 import { SpotifyApi } from "@spotify/web-api-ts-sdk";
 import type { PlaylistSnapshot } from "@shared/schema";
+import { providerLimiters } from "../services/rateLimiters";
 
 interface EnrichmentResult {
   success: boolean;
@@ -35,36 +36,11 @@ interface TrackUpdate {
 }
 
 const BATCH_SIZE = 50;
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000;
 
 async function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  retries: number = MAX_RETRIES,
-  retryDelay: number = INITIAL_RETRY_DELAY
-): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    if (retries === 0) {
-      throw error;
-    }
-
-    if (error.status === 429 || error.message?.includes('429')) {
-      const backoffDelay = retryDelay * 2;
-      console.log(`[SpotifyBatch] Rate limited, retrying in ${backoffDelay}ms... (${retries} retries left)`);
-      await delay(backoffDelay);
-      return retryWithBackoff(fn, retries - 1, backoffDelay);
-    }
-
-    throw error;
-  }
-}
-
 export async function enrichTracksWithSpotifyAPI(
   spotify: SpotifyApi,
   tracks: PlaylistSnapshot[],
@@ -135,8 +111,8 @@ export async function enrichTracksWithSpotifyAPI(
 
     try {
       const [tracksData, audioFeaturesData] = await Promise.all([
-        retryWithBackoff(() => spotify.tracks.get(trackIds)),
-        retryWithBackoff(() => spotify.tracks.audioFeatures(trackIds).catch(() => null)),
+        providerLimiters.spotify.schedule(() => spotify.tracks.get(trackIds)),
+        providerLimiters.spotify.schedule(() => spotify.tracks.audioFeatures(trackIds).catch(() => null)),
       ]);
 
       result.apiCalls += 2;
@@ -165,7 +141,7 @@ export async function enrichTracksWithSpotifyAPI(
       if (artistIdsToFetch.size > 0) {
         try {
           const artistIds = Array.from(artistIdsToFetch);
-          const artistsData = await retryWithBackoff(() => 
+          const artistsData = await providerLimiters.spotify.schedule(() => 
             spotify.artists.get(artistIds)
           );
           result.apiCalls++;
@@ -268,7 +244,7 @@ export async function enrichTracksWithSpotifyAPI(
 
           if (!artistData && (!dbTrack.artistGenres || !dbTrack.artistFollowers)) {
             try {
-              artistData = await retryWithBackoff(() => 
+              artistData = await providerLimiters.spotify.schedule(() => 
                 spotify.artists.get(primaryArtist.id)
               );
               result.apiCalls++;
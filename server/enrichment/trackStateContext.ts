@@ -0,0 +1,83 @@
+import type { FieldSource, PlaylistSnapshot } from "@shared/schema";
+
+export type TrackMetadataUpdate = Partial<Omit<PlaylistSnapshot, 'id'>>;
+
+/**
+ * In-memory view of a job's tracks.
+ * Phases see each other's results through the patched tracks; pending updates are
+ * persisted by the worker after every phase.
+ * Also tracks which source last wrote each field, for the field precedence policy.
+ */
+export class TrackStateContext {
+  private tracks: Map<string, PlaylistSnapshot>;
+  private updates: Map<string, TrackMetadataUpdate>;
+  private fieldSources: Map<string, Record<string, FieldSource>>;
+
+  constructor(initialTracks: PlaylistSnapshot[]) {
+    this.tracks = new Map(initialTracks.map(t => [t.id, { ...t }]));
+    this.updates = new Map();
+    this.fieldSources = new Map();
+  }
+
+  applyPatch(trackId: string, patch: TrackMetadataUpdate, source?: FieldSource) {
+    const existing = this.updates.get(trackId) || {};
+    this.updates.set(trackId, { ...existing, ...patch });
+
+    const track = this.tracks.get(trackId);
+    if (track) {
+      Object.assign(track, patch);
+    }
+
+    if (source) {
+      const sources = this.fieldSources.get(trackId) || {};
+      Object.keys(patch).forEach(field => {
+        if ((patch as Record<string, unknown>)[field] !== undefined) {
+          sources[field] = source;
+        }
+      });
+      this.fieldSources.set(trackId, sources);
+    }
+  }
+
+  setFieldSource(trackId: string, field: string, source: FieldSource) {
+    const sources = this.fieldSources.get(trackId) || {};
+    sources[field] = source;
+    this.fieldSources.set(trackId, sources);
+  }
+
+  // Source that last wrote each field; fields written before provenance was recorded are absent
+  getFieldSources(trackId: string): Record<string, FieldSource> {
+    return this.fieldSources.get(trackId) || {};
+  }
+
+  getTrack(trackId: string): PlaylistSnapshot | undefined {
+    return this.tracks.get(trackId);
+  }
+
+  getAllTracks(): PlaylistSnapshot[] {
+    return Array.from(this.tracks.values());
+  }
+
+  getUpdates(): Array<[string, TrackMetadataUpdate]> {
+    return Array.from(this.updates.entries());
+  }
+
+  clearUpdate(trackId: string) {
+    this.updates.delete(trackId);
+  }
+
+  hasUpdates(): boolean {
+    return this.updates.size > 0;
+  }
+
+  applyPatchToAllBySpotifyUrl(spotifyUrl: string, patch: TrackMetadataUpdate): number {
+    let updateCount = 0;
+    for (const [trackId, track] of Array.from(this.tracks.entries())) {
+      if (track.spotifyUrl === spotifyUrl) {
+        this.applyPatch(trackId, patch);
+        updateCount++;
+      }
+    }
+    return updateCount;
+  }
+}
@@ -1,16 +1,14 @@
 import type { JobQueue } from "./jobQueue";
 import type { IStorage } from "../storage";
-import type { EnrichmentJob, PlaylistSnapshot } from "@shared/schema";
-import { enrichTracksWithCredits } from "./spotifyCreditsScaper";
-import { enrichTracksWithMLC } from "./mlcApi";
-import { enrichTracksWithSpotifyAPI } from "./spotifyBatchEnrichment";
-import { getUncachableSpotifyClient } from "../spotify";
-import { searchArtistByName, getArtistExternalLinks } from "../musicbrainz";
-import { enrichTrackWithChartmetric } from "../chartmetric";
-import { enrichTrackWithYouTube } from "../youtube";
+import type { EnrichmentJob, FieldSource, PlaylistSnapshot } from "@shared/schema";
+import { TrackStateContext } from "./trackStateContext";
+import { loadFieldPrecedencePolicy, resolveFieldPatch, type FieldPrecedencePolicy, type FieldConflictCandidate } from "./fieldPrecedence";
+import { estimateQuotaUsage, getEnrichmentPhases, resolveEnrichmentPhase, type EnrichmentPhase, type TrackFailure, type TrackPatch } from "./phases";
 import { notificationService } from "../services/notificationService";
-import { calculateUnsignedScore } from "../scoring";
 import { syncContactEnrichmentFlags } from "../services/contactEnrichmentSync";
+import { buildProvenanceEntries } from "../services/fieldProvenance";
+import { providerLimiters, PROVIDER_LIMITS } from "../services/rateLimiters";
+import { runWithCacheBypass } from "../services/responseCache";
 import type { WebSocket } from "ws";
 
 export interface WorkerOptions {
@@ -19,59 +17,6 @@ export interface WorkerOptions {
   wsBroadcast?: (event: string, data: any) => void;
 }
 
-type TrackMetadataUpdate = Partial<Omit<PlaylistSnapshot, 'id'>>;
-
-class TrackStateContext {
-  private tracks: Map<string, PlaylistSnapshot>;
-  private updates: Map<string, TrackMetadataUpdate>;
-
-  constructor(initialTracks: PlaylistSnapshot[]) {
-    this.tracks = new Map(initialTracks.map(t => [t.id, { ...t }]));
-    this.updates = new Map();
-  }
-
-  applyPatch(trackId: string, patch: TrackMetadataUpdate) {
-    const existing = this.updates.get(trackId) || {};
-    this.updates.set(trackId, { ...existing, ...patch });
-
-    const track = this.tracks.get(trackId);
-    if (track) {
-      Object.assign(track, patch);
-    }
-  }
-
-  getTrack(trackId: string): PlaylistSnapshot | undefined {
-    return this.tracks.get(trackId);
-  }
-
-  getAllTracks(): PlaylistSnapshot[] {
-    return Array.from(this.tracks.values());
-  }
-
-  getUpdates(): Array<[string, TrackMetadataUpdate]> {
-    return Array.from(this.updates.entries());
-  }
-
-  clearUpdate(trackId: string) {
-    this.updates.delete(trackId);
-  }
-
-  hasUpdates(): boolean {
-    return this.updates.size > 0;
-  }
-
-  applyPatchToAllBySpotifyUrl(spotifyUrl: string, patch: TrackMetadataUpdate): number {
-    let updateCount = 0;
-    for (const [trackId, track] of Array.from(this.tracks.entries())) {
-      if (track.spotifyUrl === spotifyUrl) {
-        this.applyPatch(trackId, patch);
-        updateCount++;
-      }
-    }
-    return updateCount;
-  }
-}
-
 export class EnrichmentWorker {
   private jobQueue: JobQueue;
   private storage: IStorage;
@@ -79,29 +24,11 @@ export class EnrichmentWorker {
   private isRunning: boolean = false;
   private processingInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  // Jobs running (or being claimed) in this process, capped at the queue's maxConcurrency
+  private activeJobCount: number = 0;
   
   // Phase timing metrics
   private phaseTimings: Map<string, { start: number; end?: number; duration?: number }> = new Map();
-  
-  /**
-   * YouTube API Quota Management
-   * 
-   * YouTube Data API v3 has a daily quota of 10,000 units that resets at midnight Pacific Time.
-   * Each search operation costs ~100 units (search.list costs 100 units + video.list costs ~1 unit).
-   * 
-   * To prevent concurrent workers from overshooting the hard limit, we enforce a safe quota
-   * of 8,000 units (80% of hard limit), providing a 2,000-unit safety margin (20%).
-   * 
-   * Quota checks occur:
-   * 1. Before starting YouTube enrichment phase
-   * 2. Before EACH individual search (prevents mid-loop overshoot)
-   * 
-   * Warnings trigger at:
-   * - 80% of safe quota (6,400 units): Warning log
-   * - 90% of safe quota (7,200 units): Critical alert
-   */
-  private readonly YOUTUBE_DAILY_QUOTA = 10000; // YouTube API official daily limit (hard cap)
-  private readonly YOUTUBE_SAFE_QUOTA = 8000;   // Safe limit with 20% margin for concurrent workers
 
   constructor(options: WorkerOptions) {
     this.jobQueue = options.jobQueue;
@@ -109,35 +36,6 @@ export class EnrichmentWorker {
     this.wsBroadcast = options.wsBroadcast;
   }
 
-  /**
-   * Check YouTube quota from persistent database storage.
-   * Uses YOUTUBE_SAFE_QUOTA (8,000 units) to stop before hitting hard limit (10,000 units).
-   * This provides a safety buffer for concurrent workers and measurement uncertainty.
-   */
-  private async checkYouTubeQuota(): Promise<{ allowed: boolean; remaining: number }> {
-    const today = new Date().toISOString().split('T')[0];
-    
-    const quotaUsed = await this.storage.getQuotaUsage('youtube', today);
-    const remaining = this.YOUTUBE_SAFE_QUOTA - quotaUsed;
-    
-    return {
-      allowed: quotaUsed < this.YOUTUBE_SAFE_QUOTA,
-      remaining: Math.max(0, remaining),
-    };
-  }
-
-  /**
-   * Atomically increment YouTube quota usage in persistent storage.
-   * Uses database UPSERT to prevent race conditions between concurrent workers.
-   * Returns the new total quota usage for monitoring.
-   */
-  private async incrementYouTubeQuota(units: number = 100): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
-    const newTotal = await this.storage.incrementQuotaUsage('youtube', today, units);
-    console.log(`[YouTube Quota] Used: ${newTotal}/${this.YOUTUBE_SAFE_QUOTA} safe units (Hard limit: ${this.YOUTUBE_DAILY_QUOTA})`);
-    return newTotal;
-  }
-
   /**
    * Start timing a phase
    */
@@ -199,11 +97,14 @@ export class EnrichmentWorker {
   }
 
   private async processNextJob() {
-    if (!this.isRunning) {
+    if (!this.isRunning || this.activeJobCount >= this.jobQueue.getMaxConcurrency()) {
       return;
     }
 
-    let jobId: string | null = null;
+    // Reserve the slot before claiming so overlapping ticks can't exceed the cap
+    this.activeJobCount++;
+    let claimed: EnrichmentJob | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
 
     try {
       const job = await this.jobQueue.getNextJob();
@@ -212,8 +113,17 @@ export class EnrichmentWorker {
         return;
       }
 
-      jobId = job.id;
-      console.log(`🔄 Processing job ${job.id} (${job.trackIds.length} tracks)`);
+      claimed = job;
+      console.log(`🔄 Worker ${this.jobQueue.workerId} processing job ${job.id} (${job.trackIds.length} tracks)`);
+
+      // Keep the lease alive; a lost lease is noticed at the next checkpoint
+      heartbeat = setInterval(() => {
+        this.jobQueue.heartbeat(job)
+          .then((owned) => {
+            if (!owned) console.warn(`⚠️ Lost lease on job ${job.id}; stopping at next checkpoint`);
+          })
+          .catch((error) => console.error(`❌ Heartbeat failed for job ${job.id}:`, error));
+      }, Math.floor(this.jobQueue.leaseMs / 3));
 
       this.broadcastProgress(job.id, {
         status: 'running',
@@ -223,15 +133,17 @@ export class EnrichmentWorker {
         trackCount: job.trackIds.length,
       });
 
-      await this.executeJob(job);
+      // Jobs started with "bypass cache" refetch every lookup and refresh the response cache
+      await runWithCacheBypass(job.bypassCache === 1, () => this.executeJob(job));
     } catch (error) {
       console.error("❌ Worker error:", error);
 
-      if (jobId) {
+      if (claimed) {
+        const jobId = claimed.id;
         try {
-          await this.jobQueue.completeJob(jobId, false, [
-            `[${new Date().toISOString()}] Fatal worker error: ${error instanceof Error ? error.message : String(error)}`,
-          ]);
+          await this.jobQueue.completeJob(claimed, false, {
+            message: `Fatal worker error: ${error instanceof Error ? error.message : String(error)}`,
+          });
 
           this.broadcastProgress(jobId, {
             status: 'failed',
@@ -244,13 +156,161 @@ export class EnrichmentWorker {
           console.error("❌ Error during job cleanup:", cleanupError);
         }
       }
+    } finally {
+      if (heartbeat) clearInterval(heartbeat);
+      this.activeJobCount--;
+    }
+  }
+
+  /**
+   * Resolve a job's targetPhase (phase name or legacy number) to a registered phase
+   */
+  private resolveTargetPhase(targetPhase: string): EnrichmentPhase {
+    const phase = resolveEnrichmentPhase(targetPhase);
+    if (!phase) {
+      throw new Error(`Unknown enrichment phase: ${targetPhase}`);
+    }
+    return phase;
+  }
+
+  /**
+   * Apply a phase's patches to the context through the field precedence policy.
+   * Returns the ids of every track that was patched and the disagreements to flag for review.
+   */
+  private applyPhasePatches(
+    ctx: TrackStateContext,
+    patches: TrackPatch[],
+    source: FieldSource,
+    policy: FieldPrecedencePolicy
+  ): { patchedTrackIds: string[]; conflicts: FieldConflictCandidate[] } {
+    const patchedTrackIds = new Set<string>();
+    const conflicts: FieldConflictCandidate[] = [];
+
+    for (const { trackId, patch, allInstances } of patches) {
+      const track = ctx.getTrack(trackId);
+      if (!track) continue;
+
+      const targets = allInstances
+        ? ctx.getAllTracks().filter(t => t.spotifyUrl === track.spotifyUrl)
+        : [track];
+
+      for (const target of targets) {
+        const resolved = resolveFieldPatch(target, patch, source, ctx.getFieldSources(target.id), policy);
+        ctx.applyPatch(target.id, resolved.patch, source);
+        conflicts.push(...resolved.conflicts);
+        patchedTrackIds.add(target.id);
+      }
+    }
+
+    return { patchedTrackIds: Array.from(patchedTrackIds), conflicts };
+  }
+
+  /**
+   * Queue a phase's field disagreements for review, skipping tracks whose write failed
+   */
+  private async flagFieldConflicts(
+    conflicts: FieldConflictCandidate[],
+    failedTrackIds: string[],
+    jobId: string,
+    phaseName: string
+  ): Promise<void> {
+    const persisted = conflicts.filter(c => !failedTrackIds.includes(c.trackId));
+    if (persisted.length === 0) return;
+
+    try {
+      const flagged = await this.storage.createFieldConflicts(persisted.map(c => ({ ...c, jobId })));
+      if (flagged > 0) {
+        await this.jobQueue.logEvent(jobId, {
+          level: 'warn',
+          message: `${phaseName}: ${flagged} field conflicts flagged for review`,
+          metadata: { flagged },
+        });
+      }
+    } catch (error) {
+      console.error(`[${phaseName}] Failed to flag field conflicts:`, error);
+    }
+  }
+
+  /**
+   * Record which source wrote each persisted field. A ledger failure never fails the phase.
+   */
+  private async recordProvenance(
+    writes: Array<{ id: string; metadata: any }>,
+    source: FieldSource,
+    jobId: string
+  ): Promise<void> {
+    try {
+      const entries = writes.flatMap(w => buildProvenanceEntries(w.id, w.metadata, source, { jobId }));
+      await this.storage.recordFieldProvenance(entries);
+    } catch (error) {
+      console.error(`[Provenance] Failed to record ${source} provenance:`, error);
+    }
+  }
+
+  /**
+   * Save per-track failure reasons for the Jobs page and schedule each track's next
+   * retry. Never throws: a failed write here shouldn't fail the phase.
+   */
+  private async recordTrackFailures(jobId: string, phase: string, failures: TrackFailure[]): Promise<void> {
+    if (failures.length === 0) return;
+    try {
+      await this.jobQueue.recordTrackFailures(jobId, phase, failures);
+    } catch (error) {
+      console.error(`[Worker] Failed to record ${failures.length} track failures for ${phase}:`, error);
+    }
+
+    try {
+      const deadLettered = await this.jobQueue.recordTrackAttempts(phase, failures);
+      for (const attempt of deadLettered) {
+        await this.jobQueue.logEvent(jobId, {
+          level: 'warn',
+          phase,
+          trackId: attempt.trackId,
+          message: `Track dead-lettered for ${phase} after ${attempt.attempts} attempts: ${attempt.lastError}`,
+          metadata: { errorClass: attempt.errorClass, attempts: attempt.attempts },
+        });
+      }
+    } catch (error) {
+      console.error(`[Worker] Failed to record ${failures.length} retry attempts for ${phase}:`, error);
+    }
+  }
+
+  // Quota deferrals aren't failures: they neither count an attempt nor show up as job failures. Never throws.
+  private async deferTrackAttemptsForQuota(phase: string, trackIds: string[], reason: string): Promise<void> {
+    try {
+      await this.jobQueue.deferTrackAttemptsForQuota(phase, trackIds, reason);
+    } catch (error) {
+      console.error(`[Worker] Failed to defer ${trackIds.length} tracks for ${phase} until the quota resets:`, error);
+    }
+  }
+
+  // Tracks dead-lettered or resolved as "no data" for a phase. A lookup failure runs them all.
+  private async getSettledTrackIds(phase: string, trackIds: string[]): Promise<Set<string>> {
+    try {
+      const attempts = await this.storage.getTrackEnrichmentAttempts(phase, trackIds);
+      return new Set(attempts
+        .filter(attempt => attempt.status === 'dead_letter' || attempt.status === 'no_data')
+        .map(attempt => attempt.trackId));
+    } catch (error) {
+      console.error(`[Worker] Failed to load retry state for ${phase}:`, error);
+      return new Set();
+    }
+  }
+
+  // Tracks that didn't fail a phase need no more retries of it. Never throws.
+  private async clearTrackAttempts(phase: string, trackIds: string[]): Promise<void> {
+    try {
+      await this.jobQueue.clearTrackAttempts(phase, trackIds);
+    } catch (error) {
+      console.error(`[Worker] Failed to clear retry attempts for ${phase}:`, error);
     }
   }
 
   private async persistPhaseUpdates(
     ctx: TrackStateContext, 
     jobId: string, 
-    phaseName: string
+    phaseName: string,
+    source?: FieldSource
   ): Promise<{ persistedCount: number; failedTrackIds: string[] }> {
     const updates = ctx.getUpdates();
     let persistedCount = 0;
@@ -304,6 +364,10 @@ export class EnrichmentWorker {
           ctx.clearUpdate(trackId);
         }
       }
+
+      if (source) {
+        await this.recordProvenance(primaryUpdates.filter(u => !failedIds.includes(u.id)), source, jobId);
+      }
     }
 
     // Batch 2: Sync global fields to external duplicates
@@ -330,13 +394,17 @@ export class EnrichmentWorker {
       if (failedIds.length > 0) {
         console.warn(`[${phaseName}] ${failedIds.length} duplicate track updates failed`);
       }
+
+      if (source) {
+        await this.recordProvenance(duplicateUpdates.filter(u => !failedIds.includes(u.id)), source, jobId);
+      }
     }
 
     if (failedTrackIds.length > 0) {
-      await this.jobQueue.updateJobProgress(jobId, {
-        logs: [
-          `[${new Date().toISOString()}] ${phaseName}: ${failedTrackIds.length} tracks failed to persist (${failedTrackIds.join(', ')})`,
-        ],
+      await this.jobQueue.logEvent(jobId, {
+        level: 'error',
+        message: `${phaseName}: ${failedTrackIds.length} tracks failed to persist`,
+        metadata: { failedTrackIds },
       });
     }
 
@@ -372,9 +440,7 @@ export class EnrichmentWorker {
       const tracks = await this.storage.getTracksByIds(job.trackIds);
 
       if (tracks.length === 0) {
-        await this.jobQueue.completeJob(job.id, false, [
-          `[${new Date().toISOString()}] No tracks found for job`,
-        ]);
+        await this.jobQueue.completeJob(job, false, { message: 'No tracks found for job' });
         this.broadcastProgress(job.id, {
           status: 'failed',
           progress: 0,
@@ -396,9 +462,14 @@ export class EnrichmentWorker {
 
       const ctx = new TrackStateContext(tracks);
 
+      // Current source of each governed field, so phases can't silently overwrite higher-precedence values
+      const policy = await loadFieldPrecedencePolicy(this.storage);
+      const fieldSources = await this.storage.getLatestFieldSources(tracks.map(t => t.id), Object.keys(policy));
+      fieldSources.forEach(({ trackId, field, source }) => ctx.setFieldSource(trackId, field, source));
+
       await this.jobQueue.updateJobProgress(job.id, {
         progress: 5,
-        logs: [`[${new Date().toISOString()}] Retrieved ${tracks.length} tracks from database`],
+        event: { message: `Retrieved ${tracks.length} tracks from database` },
       });
 
       this.broadcastProgress(job.id, {
@@ -409,907 +480,265 @@ export class EnrichmentWorker {
         trackCount: job.trackIds.length,
       });
 
-      // Phase 1: Spotify API (only run if targetPhase is null or 1)
-      if (!job.targetPhase || job.targetPhase === 1) {
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 10,
-          logs: [`[${new Date().toISOString()}] Starting Phase 1 enrichment (Spotify API batch enrichment)...`],
-        });
-
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 10,
-          message: 'Phase 1: Fetching metadata from Spotify API...',
-          enrichedCount: 0,
-          trackCount: job.trackIds.length,
-        });
-
-        try {
-          const spotify = await getUncachableSpotifyClient();
-
-        const updateTrackInContext = async (trackId: string, metadata: any) => {
-          ctx.applyPatch(trackId, metadata);
-        };
+      // An unknown targetPhase throws here and fails the job
+      const phases = job.targetPhase
+        ? [this.resolveTargetPhase(job.targetPhase)]
+        : getEnrichmentPhases();
 
-        const phase1Result = await enrichTracksWithSpotifyAPI(
-          spotify,
-          ctx.getAllTracks(),
-          updateTrackInContext
-        );
+      // Phases finished before the job was paused
+      const completedPhases = new Set(job.completedPhases || []);
 
-        const { persistedCount, failedTrackIds } = await this.persistPhaseUpdates(ctx, job.id, 'Phase 1');
+      for (let i = 0; i < phases.length; i++) {
+        const phase = phases[i];
+        const phaseId = phase.legacyNumber ?? phase.name;
+        const progress = 10 + Math.round((85 * i) / phases.length);
+        const nextProgress = 10 + Math.round((85 * (i + 1)) / phases.length);
 
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 35,
-          logs: [
-            `[${new Date().toISOString()}] Phase 1 complete: ${phase1Result.tracksEnriched}/${phase1Result.tracksProcessed} tracks enriched, ${persistedCount} persisted`,
-            `[${new Date().toISOString()}] Phase 1 stats: ISRC recovered=${phase1Result.isrcRecovered}, API calls=${phase1Result.apiCalls}`,
-          ],
-        });
-
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 35,
-          message: `Phase 1 complete: ${persistedCount} tracks persisted, ${phase1Result.isrcRecovered} ISRCs recovered`,
-          enrichedCount: phase1Result.tracksEnriched,
-          trackCount: job.trackIds.length,
-        });
-
-        for (const trackId of job.trackIds) {
-          if (!failedTrackIds.includes(trackId) && this.wsBroadcast) {
-            this.wsBroadcast('track_enriched', {
-              type: 'track_enriched',
-              trackId,
-              phase: 1,
-            });
-          }
+        if (completedPhases.has(phase.name)) {
+          continue;
         }
 
-        // Broadcast quality metric update for UI refresh
-        if (this.wsBroadcast && job.playlistId) {
-          this.wsBroadcast('playlist_quality_updated', {
-            type: 'playlist_quality_updated',
-            playlistId: job.playlistId,
-            phase: 1,
-            isrcRecovered: phase1Result.isrcRecovered,
-            tracksEnriched: phase1Result.tracksEnriched,
-          });
+        const interruption = await this.jobQueue.getInterruption(job);
+        if (interruption) {
+          await this.stopInterruptedJob(job, interruption, progress, `before ${phase.label}`);
+          return;
         }
 
-        console.log(`[Phase 1: Spotify API] ✅ Complete: ${phase1Result.tracksEnriched}/${phase1Result.tracksProcessed} tracks enriched, ${persistedCount} persisted`);
-        console.log(`[Phase 1: Spotify API] ISRC Recovery: ${phase1Result.isrcRecovered} tracks`);
-        console.log(`[Phase 1: Spotify API] Field Stats:`, phase1Result.fieldStats);
-      } catch (phase1Error) {
-        console.error("[Worker] Phase 1 (Spotify API) failed, continuing to Phase 2:", phase1Error);
-
         await this.jobQueue.updateJobProgress(job.id, {
-          progress: 35,
-          logs: [
-            `[${new Date().toISOString()}] Phase 1 failed: ${phase1Error instanceof Error ? phase1Error.message : String(phase1Error)}. Continuing to Phase 2.`,
-          ],
+          progress,
+          event: { phase: phase.name, message: `Starting ${phase.label} enrichment...` },
         });
 
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 35,
-          message: 'Phase 1 failed, continuing to Phase 2...',
-          enrichedCount: 0,
-          trackCount: job.trackIds.length,
-        });
-        }
-      }
-
-      // Phase 2: Credits Scraping (only run if targetPhase is null or 2)
-      if (!job.targetPhase || job.targetPhase === 2) {
-        const tracksForEnrichment = ctx.getAllTracks().map((t: PlaylistSnapshot) => ({
-        id: t.id,
-        spotifyUrl: t.spotifyUrl,
-        songwriter: t.songwriter,
-        spotifyStreams: t.spotifyStreams,
-      }));
-
-      await this.jobQueue.updateJobProgress(job.id, {
-        progress: 35,
-        logs: [`[${new Date().toISOString()}] Starting Phase 2 enrichment (Spotify credits scraping)...`],
-      });
-
-      this.broadcastProgress(job.id, {
-        status: 'running',
-        progress: 35,
-        message: 'Starting Phase 2: Puppeteer scraping...',
-        enrichedCount: 0,
-        trackCount: job.trackIds.length,
-      });
-
-      const result = await enrichTracksWithCredits(tracksForEnrichment);
-
-      // Create sets to track enrichment outcomes
-      const enrichedTrackIds = new Set(result.enrichedTracks.map(t => t.trackId));
-      const failedTrackIds = new Set(result.errorDetails.map(e => e.trackId));
-
-      // Update tracks with credits data AND set creditsStatus
-      // CRITICAL: Update ALL tracks with the same Spotify URL, not just the one enriched
-      for (const enrichedTrack of result.enrichedTracks) {
-        const track = ctx.getTrack(enrichedTrack.trackId);
-        if (!track) continue;
-
-        // Determine if we actually found credits
-        const hasCredits = !!(enrichedTrack.songwriter || enrichedTrack.producer || enrichedTrack.publisher);
-        
-        const patch = {
-          songwriter: enrichedTrack.songwriter || undefined,
-          producer: enrichedTrack.producer || undefined,
-          publisher: enrichedTrack.publisher || undefined,
-          label: enrichedTrack.label || undefined,
-          spotifyStreams: enrichedTrack.spotifyStreams || undefined,
-          enrichedAt: new Date(),
-          enrichmentStatus: 'enriched',
-          creditsStatus: hasCredits ? 'success' : 'no_data',
-          lastEnrichmentAttempt: new Date(),
-        };
-
-        const updateCount = ctx.applyPatchToAllBySpotifyUrl(track.spotifyUrl, patch);
-        console.log(`[Phase 2] Updated ${updateCount} instances of track "${track.trackName}" with ${hasCredits ? 'credits' : 'no credits found'}`);
-      }
-
-      // Mark tracks that were processed but found no data
-      // CRITICAL: Also sync these status updates across all duplicates
-      for (const track of tracksForEnrichment) {
-        if (!enrichedTrackIds.has(track.id) && !failedTrackIds.has(track.id)) {
-          const fullTrack = ctx.getTrack(track.id);
-          if (fullTrack) {
-            ctx.applyPatchToAllBySpotifyUrl(fullTrack.spotifyUrl, {
-              enrichmentStatus: 'partial',
-              creditsStatus: 'no_data',
-              lastEnrichmentAttempt: new Date(),
-            });
-          }
-        }
-      }
-
-      // Mark tracks that failed
-      // CRITICAL: Also sync these status updates across all duplicates
-      for (const errorDetail of result.errorDetails) {
-        const fullTrack = ctx.getTrack(errorDetail.trackId);
-        if (fullTrack) {
-          ctx.applyPatchToAllBySpotifyUrl(fullTrack.spotifyUrl, {
-            enrichmentStatus: 'partial',
-            creditsStatus: 'failed',
-            lastEnrichmentAttempt: new Date(),
-          });
-        }
-      }
-
-      const { persistedCount: phase2Persisted, failedTrackIds: phase2Failed } = await this.persistPhaseUpdates(ctx, job.id, 'Phase 2');
-
-      // Broadcast track_enriched events for ALL tracks (success + no_data + failed) immediately after Phase 2 persistence
-      for (const trackId of job.trackIds) {
         if (this.wsBroadcast) {
-          this.wsBroadcast('track_enriched', {
-            type: 'track_enriched',
-            trackId,
-            phase: 2,
-          });
-        }
-      }
-
-      // SCORING STEP: Recalculate unsigned scores after Phase 2 enrichment
-      // Note: Scores are updated directly via storage, not through the patch system
-      console.log('[Scoring] Recalculating unsigned scores with enriched metadata...');
-      let scoresUpdated = 0;
-      for (const track of ctx.getAllTracks()) {
-        const score = calculateUnsignedScore({
-          playlistName: track.playlistName,
-          label: track.label ?? null,
-          publisher: track.publisher ?? undefined,
-          writer: track.songwriter ?? undefined,
-          artistName: track.artistName,
-          songwriter: track.songwriter ?? undefined,
-          wowGrowthPct: undefined, // Will be calculated in performance tracking
-        });
-
-        try {
-          await this.storage.updateTrackMetadata(track.id, { unsignedScore: score });
-          scoresUpdated++;
-        } catch (error) {
-          console.error(`[Scoring] Failed to update score for track ${track.id}:`, error);
-        }
-      }
-
-      console.log(`[Scoring] ✅ Updated ${scoresUpdated} tracks`);
-
-      await this.jobQueue.updateJobProgress(job.id, {
-        progress: 70,
-        enrichedTracks: result.tracksEnriched,
-        errorCount: result.errors,
-        logs: [
-          `[${new Date().toISOString()}] Phase 2 complete: ${result.tracksEnriched}/${result.tracksProcessed} tracks enriched, ${phase2Persisted} persisted`,
-          `[${new Date().toISOString()}] Scoring complete: ${scoresUpdated} tracks scored`,
-        ],
-      });
-
-      this.broadcastProgress(job.id, {
-        status: 'running',
-        progress: 70,
-        message: `Phase 2 complete: ${phase2Persisted} tracks persisted, starting MLC lookup...`,
-        enrichedCount: result.tracksEnriched,
-        trackCount: job.trackIds.length,
-      });
-
-      for (const enrichedTrack of result.enrichedTracks) {
-        if (!phase2Failed.includes(enrichedTrack.trackId)) {
-          const creditsFound = [];
-          if (enrichedTrack.songwriter) creditsFound.push('songwriter');
-          if (enrichedTrack.producer) creditsFound.push('producer');
-          if (enrichedTrack.label) creditsFound.push('label');
-
-          const streamsText = enrichedTrack.spotifyStreams 
-            ? `, ${enrichedTrack.spotifyStreams.toLocaleString()} streams` 
-            : '';
-
-          await this.storage.logActivity({
-            entityType: 'track',
-            trackId: enrichedTrack.trackId,
-            playlistId: null,
-            eventType: 'credits_enriched',
-            eventDescription: `Phase 2: Scraped ${creditsFound.length > 0 ? creditsFound.join(', ') : 'no credits'}${streamsText}`,
-            metadata: JSON.stringify({
-              phase: 2,
-              songwriter: enrichedTrack.songwriter,
-              producer: enrichedTrack.producer,
-              publisher: enrichedTrack.publisher,
-              label: enrichedTrack.label,
-              spotifyStreams: enrichedTrack.spotifyStreams,
-            }),
+          this.wsBroadcast('enrichment_phase_started', {
+            type: 'enrichment_phase_started',
+            jobId: job.id,
+            phase: phaseId,
+            phaseName: phase.label,
           });
-
-          if (this.wsBroadcast) {
-            this.wsBroadcast('track_enriched', {
-              type: 'track_enriched',
-              trackId: enrichedTrack.trackId,
-              phase: 2,
-              tracksEnriched: result.tracksEnriched,
-              totalTracks: result.tracksProcessed,
-            });
-          }
         }
-      }
-
-      // Broadcast quality metric update after Phase 2
-      if (this.wsBroadcast && job.playlistId) {
-        this.wsBroadcast('playlist_quality_updated', {
-          type: 'playlist_quality_updated',
-          playlistId: job.playlistId,
-          phase: 2,
-          tracksEnriched: phase2Persisted,
-        });
-      }
-
-        console.log(`[Phase 2: Credits Scraping] ✅ Complete: ${result.tracksEnriched}/${result.tracksProcessed} tracks enriched, ${phase2Persisted} persisted`);
-      }
-
-      // Phase 3: MusicBrainz (artist social links) (only run if targetPhase is null or 3)
-      if (!job.targetPhase || job.targetPhase === 3) {
-      await this.jobQueue.updateJobProgress(job.id, {
-        progress: 72,
-        logs: [`[${new Date().toISOString()}] Starting Phase 3 enrichment (MusicBrainz artist social links)...`],
-      });
-
-      // Broadcast Phase 3 start
-      if (this.wsBroadcast) {
-        this.wsBroadcast('enrichment_phase_started', {
-          type: 'enrichment_phase_started',
-          jobId: job.id,
-          phase: 3,
-          phaseName: 'MusicBrainz Artist Links',
-        });
-      }
-
-      this.broadcastProgress(job.id, {
-        status: 'running',
-        progress: 72,
-        message: 'Phase 3: Fetching artist social links from MusicBrainz...',
-        enrichedCount: 0,
-        trackCount: job.trackIds.length,
-      });
-
-      let phase3ArtistsCreated = 0;
-      let phase3LinksFound = 0;
-
-      try {
-        // Step 1: Deduplicate songwriter names across all tracks
-        const songwriterToTracks = new Map<string, string[]>();
-        
-        for (const track of ctx.getAllTracks()) {
-          if (!track.songwriter) continue;
-
-          const songwriterNames = track.songwriter
-            .split(',')
-            .map(s => s.trim())
-            .filter(Boolean);
-
-          for (const songwriterName of songwriterNames) {
-            if (!songwriterToTracks.has(songwriterName)) {
-              songwriterToTracks.set(songwriterName, []);
-            }
-            songwriterToTracks.get(songwriterName)!.push(track.id);
-          }
-        }
-
-        const uniqueSongwriters = Array.from(songwriterToTracks.keys());
-        const totalSongwriters = uniqueSongwriters.reduce((sum, name) => sum + songwriterToTracks.get(name)!.length, 0);
-        const duplicatesAvoided = totalSongwriters - uniqueSongwriters.length;
-
-        if (duplicatesAvoided > 0) {
-          console.log(`[Phase 3] Deduped ${totalSongwriters} songwriter mentions to ${uniqueSongwriters.length} unique names (${duplicatesAvoided} duplicates avoided)`);
-        }
-
-        // Step 2: Process each unique songwriter once
-        for (const songwriterName of uniqueSongwriters) {
-          const trackIds = songwriterToTracks.get(songwriterName)!;
-          
-          try {
-            // Search for artist by name
-            const artistResult = await searchArtistByName(songwriterName);
-            
-            if (artistResult && artistResult.score >= 90) {
-              // Get external links
-              const links = await getArtistExternalLinks(artistResult.id);
-
-              // Create or update artist
-              const artist = await this.storage.createOrUpdateArtist({
-                name: songwriterName,
-                musicbrainzId: artistResult.id,
-                ...links,
-              });
-
-              // Link artist to all tracks that have this songwriter
-              for (const trackId of trackIds) {
-                await this.storage.linkArtistToTrack(artist.id, trackId);
-              }
-              
-              phase3ArtistsCreated++;
-
-              if (Object.keys(links).length > 0) {
-                phase3LinksFound++;
-                console.log(`[Phase 3] ✅ Found ${Object.keys(links).length} social links for ${songwriterName} (linked to ${trackIds.length} tracks)`);
-              }
-            }
-          } catch (error) {
-            console.error(`[Phase 3] Error enriching artist ${songwriterName}:`, error);
-          }
-        }
-
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 75,
-          logs: [
-            `[${new Date().toISOString()}] Phase 3 (MusicBrainz) complete: ${phase3ArtistsCreated} artists created, ${phase3LinksFound} with social links`,
-          ],
-        });
 
         this.broadcastProgress(job.id, {
           status: 'running',
-          progress: 75,
-          message: `Phase 3 complete: ${phase3LinksFound} artists with social links found`,
+          progress,
+          message: `${phase.label}: starting...`,
           enrichedCount: 0,
           trackCount: job.trackIds.length,
         });
 
-        console.log(`[Phase 3: MusicBrainz] ✅ Complete: ${phase3ArtistsCreated} artists, ${phase3LinksFound} with links`);
-
-        // Broadcast quality metric update
-        if (this.wsBroadcast && job.playlistId) {
-          this.wsBroadcast('playlist_quality_updated', {
-            type: 'playlist_quality_updated',
-            playlistId: job.playlistId,
-            phase: 3,
-            artistsWithLinks: phase3LinksFound,
-          });
-        }
-      } catch (phase3Error) {
-        console.error("[Worker] Phase 3 (MusicBrainz) failed, continuing to Phase 4:", phase3Error);
-
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 75,
-          logs: [
-            `[${new Date().toISOString()}] Phase 3 failed: ${phase3Error instanceof Error ? phase3Error.message : String(phase3Error)}. Continuing to Phase 4.`,
-          ],
-        });
-        }
-      }
-
-      // Phase 4: Chartmetric (streaming analytics, moods, activities) (only run if targetPhase is null or 4)
-      if (!job.targetPhase || job.targetPhase === 4) {
-      await this.jobQueue.updateJobProgress(job.id, {
-        progress: 75,
-        logs: [`[${new Date().toISOString()}] Starting Phase 4 enrichment (Chartmetric analytics)...`],
-      });
-
-      // Broadcast Phase 4 start
-      if (this.wsBroadcast) {
-        this.wsBroadcast('enrichment_phase_started', {
-          type: 'enrichment_phase_started',
-          jobId: job.id,
-          phase: 4,
-          phaseName: 'Chartmetric Analytics',
-        });
-      }
-
-      this.broadcastProgress(job.id, {
-        status: 'running',
-        progress: 75,
-        message: 'Phase 4: Fetching Chartmetric analytics...',
-        enrichedCount: 0,
-        trackCount: job.trackIds.length,
-      });
-
-      let phase4EnrichedCount = 0;
-      let phase4NotFoundCount = 0;
-      let phase4FailedCount = 0;
+        // Evaluated against the current context so earlier phases' patches are visible
+        const applicableTracks = ctx.getAllTracks().filter(t => phase.appliesTo(t));
 
-      try {
-        for (const track of ctx.getAllTracks()) {
-          // Skip if already enriched
-          if (track.chartmetricStatus === 'success' || track.chartmetricStatus === 'not_found') {
-            continue;
-          }
+        // Full jobs leave out tracks this phase gave up on; targeted jobs (retries, requeues, a user's pick) still run them
+        const settledTrackIds = job.targetPhase
+          ? new Set<string>()
+          : await this.getSettledTrackIds(phase.name, applicableTracks.map(t => t.id));
+        let phaseTracks = applicableTracks.filter(t => !settledTrackIds.has(t.id));
+        let attemptTrackIds = job.trackIds.filter(trackId => !settledTrackIds.has(trackId));
 
-          if (!track.isrc) {
-            ctx.applyPatch(track.id, {
-              chartmetricStatus: 'failed_missing_isrc',
-              chartmetricEnrichedAt: new Date(),
+        if (phaseTracks.length === 0) {
+          console.log(`[${phase.label}] No applicable tracks, skipping`);
+          await this.jobQueue.updateJobProgress(job.id, {
+            progress: nextProgress,
+            event: { phase: phase.name, message: `${phase.label} skipped: no applicable tracks` },
+          });
+          await this.clearTrackAttempts(phase.name, attemptTrackIds);
+          await this.jobQueue.markPhaseCompleted(job.id, phase.name);
+          continue;
+        }
+
+        // Run only as many tracks as the provider's daily budget covers; the rest wait for the quota to reset
+        if (phase.quota) {
+          const { provider, unitsPerTrack } = phase.quota;
+          const remaining = await providerLimiters[provider].getRemainingQuota();
+          const required = estimateQuotaUsage([phase], phaseTracks)[provider] || 0;
+          const reason = `Daily ${PROVIDER_LIMITS[provider].label} quota exhausted`;
+
+          if (remaining !== null && remaining < required && remaining >= unitsPerTrack) {
+            const affordable = Math.floor(remaining / unitsPerTrack);
+            const deferred = phaseTracks.slice(affordable);
+            phaseTracks = phaseTracks.slice(0, affordable);
+            const deferredIds = new Set(deferred.map(t => t.id));
+            attemptTrackIds = attemptTrackIds.filter(trackId => !deferredIds.has(trackId));
+            await this.deferTrackAttemptsForQuota(phase.name, deferred.map(t => t.id), reason);
+            await this.jobQueue.logEvent(job.id, {
+              level: 'warn',
+              phase: phase.name,
+              message: `${phase.label}: ${reason} for ${deferred.length} tracks (${remaining} units left); running ${affordable}`,
+              metadata: { provider, remaining, required, deferred: deferred.length },
             });
-            phase4FailedCount++;
-            continue;
-          }
-
-          try {
-            const chartmetricData = await enrichTrackWithChartmetric(track);
-
-            if (chartmetricData && chartmetricData.chartmetricId) {
-              ctx.applyPatch(track.id, {
-                chartmetricId: chartmetricData.chartmetricId,
-                spotifyStreams: chartmetricData.spotifyStreams,
-                streamingVelocity: chartmetricData.streamingVelocity?.toString(),
-                youtubeViews: chartmetricData.youtubeViews,
-                trackStage: chartmetricData.trackStage,
-                moods: chartmetricData.moods,
-                activities: chartmetricData.activities,
-                chartmetricStatus: 'success',
-                chartmetricEnrichedAt: new Date(),
-              });
-              phase4EnrichedCount++;
-              console.log(`[Phase 4] ✅ Enriched ${track.trackName}: ${chartmetricData.spotifyStreams?.toLocaleString()} streams`);
-            } else {
-              ctx.applyPatch(track.id, {
-                chartmetricStatus: 'not_found',
-                chartmetricEnrichedAt: new Date(),
-              });
-              phase4NotFoundCount++;
-            }
-          } catch (error) {
-            console.error(`[Phase 4] Error enriching track ${track.id}:`, error);
-            ctx.applyPatch(track.id, {
-              chartmetricStatus: 'failed_api',
-              chartmetricEnrichedAt: new Date(),
+          } else if (remaining !== null && remaining < required) {
+            await this.deferTrackAttemptsForQuota(phase.name, phaseTracks.map(t => t.id), reason);
+            await this.jobQueue.updateJobProgress(job.id, {
+              progress: nextProgress,
+              event: {
+                level: 'warn',
+                phase: phase.name,
+                message: `${phase.label} skipped: ${reason} (${remaining} units left)`,
+                metadata: { provider: phase.quota.provider, remaining },
+              },
             });
-            phase4FailedCount++;
+            await this.jobQueue.markPhaseCompleted(job.id, phase.name);
+            continue;
           }
         }
 
-        const { persistedCount: phase4Persisted } = await this.persistPhaseUpdates(ctx, job.id, 'Phase 4');
+        this.startPhaseTimer(job.id, phase.label);
 
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 82,
-          logs: [
-            `[${new Date().toISOString()}] Phase 4 (Chartmetric) complete: ${phase4EnrichedCount} enriched, ${phase4NotFoundCount} not found, ${phase4FailedCount} failed, ${phase4Persisted} persisted`,
-          ],
-        });
-
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 82,
-          message: `Phase 4 complete: ${phase4EnrichedCount} tracks enriched with analytics`,
-          enrichedCount: phase4EnrichedCount,
-          trackCount: job.trackIds.length,
-        });
-
-        console.log(`[Phase 4: Chartmetric] ✅ Complete: ${phase4EnrichedCount} enriched, ${phase4NotFoundCount} not found, ${phase4FailedCount} failed`);
-
-        // Broadcast quality metric update
-        if (this.wsBroadcast && job.playlistId) {
-          this.wsBroadcast('playlist_quality_updated', {
-            type: 'playlist_quality_updated',
-            playlistId: job.playlistId,
-            phase: 4,
-            tracksEnriched: phase4EnrichedCount,
+        try {
+          const result = await phase.run(phaseTracks, {
+            job,
+            storage: this.storage,
+            allTracks: ctx.getAllTracks(),
+            log: async (message, details) => {
+              await this.jobQueue.logEvent(job.id, { ...details, phase: phase.name, message: `${phase.label}: ${message}` });
+            },
+            broadcast: this.wsBroadcast,
+            isInterrupted: async () => (await this.jobQueue.getInterruption(job)) !== null,
           });
-        }
-      } catch (phase4Error) {
-        console.error("[Worker] Phase 4 (Chartmetric) failed, continuing to Phase 5:", phase4Error);
 
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 82,
-          logs: [
-            `[${new Date().toISOString()}] Phase 4 failed: ${phase4Error instanceof Error ? phase4Error.message : String(phase4Error)}. Continuing to Phase 5.`,
-          ],
-        });
-        }
-      }
+          const { patchedTrackIds, conflicts } = this.applyPhasePatches(ctx, result.patches, phase.source, policy);
+          const { persistedCount, failedTrackIds } = await this.persistPhaseUpdates(ctx, job.id, phase.label, phase.source);
 
-      // Phase 5: MLC Publisher Lookup (only run if targetPhase is null or 5)
-      if (!job.targetPhase || job.targetPhase === 5) {
-        await this.jobQueue.updateJobProgress(job.id, {
-        progress: 82,
-        logs: [`[${new Date().toISOString()}] Starting Phase 5 enrichment (MLC publisher status)...`],
-      });
+          await this.flagFieldConflicts(conflicts, failedTrackIds, job.id, phase.label);
 
-      // Broadcast Phase 5 start
-      if (this.wsBroadcast) {
-        this.wsBroadcast('enrichment_phase_started', {
-          type: 'enrichment_phase_started',
-          jobId: job.id,
-          phase: 5,
-          phaseName: 'MLC Publisher Lookup',
-        });
-      }
+          const phaseFailures = [
+            ...(result.failures || []),
+            ...failedTrackIds.map(trackId => ({ trackId, reason: 'Failed to save enriched data' })),
+          ];
+          await this.recordTrackFailures(job.id, phase.name, phaseFailures);
 
-      this.broadcastProgress(job.id, {
-        status: 'running',
-        progress: 82,
-        message: 'Phase 5: Checking publisher status with MLC API...',
-        enrichedCount: 0,
-        trackCount: job.trackIds.length,
-      });
-
-      let mlcResults: Array<{
-        trackId: string;
-        hasPublisher: boolean;
-        publisherNames: string[];
-        mlcSongCode?: string;
-        error?: string;
-      }> = [];
-
-      try {
-        // Filter tracks that need MLC enrichment (skip tracks that already have publisherStatus)
-        const tracksForMLC = ctx.getAllTracks()
-          .filter((t: PlaylistSnapshot) => !t.publisherStatus || t.publisherStatus === 'unknown')
-          .map((t: PlaylistSnapshot) => ({
-            id: t.id,
-            isrc: t.isrc,
-            trackName: t.trackName,
-            artistName: t.artistName,
-            songwriter: t.songwriter,
-          }));
-
-        const allTracksCount = ctx.getAllTracks().length;
-        const skippedCount = allTracksCount - tracksForMLC.length;
-        
-        if (skippedCount > 0) {
-          console.log(`[Phase 5: MLC] Skipping ${skippedCount}/${allTracksCount} tracks that already have publisherStatus`);
-        }
+          // An interrupted phase didn't reach every track, so only a full run clears retries
+          if (!result.interrupted) {
+            const failingTrackIds = new Set(phaseFailures.map(failure => failure.trackId));
+            await this.clearTrackAttempts(phase.name, attemptTrackIds.filter(trackId => !failingTrackIds.has(trackId)));
+          }
 
-        if (tracksForMLC.length === 0) {
-          console.log("[Phase 5: MLC] All tracks already have publisherStatus, skipping MLC API calls");
-          mlcResults = [];
-        } else {
-          console.log(`[Phase 5: MLC] Enriching ${tracksForMLC.length} tracks with MLC API`);
-          mlcResults = await enrichTracksWithMLC(tracksForMLC);
-        }
+          if (result.afterPersist) {
+            await result.afterPersist(failedTrackIds);
+          }
 
-        for (const mlcResult of mlcResults) {
-          const publisherName = mlcResult.publisherNames.join(', ') || undefined;
-          const publisherStatus = mlcResult.error 
-            ? undefined 
-            : (mlcResult.hasPublisher ? 'published' : 'unknown');
-
-          ctx.applyPatch(mlcResult.trackId, {
-            publisher: publisherName,
-            publisherStatus,
-            mlcSongCode: mlcResult.mlcSongCode || undefined,
-            enrichmentStatus: 'enriched',
+          await this.jobQueue.updateJobProgress(job.id, {
+            progress: nextProgress,
+            ...(result.jobTotals || {}),
+            event: {
+              phase: phase.name,
+              message: `${phase.label} complete: ${result.summary}, ${persistedCount} persisted`,
+              metadata: { enrichedCount: result.enrichedCount, persistedCount, failedCount: result.failures?.length || 0 },
+            },
           });
-        }
 
-        const { persistedCount: mlcPersisted, failedTrackIds: mlcFailed } = await this.persistPhaseUpdates(ctx, job.id, 'MLC');
-
-        console.log(`[Phase 5: MLC] ✅ Complete: ${mlcResults.filter(r => r.hasPublisher).length}/${mlcResults.length} tracks have publishers, ${mlcPersisted} persisted`);
-
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 92,
-          logs: [
-            `[${new Date().toISOString()}] Phase 5 (MLC) enrichment complete: ${mlcResults.filter(r => r.hasPublisher).length}/${mlcResults.length} tracks have publishers, ${mlcPersisted} persisted`,
-          ],
-        });
-
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 92,
-          message: `Phase 5 complete: ${mlcPersisted} tracks persisted`,
-          enrichedCount: mlcResults.filter(r => r.hasPublisher).length,
-          trackCount: job.trackIds.length,
-        });
-
-        for (const mlcResult of mlcResults) {
-          if (!mlcFailed.includes(mlcResult.trackId)) {
-            const mlcDescription = mlcResult.error
-              ? `MLC: Error - ${mlcResult.error}`
-              : mlcResult.hasPublisher
-                ? `MLC: Publisher found - ${mlcResult.publisherNames.join(', ')}`
-                : 'MLC: No publisher found (unsigned/unknown)';
-
-            await this.storage.logActivity({
-              entityType: 'track',
-              trackId: mlcResult.trackId,
-              playlistId: null,
-              eventType: 'mlc_enrichment_completed',
-              eventDescription: mlcDescription,
-              metadata: JSON.stringify({
-                hasPublisher: mlcResult.hasPublisher,
-                publisherNames: mlcResult.publisherNames,
-                mlcSongCode: mlcResult.mlcSongCode,
-                publisherStatus: mlcResult.error 
-                  ? undefined 
-                  : (mlcResult.hasPublisher ? 'published' : 'unknown'),
-                error: mlcResult.error,
-              }),
-            });
+          this.broadcastProgress(job.id, {
+            status: 'running',
+            progress: nextProgress,
+            message: `${phase.label} complete: ${result.summary}`,
+            enrichedCount: result.enrichedCount,
+            trackCount: job.trackIds.length,
+          });
 
-            if (this.wsBroadcast) {
+          for (const trackId of patchedTrackIds) {
+            if (!failedTrackIds.includes(trackId) && this.wsBroadcast) {
               this.wsBroadcast('track_enriched', {
                 type: 'track_enriched',
-                trackId: mlcResult.trackId,
-                phase: 'mlc',
+                trackId,
+                phase: phaseId,
               });
             }
           }
-        }
 
-        // Broadcast final quality metric update after MLC
-        if (this.wsBroadcast && job.playlistId) {
-          this.wsBroadcast('playlist_quality_updated', {
-            type: 'playlist_quality_updated',
-            playlistId: job.playlistId,
-            phase: 'mlc',
-            tracksWithPublisher: mlcResults.filter(r => r.hasPublisher).length,
-            totalTracks: mlcResults.length,
-          });
-        }
-      } catch (mlcError) {
-        console.error("[Worker] MLC enrichment failed, continuing job:", mlcError);
-
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 92,
-          logs: [
-            `[${new Date().toISOString()}] Phase 5 (MLC) failed: ${mlcError instanceof Error ? mlcError.message : String(mlcError)}. Job continuing.`,
-          ],
-        });
-
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 92,
-          message: 'Phase 5 failed, finalizing job...',
-          enrichedCount: 0,
-          trackCount: job.trackIds.length,
-        });
-
-        for (const trackId of job.trackIds) {
-          ctx.applyPatch(trackId, {
-            enrichmentStatus: 'enriched',
-            publisherStatus: 'unknown',
-            enrichedAt: new Date(),
-          });
-        }
-
-        await this.persistPhaseUpdates(ctx, job.id, 'MLC Fallback');
-
-        for (const trackId of job.trackIds) {
-          if (this.wsBroadcast) {
-            this.wsBroadcast('track_enriched', {
-              type: 'track_enriched',
-              trackId,
-              phase: 'mlc_fallback',
+          // Broadcast quality metric update for UI refresh
+          if (this.wsBroadcast && job.playlistId && result.qualityMetrics) {
+            this.wsBroadcast('playlist_quality_updated', {
+              type: 'playlist_quality_updated',
+              playlistId: job.playlistId,
+              phase: phaseId,
+              ...result.qualityMetrics,
             });
           }
-        }
-        }
-      }
 
-      // ============================================================
-      // Phase 6: YouTube Video Metadata Enrichment (only run if targetPhase is null or 6)
-      // ============================================================
-      if (!job.targetPhase || job.targetPhase === 6) {
-        await this.jobQueue.updateJobProgress(job.id, {
-        progress: 92,
-        logs: [`[${new Date().toISOString()}] Starting Phase 6 enrichment (YouTube video metadata)...`],
-      });
+          console.log(`[${phase.label}] ✅ Complete: ${result.summary}, ${persistedCount} persisted`);
 
-      // Broadcast Phase 6 start
-      if (this.wsBroadcast) {
-        this.wsBroadcast('enrichment_phase_started', {
-          type: 'enrichment_phase_started',
-          jobId: job.id,
-          phase: 6,
-          phaseName: 'YouTube Metadata',
-        });
-      }
+          // An interrupted phase keeps its partial results but runs again on resume
+          if (result.interrupted) {
+            const interruption = await this.jobQueue.getInterruption(job);
+            if (interruption) {
+              await this.stopInterruptedJob(job, interruption, nextProgress, `during ${phase.label}`);
+              return;
+            }
+          }
 
-      this.broadcastProgress(job.id, {
-        status: 'running',
-        progress: 92,
-        message: 'Phase 6: Fetching YouTube video metadata...',
-        enrichedCount: 0,
-        trackCount: job.trackIds.length,
-      });
+          await this.jobQueue.markPhaseCompleted(job.id, phase.name);
+        } catch (phaseError) {
+          console.error(`[Worker] ${phase.label} failed, continuing job:`, phaseError);
 
-      let youtubeEnrichedCount = 0;
-      let youtubeNotFoundCount = 0;
-      let youtubeFailedCount = 0;
-      let youtubeSkippedCount = 0;
-      let youtubeQuotaLimitReached = false;
+          const reason = phaseError instanceof Error ? phaseError.message : String(phaseError);
+          await this.recordTrackFailures(job.id, phase.name, phaseTracks.map(t => ({ trackId: t.id, reason })));
 
-      try {
-        // Check global YouTube quota from persistent storage
-        const quotaCheck = await this.checkYouTubeQuota();
-        
-        if (!quotaCheck.allowed) {
-          const quotaUsed = this.YOUTUBE_SAFE_QUOTA - quotaCheck.remaining;
-          console.log(`[Phase 6: YouTube] ⚠️ Daily safe quota reached (${quotaUsed}/${this.YOUTUBE_SAFE_QUOTA} units, limit: ${this.YOUTUBE_DAILY_QUOTA}). Skipping YouTube enrichment for this job.`);
-          
           await this.jobQueue.updateJobProgress(job.id, {
-            progress: 95,
-            logs: [
-              `[${new Date().toISOString()}] Phase 6 (YouTube) skipped: Safe quota limit reached (${quotaUsed}/${this.YOUTUBE_SAFE_QUOTA} units used)`,
-            ],
+            progress: nextProgress,
+            event: {
+              level: 'error',
+              phase: phase.name,
+              message: `${phase.label} failed: ${reason}. Job continuing.`,
+            },
           });
 
           this.broadcastProgress(job.id, {
             status: 'running',
-            progress: 95,
-            message: 'Phase 6 skipped: YouTube safe quota limit reached (preserving 20% margin)',
+            progress: nextProgress,
+            message: `${phase.label} failed, continuing...`,
             enrichedCount: 0,
             trackCount: job.trackIds.length,
           });
-        } else {
-          // Only enrich tracks that:
-          // 1. Have an ISRC
-          // 2. Don't already have YouTube data (to avoid re-enriching)
-          const tracksNeedingYouTube = ctx.getAllTracks().filter((t: PlaylistSnapshot) => 
-            t.isrc && !t.youtubeVideoId
-          );
-          
-          console.log(`[Phase 6: YouTube] ${tracksNeedingYouTube.length} tracks need YouTube enrichment (have ISRC, no existing data)`);
-          console.log(`[Phase 6: YouTube] Quota remaining: ${quotaCheck.remaining}/${this.YOUTUBE_SAFE_QUOTA} safe units (Daily limit: ${this.YOUTUBE_DAILY_QUOTA})`);
-
-          // Each search costs ~100 units, so calculate how many searches we can do
-          const maxSearches = Math.floor(quotaCheck.remaining / 100);
-          const tracksToEnrich = tracksNeedingYouTube.slice(0, maxSearches);
-          
-          if (tracksNeedingYouTube.length > maxSearches) {
-            youtubeQuotaLimitReached = true;
-            const skipped = tracksNeedingYouTube.length - maxSearches;
-            console.log(`[Phase 6: YouTube] ⚠️ Quota limit: Only enriching ${maxSearches} tracks, skipping ${skipped} to preserve safe quota margin`);
-          }
-
-          for (const track of tracksToEnrich) {
-            // Pre-check quota before each search to prevent overshoot from concurrent workers
-            const preSearchQuota = await this.checkYouTubeQuota();
-            
-            if (preSearchQuota.remaining < 100) {
-              console.log(`[Phase 6: YouTube] ⚠️ Insufficient quota remaining (${preSearchQuota.remaining} units) for search. Stopping enrichment.`);
-              youtubeSkippedCount++;
-              youtubeQuotaLimitReached = true;
-              break;
-            }
 
+          if (phase.onError) {
             try {
-              const youtubeData = await enrichTrackWithYouTube(
-                track.isrc!,
-                track.trackName,
-                track.artistName
-              );
-
-              // Increment quota counter after successful API call (~100 units per search, up to 200 with fallback)
-              const newQuota = await this.incrementYouTubeQuota(100);
-              
-              // Alert if approaching safe limit (based on YOUTUBE_SAFE_QUOTA)
-              const quotaUsagePercent = (newQuota / this.YOUTUBE_SAFE_QUOTA) * 100;
-              if (quotaUsagePercent >= 80 && quotaUsagePercent < 90) {
-                console.warn(`[Phase 6: YouTube] ⚠️ WARNING: Approaching safe quota limit (${quotaUsagePercent.toFixed(1)}% of safe limit: ${newQuota}/${this.YOUTUBE_SAFE_QUOTA} units)`);
-              } else if (quotaUsagePercent >= 90) {
-                console.error(`[Phase 6: YouTube] 🚨 CRITICAL: Nearly exhausted safe quota (${quotaUsagePercent.toFixed(1)}% of safe limit: ${newQuota}/${this.YOUTUBE_SAFE_QUOTA} units)`);
+              const { patchedTrackIds: fallbackTrackIds } = this.applyPhasePatches(ctx, phase.onError(phaseTracks, phaseError), phase.source, policy);
+              const { failedTrackIds } = await this.persistPhaseUpdates(ctx, job.id, `${phase.label} Fallback`, phase.source);
+
+              for (const trackId of fallbackTrackIds) {
+                if (!failedTrackIds.includes(trackId) && this.wsBroadcast) {
+                  this.wsBroadcast('track_enriched', {
+                    type: 'track_enriched',
+                    trackId,
+                    phase: `${phase.name}_fallback`,
+                  });
+                }
               }
-
-              if (youtubeData) {
-                ctx.applyPatch(track.id, {
-                  youtubeVideoId: youtubeData.videoId,
-                  youtubeChannelId: youtubeData.channelId,
-                  youtubeViews: youtubeData.views,
-                  youtubeLikes: youtubeData.likes,
-                  youtubeComments: youtubeData.comments,
-                  youtubePublishedAt: youtubeData.publishedAt,
-                  youtubeDescription: youtubeData.description,
-                  youtubeLicensed: youtubeData.licensed ? 1 : 0,
-                });
-                youtubeEnrichedCount++;
-
-                console.log(`[Phase 6: YouTube] ✅ ${track.trackName} - ${youtubeData.views.toLocaleString()} views (Quota: ${newQuota}/${this.YOUTUBE_SAFE_QUOTA} safe)`);
-              } else {
-                youtubeNotFoundCount++;
-                console.log(`[Phase 6: YouTube] ⚠️ No video found for ${track.trackName} (ISRC: ${track.isrc})`);
-              }
-            } catch (trackError) {
-              console.error(`[Phase 6: YouTube] ❌ Failed to enrich ${track.trackName}:`, trackError);
-              youtubeFailedCount++;
-              // Still increment quota on failure since the API call was made
-              await this.incrementYouTubeQuota(100);
+            } catch (fallbackError) {
+              console.error(`[Worker] ${phase.label} fallback failed:`, fallbackError);
             }
           }
 
-          // Count tracks that were skipped due to quota
-          if (youtubeQuotaLimitReached) {
-            youtubeSkippedCount = tracksNeedingYouTube.length - tracksToEnrich.length;
-          }
-
-          // Count tracks that already had YouTube data
-          const tracksAlreadyEnriched = ctx.getAllTracks().filter((t: PlaylistSnapshot) => t.youtubeVideoId).length - youtubeEnrichedCount;
-          if (tracksAlreadyEnriched > 0) {
-            console.log(`[Phase 6: YouTube] ℹ️ ${tracksAlreadyEnriched} tracks already have YouTube data (skipped)`);
+          await this.jobQueue.markPhaseCompleted(job.id, phase.name);
+        } finally {
+          const durationMs = this.endPhaseTimer(job.id, phase.label);
+          try {
+            await this.jobQueue.recordPhaseTiming(job.id, phase.name, {
+              startedAt: new Date(Date.now() - durationMs).toISOString(),
+              durationMs,
+            });
+          } catch (timingError) {
+            console.error(`[Worker] Failed to record ${phase.label} timing:`, timingError);
           }
         }
+      }
 
-        const { persistedCount: youtubePersisted } = await this.persistPhaseUpdates(ctx, job.id, 'Phase 6');
-
-        const quotaMessage = youtubeQuotaLimitReached 
-          ? `, ${youtubeSkippedCount} skipped (quota limit)` 
-          : '';
-
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 95,
-          logs: [
-            `[${new Date().toISOString()}] Phase 6 (YouTube) complete: ${youtubeEnrichedCount} enriched, ${youtubeNotFoundCount} not found, ${youtubeFailedCount} failed${quotaMessage}, ${youtubePersisted} persisted`,
-          ],
-        });
-
-        this.broadcastProgress(job.id, {
-          status: 'running',
-          progress: 95,
-          message: `Phase 6 complete: ${youtubeEnrichedCount} tracks enriched with YouTube data${quotaMessage}`,
-          enrichedCount: youtubeEnrichedCount,
-          trackCount: job.trackIds.length,
-        });
-
-        console.log(`[Phase 6: YouTube] ✅ Complete: ${youtubeEnrichedCount} enriched, ${youtubeNotFoundCount} not found, ${youtubeFailedCount} failed${quotaMessage}`);
-
-        // Broadcast quality metric update
-        if (this.wsBroadcast && job.playlistId) {
-          this.wsBroadcast('playlist_quality_updated', {
-            type: 'playlist_quality_updated',
-            playlistId: job.playlistId,
-            phase: 6,
-            tracksEnriched: youtubeEnrichedCount,
-          });
-        }
-      } catch (youtubeError) {
-        console.error("[Worker] Phase 6 (YouTube) failed, continuing to finalization:", youtubeError);
-
-        await this.jobQueue.updateJobProgress(job.id, {
-          progress: 95,
-          logs: [
-            `[${new Date().toISOString()}] Phase 6 failed: ${youtubeError instanceof Error ? youtubeError.message : String(youtubeError)}. Finalizing job.`,
-          ],
-        });
-        }
+      // A cancel or pause that landed during the last phase
+      const finalInterruption = await this.jobQueue.getInterruption(job);
+      if (finalInterruption) {
+        await this.stopInterruptedJob(job, finalInterruption, 95, 'before finalization');
+        return;
       }
 
       // Job finalization
       const targetPhaseName = job.targetPhase 
-        ? `Phase ${job.targetPhase}` 
+        ? phases[0].label 
         : 'All phases';
       
       await this.jobQueue.updateJobProgress(job.id, {
         progress: 95,
-        logs: [`[${new Date().toISOString()}] ${targetPhaseName} enrichment complete. Finalizing job...`],
+        event: { message: `${targetPhaseName} enrichment complete. Finalizing job...` },
       });
 
       this.broadcastProgress(job.id, {
@@ -1321,9 +750,9 @@ export class EnrichmentWorker {
       });
 
       const success = true;
-      await this.jobQueue.completeJob(job.id, success, [
-        `[${new Date().toISOString()}] Job completed: ${targetPhaseName} enrichment finished`,
-      ]);
+      await this.jobQueue.completeJob(job, success, {
+        message: `Job completed: ${targetPhaseName} enrichment finished`,
+      });
 
       this.broadcastProgress(job.id, {
         status: success ? 'completed' : 'completed_with_errors',
@@ -1338,7 +767,8 @@ export class EnrichmentWorker {
         console.log(`\n📊 Job ${job.id} flagged for snapshot capture - triggering performance snapshot...`);
         try {
           const { performanceTrackingService } = await import("../services/performanceTracking");
-          await performanceTrackingService.captureWeeklySnapshots();
+          // Snapshots + funnel tier rules (locked and deal-stage contacts are left alone)
+          await performanceTrackingService.runWeeklyMaintenance();
           console.log(`✅ Performance snapshots captured successfully after job ${job.id}`);
         } catch (snapshotError) {
           console.error(`❌ Failed to capture snapshots after job ${job.id}:`, snapshotError);
@@ -1421,6 +851,17 @@ export class EnrichmentWorker {
           }
           
           console.log(`[ContactScoring] ✅ Scored ${scoredCount}/${contactsToUpdate.length} contacts`);
+
+          // Evaluate user alert rules against the freshly scored contacts
+          try {
+            const { contactAlertService } = await import("../services/contactAlerts");
+            await contactAlertService.evaluateRules({
+              contactIds: contactsToUpdate.map(c => c.id),
+              trigger: `enrichment job ${job.id}`,
+            });
+          } catch (ruleError) {
+            console.error('Failed to evaluate alert rules:', ruleError);
+          }
         }
       } catch (scoringError) {
         console.error('Failed to recalculate contact scores:', scoringError);
@@ -1430,9 +871,9 @@ export class EnrichmentWorker {
     } catch (error) {
       console.error(`❌ Job ${job.id} failed:`, error);
 
-      await this.jobQueue.completeJob(job.id, false, [
-        `[${new Date().toISOString()}] Job failed: ${error instanceof Error ? error.message : String(error)}`,
-      ]);
+      await this.jobQueue.completeJob(job, false, {
+        message: `Job failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
 
       this.broadcastProgress(job.id, {
         status: 'failed',
@@ -1469,6 +910,51 @@ export class EnrichmentWorker {
     }
   }
 
+  /**
+   * Stop a job that was paused or cancelled while running. Writes already persisted stay;
+   * a paused job keeps its completed phases so resuming picks up where it left off.
+   * A job reclaimed by another worker is simply dropped: its new owner reports on it.
+   */
+  private async stopInterruptedJob(
+    job: EnrichmentJob,
+    status: 'paused' | 'cancelled' | 'lease_lost',
+    progress: number,
+    checkpoint: string
+  ): Promise<void> {
+    if (status === 'lease_lost') {
+      console.warn(`⚠️ Job ${job.id}: lease lost to another worker, stopping ${checkpoint}`);
+      await this.jobQueue.logEvent(job.id, {
+        level: 'warn',
+        message: `Worker ${this.jobQueue.workerId} lost its lease and stopped ${checkpoint}`,
+        metadata: { workerId: this.jobQueue.workerId },
+      });
+      return;
+    }
+
+    const message = status === 'cancelled'
+      ? `Job cancelled ${checkpoint}`
+      : `Job paused ${checkpoint}`;
+
+    if (status === 'cancelled') {
+      await this.storage.updateEnrichmentJob(job.id, { completedAt: new Date() });
+    }
+
+    await this.jobQueue.updateJobProgress(job.id, {
+      progress,
+      event: { level: 'warn', message },
+    });
+
+    this.broadcastProgress(job.id, {
+      status,
+      progress,
+      message,
+      enrichedCount: job.enrichedTracks || 0,
+      trackCount: job.trackIds.length,
+    });
+
+    console.log(`⏸️ Job ${job.id}: ${message}`);
+  }
+
   private broadcastProgress(jobId: string, data: any) {
     if (this.wsBroadcast) {
       this.wsBroadcast('enrichment_progress', {
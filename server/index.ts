@@ -81,6 +81,14 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
+  // Seed the default funnel tier rules so the settings page has something to edit
+  try {
+    const { performanceTrackingService } = await import("./services/performanceTracking");
+    await performanceTrackingService.ensureDefaultFunnelTierRules();
+  } catch (error) {
+    console.error("Failed to seed default funnel tier rules:", error);
+  }
+
   // Initialize the scheduler for automated jobs
   await initializeScheduler(storage);
 
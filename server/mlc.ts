@@ -1,3 +1,7 @@
+import { classifyPublishers, toPublisherStatus, type PublisherStatus } from "./scoring/publisherClassifier";
+import { providerLimiters } from "./services/rateLimiters";
+import { withResponseCache } from "./services/responseCache";
+
 const MLC_USERNAME = process.env.MLC_USERNAME;
 const MLC_PASSWORD = process.env.MLC_PASSWORD;
 const MLC_API_BASE_URL = "https://public-api.themlc.com";
@@ -61,16 +65,7 @@ interface MLCRecording {
   mlcsongCode: string;
 }
 
-export type PublisherStatus = "unsigned" | "self-published" | "indie" | "major";
-
-const MAJOR_PUBLISHERS = [
-  "sony music publishing",
-  "universal music publishing",
-  "warner chappell",
-  "kobalt music",
-  "bmg rights management",
-  "peermusic",
-];
+export type { PublisherStatus };
 
 async function getAccessToken(): Promise<string | null> {
   if (!MLC_USERNAME || !MLC_PASSWORD) {
@@ -83,7 +78,7 @@ async function getAccessToken(): Promise<string | null> {
   }
 
   try {
-    const response = await fetch(`${MLC_API_BASE_URL}/oauth/token`, {
+    const response = await providerLimiters.mlc.fetch(`${MLC_API_BASE_URL}/oauth/token`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -121,39 +116,18 @@ async function getAccessToken(): Promise<string | null> {
   }
 }
 
-export function determinePublisherStatus(publishers: MLCPublisher[] | undefined): PublisherStatus {
+export function determinePublisherStatus(publishers: MLCPublisher[] | undefined, writerNames?: string[]): PublisherStatus {
   if (!publishers || publishers.length === 0) {
     return "unsigned";
   }
 
-  const publisherNames = publishers
-    .filter(p => p && p.publisherName)
-    .map(p => p.publisherName.toLowerCase());
-  
-  if (publisherNames.length === 0) {
-    return "unsigned";
-  }
-  
-  const hasMajorPublisher = publisherNames.some(name => 
-    MAJOR_PUBLISHERS.some(major => name.includes(major))
-  );
-  
-  if (hasMajorPublisher) {
-    return "major";
-  }
-
-  const hasSelfPublished = publisherNames.some(name => 
-    name.includes("self") || 
-    name.includes("independent") ||
-    name.includes("admin") ||
-    name.includes("private")
-  );
-  
-  if (hasSelfPublished) {
-    return "self-published";
-  }
+  // Administrators count too: a writer designee administered by Songtrust is an admin-only deal
+  const names = publishers.flatMap(p => [
+    p?.publisherName,
+    ...(p?.administrators || []).map(admin => admin.publisherName),
+  ]);
 
-  return "indie";
+  return toPublisherStatus(classifyPublishers(names, writerNames).tier);
 }
 
 export async function searchRecordingByISRC(isrc: string): Promise<MLCRecording | null> {
@@ -161,48 +135,53 @@ export async function searchRecordingByISRC(isrc: string): Promise<MLCRecording
   if (!token) return null;
 
   try {
-    console.log(`[MLC] Searching for recording with ISRC: ${isrc}`);
-    
-    const response = await fetch(`${MLC_API_BASE_URL}/search/recordings`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        isrc: isrc,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        console.log(`[MLC] No recording found for ISRC: ${isrc}`);
-        return null;
-      }
-      if (response.status === 401) {
-        const errorText = await response.text();
-        console.error(`[MLC] 401 Unauthorized on search - Token may be invalid. Response:`, errorText);
-        cachedToken = null;
-        return null;
-      }
-      throw new Error(`MLC API error: ${response.status} ${response.statusText}`);
-    }
+    // A single recording; mlcApi caches the full result list under search/recordings
+    return await withResponseCache('mlc', 'search/recordings/first', { isrc }, () => fetchRecordingByISRC(token, isrc));
+  } catch (error) {
+    console.error(`[MLC] Error searching for ISRC ${isrc}:`, error);
+    return null;
+  }
+}
 
-    const recordings: MLCRecording[] = await response.json();
-    
-    if (!recordings || recordings.length === 0) {
-      console.log(`[MLC] No recordings found for ISRC: ${isrc}`);
+// Resolves null when the MLC has no recording for the ISRC; throws on any other error
+async function fetchRecordingByISRC(token: string, isrc: string): Promise<MLCRecording | null> {
+  console.log(`[MLC] Searching for recording with ISRC: ${isrc}`);
+  
+  const response = await providerLimiters.mlc.fetch(`${MLC_API_BASE_URL}/search/recordings`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      isrc: isrc,
+    }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      console.log(`[MLC] No recording found for ISRC: ${isrc}`);
       return null;
     }
+    if (response.status === 401) {
+      const errorText = await response.text();
+      console.error(`[MLC] 401 Unauthorized on search - Token may be invalid. Response:`, errorText);
+      cachedToken = null;
+    }
+    throw new Error(`MLC API error: ${response.status} ${response.statusText}`);
+  }
 
-    const recording = recordings[0];
-    console.log(`[MLC] Found recording: "${recording.title}" with MLC Song Code: ${recording.mlcsongCode}`);
-    
-    return recording;
-  } catch (error) {
-    console.error(`[MLC] Error searching for ISRC ${isrc}:`, error);
+  const recordings: MLCRecording[] = await response.json();
+  
+  if (!recordings || recordings.length === 0) {
+    console.log(`[MLC] No recordings found for ISRC: ${isrc}`);
     return null;
   }
+
+  const recording = recordings[0];
+  console.log(`[MLC] Found recording: "${recording.title}" with MLC Song Code: ${recording.mlcsongCode}`);
+  
+  return recording;
 }
 
 export async function getWorkByMlcSongCode(mlcSongCode: string): Promise<MLCWork | null> {
@@ -212,7 +191,7 @@ export async function getWorkByMlcSongCode(mlcSongCode: string): Promise<MLCWork
   try {
     console.log(`[MLC] Fetching work details for MLC Song Code: ${mlcSongCode}`);
     
-    const response = await fetch(`${MLC_API_BASE_URL}/work/id/${mlcSongCode}`, {
+    const response = await providerLimiters.mlc.fetch(`${MLC_API_BASE_URL}/work/id/${mlcSongCode}`, {
       method: "GET",
       headers: {
         "Authorization": `Bearer ${token}`,
@@ -256,7 +235,7 @@ export async function searchWorkByTitleAndWriter(
   try {
     console.log(`[MLC] Searching for work: "${title}" by ${writerFirstName} ${writerLastName}`);
     
-    const response = await fetch(`${MLC_API_BASE_URL}/search/songcode`, {
+    const response = await providerLimiters.mlc.fetch(`${MLC_API_BASE_URL}/search/songcode`, {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${token}`,
@@ -339,7 +318,6 @@ export async function enrichTrackWithMLC(isrc: string): Promise<{
     }
 
     const publishers = work.publishers || [];
-    const publisherStatus = determinePublisherStatus(publishers);
     
     const primaryPublisher = publishers.length > 0 ? publishers[0] : null;
     const collectionShare = primaryPublisher?.collectionShare 
@@ -355,6 +333,8 @@ export async function enrichTrackWithMLC(isrc: string): Promise<{
       .map(w => `${w.writerFirstName || ''} ${w.writerLastName || ''}`.trim())
       .filter(Boolean);
 
+    const publisherStatus = determinePublisherStatus(publishers, writers);
+
     // Extract administrators from all publishers
     const administratorNames: string[] = [];
     for (const publisher of publishers) {
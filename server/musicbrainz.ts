@@ -1,3 +1,6 @@
+import { providerLimiters } from "./services/rateLimiters";
+import { withResponseCache } from "./services/responseCache";
+
 const MUSICBRAINZ_API = "https://musicbrainz.org/ws/2";
 const USER_AGENT = "AIPublFeed/1.0.0 ( https://replit.com )";
 
@@ -56,106 +59,105 @@ export async function searchByISRC(isrc: string): Promise<EnrichedMetadata> {
   }
 
   try {
-    // Rate limiting: Wait 1 second before making API calls
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    const metadata = await withResponseCache('musicbrainz', 'recording/isrc', { isrc }, () => lookupByISRC(isrc));
+    return metadata || {};
+  } catch (error) {
+    console.error(`Error fetching metadata from MusicBrainz for ISRC ${isrc}:`, error);
+    return {};
+  }
+}
 
-    // Step 1: Search by ISRC to get the recording ID
-    const searchUrl = `${MUSICBRAINZ_API}/recording?query=isrc:${isrc}&fmt=json`;
-    
-    const searchResponse = await fetch(searchUrl, {
-      headers: {
-        "User-Agent": USER_AGENT,
-        "Accept": "application/json",
-      },
-    });
+// Resolves null when MusicBrainz has no recording for the ISRC. Request errors throw so a
+// partial result is never cached.
+async function lookupByISRC(isrc: string): Promise<EnrichedMetadata | null> {
+  // Step 1: Search by ISRC to get the recording ID
+  const searchUrl = `${MUSICBRAINZ_API}/recording?query=isrc:${isrc}&fmt=json`;
+  
+  const searchResponse = await providerLimiters.musicbrainz.fetch(searchUrl, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      "Accept": "application/json",
+    },
+  });
+
+  if (!searchResponse.ok) {
+    throw new Error(`MusicBrainz search error for ISRC ${isrc}: ${searchResponse.status}`);
+  }
 
-    if (!searchResponse.ok) {
-      console.warn(`MusicBrainz search error for ISRC ${isrc}: ${searchResponse.status}`);
-      return {};
-    }
+  const searchData: MusicBrainzResponse = await searchResponse.json();
+  
+  if (!searchData.recordings || searchData.recordings.length === 0) {
+    console.log(`No MusicBrainz recording found for ISRC ${isrc}`);
+    return null;
+  }
 
-    const searchData: MusicBrainzResponse = await searchResponse.json();
-    
-    if (!searchData.recordings || searchData.recordings.length === 0) {
-      console.log(`No MusicBrainz recording found for ISRC ${isrc}`);
-      return {};
-    }
+  const recordingId = searchData.recordings[0].id;
+  
+  if (!recordingId) {
+    console.warn(`No recording ID found for ISRC ${isrc}`);
+    return null;
+  }
 
-    const recordingId = searchData.recordings[0].id;
-    
-    if (!recordingId) {
-      console.warn(`No recording ID found for ISRC ${isrc}`);
-      return {};
-    }
+  // Step 2: Fetch recording with work relations to find the Work ID
+  const detailUrl = `${MUSICBRAINZ_API}/recording/${recordingId}?fmt=json&inc=work-rels`;
+  
+  const detailResponse = await providerLimiters.musicbrainz.fetch(detailUrl, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      "Accept": "application/json",
+    },
+  });
+
+  if (!detailResponse.ok) {
+    throw new Error(`MusicBrainz detail error for recording ${recordingId}: ${detailResponse.status}`);
+  }
 
-    // Step 2: Fetch recording with work relations to find the Work ID
-    const detailUrl = `${MUSICBRAINZ_API}/recording/${recordingId}?fmt=json&inc=work-rels`;
+  const recording: MusicBrainzRecording = await detailResponse.json();
+  const metadata: EnrichedMetadata = {};
+
+  // Find the Work (composition) from the recording
+  const workRelation = recording.relations?.find(r => r.type === "performance");
+  const workId = workRelation?.work?.id;
+  
+  if (workId) {
+    // Step 3: Fetch Work details to get composers/writers
+    const workUrl = `${MUSICBRAINZ_API}/work/${workId}?fmt=json&inc=artist-rels`;
     
-    const detailResponse = await fetch(detailUrl, {
+    const workResponse = await providerLimiters.musicbrainz.fetch(workUrl, {
       headers: {
         "User-Agent": USER_AGENT,
         "Accept": "application/json",
       },
     });
 
-    if (!detailResponse.ok) {
-      console.warn(`MusicBrainz detail error for recording ${recordingId}: ${detailResponse.status}`);
-      return {};
-    }
-
-    const recording: MusicBrainzRecording = await detailResponse.json();
-    const metadata: EnrichedMetadata = {};
-
-    // Find the Work (composition) from the recording
-    const workRelation = recording.relations?.find(r => r.type === "performance");
-    const workId = workRelation?.work?.id;
-    
-    if (workId) {
-      // Step 3: Fetch Work details to get composers/writers
-      // Rate limit: Wait 1 second before fetching work
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const workUrl = `${MUSICBRAINZ_API}/work/${workId}?fmt=json&inc=artist-rels`;
+    if (workResponse.ok) {
+      const work: any = await workResponse.json();
       
-      const workResponse = await fetch(workUrl, {
-        headers: {
-          "User-Agent": USER_AGENT,
-          "Accept": "application/json",
-        },
-      });
-
-      if (workResponse.ok) {
-        const work: any = await workResponse.json();
-        
-        // Extract songwriters from Work artist relations
-        if (work.relations) {
-          const writerRelations = work.relations.filter(
-            (r: any) => r.type === "composer" || r.type === "writer" || r.type === "lyricist"
-          );
-          if (writerRelations.length > 0) {
-            const writers = writerRelations
-              .map((r: any) => r.artist?.name)
-              .filter(Boolean);
-            if (writers.length > 0) {
-              metadata.songwriter = writers.join(", ");
-            }
+      // Extract songwriters from Work artist relations
+      if (work.relations) {
+        const writerRelations = work.relations.filter(
+          (r: any) => r.type === "composer" || r.type === "writer" || r.type === "lyricist"
+        );
+        if (writerRelations.length > 0) {
+          const writers = writerRelations
+            .map((r: any) => r.artist?.name)
+            .filter(Boolean);
+          if (writers.length > 0) {
+            metadata.songwriter = writers.join(", ");
           }
         }
-      } else {
-        console.warn(`MusicBrainz work error for work ${workId}: ${workResponse.status}`);
       }
+    } else {
+      throw new Error(`MusicBrainz work error for work ${workId}: ${workResponse.status}`);
     }
+  }
 
-    if (metadata.publisher || metadata.songwriter) {
-      console.log(`Found metadata for ISRC ${isrc}: Publisher=${metadata.publisher || 'none'}, Songwriter=${metadata.songwriter || 'none'}`);
-    }
-
-    metadata.enrichmentTier = "isrc";
-    return metadata;
-  } catch (error) {
-    console.error(`Error fetching metadata from MusicBrainz for ISRC ${isrc}:`, error);
-    return {};
+  if (metadata.publisher || metadata.songwriter) {
+    console.log(`Found metadata for ISRC ${isrc}: Publisher=${metadata.publisher || 'none'}, Songwriter=${metadata.songwriter || 'none'}`);
   }
+
+  metadata.enrichmentTier = "isrc";
+  return metadata;
 }
 
 export async function searchRecordingByName(
@@ -168,14 +170,12 @@ export async function searchRecordingByName(
   }
 
   try {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
     const query = `recording:"${trackName}" AND artist:"${artistName}"`;
     const searchUrl = `${MUSICBRAINZ_API}/recording?query=${encodeURIComponent(query)}&fmt=json&limit=5`;
     
     console.log(`MusicBrainz name search: ${trackName} by ${artistName}`);
 
-    const searchResponse = await fetch(searchUrl, {
+    const searchResponse = await providerLimiters.musicbrainz.fetch(searchUrl, {
       headers: {
         "User-Agent": USER_AGENT,
         "Accept": "application/json",
@@ -211,11 +211,9 @@ export async function searchRecordingByName(
       return {};
     }
 
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
     const detailUrl = `${MUSICBRAINZ_API}/recording/${recordingId}?fmt=json&inc=work-rels`;
     
-    const detailResponse = await fetch(detailUrl, {
+    const detailResponse = await providerLimiters.musicbrainz.fetch(detailUrl, {
       headers: {
         "User-Agent": USER_AGENT,
         "Accept": "application/json",
@@ -238,11 +236,9 @@ export async function searchRecordingByName(
     const workId = workRelation?.work?.id;
     
     if (workId) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
       const workUrl = `${MUSICBRAINZ_API}/work/${workId}?fmt=json&inc=artist-rels`;
       
-      const workResponse = await fetch(workUrl, {
+      const workResponse = await providerLimiters.musicbrainz.fetch(workUrl, {
         headers: {
           "User-Agent": USER_AGENT,
           "Accept": "application/json",
@@ -282,11 +278,9 @@ export async function getArtistExternalLinks(artistId: string): Promise<ArtistEx
   }
 
   try {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
     const artistUrl = `${MUSICBRAINZ_API}/artist/${artistId}?fmt=json&inc=url-rels`;
     
-    const artistResponse = await fetch(artistUrl, {
+    const artistResponse = await providerLimiters.musicbrainz.fetch(artistUrl, {
       headers: {
         "User-Agent": USER_AGENT,
         "Accept": "application/json",
@@ -341,12 +335,10 @@ export async function searchArtistByName(artistName: string): Promise<{ id: stri
   }
 
   try {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
     const queryClause = `artist:"${artistName}"`;
     const searchUrl = `${MUSICBRAINZ_API}/artist?query=${encodeURIComponent(queryClause)}&fmt=json&limit=1`;
     
-    const searchResponse = await fetch(searchUrl, {
+    const searchResponse = await providerLimiters.musicbrainz.fetch(searchUrl, {
       headers: {
         "User-Agent": USER_AGENT,
         "Accept": "application/json",
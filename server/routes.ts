@@ -6,7 +6,7 @@ import { eq, sql } from "drizzle-orm";
 import { getUncachableSpotifyClient, searchTrackByNameAndArtist, getAuthUrl, exchangeCodeForToken, isAuthenticated } from "./spotify";
 import { searchByISRC, searchRecordingByName, searchArtistByName, getArtistExternalLinks } from "./musicbrainz";
 import { generateAIInsights } from "./ai-insights";
-import { playlists, playlistSnapshots, type InsertPlaylistSnapshot, type PlaylistSnapshot, insertTagSchema, insertTrackedPlaylistSchema } from "@shared/schema";
+import { playlists, playlistSnapshots, type InsertPlaylistSnapshot, type PlaylistSnapshot, insertTagSchema, insertTrackedPlaylistSchema, insertOutreachActivitySchema, insertDealSchema, dealStageEnum, contactStageEnum, insertAlertRuleSchema, insertFunnelTierRuleSchema, insertScoringProfileSchema, insertLabelOverrideSchema, insertFieldPrecedenceRuleSchema, jobStatusEnum, jobTypeEnum, jobEventLevelEnum, type EnrichmentJobStatus } from "@shared/schema";
 import { scrapeSpotifyPlaylist, scrapeTrackCredits, scrapeTrackCreditsWithTimeout } from "./scraper";
 import { fetchEditorialTracksViaNetwork } from "./scrapers/spotifyEditorialNetwork";
 import { harvestVirtualizedRows } from "./scrapers/spotifyEditorialDom";
@@ -72,6 +72,45 @@ function decodeHTMLEntities(text: string): string {
   return decoded;
 }
 
+// Parses outreach filter query params shared by the contact and global feeds
+function parseOutreachFilters(query: Record<string, any>) {
+  const { type, outcome, trackId, from, to } = query;
+  const fromDate = from ? new Date(from as string) : undefined;
+  const toDate = to ? new Date(to as string) : undefined;
+  
+  return {
+    activityType: type && type !== "all" ? (type as string) : undefined,
+    outcome: outcome && outcome !== "all" ? (outcome as string) : undefined,
+    relatedTrackId: trackId as string | undefined,
+    from: fromDate && !isNaN(fromDate.getTime()) ? fromDate : undefined,
+    to: toDate && !isNaN(toDate.getTime()) ? toDate : undefined,
+  };
+}
+
+// Checks an alert rule's scopeValue against its scope: a stage name for 'stage', an existing tag for 'tag'
+async function validateAlertRuleScope(scope: string | undefined, scopeValue: string | null | undefined): Promise<string | null> {
+  if (!scope || scope === "all") return null;
+  if (!scopeValue) return `A ${scope} must be selected for this scope`;
+  
+  if (scope === "stage" && !(contactStageEnum.enumValues as readonly string[]).includes(scopeValue)) {
+    return `Invalid stage: must be one of ${contactStageEnum.enumValues.join(", ")}`;
+  }
+  if (scope === "tag") {
+    const tags = await storage.getAllTags();
+    if (!tags.some(tag => tag.id === scopeValue)) return "Tag not found";
+  }
+  return null;
+}
+
+// Normalizes an outreach payload from JSON (performedAt arrives as a string)
+function normalizeOutreachBody(body: any) {
+  const { performedAt, ...rest } = body || {};
+  return {
+    ...rest,
+    ...(performedAt ? { performedAt: new Date(performedAt) } : {}),
+  };
+}
+
 // Helper function to fetch Spotify playlist metadata
 async function fetchSpotifyPlaylistMetadata(playlistId: string): Promise<{
   name: string;
@@ -130,6 +169,11 @@ async function fetchSpotifyPlaylistMetadata(playlistId: string): Promise<{
 import { registerFetchHandler, type PlaylistFetchOptions } from "./services/playlistFetchService";
 import { fetchPlaylistsCore } from "./services/playlistFetchCore";
 import { PlaylistValidationError } from "./services/playlistFetchErrors";
+import { attachPlaylistTenure } from "./services/playlistPositions";
+import { getTrackPlaylistAppearances, getContactPlaylistAppearances } from "./services/playlistAppearances";
+import { runPlaylistDiscovery, isPlaylistDiscoveryRunning } from "./services/playlistDiscovery";
+import { recordTrackProvenance, getTrackProvenanceSummary, attributeFields, type FieldAttribution } from "./services/fieldProvenance";
+import { writeTrackMetadata } from "./services/trackFieldWrites";
 
 // Shared fetch handler logic (called by both HTTP endpoint and auto-trigger)
 // Delegates to core implementation - no HTTP overhead
@@ -559,7 +603,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else {
           tracks = await storage.getTracksByWeek(week!, filterOptions);
         }
-        res.json(tracks);
+        res.json(await attachPlaylistTenure(tracks));
         return;
       }
 
@@ -580,7 +624,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ]);
 
       res.json({
-        tracks: paginatedTracks,
+        tracks: await attachPlaylistTenure(paginatedTracks),
         total: totalTracks,
         limit,
         offset,
@@ -655,15 +699,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/contacts/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const updates = { ...req.body };
+      
+      const existing = await storage.getContactById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      
+      // A hand-picked stage is locked so the weekly funnel tier run doesn't overwrite it
+      const stageChanged = updates.stage !== undefined && updates.stage !== existing.stage;
+      if (stageChanged && updates.stageLocked === undefined) {
+        updates.stageLocked = 1;
+      }
       
       await storage.updateContact(id, updates);
-      const contact = await storage.getContactById(id);
       
-      if (!contact) {
-        return res.status(404).json({ error: "Contact not found" });
+      if (stageChanged) {
+        await storage.createContactStageHistory({
+          contactId: id,
+          previousStage: existing.stage,
+          newStage: updates.stage,
+          reason: "Manual stage change",
+        });
       }
       
+      const contact = await storage.getContactById(id);
       res.json(contact);
     } catch (error) {
       console.error("Error updating contact:", error);
@@ -690,43 +750,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contacts/batch-recalculate-scores", async (req, res) => {
+  app.get("/api/contacts/:id/score-history", async (req, res) => {
     try {
-      const { updateContactScore } = await import("./scoring/contactScoring");
+      const limit = req.query.limit ? Math.max(1, Math.min(parseInt(req.query.limit as string, 10) || 20, 100)) : 20;
+      const { diffScoreBreakdowns } = await import("./scoring/contactScoring");
       
-      const allContacts = await storage.getContacts({});
+      // Fetch one extra row so the oldest returned entry can still be diffed
+      const history = await storage.getContactScoreHistory(req.params.id, limit + 1);
       
-      console.log(`🔄 Starting batch score recalculation for ${allContacts.length} contacts...`);
-      
-      let successCount = 0;
-      let errorCount = 0;
-      const errors: Array<{ contactId: string; error: string }> = [];
-      
-      for (const contact of allContacts) {
+      const entries = history.slice(0, limit).map((entry, idx) => {
+        const previous = history[idx + 1];
+        let rawScore: number | null = null;
         try {
-          await updateContactScore(contact.id);
-          successCount++;
-          if (successCount % 10 === 0) {
-            console.log(`  ✓ Processed ${successCount}/${allContacts.length} contacts`);
-          }
-        } catch (error: any) {
-          errorCount++;
-          errors.push({
-            contactId: contact.id,
-            error: error.message || 'Unknown error'
-          });
-          console.error(`  ✗ Failed to update score for contact ${contact.id}:`, error.message);
+          rawScore = JSON.parse(entry.scoreData).rawScore ?? null;
+        } catch {
+          rawScore = null;
         }
-      }
+        
+        return {
+          id: entry.id,
+          finalScore: entry.finalScore,
+          rawScore,
+          confidence: entry.confidence,
+          scoringProfileId: entry.scoringProfileId,
+          calculatedAt: entry.calculatedAt,
+          previousScore: previous ? previous.finalScore : null,
+          changes: previous ? diffScoreBreakdowns(previous.scoreData, entry.scoreData) : [],
+        };
+      });
       
-      console.log(`✅ Batch score recalculation complete: ${successCount} succeeded, ${errorCount} failed`);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching score history:", error);
+      res.status(500).json({ error: "Failed to fetch score history" });
+    }
+  });
+
+  app.post("/api/contacts/batch-recalculate-scores", async (req, res) => {
+    try {
+      const { batchUpdateContactScores } = await import("./scoring/contactScoring");
+      
+      const result = await batchUpdateContactScores();
       
       res.json({
         success: true,
-        totalContacts: allContacts.length,
-        successCount,
-        errorCount,
-        errors: errors.slice(0, 10)
+        ...result,
+        errors: result.errors.slice(0, 10)
       });
     } catch (error) {
       console.error("Error in batch score recalculation:", error);
@@ -808,6 +877,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/contacts/:id/appearances", async (req, res) => {
+    try {
+      const contact = await storage.getContactById(req.params.id);
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+
+      res.json(await getContactPlaylistAppearances(contact.id));
+    } catch (error) {
+      console.error("Error fetching contact playlist appearances:", error);
+      res.status(500).json({ error: "Failed to fetch playlist appearances" });
+    }
+  });
+
   // Commentary endpoint for contact scoring
   app.get("/api/contacts/:id/commentary", async (req, res) => {
     try {
@@ -851,6 +934,775 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/contacts/:id/outreach", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const activities = await storage.getOutreachActivities({
+        ...parseOutreachFilters(req.query),
+        contactId: id,
+      });
+      res.json(activities);
+    } catch (error) {
+      console.error("Error fetching contact outreach:", error);
+      res.status(500).json({ error: "Failed to fetch outreach activities" });
+    }
+  });
+
+  app.post("/api/contacts/:id/outreach", async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      const contact = await storage.getContactById(id);
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      
+      const parsed = insertOutreachActivitySchema.safeParse({
+        ...normalizeOutreachBody(req.body),
+        contactId: id,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid outreach activity", details: parsed.error.flatten() });
+      }
+      
+      const activity = await storage.createOutreachActivity(parsed.data);
+      res.json(activity);
+    } catch (error) {
+      console.error("Error logging outreach activity:", error);
+      res.status(500).json({ error: "Failed to log outreach activity" });
+    }
+  });
+
+  app.patch("/api/contacts/:id/outreach/:activityId", async (req, res) => {
+    try {
+      const { id, activityId } = req.params;
+      
+      const existing = await storage.getOutreachActivityById(activityId);
+      if (!existing || existing.contactId !== id) {
+        return res.status(404).json({ error: "Outreach activity not found" });
+      }
+      
+      const parsed = insertOutreachActivitySchema
+        .omit({ contactId: true })
+        .partial()
+        .safeParse(normalizeOutreachBody(req.body));
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid outreach activity", details: parsed.error.flatten() });
+      }
+      
+      const activity = await storage.updateOutreachActivity(activityId, parsed.data);
+      res.json(activity);
+    } catch (error) {
+      console.error("Error updating outreach activity:", error);
+      res.status(500).json({ error: "Failed to update outreach activity" });
+    }
+  });
+
+  app.delete("/api/contacts/:id/outreach/:activityId", async (req, res) => {
+    try {
+      const { id, activityId } = req.params;
+      
+      const existing = await storage.getOutreachActivityById(activityId);
+      if (!existing || existing.contactId !== id) {
+        return res.status(404).json({ error: "Outreach activity not found" });
+      }
+      
+      await storage.deleteOutreachActivity(activityId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting outreach activity:", error);
+      res.status(500).json({ error: "Failed to delete outreach activity" });
+    }
+  });
+
+  // Global outreach feed across all contacts
+  app.get("/api/outreach", async (req, res) => {
+    try {
+      const parsedLimit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+      const parsedOffset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+      
+      if (isNaN(parsedLimit) || parsedLimit <= 0) {
+        return res.status(400).json({ error: "Invalid limit parameter: must be a positive integer" });
+      }
+      if (isNaN(parsedOffset) || parsedOffset < 0) {
+        return res.status(400).json({ error: "Invalid offset parameter: must be a non-negative integer" });
+      }
+      
+      const filters = parseOutreachFilters(req.query);
+      
+      const [activities, total, outcomes] = await Promise.all([
+        storage.getOutreachActivities({ ...filters, limit: parsedLimit, offset: parsedOffset }),
+        storage.getOutreachActivitiesCount(filters),
+        storage.getOutreachOutcomes(),
+      ]);
+      
+      res.json({
+        activities,
+        total,
+        outcomes,
+        limit: parsedLimit,
+        offset: parsedOffset,
+        hasMore: (parsedOffset + parsedLimit) < total,
+      });
+    } catch (error) {
+      console.error("Error fetching outreach feed:", error);
+      res.status(500).json({ error: "Failed to fetch outreach feed" });
+    }
+  });
+
+  app.get("/api/contacts/:id/alerts", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status } = req.query;
+      const alerts = await storage.getContactAlerts({
+        contactId: id,
+        status: status && status !== "all" ? (status as string) : undefined,
+      });
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching contact alerts:", error);
+      res.status(500).json({ error: "Failed to fetch contact alerts" });
+    }
+  });
+
+  // Manual alerts (reminders set by an A&R rather than fired by the alert engine)
+  app.post("/api/contacts/:id/alerts", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { message } = req.body;
+      
+      if (!message || typeof message !== "string" || !message.trim()) {
+        return res.status(400).json({ error: "Alert message is required" });
+      }
+      
+      const contact = await storage.getContactById(id);
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      
+      const alert = await storage.createContactAlert({
+        contactId: id,
+        alertType: "manual",
+        message: message.trim(),
+      });
+      res.json(alert);
+    } catch (error) {
+      console.error("Error creating contact alert:", error);
+      res.status(500).json({ error: "Failed to create contact alert" });
+    }
+  });
+
+  app.post("/api/alerts/:id/resolve", async (req, res) => {
+    try {
+      const alert = await storage.updateContactAlertStatus(req.params.id, "resolved");
+      
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      
+      res.json(alert);
+    } catch (error) {
+      console.error("Error resolving alert:", error);
+      res.status(500).json({ error: "Failed to resolve alert" });
+    }
+  });
+
+  app.post("/api/alerts/:id/dismiss", async (req, res) => {
+    try {
+      const alert = await storage.updateContactAlertStatus(req.params.id, "dismissed");
+      
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      
+      res.json(alert);
+    } catch (error) {
+      console.error("Error dismissing alert:", error);
+      res.status(500).json({ error: "Failed to dismiss alert" });
+    }
+  });
+
+  // Funnel tier rules used by the weekly autoAssignFunnelTiers run
+  app.get("/api/funnel-tier-rules", async (req, res) => {
+    try {
+      const rules = await storage.getFunnelTierRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching funnel tier rules:", error);
+      res.status(500).json({ error: "Failed to fetch funnel tier rules" });
+    }
+  });
+
+  app.post("/api/funnel-tier-rules", async (req, res) => {
+    try {
+      const parsed = insertFunnelTierRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid funnel tier rule", details: parsed.error.flatten() });
+      }
+      if (parsed.data.minStreams == null && parsed.data.minWowPct == null) {
+        return res.status(400).json({ error: "A rule needs a stream or WoW growth threshold" });
+      }
+      
+      const rule = await storage.createFunnelTierRule(parsed.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating funnel tier rule:", error);
+      res.status(500).json({ error: "Failed to create funnel tier rule" });
+    }
+  });
+
+  app.patch("/api/funnel-tier-rules/:id", async (req, res) => {
+    try {
+      const parsed = insertFunnelTierRuleSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid funnel tier rule", details: parsed.error.flatten() });
+      }
+      
+      const rule = await storage.updateFunnelTierRule(req.params.id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ error: "Funnel tier rule not found" });
+      }
+      
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating funnel tier rule:", error);
+      res.status(500).json({ error: "Failed to update funnel tier rule" });
+    }
+  });
+
+  app.delete("/api/funnel-tier-rules/:id", async (req, res) => {
+    try {
+      await storage.deleteFunnelTierRule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting funnel tier rule:", error);
+      res.status(500).json({ error: "Failed to delete funnel tier rule" });
+    }
+  });
+
+  // Scoring weight profiles (category caps and signal points for contact scoring)
+  app.get("/api/scoring-profiles", async (req, res) => {
+    try {
+      const { ensureDefaultScoringProfile } = await import("./scoring/contactScoring");
+      await ensureDefaultScoringProfile();
+      
+      const profiles = await storage.getScoringProfiles();
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error fetching scoring profiles:", error);
+      res.status(500).json({ error: "Failed to fetch scoring profiles" });
+    }
+  });
+
+  app.post("/api/scoring-profiles", async (req, res) => {
+    try {
+      const parsed = insertScoringProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid scoring profile", details: parsed.error.flatten() });
+      }
+      
+      const profile = await storage.createScoringProfile(parsed.data);
+      res.json(profile);
+    } catch (error) {
+      console.error("Error creating scoring profile:", error);
+      res.status(500).json({ error: "Failed to create scoring profile" });
+    }
+  });
+
+  app.patch("/api/scoring-profiles/:id", async (req, res) => {
+    try {
+      const parsed = insertScoringProfileSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid scoring profile", details: parsed.error.flatten() });
+      }
+      
+      const profile = await storage.updateScoringProfile(req.params.id, parsed.data);
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+      
+      // Edits to the active profile only apply to scores calculated from now on
+      if (profile.isActive === 1) {
+        const { invalidateScoringWeightsCache } = await import("./scoring/contactScoring");
+        invalidateScoringWeightsCache();
+      }
+      
+      res.json(profile);
+    } catch (error) {
+      console.error("Error updating scoring profile:", error);
+      res.status(500).json({ error: "Failed to update scoring profile" });
+    }
+  });
+
+  app.delete("/api/scoring-profiles/:id", async (req, res) => {
+    try {
+      const profile = await storage.getScoringProfileById(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+      if (profile.isActive === 1) {
+        return res.status(400).json({ error: "Cannot delete the active scoring profile" });
+      }
+      
+      await storage.deleteScoringProfile(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting scoring profile:", error);
+      res.status(500).json({ error: "Failed to delete scoring profile" });
+    }
+  });
+
+  app.post("/api/scoring-profiles/:id/preview", async (req, res) => {
+    try {
+      const profile = await storage.getScoringProfileById(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+      
+      const { previewScoringWeights, parseScoringWeights } = await import("./scoring/contactScoring");
+      const preview = await previewScoringWeights(parseScoringWeights(profile.weights));
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing scoring profile:", error);
+      res.status(500).json({ error: "Failed to preview scoring profile" });
+    }
+  });
+
+  app.post("/api/scoring-profiles/:id/activate", async (req, res) => {
+    try {
+      const existing = await storage.getScoringProfileById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+      
+      const profile = await storage.activateScoringProfile(req.params.id);
+      
+      const { invalidateScoringWeightsCache, batchUpdateContactScores } = await import("./scoring/contactScoring");
+      invalidateScoringWeightsCache();
+      
+      // Rescoring every contact takes a while; it runs after the response
+      setImmediate(() => {
+        batchUpdateContactScores()
+          .then(result => console.log(`Rescored ${result.successCount}/${result.totalContacts} contacts after activating scoring profile ${req.params.id}`))
+          .catch(error => console.error("Error rescoring contacts after profile activation:", error));
+      });
+      
+      res.status(202).json({ profile, rescoring: true });
+    } catch (error) {
+      console.error("Error activating scoring profile:", error);
+      res.status(500).json({ error: "Failed to activate scoring profile" });
+    }
+  });
+
+  // Label registry (DB overrides layered over labelClassification.json)
+  app.get("/api/labels", async (req, res) => {
+    try {
+      const { getLabelRegistry } = await import("./scoring/labelRegistry");
+      const entries = await getLabelRegistry();
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching label registry:", error);
+      res.status(500).json({ error: "Failed to fetch label registry" });
+    }
+  });
+
+  app.put("/api/labels/overrides", async (req, res) => {
+    try {
+      const parsed = insertLabelOverrideSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid label override", details: parsed.error.flatten() });
+      }
+      
+      const { normalizeLabel } = await import("./scoring/labelClassifier");
+      const { invalidateLabelOverrides, getContactIdsForLabel } = await import("./scoring/labelRegistry");
+      const { batchUpdateContactScores } = await import("./scoring/contactScoring");
+      
+      const override = await storage.upsertLabelOverride({
+        ...parsed.data,
+        parentCompany: parsed.data.parentCompany?.trim() || null,
+        normalizedLabel: normalizeLabel(parsed.data.label),
+      });
+      invalidateLabelOverrides();
+      
+      // Rescore every contact with a track on this label
+      const contactIds = await getContactIdsForLabel(override.label);
+      const result = await batchUpdateContactScores(contactIds);
+      
+      res.json({ override, rescoredContacts: result.successCount, errorCount: result.errorCount });
+    } catch (error) {
+      console.error("Error saving label override:", error);
+      res.status(500).json({ error: "Failed to save label override" });
+    }
+  });
+
+  app.delete("/api/labels/overrides/:id", async (req, res) => {
+    try {
+      const override = await storage.getLabelOverrideById(req.params.id);
+      if (!override) {
+        return res.status(404).json({ error: "Label override not found" });
+      }
+      
+      const { invalidateLabelOverrides, getContactIdsForLabel } = await import("./scoring/labelRegistry");
+      const { batchUpdateContactScores } = await import("./scoring/contactScoring");
+      
+      await storage.deleteLabelOverride(req.params.id);
+      invalidateLabelOverrides();
+      
+      const contactIds = await getContactIdsForLabel(override.label);
+      const result = await batchUpdateContactScores(contactIds);
+      
+      res.json({ success: true, rescoredContacts: result.successCount, errorCount: result.errorCount });
+    } catch (error) {
+      console.error("Error deleting label override:", error);
+      res.status(500).json({ error: "Failed to delete label override" });
+    }
+  });
+
+  app.get("/api/field-precedence", async (req, res) => {
+    try {
+      const { DEFAULT_FIELD_PRECEDENCE } = await import("./enrichment/fieldPrecedence");
+      const rules = await storage.getFieldPrecedenceRules();
+      
+      res.json(Object.keys(DEFAULT_FIELD_PRECEDENCE).map(field => {
+        const rule = rules.find(r => r.field === field);
+        return {
+          field,
+          sources: rule ? rule.sources : DEFAULT_FIELD_PRECEDENCE[field],
+          defaultSources: DEFAULT_FIELD_PRECEDENCE[field],
+          isCustom: !!rule,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching field precedence:", error);
+      res.status(500).json({ error: "Failed to fetch field precedence" });
+    }
+  });
+
+  app.put("/api/field-precedence/:field", async (req, res) => {
+    try {
+      const { DEFAULT_FIELD_PRECEDENCE } = await import("./enrichment/fieldPrecedence");
+      if (!Object.prototype.hasOwnProperty.call(DEFAULT_FIELD_PRECEDENCE, req.params.field)) {
+        return res.status(404).json({ error: "Field not governed by precedence policy" });
+      }
+      
+      const parsed = insertFieldPrecedenceRuleSchema.safeParse({ field: req.params.field, sources: req.body.sources });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid precedence rule", details: parsed.error.flatten() });
+      }
+      
+      const rule = await storage.upsertFieldPrecedenceRule({
+        ...parsed.data,
+        sources: Array.from(new Set(parsed.data.sources)),
+      });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error saving field precedence:", error);
+      res.status(500).json({ error: "Failed to save field precedence" });
+    }
+  });
+
+  app.delete("/api/field-precedence/:field", async (req, res) => {
+    try {
+      const { DEFAULT_FIELD_PRECEDENCE } = await import("./enrichment/fieldPrecedence");
+      if (!Object.prototype.hasOwnProperty.call(DEFAULT_FIELD_PRECEDENCE, req.params.field)) {
+        return res.status(404).json({ error: "Field not governed by precedence policy" });
+      }
+      
+      await storage.deleteFieldPrecedenceRule(req.params.field);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting field precedence:", error);
+      res.status(500).json({ error: "Failed to reset field precedence" });
+    }
+  });
+
+  app.get("/api/field-conflicts", async (req, res) => {
+    try {
+      const status = req.query.status === 'resolved' ? 'resolved' : 'pending';
+      const conflicts = await storage.getFieldConflicts(status);
+      res.json(conflicts);
+    } catch (error) {
+      console.error("Error fetching field conflicts:", error);
+      res.status(500).json({ error: "Failed to fetch field conflicts" });
+    }
+  });
+
+  app.post("/api/field-conflicts/:id/resolve", async (req, res) => {
+    try {
+      const { choice } = req.body;
+      if (choice !== 'applied' && choice !== 'overridden') {
+        return res.status(400).json({ error: "choice must be 'applied' or 'overridden'" });
+      }
+      
+      const conflict = await storage.getFieldConflictById(req.params.id);
+      if (!conflict) {
+        return res.status(404).json({ error: "Field conflict not found" });
+      }
+      if (conflict.status !== 'pending') {
+        return res.status(409).json({ error: "Field conflict already resolved" });
+      }
+      
+      const track = await storage.getTrackById(conflict.trackId);
+      if (!track) {
+        return res.status(404).json({ error: "Track not found" });
+      }
+      
+      const value = choice === 'applied' ? conflict.appliedValue : conflict.overriddenValue;
+      const update = { [conflict.field]: value };
+      const updated = { ...track, ...update };
+      
+      const { calculateUnsignedScore } = await import("./scoring");
+      const { classifyPublishers, parsePublisherNames, toPublisherStatus } = await import("./scoring/publisherClassifier");
+      const { batchUpdateContactScores } = await import("./scoring/contactScoring");
+      
+      // Fields derived from the chosen value are re-derived the way the enrichment phases do
+      const derived: Record<string, unknown> = {
+        unsignedScore: calculateUnsignedScore({
+          playlistName: updated.playlistName,
+          label: updated.label ?? null,
+          publisher: updated.publisher ?? undefined,
+          writer: updated.songwriter ?? undefined,
+          artistName: updated.artistName,
+          songwriter: updated.songwriter ?? undefined,
+          wowGrowthPct: undefined,
+        }),
+      };
+      if (conflict.field === 'publisher') {
+        const writerNames = updated.songwriter
+          ? updated.songwriter.split(',').map(name => name.trim()).filter(Boolean)
+          : [];
+        derived.publisherStatus = toPublisherStatus(classifyPublishers([
+          ...parsePublisherNames(updated.publisher),
+          ...parsePublisherNames(updated.administrators),
+        ], writerNames).tier);
+      }
+      
+      // The reviewer's pick is recorded as a manual write so later enrichment can't overwrite it
+      await storage.updateTrackMetadata(conflict.trackId, { ...update, ...derived });
+      await recordTrackProvenance(conflict.trackId, update, 'manual');
+      
+      const resolved = await storage.resolveFieldConflict(conflict.id, value);
+      
+      // Rescore every contact credited on the track
+      const contactIds = await storage.getContactIdsByTrackId(conflict.trackId);
+      await batchUpdateContactScores(contactIds);
+      
+      await storage.logActivity({
+        trackId: conflict.trackId,
+        eventType: "field_conflict_resolved",
+        eventDescription: `${conflict.field} set to "${value ?? ''}" (${choice === 'applied' ? conflict.appliedSource : conflict.overriddenSource ?? 'no recorded source'})`,
+        metadata: JSON.stringify({ conflictId: conflict.id, field: conflict.field, choice, value }),
+      });
+      
+      res.json(resolved);
+    } catch (error) {
+      console.error("Error resolving field conflict:", error);
+      res.status(500).json({ error: "Failed to resolve field conflict" });
+    }
+  });
+
+  // User-configurable alert rules
+  app.get("/api/alert-rules", async (req, res) => {
+    try {
+      const rules = await storage.getAlertRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching alert rules:", error);
+      res.status(500).json({ error: "Failed to fetch alert rules" });
+    }
+  });
+
+  app.post("/api/alert-rules", async (req, res) => {
+    try {
+      const parsed = insertAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid alert rule", details: parsed.error.flatten() });
+      }
+      const scopeError = await validateAlertRuleScope(parsed.data.scope, parsed.data.scopeValue);
+      if (scopeError) {
+        return res.status(400).json({ error: scopeError });
+      }
+      
+      const rule = await storage.createAlertRule(parsed.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating alert rule:", error);
+      res.status(500).json({ error: "Failed to create alert rule" });
+    }
+  });
+
+  app.patch("/api/alert-rules/:id", async (req, res) => {
+    try {
+      const parsed = insertAlertRuleSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid alert rule", details: parsed.error.flatten() });
+      }
+      
+      if (parsed.data.scope !== undefined || parsed.data.scopeValue !== undefined) {
+        const existing = await storage.getAlertRuleById(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Alert rule not found" });
+        }
+        
+        // Validate the scope the rule ends up with, not just the fields being patched
+        const scope = parsed.data.scope ?? existing.scope;
+        const scopeValue = parsed.data.scopeValue !== undefined ? parsed.data.scopeValue : existing.scopeValue;
+        const scopeError = await validateAlertRuleScope(scope, scopeValue);
+        if (scopeError) {
+          return res.status(400).json({ error: scopeError });
+        }
+      }
+      
+      const rule = await storage.updateAlertRule(req.params.id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating alert rule:", error);
+      res.status(500).json({ error: "Failed to update alert rule" });
+    }
+  });
+
+  app.delete("/api/alert-rules/:id", async (req, res) => {
+    try {
+      await storage.deleteAlertRule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting alert rule:", error);
+      res.status(500).json({ error: "Failed to delete alert rule" });
+    }
+  });
+
+  app.post("/api/alert-rules/evaluate", async (req, res) => {
+    try {
+      const { contactAlertService } = await import("./services/contactAlerts");
+      const result = await contactAlertService.evaluateRules({ trigger: "manual run" });
+      res.json(result);
+    } catch (error) {
+      console.error("Error evaluating alert rules:", error);
+      res.status(500).json({ error: "Failed to evaluate alert rules" });
+    }
+  });
+
+  app.get("/api/contacts/:id/stage-history", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const history = await storage.getContactStageHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching contact stage history:", error);
+      res.status(500).json({ error: "Failed to fetch stage history" });
+    }
+  });
+
+  // Deals pipeline (offer sent -> negotiating -> signed / passed)
+  app.get("/api/deals", async (req, res) => {
+    try {
+      const { contactId, stage } = req.query;
+      const dealsList = await storage.getDeals({
+        contactId: contactId as string | undefined,
+        stage: stage && stage !== "all" ? (stage as string) : undefined,
+      });
+      res.json(dealsList);
+    } catch (error) {
+      console.error("Error fetching deals:", error);
+      res.status(500).json({ error: "Failed to fetch deals" });
+    }
+  });
+
+  app.get("/api/deals/:id", async (req, res) => {
+    try {
+      const deal = await storage.getDealById(req.params.id);
+      
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      
+      res.json(deal);
+    } catch (error) {
+      console.error("Error fetching deal:", error);
+      res.status(500).json({ error: "Failed to fetch deal" });
+    }
+  });
+
+  app.post("/api/deals", async (req, res) => {
+    try {
+      const parsed = insertDealSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid deal", details: parsed.error.flatten() });
+      }
+      
+      const contact = await storage.getContactById(parsed.data.contactId);
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      
+      const deal = await storage.createDeal(parsed.data);
+      res.json(deal);
+    } catch (error) {
+      console.error("Error creating deal:", error);
+      res.status(500).json({ error: "Failed to create deal" });
+    }
+  });
+
+  app.patch("/api/deals/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      const parsed = insertDealSchema
+        .omit({ contactId: true, stage: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid deal", details: parsed.error.flatten() });
+      }
+      
+      const deal = await storage.updateDeal(id, parsed.data);
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      
+      res.json(deal);
+    } catch (error) {
+      console.error("Error updating deal:", error);
+      res.status(500).json({ error: "Failed to update deal" });
+    }
+  });
+
+  // Moves a deal between board columns and records the contact stage change
+  app.post("/api/deals/:id/move", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { stage, reason } = req.body;
+      
+      if (!stage || !(dealStageEnum.enumValues as readonly string[]).includes(stage)) {
+        return res.status(400).json({ error: `Invalid stage: must be one of ${dealStageEnum.enumValues.join(", ")}` });
+      }
+      
+      const deal = await storage.moveDealStage(id, stage, { reason });
+      if (!deal) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      
+      res.json(deal);
+    } catch (error) {
+      console.error("Error moving deal:", error);
+      res.status(500).json({ error: "Failed to move deal" });
+    }
+  });
+
+  app.delete("/api/deals/:id", async (req, res) => {
+    try {
+      await storage.deleteDeal(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting deal:", error);
+      res.status(500).json({ error: "Failed to delete deal" });
+    }
+  });
+
   app.get("/api/playlists", async (req, res) => {
     try {
       const playlistNames = await storage.getAllPlaylists();
@@ -1033,6 +1885,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         contactNotes,
       });
 
+      await recordTrackProvenance(req.params.trackId, { instagram, twitter, tiktok, email, contactNotes }, 'manual');
+
       // Log activity
       await storage.logActivity({
         trackId: req.params.trackId,
@@ -1058,6 +1912,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/tracks/:trackId/positions", async (req, res) => {
+    try {
+      const track = await storage.getTrackById(req.params.trackId);
+      if (!track) {
+        return res.status(404).json({ error: "Track not found" });
+      }
+
+      const entries = await storage.getTrackPositionHistory(track.playlistId, track.spotifyUrl);
+      const positions = entries
+        .map(entry => entry.position)
+        .filter((position): position is number => position !== null);
+      const latest = entries[entries.length - 1];
+
+      res.json({
+        playlistName: track.playlistName,
+        currentPosition: latest && latest.position === null ? null : track.position,
+        bestPosition: positions.length > 0 ? Math.min(...positions) : track.position,
+        removedAt: latest && latest.position === null ? latest.observedAt : null,
+        entries,
+      });
+    } catch (error) {
+      console.error("Error fetching track positions:", error);
+      res.status(500).json({ error: "Failed to fetch position history" });
+    }
+  });
+
+  app.get("/api/tracks/:trackId/appearances", async (req, res) => {
+    try {
+      const track = await storage.getTrackById(req.params.trackId);
+      if (!track) {
+        return res.status(404).json({ error: "Track not found" });
+      }
+
+      res.json(await getTrackPlaylistAppearances(track.spotifyUrl));
+    } catch (error) {
+      console.error("Error fetching track playlist appearances:", error);
+      res.status(500).json({ error: "Failed to fetch playlist appearances" });
+    }
+  });
+
+  app.get("/api/tracks/:trackId/provenance", async (req, res) => {
+    try {
+      const track = await storage.getTrackById(req.params.trackId);
+      if (!track) {
+        return res.status(404).json({ error: "Track not found" });
+      }
+
+      res.json({ fields: await getTrackProvenanceSummary(track.id) });
+    } catch (error) {
+      console.error("Error fetching track provenance:", error);
+      res.status(500).json({ error: "Failed to fetch field provenance" });
+    }
+  });
+
   app.get("/api/playlists/:playlistId/activity", async (req, res) => {
     try {
       const activity = await storage.getPlaylistActivity(req.params.playlistId);
@@ -1117,9 +2025,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Track not found" });
       }
 
+      const [trackWithTenure] = await attachPlaylistTenure([track]);
+
       // Return comprehensive track object
       res.json({
-        ...track,
+        ...trackWithTenure,
         tags,
         activity,
         artists,
@@ -1136,6 +2046,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(playlists);
   });
 
+  // Playlist discovery review queue
+  app.get("/api/playlist-discovery/candidates", async (req, res) => {
+    try {
+      const status = (req.query.status as string) || 'pending';
+      if (!['pending', 'tracked', 'dismissed'].includes(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+
+      const candidates = await storage.getPlaylistCandidates(status as 'pending' | 'tracked' | 'dismissed');
+      res.json({ candidates, isRunning: isPlaylistDiscoveryRunning() });
+    } catch (error) {
+      console.error("Error fetching playlist candidates:", error);
+      res.status(500).json({ error: "Failed to fetch playlist candidates" });
+    }
+  });
+
+  // Start a discovery pass in the background; completion is broadcast as playlist_discovery_complete
+  app.post("/api/playlist-discovery/run", async (req, res) => {
+    if (isPlaylistDiscoveryRunning()) {
+      return res.status(409).json({ error: "Playlist discovery is already running" });
+    }
+
+    const minScore = req.body?.minScore !== undefined ? Number(req.body.minScore) : undefined;
+    const contactLimit = req.body?.contactLimit !== undefined ? Number(req.body.contactLimit) : undefined;
+
+    if (minScore !== undefined && (isNaN(minScore) || minScore < 0 || minScore > 10)) {
+      return res.status(400).json({ error: "Invalid minScore: must be a number between 0 and 10" });
+    }
+    if (contactLimit !== undefined && (!Number.isInteger(contactLimit) || contactLimit <= 0)) {
+      return res.status(400).json({ error: "Invalid contactLimit: must be a positive integer" });
+    }
+
+    setImmediate(() => {
+      runPlaylistDiscovery({ minScore, contactLimit }).catch((error) => {
+        console.error("Error running playlist discovery:", error);
+      });
+    });
+
+    res.status(202).json({ started: true });
+  });
+
+  app.patch("/api/playlist-discovery/candidates/:id", async (req, res) => {
+    try {
+      const { status } = req.body;
+      if (!['pending', 'dismissed'].includes(status)) {
+        return res.status(400).json({ error: "Status must be 'pending' or 'dismissed'" });
+      }
+
+      const candidate = await storage.updatePlaylistCandidateStatus(req.params.id, status);
+      if (!candidate) {
+        return res.status(404).json({ error: "Playlist candidate not found" });
+      }
+
+      res.json(candidate);
+    } catch (error) {
+      console.error("Error updating playlist candidate:", error);
+      res.status(500).json({ error: "Failed to update playlist candidate" });
+    }
+  });
+
   // Get quality metrics for a specific playlist
   app.get("/api/playlists/:id/quality", async (req, res) => {
     try {
@@ -1274,6 +2244,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lastFetchCount: 0,
       });
 
+      // Take the playlist out of the discovery review queue if it was suggested there
+      await storage.markPlaylistCandidateTracked(playlist.playlistId);
+
       // Log activity history for playlist addition
       try {
         await storage.logActivity({
@@ -1670,13 +2643,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Update tracks with enriched data
       for (const enrichedTrack of phase2Result.enrichedTracks) {
-        await storage.updateTrackMetadata(enrichedTrack.trackId, {
+        const track = unenrichedTracks.find(t => t.id === enrichedTrack.trackId);
+        if (!track) continue;
+
+        const creditsUpdate = {
           songwriter: enrichedTrack.songwriter ?? undefined,
           producer: enrichedTrack.producer ?? undefined,
           publisher: enrichedTrack.publisher ?? undefined,
           label: enrichedTrack.label ?? undefined,
           spotifyStreams: enrichedTrack.spotifyStreams ?? undefined,
-        });
+        };
+        await writeTrackMetadata(track, creditsUpdate, 'credits_scrape');
 
         // Log per-track activity
         const creditsFound = [];
@@ -1780,6 +2757,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const track of unenrichedTracks) {
         let enrichmentTier = "none";
         let trackMetadata: any = {};
+        const attribution: FieldAttribution = {};
 
         // TIER 1: Direct ISRC → MusicBrainz
         if (track.isrc) {
@@ -1794,6 +2772,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 enrichedAt: new Date(),
                 enrichmentTier: "isrc",
               };
+              attributeFields(attribution, trackMetadata, 'musicbrainz', ['publisher', 'songwriter']);
               enrichedCount++;
               enrichmentTier = "isrc";
             } else {
@@ -1816,6 +2795,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               trackMetadata.isrc = spotifyData.isrc;
               trackMetadata.label = spotifyData.label || track.label || undefined;
               trackMetadata.spotifyUrl = spotifyData.spotifyUrl || track.spotifyUrl;
+              // Only what Spotify returned, not the existing values kept as fallbacks
+              attributeFields(attribution, { ...spotifyData }, 'spotify_api', ['isrc', 'label', 'spotifyUrl']);
 
               console.log(`✅ Found ISRC via Spotify: ${spotifyData.isrc}`);
               spotifyEnrichedCount++;
@@ -1829,6 +2810,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 trackMetadata.songwriter = metadata.songwriter;
                 trackMetadata.enrichedAt = new Date();
                 trackMetadata.enrichmentTier = "spotify-isrc";
+                attributeFields(attribution, trackMetadata, 'musicbrainz', ['publisher', 'songwriter']);
                 enrichedCount++;
                 enrichmentTier = "spotify-isrc";
               }
@@ -1850,6 +2832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               trackMetadata.songwriter = metadata.songwriter;
               trackMetadata.enrichedAt = new Date();
               trackMetadata.enrichmentTier = "name-based";
+              attributeFields(attribution, trackMetadata, 'musicbrainz', ['songwriter']);
               enrichedCount++;
               nameBasedCount++;
               enrichmentTier = "name-based";
@@ -1871,7 +2854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         if (Object.keys(trackMetadata).length > 0) {
-          await storage.updateTrackMetadata(track.id, trackMetadata);
+          await writeTrackMetadata(track, trackMetadata, attribution);
           // Schedule debounced metrics update
           scheduleMetricsUpdate({ source: "metadata_enrichment" });
         }
@@ -2057,7 +3040,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
               if (chartmetricData) {
                 // Update track with Chartmetric data
-                await storage.updateTrackChartmetric(track.id, {
+                await writeTrackMetadata(track, {
                   chartmetricId: chartmetricData.chartmetricId,
                   chartmetricStatus: "success",
                   spotifyStreams: chartmetricData.spotifyStreams,
@@ -2070,7 +3053,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   composerName: chartmetricData.composerName,
                   moods: chartmetricData.moods,
                   activities: chartmetricData.activities
-                });
+                }, 'chartmetric');
 
                 // Log main enrichment activity
                 const streamsText = chartmetricData.spotifyStreams !== null && chartmetricData.spotifyStreams !== undefined
@@ -2268,7 +3251,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               console.log(`✅ Captured Spotify streams: ${creditsResult.spotifyStreams.toLocaleString()}`);
             }
 
-            await storage.updateTrackMetadata(track.id, updateData);
+            await writeTrackMetadata(track, updateData, 'credits_scrape');
 
             console.log(`✅ Enriched: ${track.trackName} - ${songwriters.length} songwriters, ${labels.length} labels, ${publishers.length} publishers`);
             enrichedCount++;
@@ -2322,6 +3305,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tierResults: any[] = [];
       let enrichmentTier = track.enrichmentTier || "none";
       const updates: any = {};
+      const attribution: FieldAttribution = {};
 
       // TIER 0: ISRC Recovery & Spotify Metadata (if missing, try to fetch from Spotify)
       if (!track.isrc || !track.label || !track.albumArt) {
@@ -2346,6 +3330,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               updates.albumArt = spotifyData.albumArt;
             }
 
+            attributeFields(attribution, updates, 'spotify_api', ['isrc', 'label', 'albumArt']);
+
             // Store additional Spotify metadata
             if (spotifyData.popularity !== undefined) {
               console.log(`📊 Spotify popularity: ${spotifyData.popularity}/100`);
@@ -2400,6 +3386,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log(`✅ Captured Spotify streams from page: ${creditsResult.spotifyStreams.toLocaleString()}`);
           }
 
+          attributeFields(attribution, updates, 'credits_scrape', ['songwriter', 'publisher', 'label', 'spotifyStreams']);
+
           enrichmentTier = "spotify-credits";
 
           tierResults.push({
@@ -2443,6 +3431,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             updates.iswc = mlcEnrichment.iswc;
             updates.administrators = mlcEnrichment.administrators;
             updates.mlcSongCode = mlcEnrichment.mlcSongCode;
+            attributeFields(attribution, updates, 'mlc', ['publisherStatus', 'collectionShare', 'ipiNumber', 'iswc', 'administrators', 'mlcSongCode']);
 
             tierResults.push({
               tier: "mlc",
@@ -2599,6 +3588,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             updates.composerName = chartmetricData.composerName;
             updates.moods = chartmetricData.moods;
             updates.activities = chartmetricData.activities;
+            attributeFields(attribution, updates, 'chartmetric', [
+              'chartmetricId', 'spotifyStreams', 'streamingVelocity', 'trackStage', 'playlistFollowers',
+              'youtubeViews', 'songwriterIds', 'composerName', 'moods', 'activities',
+            ]);
 
             const streamsText = chartmetricData.spotifyStreams !== null && chartmetricData.spotifyStreams !== undefined
               ? `${chartmetricData.spotifyStreams.toLocaleString()} streams` 
@@ -2668,7 +3661,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (successfulTiers > 0 || Object.keys(updates).length > 0) {
         updates.enrichedAt = new Date();
         updates.enrichmentTier = enrichmentTier;
-        await storage.updateTrackMetadata(track.id, updates);
+        await writeTrackMetadata(track, updates, attribution);
 
         // Log enrichment activity
         const enrichmentSummary = tierResults
@@ -2864,13 +3857,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
             if (result.success && result.credits) {
               // Update track with enriched data
-              await storage.updateTrackMetadata(result.trackId, {
+              const creditsUpdate = {
                 songwriter: result.credits.songwriters?.join(', ') || undefined,
                 publisher: result.credits.publishers?.join(', ') || undefined,
                 label: result.credits.labels?.join(', ') || undefined,
                 enrichedAt: new Date(),
                 enrichmentStatus: 'completed'
-              });
+              };
+              await writeTrackMetadata(track, creditsUpdate, 'credits_scrape');
 
               enrichedCount++;
               console.log(`✅ Enriched: ${track.trackName}`);
@@ -3053,6 +4047,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               isComplete: 0,
               lastFetchCount: 0,
             });
+            await storage.markPlaylistCandidateTracked(newPlaylist.playlistId);
 
             // Broadcast playlist addition to frontend
             broadcast('playlist_updated', {
@@ -3492,7 +4487,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Enrichment job endpoints
   app.post("/api/enrichment-jobs", async (req, res) => {
     try {
-      const { trackIds, playlistId } = req.body;
+      const { trackIds, playlistId, priority, bypassCache } = req.body;
 
       if (!trackIds || !Array.isArray(trackIds) || trackIds.length === 0) {
         return res.status(400).json({ 
@@ -3512,6 +4507,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (priority !== undefined && !Number.isInteger(priority)) {
+        return res.status(400).json({ error: "priority must be an integer" });
+      }
+
+      if (bypassCache !== undefined && typeof bypassCache !== 'boolean') {
+        return res.status(400).json({ error: "bypassCache must be a boolean" });
+      }
+
       // Validate playlist exists if playlistId is provided
       if (playlistId) {
         const playlist = await storage.getPlaylistById(playlistId);
@@ -3524,27 +4527,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const { JOB_PRIORITY } = await import("./enrichment/jobQueue");
       const jobQueue = getJobQueue();
 
       if (!jobQueue) {
         return res.status(503).json({ error: "Job queue not initialized" });
       }
 
+      const { getEnrichmentPhases, estimateQuotaUsage } = await import("./enrichment/phases");
+      const { findQuotaShortfalls } = await import("./services/rateLimiters");
+      const shortfalls = await findQuotaShortfalls(
+        estimateQuotaUsage(getEnrichmentPhases(), await storage.getTracksByIds(trackIds))
+      );
+      if (shortfalls.length > 0) {
+        return res.status(429).json({
+          error: `Job would exceed today's quota for ${shortfalls.map(s => s.label).join(", ")}`,
+          shortfalls,
+        });
+      }
+
+      // User-triggered jobs run ahead of scheduled batches
       const job = await jobQueue.enqueue({
         type: 'enrich-tracks',
         playlistId: playlistId || null,
         trackIds,
+        priority: priority ?? JOB_PRIORITY.USER,
+        bypassCache: bypassCache ? 1 : 0,
         status: 'queued',
         progress: 0,
         totalTracks: trackIds.length,
         enrichedTracks: 0,
         errorCount: 0,
-        logs: [],
       });
 
       res.json({ 
         jobId: job.id,
         status: job.status,
+        priority: job.priority,
         trackCount: trackIds.length,
         message: `Job created for ${trackIds.length} tracks`
       });
@@ -3556,7 +4575,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/enrich-phase", async (req, res) => {
     try {
-      const { trackId, phase } = req.body;
+      const { trackId, phase, priority, bypassCache } = req.body;
 
       if (!trackId || typeof trackId !== 'string') {
         return res.status(400).json({ 
@@ -3564,9 +4583,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      if (!phase || typeof phase !== 'number' || !Number.isInteger(phase) || phase < 1 || phase > 6) {
+      if (phase === undefined || phase === null || (typeof phase !== 'string' && typeof phase !== 'number')) {
+        return res.status(400).json({ 
+          error: "phase is required and must be a phase name or legacy phase number" 
+        });
+      }
+
+      if (priority !== undefined && !Number.isInteger(priority)) {
+        return res.status(400).json({ error: "priority must be an integer" });
+      }
+
+      if (bypassCache !== undefined && typeof bypassCache !== 'boolean') {
+        return res.status(400).json({ error: "bypassCache must be a boolean" });
+      }
+
+      const { resolveEnrichmentPhase, getEnrichmentPhases } = await import("./enrichment/phases");
+      const enrichmentPhase = resolveEnrichmentPhase(phase);
+      if (!enrichmentPhase) {
         return res.status(400).json({ 
-          error: "phase is required and must be an integer between 1 and 6" 
+          error: `Unknown phase: ${phase}`,
+          validPhases: getEnrichmentPhases().map(p => p.name),
         });
       }
 
@@ -3580,40 +4616,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const { JOB_PRIORITY } = await import("./enrichment/jobQueue");
       const jobQueue = getJobQueue();
 
       if (!jobQueue) {
         return res.status(503).json({ error: "Job queue not initialized" });
       }
 
-      const phaseNames = {
-        1: 'Spotify API',
-        2: 'Credits Scraping',
-        3: 'MusicBrainz',
-        4: 'Chartmetric',
-        5: 'MLC',
-        6: 'YouTube'
-      };
+      const { estimateQuotaUsage } = await import("./enrichment/phases");
+      const { findQuotaShortfalls } = await import("./services/rateLimiters");
+      const shortfalls = await findQuotaShortfalls(estimateQuotaUsage([enrichmentPhase], [track]));
+      if (shortfalls.length > 0) {
+        return res.status(429).json({
+          error: `${enrichmentPhase.label} would exceed today's ${shortfalls[0].label} quota`,
+          shortfalls,
+        });
+      }
 
       const job = await jobQueue.enqueue({
         type: 'enrich-tracks',
         playlistId: null,
         trackIds: [trackId],
-        targetPhase: phase,
+        targetPhase: enrichmentPhase.name,
+        priority: priority ?? JOB_PRIORITY.USER,
+        bypassCache: bypassCache ? 1 : 0,
         status: 'queued',
         progress: 0,
         totalTracks: 1,
         enrichedTracks: 0,
         errorCount: 0,
-        logs: [],
       });
 
       res.json({ 
         jobId: job.id,
         status: job.status,
-        phase,
-        phaseName: phaseNames[phase as keyof typeof phaseNames],
-        message: `Phase ${phase} (${phaseNames[phase as keyof typeof phaseNames]}) enrichment job created`
+        phase: enrichmentPhase.name,
+        phaseName: enrichmentPhase.label,
+        message: `${enrichmentPhase.label} enrichment job created`
       });
     } catch (error: any) {
       console.error("Error creating phase enrichment job:", error);
@@ -3621,9 +4660,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/enrichment-jobs", async (req, res) => {
+    try {
+      const { type, playlistId } = req.query as Record<string, string | undefined>;
+      const statuses = typeof req.query.status === 'string' && req.query.status
+        ? req.query.status.split(',')
+        : [];
+
+      const invalidStatus = statuses.find(s => !(jobStatusEnum.enumValues as readonly string[]).includes(s));
+      if (invalidStatus) {
+        return res.status(400).json({ error: `Invalid status: must be one of ${jobStatusEnum.enumValues.join(", ")}` });
+      }
+      if (type && !(jobTypeEnum.enumValues as readonly string[]).includes(type)) {
+        return res.status(400).json({ error: `Invalid type: must be one of ${jobTypeEnum.enumValues.join(", ")}` });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: "from and to must be valid dates" });
+      }
+
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string, 10) || 50, 200) : 50;
+      const offset = req.query.offset ? parseInt(req.query.offset as string, 10) || 0 : 0;
+
+      const jobs = await storage.getEnrichmentJobs({
+        status: statuses as EnrichmentJobStatus[],
+        type: type as (typeof jobTypeEnum.enumValues)[number] | undefined,
+        playlistId,
+        from,
+        to,
+        limit,
+        offset,
+      });
+
+      res.json(jobs.map(job => ({
+        ...job,
+        phaseTimings: job.phaseTimings ? JSON.parse(job.phaseTimings) : {},
+      })));
+    } catch (error) {
+      console.error("Error fetching enrichment jobs:", error);
+      res.status(500).json({ error: "Failed to fetch enrichment jobs" });
+    }
+  });
+
   app.get("/api/enrichment-jobs/:jobId", async (req, res) => {
     try {
       const { jobId } = req.params;
+      const level = req.query.level as string | undefined;
+      if (level && !(jobEventLevelEnum.enumValues as readonly string[]).includes(level)) {
+        return res.status(400).json({ error: `Invalid level: must be one of ${jobEventLevelEnum.enumValues.join(", ")}` });
+      }
+
+      // Events page newest first; offset walks back through older ones
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string, 10) || 100, 500) : 100;
+      const offset = req.query.offset ? parseInt(req.query.offset as string, 10) || 0 : 0;
 
       const { getJobQueue } = await import("./enrichment/jobQueueManager");
       const jobQueue = getJobQueue();
@@ -3638,15 +4729,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Job not found" });
       }
 
+      const { events, total } = await storage.getEnrichmentJobEvents(jobId, {
+        level: level as (typeof jobEventLevelEnum.enumValues)[number] | undefined,
+        limit,
+        offset,
+      });
+
       res.json({
         id: job.id,
         type: job.type,
         status: job.status,
+        playlistId: job.playlistId,
+        targetPhase: job.targetPhase,
+        priority: job.priority,
+        completedPhases: job.completedPhases,
+        phaseTimings: job.phaseTimings ? JSON.parse(job.phaseTimings) : {},
+        retryOfJobId: job.retryOfJobId,
         progress: job.progress,
         totalTracks: job.totalTracks,
         enrichedTracks: job.enrichedTracks,
         errorCount: job.errorCount,
-        logs: job.logs || [],
+        events: {
+          items: events.map(event => ({
+            ...event,
+            metadata: event.metadata ? JSON.parse(event.metadata) : null,
+          })),
+          total,
+          limit,
+          offset,
+        },
         createdAt: job.createdAt,
         updatedAt: job.updatedAt,
         completedAt: job.completedAt,
@@ -3657,6 +4768,333 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/enrichment-jobs/:jobId/failures", async (req, res) => {
+    try {
+      const failures = await storage.getEnrichmentJobFailures(req.params.jobId);
+      res.json(failures);
+    } catch (error) {
+      console.error("Error fetching enrichment job failures:", error);
+      res.status(500).json({ error: "Failed to fetch enrichment job failures" });
+    }
+  });
+
+  app.post("/api/enrichment-jobs/:jobId/retry-failed", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const jobQueue = getJobQueue();
+
+      if (!jobQueue) {
+        return res.status(503).json({ error: "Job queue not initialized" });
+      }
+
+      const existing = await jobQueue.getJob(jobId);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (!['completed', 'failed', 'cancelled'].includes(existing.status)) {
+        return res.status(409).json({
+          error: "Failed tracks can be retried once the job has finished",
+          status: existing.status,
+        });
+      }
+
+      const job = await jobQueue.retryFailedTracks(jobId);
+      if (!job) {
+        return res.status(400).json({ error: "Job has no failed tracks to retry" });
+      }
+
+      res.json({
+        jobId: job.id,
+        status: job.status,
+        trackCount: job.trackIds.length,
+        message: `Retry job created for ${job.trackIds.length} failed tracks`,
+      });
+    } catch (error: any) {
+      console.error("Error retrying failed tracks:", error);
+      res.status(500).json({ error: error.message || "Failed to retry failed tracks" });
+    }
+  });
+
+  // Job controls. A running job is only flagged here; the worker stops it at its next
+  // checkpoint (between phases or tracks), so `stopped` is false until then
+  app.post("/api/enrichment-jobs/:jobId/cancel", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const jobQueue = getJobQueue();
+
+      if (!jobQueue) {
+        return res.status(503).json({ error: "Job queue not initialized" });
+      }
+
+      const existing = await jobQueue.getJob(jobId);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const job = await jobQueue.cancelJob(jobId);
+      if (!job) {
+        return res.status(409).json({
+          error: "Only queued, paused or running jobs can be cancelled",
+          status: existing.status,
+        });
+      }
+
+      broadcast('enrichment_job_cancelled', {
+        type: 'enrichment_job_cancelled',
+        jobId: job.id,
+        status: job.status,
+        stopped: existing.status !== 'running',
+      });
+
+      res.json({ jobId: job.id, status: job.status, priority: job.priority });
+    } catch (error: any) {
+      console.error("Error cancelling enrichment job:", error);
+      res.status(500).json({ error: error.message || "Failed to cancel enrichment job" });
+    }
+  });
+
+  app.post("/api/enrichment-jobs/:jobId/pause", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const jobQueue = getJobQueue();
+
+      if (!jobQueue) {
+        return res.status(503).json({ error: "Job queue not initialized" });
+      }
+
+      const existing = await jobQueue.getJob(jobId);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const job = await jobQueue.pauseJob(jobId);
+      if (!job) {
+        return res.status(409).json({
+          error: "Only queued or running jobs can be paused",
+          status: existing.status,
+        });
+      }
+
+      broadcast('enrichment_job_paused', {
+        type: 'enrichment_job_paused',
+        jobId: job.id,
+        status: job.status,
+        stopped: existing.status !== 'running',
+      });
+
+      res.json({ jobId: job.id, status: job.status, priority: job.priority });
+    } catch (error: any) {
+      console.error("Error pausing enrichment job:", error);
+      res.status(500).json({ error: error.message || "Failed to pause enrichment job" });
+    }
+  });
+
+  app.post("/api/enrichment-jobs/:jobId/resume", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const jobQueue = getJobQueue();
+
+      if (!jobQueue) {
+        return res.status(503).json({ error: "Job queue not initialized" });
+      }
+
+      const existing = await jobQueue.getJob(jobId);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const job = await jobQueue.resumeJob(jobId);
+      if (!job) {
+        return res.status(409).json({
+          error: "Only paused jobs can be resumed",
+          status: existing.status,
+        });
+      }
+
+      broadcast('enrichment_job_resumed', {
+        type: 'enrichment_job_resumed',
+        jobId: job.id,
+        status: job.status,
+        stopped: existing.status !== 'running',
+      });
+
+      res.json({ jobId: job.id, status: job.status, priority: job.priority });
+    } catch (error: any) {
+      console.error("Error resuming enrichment job:", error);
+      res.status(500).json({ error: error.message || "Failed to resume enrichment job" });
+    }
+  });
+
+  app.patch("/api/enrichment-jobs/:jobId/priority", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const { priority } = req.body;
+
+      if (!Number.isInteger(priority)) {
+        return res.status(400).json({ error: "priority must be an integer" });
+      }
+
+      const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const jobQueue = getJobQueue();
+
+      if (!jobQueue) {
+        return res.status(503).json({ error: "Job queue not initialized" });
+      }
+
+      const existing = await jobQueue.getJob(jobId);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const job = await jobQueue.setJobPriority(jobId, priority);
+      if (!job) {
+        return res.status(409).json({
+          error: "Priority can only be changed on queued, running or paused jobs",
+          status: existing.status,
+        });
+      }
+
+      res.json({ jobId: job.id, status: job.status, priority: job.priority });
+    } catch (error: any) {
+      console.error("Error updating enrichment job priority:", error);
+      res.status(500).json({ error: error.message || "Failed to update enrichment job priority" });
+    }
+  });
+
+  // Tracks that exhausted their retries for a phase, newest failure first
+  app.get("/api/enrichment-dead-letters", async (req, res) => {
+    try {
+      const phase = typeof req.query.phase === 'string' && req.query.phase ? req.query.phase : undefined;
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string, 10) || 50, 200) : 50;
+      const offset = req.query.offset ? parseInt(req.query.offset as string, 10) || 0 : 0;
+
+      const { attempts, total } = await storage.getDeadLetteredTrackEnrichmentAttempts({ phase, limit, offset });
+      res.json({ items: attempts, total, limit, offset });
+    } catch (error) {
+      console.error("Error fetching dead-lettered tracks:", error);
+      res.status(500).json({ error: "Failed to fetch dead-lettered tracks" });
+    }
+  });
+
+  app.post("/api/enrichment-dead-letters/:id/requeue", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const { getJobQueue } = await import("./enrichment/jobQueueManager");
+      const jobQueue = getJobQueue();
+
+      if (!jobQueue) {
+        return res.status(503).json({ error: "Job queue not initialized" });
+      }
+
+      const existing = await storage.getTrackEnrichmentAttemptById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Dead-lettered track not found" });
+      }
+
+      const job = await jobQueue.requeueDeadLetter(id);
+      if (!job) {
+        return res.status(409).json({ error: "Track is not dead-lettered", status: existing.status });
+      }
+
+      res.json({
+        jobId: job.id,
+        status: job.status,
+        message: `Track requeued for ${existing.phase}`,
+      });
+    } catch (error: any) {
+      console.error("Error requeuing dead-lettered track:", error);
+      res.status(500).json({ error: error.message || "Failed to requeue track" });
+    }
+  });
+
+  // The source has nothing for this track: stop retrying until a phase run succeeds for it
+  app.post("/api/enrichment-dead-letters/:id/resolve-no-data", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const existing = await storage.getTrackEnrichmentAttemptById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Dead-lettered track not found" });
+      }
+      if (existing.status !== 'dead_letter') {
+        return res.status(409).json({ error: "Track is not dead-lettered", status: existing.status });
+      }
+
+      const attempt = await storage.updateTrackEnrichmentAttempt(id, { status: 'no_data', nextAttemptAt: null });
+      res.json(attempt);
+    } catch (error) {
+      console.error("Error resolving dead-lettered track:", error);
+      res.status(500).json({ error: "Failed to resolve track" });
+    }
+  });
+
+  // Today's usage and remaining daily budget per rate-limited provider
+  app.get("/api/api-quotas", async (req, res) => {
+    try {
+      const { getProviderQuotaStatuses } = await import("./services/rateLimiters");
+      res.json(await getProviderQuotaStatuses());
+    } catch (error) {
+      console.error("Error fetching API quotas:", error);
+      res.status(500).json({ error: "Failed to fetch API quotas" });
+    }
+  });
+
+  // Entry, negative-cache and hit counts per provider in the API response cache
+  app.get("/api/response-cache", async (req, res) => {
+    try {
+      const { CACHE_TTLS } = await import("./services/responseCache");
+      const stats = await storage.getApiResponseCacheStats();
+      res.json({
+        providers: (Object.keys(CACHE_TTLS) as Array<keyof typeof CACHE_TTLS>).map(provider => ({
+          provider,
+          hitTtlMs: CACHE_TTLS[provider].hitMs,
+          notFoundTtlMs: CACHE_TTLS[provider].notFoundMs,
+          entries: 0,
+          notFound: 0,
+          expired: 0,
+          hits: 0,
+          ...stats.find(s => s.provider === provider),
+        })),
+        bypassed: process.env.RESPONSE_CACHE_BYPASS === 'true',
+      });
+    } catch (error) {
+      console.error("Error fetching response cache stats:", error);
+      res.status(500).json({ error: "Failed to fetch response cache stats" });
+    }
+  });
+
+  // Purge cached responses: everything, one provider (?provider=mlc) or only expired entries (?expired=true)
+  app.delete("/api/response-cache", async (req, res) => {
+    try {
+      const { provider, expired } = req.query as Record<string, string | undefined>;
+      const { CACHE_TTLS } = await import("./services/responseCache");
+
+      if (provider && !(provider in CACHE_TTLS)) {
+        return res.status(400).json({
+          error: `Unknown provider: ${provider}`,
+          validProviders: Object.keys(CACHE_TTLS),
+        });
+      }
+
+      const purged = await storage.purgeApiResponseCache({ provider, expiredOnly: expired === 'true' });
+      console.log(`🧹 Purged ${purged} cached API responses${provider ? ` for ${provider}` : ''}`);
+      res.json({ purged });
+    } catch (error) {
+      console.error("Error purging response cache:", error);
+      res.status(500).json({ error: "Failed to purge response cache" });
+    }
+  });
+
   // Manual trigger for playlist update
   app.post("/api/jobs/run-playlist-update", async (req, res) => {
     try {
@@ -3745,6 +5183,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/jobs/run-funnel-tiers", async (req, res) => {
+    try {
+      console.log("🎯 Manual funnel tier assignment triggered...");
+      const { performanceTrackingService } = await import("./services/performanceTracking");
+      await performanceTrackingService.autoAssignFunnelTiers();
+      
+      res.json({
+        success: true,
+        message: "Funnel tiers reassigned from the current rules. Locked and deal-stage contacts were skipped.",
+      });
+    } catch (error: any) {
+      console.error("Error running funnel tier assignment:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to run funnel tier assignment" 
+      });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
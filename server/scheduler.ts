@@ -325,50 +325,32 @@ export async function initializeScheduler(storage: IStorage) {
     runPlaylistUpdateJob
   );
   
-  // Register failed enrichment retry job
+  // Register failed enrichment retry job (per-track backoff decides which tracks are due)
   registerJob(
     "Failed Enrichment Retry",
-    "0 2 * * *", // Every day at 2:00 AM
-    "Daily at 2:00 AM",
+    "0 * * * *", // Every hour
+    "Hourly",
     async () => {
       console.log("🔄 Starting failed enrichment retry job...");
       
       try {
-        const sevenDaysAgo = new Date();
-        sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-        
-        // Find tracks that need retry (failed or no_data, last attempt > 7 days ago)
-        const tracksNeedingRetry = await storage.getTracksNeedingRetry(sevenDaysAgo);
+        const { getJobQueue } = await import("./enrichment/jobQueueManager");
+        const jobQueue = getJobQueue();
         
-        if (tracksNeedingRetry.length === 0) {
-          console.log("✅ No tracks need retry");
+        if (!jobQueue) {
+          console.error("❌ Job queue not initialized");
           return;
         }
         
-        console.log(`📋 Found ${tracksNeedingRetry.length} tracks needing retry`);
-        
-        // Queue them for enrichment (limit to 100 per day to avoid overwhelming the system)
-        const tracksToRetry = tracksNeedingRetry.slice(0, 100);
-        const trackIds = tracksToRetry.map(t => t.id);
-        
-        // Import job queue
-        const { getJobQueue } = await import("./enrichment/jobQueueManager");
-        const jobQueue = getJobQueue();
+        const jobs = await jobQueue.enqueueDueRetries();
         
-        if (jobQueue) {
-          await jobQueue.enqueue({
-            type: 'enrich-tracks',
-            trackIds,
-            playlistId: null, // Mixed playlists
-          });
-          
-          // Update lastEnrichmentAttempt to prevent duplicate queuing if worker crashes
-          await storage.updateBatchLastEnrichmentAttempt(trackIds);
-          
-          console.log(`✅ Queued ${trackIds.length} tracks for retry enrichment`);
-        } else {
-          console.error("❌ Job queue not initialized");
+        if (jobs.length === 0) {
+          console.log("✅ No tracks due for retry");
+          return;
         }
+        
+        const trackCount = jobs.reduce((sum, job) => sum + job.trackIds.length, 0);
+        console.log(`✅ Queued ${trackCount} tracks for retry across ${jobs.length} phase jobs`);
       } catch (error) {
         console.error("❌ Failed enrichment retry error:", error);
         throw error;
@@ -376,6 +358,25 @@ export async function initializeScheduler(storage: IStorage) {
     }
   );
   
+  // Register MLC writer share backfill job (tracks matched to a work before shares were stored)
+  registerJob(
+    "MLC Writer Share Backfill",
+    "30 3 * * *", // Every day at 3:30 AM UTC
+    "Daily at 3:30 AM UTC",
+    async () => {
+      console.log("🔄 Starting MLC writer share backfill job...");
+      
+      try {
+        const { backfillMlcWriterShares } = await import("./enrichment/phases/mlc");
+        const result = await backfillMlcWriterShares(storage, 200);
+        console.log(`✅ Stored writer shares for ${result.updated}/${result.tracks} tracks`);
+      } catch (error) {
+        console.error("❌ MLC writer share backfill error:", error);
+        throw error;
+      }
+    }
+  );
+  
   // Register weekly performance snapshot job (Spotify + YouTube)
   registerJob(
     "Weekly Performance Snapshots",
@@ -437,6 +438,23 @@ export async function initializeScheduler(storage: IStorage) {
     }
   );
   
+  // Register weekly playlist discovery job (refreshes the discovery review queue)
+  registerJob(
+    "Playlist Discovery",
+    "0 6 * * 1", // Every Monday at 6:00 AM UTC
+    "Mondays at 6:00 AM UTC",
+    async () => {
+      const { runPlaylistDiscovery, isPlaylistDiscoveryRunning } = await import("./services/playlistDiscovery");
+
+      if (isPlaylistDiscoveryRunning()) {
+        console.log("⏭️  Playlist discovery already running, skipping scheduled run");
+        return;
+      }
+
+      await runPlaylistDiscovery();
+    }
+  );
+
   // Start the scheduler (will only actually start if ENABLE_AUTO_SCRAPE=true)
   startScheduler();
 }
@@ -1,4 +1,5 @@
 import OpenAI from "openai";
+import { providerLimiters } from "../services/rateLimiters";
 import type { ContactScoreResult } from './contactScoring';
 import type { ScoringCommentary, CategoryComment } from './scoringCommentary';
 
@@ -57,7 +58,7 @@ Guidelines:
 Respond ONLY with valid JSON, no markdown formatting.`;
 
   try {
-    const response = await openai.chat.completions.create({
+    const response = await providerLimiters.openai.schedule(() => openai.chat.completions.create({
       model: "gpt-4o-mini",
       messages: [
         {
@@ -71,7 +72,7 @@ Respond ONLY with valid JSON, no markdown formatting.`;
       ],
       temperature: 0.8,
       max_tokens: 800,
-    });
+    }), { units: (completion) => completion.usage?.total_tokens ?? 1 });
 
     const content = response.choices[0]?.message?.content || "{}";
     
@@ -1,14 +1,16 @@
 import { db } from "../db";
-import { playlistSnapshots, contacts, contactTracks, songwriterProfiles, trackedPlaylists } from "@shared/schema";
-import { eq, inArray, sql } from "drizzle-orm";
+import { playlistSnapshots, contacts, contactTracks, songwriterProfiles, trackedPlaylists, scoringProfiles, contactScoreHistory, mlcWriterShares, trackSongwriters, SCORING_MAX_TOTAL, type ScoringWeights } from "@shared/schema";
+import { desc, eq, inArray, sql } from "drizzle-orm";
 import { classifyLabel, classifyMultipleLabels } from "./labelClassifier";
+import { loadLabelOverrides } from "./labelRegistry";
+import { classifyPublishers, parsePublisherNames, type PublisherClassificationResult } from "./publisherClassifier";
 
 /**
  * CATEGORY-BASED SCORING SYSTEM
  * 
  * This scoring system uses 6 weighted categories (total max = 10 points):
  * 
- * 1. Publishing Status (4 pts max) - No publisher across all tracks
+ * 1. Publishing Status (4 pts max) - No publisher (4pts) > Self-Published (3pts) > Admin-only (2pts) > Full publishing deal (0pts)
  * 2. Release Pathway (3 pts max) - DIY (3pts) > Indie Distributor (2pts) > Indie Label (1pt) > Major/Unknown (0pts)
  * 3. Early Career Signals (2 pts max) - Fresh Finds presence
  * 4. Metadata Quality (1 pt max) - Average completeness (lower = better)
@@ -16,7 +18,8 @@ import { classifyLabel, classifyMultipleLabels } from "./labelClassifier";
  * 6. Profile Verification (0.5 pts max) - MusicBrainz presence
  * 
  * Each category is evaluated independently and contributes its own score.
- * Final score = sum of all category scores, rounded to integer.
+ * Final score = sum of all category scores, rounded to integer. A profile with custom category
+ * maxes is scaled back to the default total and capped at 10.
  * 
  * RELEASE PATHWAY TIERS (EXHAUSTIVE CLASSIFICATION):
  * - DIY Distribution (3pts): 100+ aggregators including DistroKid, TuneCore, CD Baby, Ditto, Amuse, etc.
@@ -26,12 +29,23 @@ import { classifyLabel, classifyMultipleLabels } from "./labelClassifier";
  * - Unknown (3pts): Defaults to DIY via pattern matching (artist vanity labels, generic imprints)
  * 
  * Uses intelligent fallback logic with artist name matching and vanity label pattern detection.
+ * 
+ * PUBLISHING STATUS:
+ * When MLC work data ties a writer share to this contact's songwriter (mlc_writer_shares), only the
+ * contact's own share is evaluated, so co-writing with a signed writer doesn't make the contact look signed.
+ * Tracks without a matched share fall back to the track-level publisher field.
+ * 
+ * SCORING PROFILES:
+ * The caps and signal points above are the built-in defaults (DEFAULT_SCORING_WEIGHTS). The active
+ * row in scoring_profiles overrides them: each signal awards its configured points and each
+ * category is capped at its configured max.
  */
 
 export interface TrackSignal {
   signal: string;
   weight: number;
   description: string;
+  ownershipChain?: string[]; // Release Pathway: label → ... → ultimate owner
 }
 
 export interface CategoryScore {
@@ -51,6 +65,128 @@ export interface ContactScoreResult {
   updatedAt: Date;
 }
 
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  categories: {
+    'Publishing Status': 4,
+    'Release Pathway': 3,
+    'Early Career Signals': 2,
+    'Metadata Quality': 1,
+    'Catalog Patterns': 0.5,
+    'Profile Verification': 0.5,
+  },
+  signals: {
+    NO_PUBLISHER: 4,
+    SELF_PUBLISHED: 3,
+    ADMIN_ONLY_PUBLISHER: 2,
+    DIY_DISTRIBUTION: 3,
+    INDEPENDENT_DISTRIBUTOR: 2,
+    MAJOR_DISTRIBUTION: 1,
+    MAJOR_LABEL: 0,
+    UNKNOWN_LABEL: 0,
+    FRESH_FINDS: 2,
+    COMPLETENESS_UNDER_25: 1,
+    COMPLETENESS_25_50: 0.7,
+    COMPLETENESS_50_75: 0.5,
+    COMPLETENESS_75_PLUS: 0,
+    UNSIGNED_DISTRIBUTION_PATTERN: 0.5,
+    MUSICBRAINZ_PRESENT: 0.5,
+  },
+};
+
+const DEFAULT_PROFILE_NAME = 'Default';
+
+const DEFAULT_CATEGORY_TOTAL = Object.values(DEFAULT_SCORING_WEIGHTS.categories).reduce((sum, max) => sum + max, 0);
+
+// How long a process trusts its cached profile before checking whether another process changed it
+export const SCORING_PROFILE_RECHECK_MS = 30_000;
+
+// Active profile, cached until a profile is activated or edited. Other processes (the enrichment
+// worker) can't see invalidateScoringWeightsCache, so the cache is re-validated against the active
+// row's id and updatedAt every SCORING_PROFILE_RECHECK_MS.
+let activeProfileCache: { id: string | null; version: string | null; weights: ScoringWeights; checkedAt: number } | null = null;
+
+function usesDefaultCategoryMaxes(weights: ScoringWeights): boolean {
+  return Object.keys(DEFAULT_SCORING_WEIGHTS.categories)
+    .every(category => categoryMax(weights, category) === DEFAULT_SCORING_WEIGHTS.categories[category]);
+}
+
+function categoryMax(weights: ScoringWeights, category: string): number {
+  return weights.categories[category] ?? DEFAULT_SCORING_WEIGHTS.categories[category] ?? 0;
+}
+
+// Points for a signal, capped at the category max
+function signalPoints(weights: ScoringWeights, signal: string, maxScore: number): number {
+  const points = weights.signals[signal] ?? DEFAULT_SCORING_WEIGHTS.signals[signal] ?? 0;
+  return Math.min(points, maxScore);
+}
+
+/**
+ * Seed the built-in weights as the active "Default" profile when no profiles exist
+ */
+export async function ensureDefaultScoringProfile(): Promise<void> {
+  const existing = await db.select({ id: scoringProfiles.id }).from(scoringProfiles).limit(1);
+  if (existing.length > 0) return;
+
+  await db.insert(scoringProfiles).values({
+    name: DEFAULT_PROFILE_NAME,
+    description: 'Built-in category caps and signal points',
+    weights: JSON.stringify(DEFAULT_SCORING_WEIGHTS),
+    isActive: 1,
+    activatedAt: new Date(),
+  });
+}
+
+export function parseScoringWeights(raw: string): ScoringWeights {
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      categories: { ...DEFAULT_SCORING_WEIGHTS.categories, ...(parsed.categories || {}) },
+      signals: { ...DEFAULT_SCORING_WEIGHTS.signals, ...(parsed.signals || {}) },
+    };
+  } catch {
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+}
+
+async function getActiveScoringProfile(): Promise<{ id: string | null; weights: ScoringWeights }> {
+  if (activeProfileCache && Date.now() - activeProfileCache.checkedAt < SCORING_PROFILE_RECHECK_MS) {
+    return activeProfileCache;
+  }
+
+  const [current] = await db
+    .select({ id: scoringProfiles.id, updatedAt: scoringProfiles.updatedAt })
+    .from(scoringProfiles)
+    .where(eq(scoringProfiles.isActive, 1))
+    .limit(1);
+  const version = current ? `${current.id}:${current.updatedAt.getTime()}` : null;
+
+  if (activeProfileCache && activeProfileCache.version === version) {
+    activeProfileCache.checkedAt = Date.now();
+    return activeProfileCache;
+  }
+
+  const [active] = current
+    ? await db
+      .select({ id: scoringProfiles.id, weights: scoringProfiles.weights })
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.id, current.id))
+      .limit(1)
+    : [];
+
+  activeProfileCache = active
+    ? { id: active.id, version, weights: parseScoringWeights(active.weights), checkedAt: Date.now() }
+    : { id: null, version: null, weights: DEFAULT_SCORING_WEIGHTS, checkedAt: Date.now() };
+  return activeProfileCache;
+}
+
+export async function getActiveScoringWeights(): Promise<ScoringWeights> {
+  return (await getActiveScoringProfile()).weights;
+}
+
+export function invalidateScoringWeightsCache(): void {
+  activeProfileCache = null;
+}
+
 // Calculate data completeness percentage for a track
 function calculateDataCompleteness(track: any): number {
   const fields = [
@@ -75,33 +211,125 @@ function isFreshFindsTrack(playlistName: string | null): boolean {
   return playlistName.toLowerCase().includes('fresh finds');
 }
 
+// A contact's MLC writer share on a track, or a co-writer's / writer-less publisher share
+interface WriterShareRow {
+  writerName: string | null;
+  publisherName: string | null;
+  administrators: string | null;
+  collectionShare: number | null;
+  isOwn: boolean;
+}
+
+// MLC share percentages are rounded, so anything this close to 100 counts as fully claimed
+const FULLY_CLAIMED_SHARE = 99.5;
+
+// Classify the publishers on one track, narrowed to the contact's own share when MLC ties a writer to them
+function classifyTrackPublishing(track: any, shares: WriterShareRow[] = []): { classification: PublisherClassificationResult; ownShare: boolean } {
+  const writerNames = track.songwriter
+    ? String(track.songwriter).split(',').map((name: string) => name.trim()).filter(Boolean)
+    : [];
+  
+  if (shares.some(share => share.isOwn)) {
+    const ownPublishers = shares.filter(share => share.isOwn && share.publisherName);
+    if (ownPublishers.length > 0) {
+      return {
+        classification: classifyPublishers(
+          ownPublishers.flatMap(share => [share.publisherName, ...parsePublisherNames(share.administrators)]),
+          writerNames
+        ),
+        ownShare: true,
+      };
+    }
+    
+    // Publisher shares MLC doesn't tie to a writer may still cover this contact, unless part of the work is unclaimed
+    const publisherShares = shares.filter(share => share.publisherName);
+    const unattributed = publisherShares.filter(share => !share.writerName);
+    const claimedShare = publisherShares.reduce((sum, share) => sum + (share.collectionShare ?? 0), 0);
+    const sharesKnown = publisherShares.every(share => share.collectionShare !== null);
+    
+    if (unattributed.length === 0 || (sharesKnown && claimedShare < FULLY_CLAIMED_SHARE)) {
+      return { classification: classifyPublishers([]), ownShare: true };
+    }
+    
+    // Only the writer-less shares can be this contact's; co-writers' publishers stay out of it
+    return {
+      classification: classifyPublishers(
+        unattributed.flatMap(share => [share.publisherName, ...parsePublisherNames(share.administrators)]),
+        writerNames
+      ),
+      ownShare: true,
+    };
+  }
+  
+  return {
+    classification: classifyPublishers([
+      ...parsePublisherNames(track.publisher),
+      ...parsePublisherNames(track.administrators),
+    ], writerNames),
+    ownShare: false,
+  };
+}
+
 // Category 1: Publishing Status (4 points max)
-function calculatePublishingStatusScore(tracks: any[]): CategoryScore {
+function calculatePublishingStatusScore(tracks: any[], weights: ScoringWeights, sharesByTrack: Map<string, WriterShareRow[]> = new Map()): CategoryScore {
   const category = 'Publishing Status';
-  const maxScore = 4;
+  const maxScore = categoryMax(weights, category);
   const signals: TrackSignal[] = [];
   
-  // Check if ALL tracks have no publisher
-  const tracksWithoutPublisher = tracks.filter(track => 
-    !track.publisher || track.publisher === '' || track.publisher === '[]'
-  );
+  const results = tracks.map(track => classifyTrackPublishing(track, sharesByTrack.get(track.id)));
   
-  if (tracksWithoutPublisher.length === tracks.length) {
+  // Check if the contact has no publisher on ANY track
+  if (results.every(result => result.classification.tier === 'none')) {
+    const score = signalPoints(weights, 'NO_PUBLISHER', maxScore);
     signals.push({
       signal: 'NO_PUBLISHER',
-      weight: maxScore,
-      description: 'No publisher metadata across all tracks'
+      weight: score,
+      description: results.some(result => result.ownShare)
+        ? "No publisher on this writer's share across all tracks"
+        : 'No publisher metadata across all tracks'
     });
-    return { category, score: maxScore, maxScore, signals };
+    return { category, score, maxScore, signals };
+  }
+  
+  // Admin-only and self-published deals leave the writer's share open
+  const classifications = results
+    .map(result => result.classification)
+    .filter(classification => classification.tier !== 'none');
+  
+  // Any full publishing deal means the writer's share is already controlled
+  if (classifications.some(c => c.tier === 'major' || c.tier === 'indie')) {
+    return { category, score: 0, maxScore, signals };
+  }
+  
+  const adminClassification = classifications.find(c => c.tier === 'admin');
+  if (adminClassification) {
+    const score = signalPoints(weights, 'ADMIN_ONLY_PUBLISHER', maxScore);
+    signals.push({
+      signal: 'ADMIN_ONLY_PUBLISHER',
+      weight: score,
+      description: adminClassification.reasoning
+    });
+    return { category, score, maxScore, signals };
+  }
+  
+  const selfClassification = classifications.find(c => c.tier === 'selfPublished');
+  if (selfClassification) {
+    const score = signalPoints(weights, 'SELF_PUBLISHED', maxScore);
+    signals.push({
+      signal: 'SELF_PUBLISHED',
+      weight: score,
+      description: selfClassification.reasoning
+    });
+    return { category, score, maxScore, signals };
   }
   
   return { category, score: 0, maxScore, signals };
 }
 
 // Category 2: Release Pathway (3 points max)
-function calculateReleasePathwayScore(tracks: any[], artistName?: string): CategoryScore {
+function calculateReleasePathwayScore(tracks: any[], weights: ScoringWeights, artistName?: string): CategoryScore {
   const category = 'Release Pathway';
-  const maxScore = 3;
+  const maxScore = categoryMax(weights, category);
   const signals: TrackSignal[] = [];
   
   if (tracks.length === 0) {
@@ -124,64 +352,64 @@ function calculateReleasePathwayScore(tracks: any[], artistName?: string): Categ
   };
   
   const signal = signalMap[classification.tier] || 'UNKNOWN_LABEL';
+  const score = signalPoints(weights, signal, maxScore);
   
   signals.push({
     signal,
-    weight: classification.score,
-    description: classification.reasoning
+    weight: score,
+    description: classification.reasoning,
+    ownershipChain: classification.ownershipChain
   });
   
-  return { category, score: classification.score, maxScore, signals };
+  return { category, score, maxScore, signals };
 }
 
 // Category 3: Early Career Signals (2 points max)
-function calculateEarlyCareerScore(tracks: any[]): CategoryScore {
+function calculateEarlyCareerScore(tracks: any[], weights: ScoringWeights): CategoryScore {
   const category = 'Early Career Signals';
-  const maxScore = 2;
+  const maxScore = categoryMax(weights, category);
   const signals: TrackSignal[] = [];
   
   // Check if ANY track appears on Fresh Finds
   const hasFreshFinds = tracks.some(track => isFreshFindsTrack(track.playlistName));
   
   if (hasFreshFinds) {
+    const score = signalPoints(weights, 'FRESH_FINDS', maxScore);
     signals.push({
       signal: 'FRESH_FINDS',
-      weight: maxScore,
+      weight: score,
       description: 'Appears on Fresh Finds playlist'
     });
-    return { category, score: maxScore, maxScore, signals };
+    return { category, score, maxScore, signals };
   }
   
   return { category, score: 0, maxScore, signals };
 }
 
 // Category 4: Metadata Quality (1 point max)
-function calculateMetadataQualityScore(tracks: any[]): CategoryScore {
+function calculateMetadataQualityScore(tracks: any[], weights: ScoringWeights): CategoryScore {
   const category = 'Metadata Quality';
-  const maxScore = 1;
+  const maxScore = categoryMax(weights, category);
   const signals: TrackSignal[] = [];
   
   // Calculate average completeness across all tracks
   const completenessPercentages = tracks.map(track => calculateDataCompleteness(track));
   const averageCompleteness = completenessPercentages.reduce((sum, pct) => sum + pct, 0) / completenessPercentages.length;
   
-  let score = 0;
   let signal = '';
   
   if (averageCompleteness < 25) {
-    score = 1;
     signal = 'COMPLETENESS_UNDER_25';
   } else if (averageCompleteness < 50) {
-    score = 0.7;
     signal = 'COMPLETENESS_25_50';
   } else if (averageCompleteness < 75) {
-    score = 0.5;
     signal = 'COMPLETENESS_50_75';
   } else {
-    score = 0;
     signal = 'COMPLETENESS_75_PLUS';
   }
   
+  const score = signalPoints(weights, signal, maxScore);
+  
   signals.push({
     signal,
     weight: score,
@@ -192,9 +420,9 @@ function calculateMetadataQualityScore(tracks: any[]): CategoryScore {
 }
 
 // Category 5: Catalog Patterns (0.5 points max)
-function calculateCatalogPatternsScore(tracks: any[], artistName?: string): CategoryScore {
+function calculateCatalogPatternsScore(tracks: any[], weights: ScoringWeights, artistName?: string): CategoryScore {
   const category = 'Catalog Patterns';
-  const maxScore = 0.5;
+  const maxScore = categoryMax(weights, category);
   const signals: TrackSignal[] = [];
   
   // Check if >50% of tracks are DIY/indie using exhaustive classifier
@@ -209,37 +437,43 @@ function calculateCatalogPatternsScore(tracks: any[], artistName?: string): Cate
   const diyIndiePercent = (diyOrIndieCount / tracks.length) * 100;
   
   if (diyIndiePercent > 50) {
+    const score = signalPoints(weights, 'UNSIGNED_DISTRIBUTION_PATTERN', maxScore);
     signals.push({
       signal: 'UNSIGNED_DISTRIBUTION_PATTERN',
-      weight: maxScore,
+      weight: score,
       description: `${diyIndiePercent.toFixed(0)}% DIY/indie releases`
     });
-    return { category, score: maxScore, maxScore, signals };
+    return { category, score, maxScore, signals };
   }
   
   return { category, score: 0, maxScore, signals };
 }
 
 // Category 6: Profile Verification (0.5 points max)
-function calculateProfileVerificationScore(contactData: any): CategoryScore {
+function calculateProfileVerificationScore(contactData: any, weights: ScoringWeights): CategoryScore {
   const category = 'Profile Verification';
-  const maxScore = 0.5;
+  const maxScore = categoryMax(weights, category);
   const signals: TrackSignal[] = [];
   
   if (contactData.musicbrainzFound === 1) {
+    const score = signalPoints(weights, 'MUSICBRAINZ_PRESENT', maxScore);
     signals.push({
       signal: 'MUSICBRAINZ_PRESENT',
-      weight: maxScore,
+      weight: score,
       description: 'Verified via MusicBrainz'
     });
-    return { category, score: maxScore, maxScore, signals };
+    return { category, score, maxScore, signals };
   }
   
   return { category, score: 0, maxScore, signals };
 }
 
 // Calculate final contact score using category-based system
-export async function calculateContactScore(contactId: string): Promise<ContactScoreResult> {
+// Pass weights to score against a profile other than the active one (e.g. activation preview)
+export async function calculateContactScore(contactId: string, weights?: ScoringWeights): Promise<ContactScoreResult> {
+  const scoringWeights = weights ?? await getActiveScoringWeights();
+  await loadLabelOverrides();
+  
   // Fetch contact with songwriter profile
   const contactResult = await db
     .select()
@@ -263,14 +497,12 @@ export async function calculateContactScore(contactId: string): Promise<ContactS
   
   if (trackRelations.length === 0) {
     // No tracks = score 0 with empty categories
-    const emptyCategories: CategoryScore[] = [
-      { category: 'Publishing Status', score: 0, maxScore: 4, signals: [] },
-      { category: 'Release Pathway', score: 0, maxScore: 3, signals: [] },
-      { category: 'Early Career Signals', score: 0, maxScore: 2, signals: [] },
-      { category: 'Metadata Quality', score: 0, maxScore: 1, signals: [] },
-      { category: 'Catalog Patterns', score: 0, maxScore: 0.5, signals: [] },
-      { category: 'Profile Verification', score: 0, maxScore: 0.5, signals: [] }
-    ];
+    const emptyCategories: CategoryScore[] = Object.keys(DEFAULT_SCORING_WEIGHTS.categories).map(category => ({
+      category,
+      score: 0,
+      maxScore: categoryMax(scoringWeights, category),
+      signals: [],
+    }));
     
     return {
       contactId,
@@ -290,6 +522,27 @@ export async function calculateContactScore(contactId: string): Promise<ContactS
     .from(playlistSnapshots)
     .where(inArray(playlistSnapshots.id, trackIds));
   
+  // MLC writer shares on these tracks, flagged where they belong to this contact's songwriter
+  const shareRows = await db
+    .select({
+      trackId: mlcWriterShares.trackId,
+      writerName: mlcWriterShares.writerName,
+      publisherName: mlcWriterShares.publisherName,
+      administrators: mlcWriterShares.administrators,
+      collectionShare: mlcWriterShares.collectionShare,
+      songwriterId: trackSongwriters.songwriterId,
+    })
+    .from(mlcWriterShares)
+    .leftJoin(trackSongwriters, eq(mlcWriterShares.trackSongwriterId, trackSongwriters.id))
+    .where(inArray(mlcWriterShares.trackId, trackIds));
+  
+  const sharesByTrack = new Map<string, WriterShareRow[]>();
+  for (const { trackId, songwriterId, ...share } of shareRows) {
+    const trackShares = sharesByTrack.get(trackId) || [];
+    trackShares.push({ ...share, isOwn: !!songwriterId && songwriterId === contact.songwriterId });
+    sharesByTrack.set(trackId, trackShares);
+  }
+  
   // Fetch songwriter profile to get artist name for vanity label detection
   let artistName: string | undefined;
   if (contact.songwriterId) {
@@ -306,19 +559,23 @@ export async function calculateContactScore(contactId: string): Promise<ContactS
   
   // Calculate scores for all 6 categories
   const categories: CategoryScore[] = [
-    calculatePublishingStatusScore(tracks),
-    calculateReleasePathwayScore(tracks, artistName),
-    calculateEarlyCareerScore(tracks),
-    calculateMetadataQualityScore(tracks),
-    calculateCatalogPatternsScore(tracks, artistName),
-    calculateProfileVerificationScore(contact)
+    calculatePublishingStatusScore(tracks, scoringWeights, sharesByTrack),
+    calculateReleasePathwayScore(tracks, scoringWeights, artistName),
+    calculateEarlyCareerScore(tracks, scoringWeights),
+    calculateMetadataQualityScore(tracks, scoringWeights),
+    calculateCatalogPatternsScore(tracks, scoringWeights, artistName),
+    calculateProfileVerificationScore(contact, scoringWeights)
   ];
   
   // Calculate raw score (sum of all category scores)
   const rawScore = categories.reduce((sum, cat) => sum + cat.score, 0);
   
-  // Round to integer for final score
-  const finalScore = Math.round(rawScore);
+  // The built-in category maxes keep their original scale. Custom maxes are scaled back to the
+  // built-in total so a heavier profile can't inflate scores, then capped at the 0-10 score bands.
+  const totalMax = categories.reduce((sum, cat) => sum + cat.maxScore, 0);
+  const finalScore = usesDefaultCategoryMaxes(scoringWeights)
+    ? Math.round(rawScore)
+    : Math.min(SCORING_MAX_TOTAL, Math.round(totalMax > 0 ? (rawScore * DEFAULT_CATEGORY_TOTAL) / totalMax : 0));
   
   // Determine confidence based on number of categories with signals detected
   const categoriesWithSignals = categories.filter(cat => cat.signals.length > 0).length;
@@ -343,9 +600,10 @@ export async function calculateContactScore(contactId: string): Promise<ContactS
   };
 }
 
-// Update contact with new score
+// Update contact with new score and append it to the contact's score history
 export async function updateContactScore(contactId: string): Promise<ContactScoreResult> {
-  const scoreResult = await calculateContactScore(contactId);
+  const activeProfile = await getActiveScoringProfile();
+  const scoreResult = await calculateContactScore(contactId, activeProfile.weights);
   
   // Store category score data as JSON
   const categoryScoreData = JSON.stringify({
@@ -356,7 +614,8 @@ export async function updateContactScore(contactId: string): Promise<ContactScor
       signals: cat.signals.map(sig => ({
         signal: sig.signal,
         weight: sig.weight,
-        description: sig.description
+        description: sig.description,
+        ownershipChain: sig.ownershipChain
       }))
     })),
     rawScore: scoreResult.rawScore,
@@ -375,5 +634,181 @@ export async function updateContactScore(contactId: string): Promise<ContactScor
     })
     .where(eq(contacts.id, contactId));
   
+  // Rescoring after every job mostly reproduces the last score; only changes go in the history
+  const [latest] = await db
+    .select({ finalScore: contactScoreHistory.finalScore, scoreData: contactScoreHistory.scoreData, scoringProfileId: contactScoreHistory.scoringProfileId })
+    .from(contactScoreHistory)
+    .where(eq(contactScoreHistory.contactId, contactId))
+    .orderBy(desc(contactScoreHistory.calculatedAt))
+    .limit(1);
+  
+  if (latest
+    && latest.finalScore === scoreResult.finalScore
+    && latest.scoreData === categoryScoreData
+    && latest.scoringProfileId === activeProfile.id) {
+    return scoreResult;
+  }
+  
+  await db.insert(contactScoreHistory).values({
+    contactId,
+    finalScore: scoreResult.finalScore,
+    confidence: scoreResult.confidence,
+    scoreData: categoryScoreData,
+    scoringProfileId: activeProfile.id,
+    calculatedAt: scoreResult.updatedAt,
+  });
+  
   return scoreResult;
 }
+
+export interface ScoreSignalChange {
+  category: string;
+  signal: string;
+  change: 'gained' | 'lost' | 'reweighted';
+  description: string;
+  pointsDelta: number;
+}
+
+/**
+ * Name the signals that differ between two stored score breakdowns (trackScoreData / score_data JSON).
+ * Signals are matched by category + signal name; a signal present in both with different points
+ * is reported as reweighted (e.g. after a scoring profile change).
+ */
+export function diffScoreBreakdowns(previousData: string, currentData: string): ScoreSignalChange[] {
+  const flatten = (raw: string) => {
+    const map = new Map<string, { category: string; signal: string; weight: number; description: string }>();
+    try {
+      const data = JSON.parse(raw);
+      for (const cat of data.categories || []) {
+        for (const sig of cat.signals || []) {
+          map.set(`${cat.category}:${sig.signal}`, {
+            category: cat.category,
+            signal: sig.signal,
+            weight: sig.weight,
+            description: sig.description,
+          });
+        }
+      }
+    } catch {
+      // Unparseable breakdowns are treated as having no signals
+    }
+    return map;
+  };
+  
+  const previous = flatten(previousData);
+  const current = flatten(currentData);
+  const changes: ScoreSignalChange[] = [];
+  
+  for (const [key, sig] of Array.from(current.entries())) {
+    const before = previous.get(key);
+    if (!before) {
+      changes.push({ category: sig.category, signal: sig.signal, change: 'gained', description: sig.description, pointsDelta: sig.weight });
+    } else if (before.weight !== sig.weight) {
+      changes.push({ category: sig.category, signal: sig.signal, change: 'reweighted', description: sig.description, pointsDelta: sig.weight - before.weight });
+    }
+  }
+  
+  for (const [key, sig] of Array.from(previous.entries())) {
+    if (!current.has(key)) {
+      changes.push({ category: sig.category, signal: sig.signal, change: 'lost', description: sig.description, pointsDelta: -sig.weight });
+    }
+  }
+  
+  return changes;
+}
+
+// Recalculate and store scores for the given contacts (all contacts when omitted)
+export async function batchUpdateContactScores(contactIds?: string[]): Promise<{
+  totalContacts: number;
+  successCount: number;
+  errorCount: number;
+  errors: Array<{ contactId: string; error: string }>;
+}> {
+  const ids = contactIds ?? (await db.select({ id: contacts.id }).from(contacts)).map(c => c.id);
+  
+  console.log(`🔄 Starting batch score recalculation for ${ids.length} contacts...`);
+  
+  let successCount = 0;
+  let errorCount = 0;
+  const errors: Array<{ contactId: string; error: string }> = [];
+  
+  for (const contactId of ids) {
+    try {
+      await updateContactScore(contactId);
+      successCount++;
+      if (successCount % 10 === 0) {
+        console.log(`  ✓ Processed ${successCount}/${ids.length} contacts`);
+      }
+    } catch (error: any) {
+      errorCount++;
+      errors.push({
+        contactId,
+        error: error.message || 'Unknown error'
+      });
+      console.error(`  ✗ Failed to update score for contact ${contactId}:`, error.message);
+    }
+  }
+  
+  console.log(`✅ Batch score recalculation complete: ${successCount} succeeded, ${errorCount} failed`);
+  
+  return { totalContacts: ids.length, successCount, errorCount, errors };
+}
+
+export type ScoreBand = 'high' | 'medium' | 'low' | 'unscored';
+
+// Same bands the UI uses for score badges
+export function getScoreBand(score: number | null | undefined): ScoreBand {
+  if (score === null || score === undefined) return 'unscored';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  return 'low';
+}
+
+/**
+ * Dry-run a set of weights against every contact without writing scores.
+ * Reports how many contacts would move between score bands.
+ */
+export async function previewScoringWeights(weights: ScoringWeights, sampleLimit: number = 20): Promise<{
+  totalContacts: number;
+  changedCount: number;
+  transitions: Record<string, number>;
+  samples: Array<{ contactId: string; songwriterName: string | null; currentScore: number | null; newScore: number; fromBand: ScoreBand; toBand: ScoreBand }>;
+}> {
+  const allContacts = await db
+    .select({ id: contacts.id, unsignedScore: contacts.unsignedScore, songwriterName: songwriterProfiles.name })
+    .from(contacts)
+    .leftJoin(songwriterProfiles, eq(contacts.songwriterId, songwriterProfiles.id));
+  
+  let changedCount = 0;
+  const transitions: Record<string, number> = {};
+  const samples: Array<{ contactId: string; songwriterName: string | null; currentScore: number | null; newScore: number; fromBand: ScoreBand; toBand: ScoreBand }> = [];
+  
+  for (const contact of allContacts) {
+    try {
+      const result = await calculateContactScore(contact.id, weights);
+      const fromBand = getScoreBand(contact.unsignedScore);
+      const toBand = getScoreBand(result.finalScore);
+      
+      if (fromBand === toBand) continue;
+      
+      changedCount++;
+      const key = `${fromBand}->${toBand}`;
+      transitions[key] = (transitions[key] || 0) + 1;
+      
+      if (samples.length < sampleLimit) {
+        samples.push({
+          contactId: contact.id,
+          songwriterName: contact.songwriterName,
+          currentScore: contact.unsignedScore,
+          newScore: result.finalScore,
+          fromBand,
+          toBand,
+        });
+      }
+    } catch (error: any) {
+      console.error(`  ✗ Failed to preview score for contact ${contact.id}:`, error.message);
+    }
+  }
+  
+  return { totalContacts: allContacts.length, changedCount, transitions, samples };
+}
@@ -13,6 +13,14 @@
  * 2. Check for generic vanity patterns → DIY (3 pts)
  * 3. Check for multi-word "real label" structure → Indie (2 pts)
  * 4. Default to DIY (3 pts) - statistically most likely
+ * 
+ * Ownership Resolution (runs first, after DIY distributors):
+ * A label naming a DIY distributor is DIY outright. Other labels are walked up to their
+ * ultimate owner before classification, e.g.
+ * "XYZ Records under exclusive license to Atlantic" → Atlantic → Warner Music Group → Major.
+ * Each step uses, in order: a registry override (label_overrides table, loaded by labelRegistry.ts),
+ * a license phrase in the label text, then the built-in ownership.parents edges (whole-word matches). An override with
+ * an explicit tier stops the walk and wins outright.
  */
 
 import labelData from './labelClassification.json';
@@ -24,17 +32,142 @@ export interface ClassificationResult {
   score: number;
   matchedKeyword?: string;
   matchedPattern?: string;
+  matchedOverride?: string;
+  ownershipChain?: string[]; // Label → ... → ultimate owner, only when the label resolved to a parent
   confidence: 'high' | 'medium' | 'low';
   reasoning: string;
 }
 
+export interface LabelOverrideEntry {
+  tier: Exclude<LabelTier, 'unknown'> | null;
+  parentCompany: string | null;
+}
+
+const TIER_SCORES: Record<Exclude<LabelTier, 'unknown'>, number> = {
+  diy: 3,
+  indie: 2,
+  majorDistribution: 1,
+  major: 0,
+};
+
+// Registry overrides keyed by normalized label
+let labelOverrides = new Map<string, LabelOverrideEntry>();
+
+export function setLabelOverrides(overrides: Map<string, LabelOverrideEntry>): void {
+  labelOverrides = overrides;
+}
+
 /**
  * Normalize label string for matching
  */
-function normalizeLabel(label: string): string {
+export function normalizeLabel(label: string): string {
   return label.toLowerCase().trim().replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, ' ').replace(/\s+/g, ' ');
 }
 
+/**
+ * Pattern matching a keyword as whole words within a normalized name
+ */
+export function wholeWordPattern(keyword: string): RegExp {
+  return new RegExp(`(^| )${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}( |$)`);
+}
+
+// Longest keys first so "capitol music group" wins over "capitol". Keys match whole words only,
+// so short keys like "island" or "epic" don't give "Islander Sounds" or "Epicenter Records" a parent.
+const OWNERSHIP_PARENTS = Object.entries(labelData.ownership.parents as Record<string, string>)
+  .sort((a, b) => b[0].length - a[0].length)
+  .map(([key, parent]) => ({
+    key,
+    parent,
+    pattern: wholeWordPattern(key),
+  }));
+
+// Guards against runaway chains from misconfigured overrides
+const MAX_OWNERSHIP_DEPTH = 8;
+
+interface OwnershipResolution {
+  chain: string[];
+  overrideTier?: Exclude<LabelTier, 'unknown'>;
+  matchedOverride?: string;
+}
+
+/**
+ * Split "XYZ Records under exclusive license to Atlantic" into the imprint and its licensee
+ */
+function splitLicensePhrase(label: string): { imprint: string; licensee: string } | null {
+  const lower = label.toLowerCase();
+  
+  for (const phrase of labelData.ownership.licensePhrases) {
+    const idx = lower.indexOf(phrase);
+    if (idx === -1) continue;
+    
+    const imprint = label.slice(0, idx).replace(/[\s,;(\-]+$/, '').trim();
+    const licensee = label.slice(idx + phrase.length).replace(/[)\s.]+$/, '').trim();
+    if (licensee) {
+      return { imprint, licensee };
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Find the parent company of a label, or null when it is its own owner
+ */
+function findParent(label: string): { parent: string; viaOverride: boolean } | null {
+  const normalized = normalizeLabel(label);
+  
+  const override = labelOverrides.get(normalized);
+  if (override?.parentCompany) {
+    return { parent: override.parentCompany, viaOverride: true };
+  }
+  
+  const license = splitLicensePhrase(label);
+  if (license) {
+    return { parent: license.licensee, viaOverride: false };
+  }
+  
+  for (const { pattern, parent } of OWNERSHIP_PARENTS) {
+    if (pattern.test(normalized)) {
+      return { parent, viaOverride: false };
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Walk a label up the ownership graph to its ultimate owner
+ */
+export function resolveOwnershipChain(label: string): OwnershipResolution {
+  const license = splitLicensePhrase(label);
+  const chain = [license?.imprint || label];
+  const visited = new Set<string>([normalizeLabel(label)]);
+  let current = label;
+  let matchedOverride: string | undefined;
+  
+  while (chain.length <= MAX_OWNERSHIP_DEPTH) {
+    const override = labelOverrides.get(normalizeLabel(current));
+    if (override) {
+      matchedOverride = matchedOverride ?? current;
+      if (override.tier) {
+        return { chain, overrideTier: override.tier, matchedOverride };
+      }
+    }
+    
+    const next = findParent(current);
+    if (!next) break;
+    
+    const normalizedParent = normalizeLabel(next.parent);
+    if (visited.has(normalizedParent)) break;
+    
+    visited.add(normalizedParent);
+    chain.push(next.parent);
+    current = next.parent;
+  }
+  
+  return { chain, matchedOverride };
+}
+
 /**
  * Check if label contains artist name (vanity label detection)
  */
@@ -188,6 +321,56 @@ export function classifyLabel(label: string | null, artistName?: string): Classi
     };
   }
   
+  // A DIY distributor in the label text ("Island Vibes (via DistroKid)") means self-released,
+  // whatever the imprint name resembles; only an override on the label itself outranks it
+  if (!labelOverrides.has(normalizeLabel(label))) {
+    const diyMatch = checkDIYDistribution(label);
+    if (diyMatch) {
+      return {
+        tier: 'diy',
+        score: 3,
+        matchedKeyword: diyMatch,
+        confidence: 'high',
+        reasoning: `Matched DIY distributor: ${diyMatch}`
+      };
+    }
+  }
+  
+  // STEP 0: Resolve to the ultimate owner
+  const { chain, overrideTier, matchedOverride } = resolveOwnershipChain(label);
+  const chainDescription = chain.join(' → ');
+  
+  if (overrideTier) {
+    return {
+      tier: overrideTier,
+      score: TIER_SCORES[overrideTier],
+      matchedOverride,
+      ownershipChain: chain.length > 1 ? chain : undefined,
+      confidence: 'high',
+      reasoning: chain.length > 1
+        ? `${chainDescription}: manual override (${overrideTier})`
+        : `Manual override: ${overrideTier}`
+    };
+  }
+  
+  if (chain.length === 1) {
+    return classifyByName(label, artistName);
+  }
+  
+  // Classify the owner; artist-vanity detection only applies to the original label
+  const ownerResult = classifyByName(chain[chain.length - 1]);
+  return {
+    ...ownerResult,
+    matchedOverride,
+    ownershipChain: chain,
+    reasoning: `${chainDescription}: ${ownerResult.reasoning}`
+  };
+}
+
+/**
+ * Classify a single label name against the known lists and fallback patterns
+ */
+function classifyByName(label: string, artistName?: string): ClassificationResult {
   // STEP 1: Check known label lists (highest confidence)
   
   // Check DIY distribution
@@ -0,0 +1,110 @@
+/**
+ * LABEL REGISTRY
+ *
+ * Database-backed overrides for labelClassifier.ts. Overrides are loaded into the classifier's
+ * in-memory map before scoring and reloaded after every edit (or, in other processes, once the
+ * table's version changes), so classifyLabel stays synchronous.
+ *
+ * The registry view lists every distinct playlistSnapshots.label with its current classification,
+ * so mis-classified imprints can be spotted and corrected from the UI.
+ */
+
+import { storage } from "../storage";
+import { classifyLabel, normalizeLabel, resolveOwnershipChain, setLabelOverrides, type ClassificationResult, type LabelOverrideEntry } from "./labelClassifier";
+import type { LabelOverride } from "@shared/schema";
+
+// How long a process trusts its loaded overrides before checking whether another process changed them
+const OVERRIDES_RECHECK_MS = 30_000;
+
+// invalidateLabelOverrides only reaches the API process, so every process (the enrichment worker
+// included) also compares the table's version every OVERRIDES_RECHECK_MS and reloads on a change
+let loadedVersion: string | null = null;
+let checkedAt = 0;
+
+export async function loadLabelOverrides(): Promise<void> {
+  if (loadedVersion !== null && Date.now() - checkedAt < OVERRIDES_RECHECK_MS) return;
+
+  const version = await storage.getLabelOverridesVersion();
+  checkedAt = Date.now();
+  if (version === loadedVersion) return;
+
+  const overrides = await storage.getLabelOverrides();
+  const map = new Map<string, LabelOverrideEntry>();
+  for (const override of overrides) {
+    map.set(override.normalizedLabel, {
+      tier: override.tier,
+      parentCompany: override.parentCompany,
+    });
+  }
+
+  setLabelOverrides(map);
+  loadedVersion = version;
+}
+
+export function invalidateLabelOverrides(): void {
+  loadedVersion = null;
+}
+
+export interface LabelRegistryEntry {
+  label: string;
+  trackCount: number;
+  classification: ClassificationResult;
+  override: LabelOverride | null;
+}
+
+/**
+ * Every distinct track label plus any overrides for labels no longer on a track.
+ * Labels are classified without an artist name, so artist-vanity detection doesn't apply here.
+ */
+export async function getLabelRegistry(): Promise<LabelRegistryEntry[]> {
+  await loadLabelOverrides();
+
+  const [labelCounts, overrides] = await Promise.all([
+    storage.getTrackLabelCounts(),
+    storage.getLabelOverrides(),
+  ]);
+
+  const overridesByKey = new Map(overrides.map(o => [o.normalizedLabel, o]));
+  const seenKeys = new Set<string>();
+
+  const entries: LabelRegistryEntry[] = labelCounts.map(({ label, trackCount }) => {
+    const key = normalizeLabel(label);
+    seenKeys.add(key);
+    return {
+      label,
+      trackCount,
+      classification: classifyLabel(label),
+      override: overridesByKey.get(key) || null,
+    };
+  });
+
+  for (const override of overrides) {
+    if (seenKeys.has(override.normalizedLabel)) continue;
+    entries.push({
+      label: override.label,
+      trackCount: 0,
+      classification: classifyLabel(override.label),
+      override,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Contacts with at least one track on this label or on an imprint that resolves through it
+ */
+export async function getContactIdsForLabel(label: string): Promise<string[]> {
+  await loadLabelOverrides();
+
+  const key = normalizeLabel(label);
+  const labelCounts = await storage.getTrackLabelCounts();
+  const matchingLabels = labelCounts
+    .map(({ label }) => label)
+    .filter(trackLabel =>
+      normalizeLabel(trackLabel) === key ||
+      resolveOwnershipChain(trackLabel).chain.some(owner => normalizeLabel(owner) === key)
+    );
+
+  return storage.getContactIdsByTrackLabels(matchingLabels);
+}
@@ -0,0 +1,247 @@
+/**
+ * PUBLISHER CLASSIFICATION ENGINE
+ *
+ * Classifies music publishers into tiers, parallel to labelClassifier.ts:
+ *
+ * Major - Sony, UMPG, Warner Chappell, their subsidiaries, and major-scale independents (Kobalt, BMG, peermusic)
+ * Indie - Independent publishers offering full or co-publishing deals (Concord, Reservoir, Big Deal, etc.)
+ * Admin - Admin-only companies (Songtrust, CD Baby Pro, TuneCore Publishing) - writer keeps ownership
+ * Self-Published - Writer-owned entities and explicit self-publishing indicators
+ * None - No publisher metadata
+ *
+ * Fallback Logic (for unknown publishers):
+ * 1. Check if publisher contains a writer name → Self-Published
+ * 2. Check for explicit self-publishing indicators → Self-Published
+ * 3. Default to Indie - an unknown publisher still usually means a publishing deal exists
+ *
+ * When a track lists several publishers, a full publishing deal (major, then indie) takes precedence
+ * over admin-only and self-published entities.
+ */
+
+import publisherData from './publisherClassification.json';
+import { wholeWordPattern } from './labelClassifier';
+
+export type PublisherTier = 'major' | 'indie' | 'admin' | 'selfPublished' | 'none';
+
+export type PublisherStatus = 'unsigned' | 'self-published' | 'admin' | 'indie' | 'major';
+
+export interface PublisherClassificationResult {
+  tier: PublisherTier;
+  matchedKeyword?: string;
+  matchedPattern?: string;
+  publisher?: string;
+  confidence: 'high' | 'medium' | 'low';
+  reasoning: string;
+}
+
+// Highest first: a full deal anywhere in the chain controls the writer's share
+const TIER_PRECEDENCE: PublisherTier[] = ['major', 'indie', 'admin', 'selfPublished', 'none'];
+
+/**
+ * Normalize publisher string for matching
+ */
+function normalizePublisher(name: string): string {
+  return name.toLowerCase().trim().replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, ' ').replace(/\s+/g, ' ');
+}
+
+function findKeyword(name: string, keywords: string[]): string | null {
+  const normalized = normalizePublisher(name);
+
+  // Whole words only, as with label ownership keys, so "concord" doesn't match "Concordia Songs"
+  for (const keyword of keywords) {
+    if (wholeWordPattern(keyword).test(normalized)) {
+      return keyword;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if publisher contains a writer's name (writer-owned publishing entity)
+ */
+function matchesWriterName(name: string, writerNames?: string[]): string | null {
+  if (!writerNames || writerNames.length === 0) return null;
+
+  const normalized = normalizePublisher(name);
+
+  for (const writer of writerNames) {
+    const normalizedWriter = normalizePublisher(writer);
+    if (normalizedWriter.length >= 3 && normalized.includes(normalizedWriter)) {
+      return writer;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split a stored publisher field into names.
+ * Handles JSON arrays and comma-separated lists, re-joining corporate suffixes ("Songs, LLC").
+ */
+export function parsePublisherNames(publisher: string | null | undefined): string[] {
+  if (!publisher || publisher.trim() === '' || publisher === '[]') return [];
+
+  if (publisher.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(publisher);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+      }
+    } catch {
+      // Not JSON - fall through to comma splitting
+    }
+  }
+
+  const suffixes = publisherData.patterns.corporateSuffix.suffixes;
+  const names: string[] = [];
+
+  for (const part of publisher.split(',')) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+
+    if (names.length > 0 && suffixes.includes(normalizePublisher(trimmed))) {
+      names[names.length - 1] = `${names[names.length - 1]}, ${trimmed}`;
+    } else {
+      names.push(trimmed);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Classify a single publisher name
+ */
+export function classifyPublisher(name: string | null, writerNames?: string[]): PublisherClassificationResult {
+  if (!name || name.trim() === '') {
+    return {
+      tier: 'none',
+      confidence: 'high',
+      reasoning: 'No publisher metadata'
+    };
+  }
+
+  // STEP 1: Check known publisher lists (highest confidence)
+
+  // Admin companies first so "administered by Sony Music Publishing" style credits stay admin-only
+  const adminMatch = findKeyword(name, publisherData.admin.keywords);
+  if (adminMatch) {
+    return {
+      tier: 'admin',
+      matchedKeyword: adminMatch,
+      publisher: name,
+      confidence: 'high',
+      reasoning: `Admin-only publisher: ${adminMatch} - writer retains ownership`
+    };
+  }
+
+  const majorMatch = findKeyword(name, [
+    ...publisherData.major.sony,
+    ...publisherData.major.universal,
+    ...publisherData.major.warner,
+    ...publisherData.major.majorIndependents
+  ]);
+  if (majorMatch) {
+    return {
+      tier: 'major',
+      matchedKeyword: majorMatch,
+      publisher: name,
+      confidence: 'high',
+      reasoning: `Matched major publisher: ${majorMatch}`
+    };
+  }
+
+  const indieMatch = findKeyword(name, publisherData.indie.keywords);
+  if (indieMatch) {
+    return {
+      tier: 'indie',
+      matchedKeyword: indieMatch,
+      publisher: name,
+      confidence: 'high',
+      reasoning: `Matched independent publisher: ${indieMatch}`
+    };
+  }
+
+  // STEP 2: Pattern-based fallback logic
+
+  const writerMatch = matchesWriterName(name, writerNames);
+  if (writerMatch) {
+    return {
+      tier: 'selfPublished',
+      matchedPattern: 'writer_owned_publisher',
+      publisher: name,
+      confidence: 'medium',
+      reasoning: `Publisher contains writer name (${writerMatch}) - likely self-published`
+    };
+  }
+
+  const selfMatch = findKeyword(name, publisherData.patterns.selfPublished.patterns);
+  if (selfMatch) {
+    return {
+      tier: 'selfPublished',
+      matchedPattern: selfMatch,
+      publisher: name,
+      confidence: 'high',
+      reasoning: `Explicit self-publishing indicator: ${selfMatch}`
+    };
+  }
+
+  // STEP 3: Final fallback - an unknown publisher most likely holds a publishing deal
+  return {
+    tier: 'indie',
+    publisher: name,
+    confidence: 'low',
+    reasoning: `Unknown publisher "${name}" - assuming independent publishing deal`
+  };
+}
+
+/**
+ * Classify every publisher on a work and return the controlling tier
+ */
+export function classifyPublishers(names: Array<string | null>, writerNames?: string[]): PublisherClassificationResult {
+  const validNames = names.filter((name): name is string => !!name && name.trim() !== '');
+
+  if (validNames.length === 0) {
+    return {
+      tier: 'none',
+      confidence: 'high',
+      reasoning: 'No publisher metadata'
+    };
+  }
+
+  let results = validNames.map(name => classifyPublisher(name, writerNames));
+
+  // Alongside an admin company, an unrecognised publisher is almost always the writer's own designee
+  if (results.some(r => r.tier === 'admin')) {
+    results = results.filter(r => !(r.tier === 'indie' && r.confidence === 'low'));
+  }
+
+  results.sort((a, b) => {
+    const tierDiff = TIER_PRECEDENCE.indexOf(a.tier) - TIER_PRECEDENCE.indexOf(b.tier);
+    if (tierDiff !== 0) return tierDiff;
+
+    const confidenceOrder: Record<string, number> = { 'high': 3, 'medium': 2, 'low': 1 };
+    return confidenceOrder[b.confidence] - confidenceOrder[a.confidence];
+  });
+
+  return results[0];
+}
+
+/**
+ * Map a tier to the publisherStatus value stored on tracks
+ */
+export function toPublisherStatus(tier: PublisherTier): PublisherStatus {
+  switch (tier) {
+    case 'major':
+      return 'major';
+    case 'indie':
+      return 'indie';
+    case 'admin':
+      return 'admin';
+    case 'selfPublished':
+      return 'self-published';
+    default:
+      return 'unsigned';
+  }
+}
@@ -70,6 +70,16 @@ function generateCategoryComment(category: CategoryScore): string {
  * Publishing Status Commentary (4pts max)
  */
 function generatePublishingStatusComment(category: CategoryScore): string {
+  const signal = category.signals[0]?.signal;
+  
+  if (signal === 'ADMIN_ONLY_PUBLISHER') {
+    return "🧾 Admin-only representation — royalties are collected, but the writer still owns their share. Open to a full publishing deal.";
+  }
+  
+  if (signal === 'SELF_PUBLISHED') {
+    return "✍️ Self-published — songs sit in a writer-owned entity with no publishing partner yet.";
+  }
+  
   if (category.score === category.maxScore) {
     return "🎯 Wide-open publishing lane — no songs are currently represented. Maximum ownership opportunity.";
   }
@@ -86,21 +96,23 @@ function generatePublishingStatusComment(category: CategoryScore): string {
  */
 function generateReleasePathwayComment(category: CategoryScore): string {
   const signal = category.signals[0]?.signal;
+  const chain = category.signals[0]?.ownershipChain;
+  const ownership = chain && chain.length > 1 ? ` (${chain.join(' → ')})` : '';
   
   if (signal === 'DIY_DISTRIBUTION') {
     return "🚀 Fully independent release strategy — direct access and high creative ownership.";
   }
   
   if (signal === 'INDEPENDENT_DISTRIBUTOR') {
-    return "🎸 Artist is backed by an indie or artist-forward label — reachable but competitive.";
+    return `🎸 Artist is backed by an indie or artist-forward label${ownership} — reachable but competitive.`;
   }
   
   if (signal === 'MAJOR_DISTRIBUTION') {
-    return "🏢 Major distribution infrastructure detected — access potential is lower but career momentum may be stronger.";
+    return `🏢 Major distribution infrastructure detected${ownership} — access potential is lower but career momentum may be stronger.`;
   }
   
   if (signal === 'MAJOR_LABEL') {
-    return "🏆 Major label backing confirmed — established infrastructure, limited unsigned opportunity.";
+    return `🏆 Major label backing confirmed${ownership} — established infrastructure, limited unsigned opportunity.`;
   }
   
   if (signal === 'UNKNOWN_LABEL') {
@@ -200,23 +212,31 @@ function generateTopLineSummary(scoreResult: ContactScoreResult): string {
 function generateOpportunityNote(scoreResult: ContactScoreResult): string {
   const categories = scoreResult.categories;
   
-  // Check for key signals
-  const hasNoPublisher = categories.find(c => c.category === 'Publishing Status')?.score === 4;
-  const releasePathwayScore = categories.find(c => c.category === 'Release Pathway')?.score || 0;
-  const hasEarlyCareer = categories.find(c => c.category === 'Early Career Signals')?.score === 2;
+  // Check for key signals (by signal name so custom scoring profiles don't change the wording)
+  const hasSignal = (category: string, signals: string[]) =>
+    categories.find(c => c.category === category)?.signals.some(sig => signals.includes(sig.signal)) ?? false;
+  const hasNoPublisher = hasSignal('Publishing Status', ['NO_PUBLISHER']);
+  const hasOpenPublishing = hasSignal('Publishing Status', ['ADMIN_ONLY_PUBLISHER', 'SELF_PUBLISHED']);
+  const isIndependentRelease = hasSignal('Release Pathway', ['DIY_DISTRIBUTION', 'INDEPENDENT_DISTRIBUTOR']);
+  const hasEarlyCareer = hasSignal('Early Career Signals', ['FRESH_FINDS']);
   
   // Prime candidate: No publisher + DIY/Indie
-  if (hasNoPublisher && releasePathwayScore >= 2) {
+  if (hasNoPublisher && isIndependentRelease) {
     return "🎯 Prime outreach candidate — rights are wide open and artist operates independently.";
   }
   
   // Strong prospect: Indie + early signals
-  if (releasePathwayScore >= 2 && hasEarlyCareer) {
+  if (isIndependentRelease && hasEarlyCareer) {
     return "🚀 Strong mid-stage prospect — reachable through indie channels with visible momentum.";
   }
   
+  // Writer still owns their share, but someone is already collecting
+  if (hasOpenPublishing && isIndependentRelease) {
+    return "🧾 Strong publishing prospect — writer's share is unassigned (admin-only or self-published) and releases are independent.";
+  }
+  
   // Good monitoring candidate
-  if (hasNoPublisher || releasePathwayScore >= 2) {
+  if (hasNoPublisher || hasOpenPublishing || isIndependentRelease) {
     return "📊 Good artist to monitor — indicators suggest independent operation with growth potential.";
   }
   
@@ -36,6 +36,7 @@ export interface NetworkCaptureTrack {
   popularity: number | null;
   durationMs: number | null;
   spotifyUrl: string;
+  position: number; // 1-based, in playlist order
 }
 
 export interface NetworkCaptureResult {
@@ -473,7 +474,8 @@ export async function fetchEditorialTracksViaNetwork(
           spotifyUrl: track.external_urls?.spotify || `https://open.spotify.com/track/${track.id}`,
         };
       })
-      .filter((t): t is NetworkCaptureTrack => t !== null);
+      .filter((t): t is Omit<NetworkCaptureTrack, 'position'> => t !== null)
+      .map((t, index) => ({ ...t, position: index + 1 }));
     
     console.log(`[Network Capture] Success! Captured ${tracks.length} unique tracks`);
     
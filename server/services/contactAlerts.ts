@@ -0,0 +1,336 @@
+import { db } from "../db";
+import { sql, eq, and, gte, inArray, or } from "drizzle-orm";
+import { contacts, songwriterProfiles, contactAlerts, outreachActivities, alertRules, contactTags, contactTracks, trackTags, playlistSnapshots, type InsertContactAlert, type AlertRule } from "@shared/schema";
+import { notificationService } from "./notificationService";
+
+// Default WoW growth % that fires a velocity_spike alert when a contact has no threshold of its own
+export const DEFAULT_VELOCITY_ALERT_PCT = 50;
+
+// Total Spotify stream milestones that fire a stream_threshold alert once each
+export const STREAM_MILESTONES = [100_000, 500_000, 1_000_000, 5_000_000, 10_000_000, 50_000_000, 100_000_000];
+
+// Days without logged outreach before a 'search' stage contact is flagged
+export const INACTIVITY_DAYS = 14;
+
+// A custom rule fires at most once per contact within this window, even after the alert is resolved
+export const RULE_ALERT_COOLDOWN_DAYS = 7;
+
+// Window for the playlist_adds metric
+const PLAYLIST_ADDS_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const METRIC_LABELS: Record<AlertRule['metric'], string> = {
+  spotify_streams: 'Spotify streams',
+  youtube_views: 'YouTube views',
+  wow_pct: 'WoW growth %',
+  unsigned_score: 'unsigned score',
+  playlist_adds: `playlist adds (${PLAYLIST_ADDS_WINDOW_DAYS}d)`,
+};
+
+const COMPARATOR_SYMBOLS: Record<AlertRule['comparator'], string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+};
+
+function compare(value: number, comparator: AlertRule['comparator'], threshold: number): boolean {
+  switch (comparator) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'eq': return value === threshold;
+  }
+}
+
+interface RuleEvaluationResult {
+  rulesEvaluated: number;
+  alertsCreated: number;
+}
+
+interface AlertEvaluationResult {
+  velocitySpikes: number;
+  streamThresholds: number;
+  inactivity: number;
+  total: number;
+}
+
+export class ContactAlertService {
+  /**
+   * Evaluate alert rules for every contact and write new alerts to contact_alerts
+   * Runs after weekly snapshots so totals and WoW growth are fresh
+   * - Velocity spike: WoW growth above the contact's threshold (one pending alert at a time)
+   * - Stream threshold: total streams cross a milestone (each milestone fires once)
+   * - Inactivity: 'search' stage contact with no outreach for INACTIVITY_DAYS (one pending alert at a time)
+   */
+  async evaluateAlerts(): Promise<AlertEvaluationResult> {
+    const allContacts = await db
+      .select({
+        id: contacts.id,
+        stage: contacts.stage,
+        stageUpdatedAt: contacts.stageUpdatedAt,
+        totalStreams: contacts.totalStreams,
+        wowGrowthPct: contacts.wowGrowthPct,
+        velocityAlertThresholdPct: contacts.velocityAlertThresholdPct,
+        songwriterName: songwriterProfiles.name,
+      })
+      .from(contacts)
+      .innerJoin(songwriterProfiles, eq(contacts.songwriterId, songwriterProfiles.id));
+
+    // Latest outreach per contact, used for the inactivity rule
+    const lastOutreachRows = await db
+      .select({
+        contactId: outreachActivities.contactId,
+        lastPerformedAt: sql<Date>`MAX(${outreachActivities.performedAt})`,
+      })
+      .from(outreachActivities)
+      .groupBy(outreachActivities.contactId);
+    const lastOutreach = new Map(lastOutreachRows.map(r => [r.contactId, new Date(r.lastPerformedAt)]));
+
+    const result: AlertEvaluationResult = { velocitySpikes: 0, streamThresholds: 0, inactivity: 0, total: 0 };
+    const now = Date.now();
+
+    for (const contact of allContacts) {
+      try {
+        // Velocity spike
+        const velocityThreshold = contact.velocityAlertThresholdPct ?? DEFAULT_VELOCITY_ALERT_PCT;
+        const wowGrowthPct = contact.wowGrowthPct || 0;
+        if (wowGrowthPct > velocityThreshold && !(await this.hasPendingAlert(contact.id, 'velocity_spike'))) {
+          await this.createAlert({
+            contactId: contact.id,
+            alertType: 'velocity_spike',
+            thresholdValue: velocityThreshold,
+            actualValue: wowGrowthPct,
+            message: `${contact.songwriterName} is up ${wowGrowthPct}% week over week (threshold ${velocityThreshold}%)`,
+          });
+          result.velocitySpikes++;
+        }
+
+        // Stream milestones - only the highest newly crossed milestone fires
+        const totalStreams = contact.totalStreams || 0;
+        const milestone = [...STREAM_MILESTONES].reverse().find(m => totalStreams >= m);
+        if (milestone && !(await this.hasMilestoneAlert(contact.id, milestone))) {
+          await this.createAlert({
+            contactId: contact.id,
+            alertType: 'stream_threshold',
+            thresholdValue: milestone,
+            actualValue: totalStreams,
+            message: `${contact.songwriterName} passed ${milestone.toLocaleString()} total streams`,
+          });
+          result.streamThresholds++;
+        }
+
+        // Inactivity on active search contacts
+        if (contact.stage === 'search') {
+          const lastTouch = lastOutreach.get(contact.id);
+          // With no outreach logged, count from when the contact entered 'search'
+          const since = lastTouch && lastTouch > contact.stageUpdatedAt ? lastTouch : contact.stageUpdatedAt;
+          const daysInactive = Math.floor((now - since.getTime()) / DAY_MS);
+
+          if (daysInactive >= INACTIVITY_DAYS && !(await this.hasPendingAlert(contact.id, 'inactivity'))) {
+            await this.createAlert({
+              contactId: contact.id,
+              alertType: 'inactivity',
+              thresholdValue: INACTIVITY_DAYS,
+              actualValue: daysInactive,
+              message: lastTouch
+                ? `No outreach to ${contact.songwriterName} in ${daysInactive} days`
+                : `${contact.songwriterName} has been in Active Search for ${daysInactive} days with no outreach`,
+            });
+            result.inactivity++;
+          }
+        }
+      } catch (error: any) {
+        console.error(`Error evaluating alerts for contact ${contact.id}:`, error.message);
+      }
+    }
+
+    result.total = result.velocitySpikes + result.streamThresholds + result.inactivity;
+    console.log(`Contact alerts evaluated: Velocity=${result.velocitySpikes}, Milestones=${result.streamThresholds}, Inactivity=${result.inactivity}`);
+
+    if (result.total > 0) {
+      await notificationService.notifySystemAlert(
+        'Contact Alerts',
+        `${result.total} new contact alert${result.total === 1 ? '' : 's'} after the weekly snapshot`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate the user-defined rules in alert_rules
+   * Runs after weekly snapshots and after every enrichment job; pass contactIds to limit
+   * evaluation to the contacts a job touched
+   */
+  async evaluateRules(options?: { contactIds?: string[]; trigger?: string }): Promise<RuleEvaluationResult> {
+    const rules = await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.enabled, 1));
+
+    const result: RuleEvaluationResult = { rulesEvaluated: 0, alertsCreated: 0 };
+    if (rules.length === 0) return result;
+    if (options?.contactIds && options.contactIds.length === 0) return result;
+
+    let contactQuery = db
+      .select({
+        id: contacts.id,
+        stage: contacts.stage,
+        totalStreams: contacts.totalStreams,
+        totalYoutubeViews: contacts.totalYoutubeViews,
+        wowGrowthPct: contacts.wowGrowthPct,
+        unsignedScore: contacts.unsignedScore,
+        songwriterName: songwriterProfiles.name,
+      })
+      .from(contacts)
+      .innerJoin(songwriterProfiles, eq(contacts.songwriterId, songwriterProfiles.id))
+      .$dynamic();
+
+    if (options?.contactIds) {
+      contactQuery = contactQuery.where(inArray(contacts.id, options.contactIds));
+    }
+
+    const scopedContacts = await contactQuery;
+    const needsPlaylistAdds = rules.some(r => r.metric === 'playlist_adds');
+    const playlistAdds = needsPlaylistAdds ? await this.getRecentPlaylistAdds() : new Map<string, number>();
+
+    for (const rule of rules) {
+      try {
+        const tagContactIds = rule.scope === 'tag' && rule.scopeValue
+          ? await this.getContactIdsForTag(rule.scopeValue)
+          : null;
+
+        for (const contact of scopedContacts) {
+          if (rule.scope === 'stage' && contact.stage !== rule.scopeValue) continue;
+          if (rule.scope === 'tag' && !tagContactIds?.has(contact.id)) continue;
+
+          const value = this.getMetricValue(rule.metric, contact, playlistAdds);
+          if (value === null || !compare(value, rule.comparator, rule.threshold)) continue;
+          if (await this.hasRecentRuleAlert(contact.id, rule.id)) continue;
+
+          await this.createAlert({
+            contactId: contact.id,
+            alertType: 'custom_rule',
+            alertRuleId: rule.id,
+            thresholdValue: rule.threshold,
+            actualValue: value,
+            message: `${rule.name}: ${contact.songwriterName} ${METRIC_LABELS[rule.metric]} ${value.toLocaleString()} ${COMPARATOR_SYMBOLS[rule.comparator]} ${rule.threshold.toLocaleString()}`,
+          });
+          result.alertsCreated++;
+        }
+
+        await db
+          .update(alertRules)
+          .set({ lastEvaluatedAt: new Date() })
+          .where(eq(alertRules.id, rule.id));
+        result.rulesEvaluated++;
+      } catch (error: any) {
+        console.error(`Error evaluating alert rule "${rule.name}":`, error.message);
+      }
+    }
+
+    console.log(`Alert rules evaluated${options?.trigger ? ` (${options.trigger})` : ''}: ${result.rulesEvaluated} rules, ${result.alertsCreated} alerts created`);
+    return result;
+  }
+
+  private getMetricValue(
+    metric: AlertRule['metric'],
+    contact: { id: string; totalStreams: number | null; totalYoutubeViews: number | null; wowGrowthPct: number | null; unsignedScore: number | null },
+    playlistAdds: Map<string, number>
+  ): number | null {
+    switch (metric) {
+      case 'spotify_streams': return contact.totalStreams;
+      case 'youtube_views': return contact.totalYoutubeViews;
+      case 'wow_pct': return contact.wowGrowthPct;
+      case 'unsigned_score': return contact.unsignedScore;
+      case 'playlist_adds': return playlistAdds.get(contact.id) ?? 0;
+    }
+  }
+
+  // Number of each contact's tracks added to a tracked playlist in the last PLAYLIST_ADDS_WINDOW_DAYS
+  private async getRecentPlaylistAdds(): Promise<Map<string, number>> {
+    const since = new Date(Date.now() - PLAYLIST_ADDS_WINDOW_DAYS * DAY_MS);
+    const rows = await db
+      .select({
+        contactId: contactTracks.contactId,
+        adds: sql<number>`COUNT(*)::int`,
+      })
+      .from(contactTracks)
+      .innerJoin(playlistSnapshots, eq(contactTracks.trackId, playlistSnapshots.id))
+      .where(gte(playlistSnapshots.addedAt, since))
+      .groupBy(contactTracks.contactId);
+    return new Map(rows.map(r => [r.contactId, Number(r.adds)]));
+  }
+
+  // Contacts tagged directly or through one of their tracks
+  private async getContactIdsForTag(tagId: string): Promise<Set<string>> {
+    const [direct, viaTracks] = await Promise.all([
+      db.select({ contactId: contactTags.contactId })
+        .from(contactTags)
+        .where(eq(contactTags.tagId, tagId)),
+      db.selectDistinct({ contactId: contactTracks.contactId })
+        .from(contactTracks)
+        .innerJoin(trackTags, eq(contactTracks.trackId, trackTags.trackId))
+        .where(eq(trackTags.tagId, tagId)),
+    ]);
+    return new Set([...direct, ...viaTracks].map(r => r.contactId));
+  }
+
+  private async hasRecentRuleAlert(contactId: string, ruleId: string): Promise<boolean> {
+    const cooldownStart = new Date(Date.now() - RULE_ALERT_COOLDOWN_DAYS * DAY_MS);
+    const existing = await db
+      .select({ id: contactAlerts.id })
+      .from(contactAlerts)
+      .where(and(
+        eq(contactAlerts.contactId, contactId),
+        eq(contactAlerts.alertRuleId, ruleId),
+        or(
+          eq(contactAlerts.status, 'pending'),
+          gte(contactAlerts.triggeredAt, cooldownStart)
+        )
+      ))
+      .limit(1);
+    return existing.length > 0;
+  }
+
+  private async createAlert(alert: InsertContactAlert) {
+    const [created] = await db
+      .insert(contactAlerts)
+      .values(alert)
+      .returning();
+    return created;
+  }
+
+  private async hasPendingAlert(contactId: string, alertType: 'velocity_spike' | 'inactivity'): Promise<boolean> {
+    const existing = await db
+      .select({ id: contactAlerts.id })
+      .from(contactAlerts)
+      .where(and(
+        eq(contactAlerts.contactId, contactId),
+        eq(contactAlerts.alertType, alertType),
+        eq(contactAlerts.status, 'pending')
+      ))
+      .limit(1);
+    return existing.length > 0;
+  }
+
+  private async hasMilestoneAlert(contactId: string, milestone: number): Promise<boolean> {
+    // Any status counts - a dismissed milestone shouldn't fire again
+    const existing = await db
+      .select({ id: contactAlerts.id })
+      .from(contactAlerts)
+      .where(and(
+        eq(contactAlerts.contactId, contactId),
+        eq(contactAlerts.alertType, 'stream_threshold'),
+        gte(contactAlerts.thresholdValue, milestone)
+      ))
+      .limit(1);
+    return existing.length > 0;
+  }
+}
+
+export const contactAlertService = new ContactAlertService();
@@ -0,0 +1,172 @@
+/**
+ * Field provenance
+ * Records which source supplied each track field value (and when) so the track drawer can show
+ * where a publisher, songwriter or label came from, and the full history when sources disagree.
+ *
+ * Status flags, timestamps and scores are bookkeeping, not data from a source, so they are not recorded.
+ */
+
+import { storage } from "../storage";
+import type { FieldSource, InsertTrackFieldProvenance, TrackFieldProvenance } from "@shared/schema";
+
+// How much a value from each source is trusted, 0-1
+export const SOURCE_CONFIDENCE: Record<FieldSource, number> = {
+  manual: 1,
+  mlc: 0.95,
+  spotify_api: 0.9,
+  chartmetric: 0.85,
+  credits_scrape: 0.8,
+  musicbrainz: 0.7,
+  youtube: 0.6,
+};
+
+const UNTRACKED_FIELDS = new Set([
+  'enrichmentStatus',
+  'creditsStatus',
+  'chartmetricStatus',
+  'enrichmentTier',
+  'enrichedAt',
+  'chartmetricEnrichedAt',
+  'lastEnrichmentAttempt',
+  'unsignedScore',
+]);
+
+function serializeValue(value: unknown): string | null {
+  if (value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * One provenance entry per data field in a metadata write. Undefined values are not writes and are skipped.
+ */
+export function buildProvenanceEntries(
+  trackId: string,
+  metadata: Record<string, unknown>,
+  source: FieldSource,
+  options: { confidence?: number; jobId?: string | null } = {}
+): InsertTrackFieldProvenance[] {
+  const confidence = options.confidence ?? SOURCE_CONFIDENCE[source];
+
+  return Object.entries(metadata)
+    .filter(([field, value]) => value !== undefined && !UNTRACKED_FIELDS.has(field))
+    .map(([field, value]) => ({
+      trackId,
+      field,
+      value: serializeValue(value),
+      source,
+      confidence,
+      jobId: options.jobId ?? null,
+    }));
+}
+
+/**
+ * Record provenance for a single track write. Failures are logged, never thrown:
+ * losing a ledger entry must not fail the write it describes.
+ */
+export async function recordTrackProvenance(
+  trackId: string,
+  metadata: Record<string, unknown>,
+  source: FieldSource,
+  options: { confidence?: number; jobId?: string | null } = {}
+): Promise<void> {
+  try {
+    await storage.recordFieldProvenance(buildProvenanceEntries(trackId, metadata, source, options));
+  } catch (error) {
+    console.error(`[Provenance] Failed to record ${source} provenance for track ${trackId}:`, error);
+  }
+}
+
+// Which source supplied each field of a write assembled from several lookups
+export type FieldAttribution = Record<string, FieldSource>;
+
+/**
+ * Attribute the listed fields that are set in metadata to source. A later call for the
+ * same field wins, matching the lookup that overwrote the value.
+ */
+export function attributeFields(
+  attribution: FieldAttribution,
+  metadata: Record<string, unknown>,
+  source: FieldSource,
+  fields: string[]
+): void {
+  for (const field of fields) {
+    if (metadata[field] !== undefined) {
+      attribution[field] = source;
+    }
+  }
+}
+
+/**
+ * Record provenance for a multi-source write, one set of entries per source. Fields with
+ * no attribution are not recorded.
+ */
+export async function recordAttributedProvenance(
+  trackId: string,
+  metadata: Record<string, unknown>,
+  attribution: FieldAttribution
+): Promise<void> {
+  const bySource = new Map<FieldSource, Record<string, unknown>>();
+
+  Object.keys(attribution).forEach(field => {
+    const source = attribution[field];
+    if (!bySource.has(source)) {
+      bySource.set(source, {});
+    }
+    bySource.get(source)![field] = metadata[field];
+  });
+
+  await Promise.all(
+    Array.from(bySource.entries()).map(([source, fields]) => recordTrackProvenance(trackId, fields, source))
+  );
+}
+
+export interface FieldProvenanceSummary {
+  field: string;
+  current: TrackFieldProvenance;
+  history: TrackFieldProvenance[];
+  // True when the latest values from two or more sources differ
+  conflicting: boolean;
+}
+
+/**
+ * Group a track's ledger (newest first) by field
+ */
+export function summarizeProvenance(entries: TrackFieldProvenance[]): FieldProvenanceSummary[] {
+  const byField = new Map<string, TrackFieldProvenance[]>();
+
+  for (const entry of entries) {
+    if (!byField.has(entry.field)) {
+      byField.set(entry.field, []);
+    }
+    byField.get(entry.field)!.push(entry);
+  }
+
+  return Array.from(byField.entries()).map(([field, history]) => {
+    const latestBySource = new Map<string, string | null>();
+    for (const entry of history) {
+      if (!latestBySource.has(entry.source)) {
+        latestBySource.set(entry.source, normalizeValue(entry.value));
+      }
+    }
+    const distinctValues = new Set(Array.from(latestBySource.values()).filter(v => v !== null));
+
+    return {
+      field,
+      current: history[0],
+      history,
+      conflicting: distinctValues.size > 1,
+    };
+  });
+}
+
+function normalizeValue(value: string | null): string | null {
+  if (!value) return null;
+  return value.trim().toLowerCase();
+}
+
+export async function getTrackProvenanceSummary(trackId: string): Promise<FieldProvenanceSummary[]> {
+  const entries = await storage.getTrackFieldProvenance(trackId);
+  return summarizeProvenance(entries);
+}
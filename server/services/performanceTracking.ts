@@ -1,6 +1,10 @@
 import { db } from "../db";
-import { sql, eq, and, desc } from "drizzle-orm";
-import { contacts, songwriterProfiles, playlistSnapshots, trackPerformanceSnapshots } from "@shared/schema";
+import { sql, eq, and, desc, inArray } from "drizzle-orm";
+import { contacts, songwriterProfiles, playlistSnapshots, trackPerformanceSnapshots, funnelTierRules, contactStageHistory, FUNNEL_TIER_STAGES } from "@shared/schema";
+import { contactAlertService } from "./contactAlerts";
+
+// Stages owned by the deals pipeline - never overwritten by velocity tiering
+const DEAL_STAGES: string[] = ['offer_sent', 'negotiating', 'signed', 'passed'];
 
 interface WeeklyPerformance {
   songwriterId: string;
@@ -122,6 +126,10 @@ export class PerformanceTrackingService {
     
     // Now aggregate and update contacts
     await this.updateContactAggregates();
+    
+    // Fire contact alerts against the fresh aggregates
+    await contactAlertService.evaluateAlerts();
+    await contactAlertService.evaluateRules({ trigger: 'weekly snapshot' });
   }
 
   /**
@@ -185,58 +193,142 @@ export class PerformanceTrackingService {
   }
 
   /**
-   * Auto-assign funnel tiers based on stream velocity thresholds
-   * - Discovery Pool (< 100K total streams)
-   * - Watch List (100K - 1M streams OR WoW growth > 20%)
-   * - Active Search (> 1M streams OR WoW growth > 50%)
+   * Auto-assign funnel tiers from the rules in funnel_tier_rules
+   * Rules are checked in priority order and the first match wins; a rule matches when total
+   * streams exceed minStreams OR WoW growth exceeds minWowPct. Unmatched contacts fall back to Discovery.
+   * Skips locked contacts (stage set by hand) and contacts managed from the deals pipeline.
+   * Every move is recorded in contact_stage_history with the rule that triggered it.
    */
   async autoAssignFunnelTiers(): Promise<void> {
+    await this.ensureDefaultFunnelTierRules();
+    await this.lockManualStagesBeforeFirstRun();
+
+    // Rules saved before stages were restricted may still target a deal stage
+    const rules = (await db
+      .select()
+      .from(funnelTierRules)
+      .where(eq(funnelTierRules.enabled, 1))
+      .orderBy(desc(funnelTierRules.priority)))
+      .filter(rule => (FUNNEL_TIER_STAGES as readonly string[]).includes(rule.stage));
+
     const allContacts = await db
       .select()
       .from(contacts)
       .innerJoin(songwriterProfiles, eq(contacts.songwriterId, songwriterProfiles.id));
 
-    let discoveryCount = 0;
-    let watchCount = 0;
-    let searchCount = 0;
+    const stageCounts: Record<string, number> = { discovery: 0, watch: 0, search: 0 };
+    let dealCount = 0;
+    let lockedCount = 0;
+    let movedCount = 0;
 
     for (const row of allContacts) {
       const contact = row.contacts;
-      const totalStreams = contact.totalStreams || 0;
-      const wowGrowthPct = contact.wowGrowthPct || 0;
       
-      let newStage: 'discovery' | 'watch' | 'search' = 'discovery';
-
-      // Active Search: High volume OR explosive growth
-      if (totalStreams > 1_000_000 || wowGrowthPct > 50) {
-        newStage = 'search';
-        searchCount++;
-      }
-      // Watch List: Medium volume OR strong growth
-      else if (totalStreams > 100_000 || wowGrowthPct > 20) {
-        newStage = 'watch';
-        watchCount++;
+      if (DEAL_STAGES.includes(contact.stage)) {
+        dealCount++;
+        continue;
       }
-      // Discovery Pool: Everything else
-      else {
-        newStage = 'discovery';
-        discoveryCount++;
+      if (contact.stageLocked) {
+        lockedCount++;
+        continue;
       }
 
+      const totalStreams = contact.totalStreams || 0;
+      const wowGrowthPct = contact.wowGrowthPct || 0;
+      
+      const matchedRule = rules.find(rule =>
+        (rule.minStreams !== null && totalStreams > rule.minStreams) ||
+        (rule.minWowPct !== null && wowGrowthPct > rule.minWowPct)
+      );
+      const newStage = matchedRule?.stage ?? 'discovery';
+      stageCounts[newStage] = (stageCounts[newStage] || 0) + 1;
+
       // Only update if stage has changed
       if (contact.stage !== newStage) {
+        const now = new Date();
         await db
           .update(contacts)
           .set({
             stage: newStage,
-            stageUpdatedAt: new Date(),
-            updatedAt: new Date(),
+            stageUpdatedAt: now,
+            updatedAt: now,
           })
           .where(eq(contacts.id, contact.id));
+
+        await db.insert(contactStageHistory).values({
+          contactId: contact.id,
+          previousStage: contact.stage,
+          newStage,
+          reason: matchedRule
+            ? `Auto: rule "${matchedRule.name}" (${totalStreams.toLocaleString()} streams, ${wowGrowthPct}% WoW)`
+            : 'Auto: no funnel rule matched',
+          funnelTierRuleId: matchedRule?.id ?? null,
+        });
+        movedCount++;
       }
     }
 
-    console.log(`Funnel tier assignment complete: Discovery=${discoveryCount}, Watch=${watchCount}, Search=${searchCount}`);
+    console.log(`Funnel tier assignment complete: Discovery=${stageCounts.discovery}, Watch=${stageCounts.watch}, Search=${stageCounts.search}, Moved=${movedCount}, Locked=${lockedCount}, In deals=${dealCount}`);
+  }
+
+  /**
+   * Until the rules have moved anyone, lock contacts whose stage was picked by hand: those with
+   * a manual (non-deal) history entry, and those the original hard-coded tiering wouldn't have
+   * put where they are (it moved contacts without writing history). Once an "Auto:" move
+   * exists this is a no-op.
+   */
+  private async lockManualStagesBeforeFirstRun(): Promise<void> {
+    const [autoMove] = await db
+      .select({ id: contactStageHistory.id })
+      .from(contactStageHistory)
+      .where(sql`${contactStageHistory.reason} LIKE 'Auto:%'`)
+      .limit(1);
+    if (autoMove) return;
+
+    // Same thresholds as the seeded default rules
+    const legacyStage = sql`CASE
+      WHEN COALESCE(${contacts.totalStreams}, 0) > 1000000 OR COALESCE(${contacts.wowGrowthPct}, 0) > 50 THEN 'search'
+      WHEN COALESCE(${contacts.totalStreams}, 0) > 100000 OR COALESCE(${contacts.wowGrowthPct}, 0) > 20 THEN 'watch'
+      ELSE 'discovery'
+    END`;
+
+    const locked = await db
+      .update(contacts)
+      .set({ stageLocked: 1, updatedAt: new Date() })
+      .where(and(
+        eq(contacts.stageLocked, 0),
+        inArray(contacts.stage, [...FUNNEL_TIER_STAGES]),
+        sql`(
+          ${contacts.stage}::text <> ${legacyStage}
+          OR EXISTS (
+            SELECT 1 FROM ${contactStageHistory}
+            WHERE ${contactStageHistory.contactId} = ${contacts.id}
+              AND ${contactStageHistory.dealId} IS NULL
+          )
+        )`
+      ))
+      .returning({ id: contacts.id });
+
+    if (locked.length > 0) {
+      console.log(`Locked ${locked.length} manually staged contacts before the first funnel tier run`);
+    }
+  }
+
+  /**
+   * Seed the original hard-coded thresholds whenever the rules table is empty
+   * (disable rules rather than deleting them all to pause tiering)
+   * - Active Search: > 1M streams OR WoW growth > 50%
+   * - Watch List: > 100K streams OR WoW growth > 20%
+   */
+  async ensureDefaultFunnelTierRules(): Promise<void> {
+    const existing = await db.select({ id: funnelTierRules.id }).from(funnelTierRules).limit(1);
+    if (existing.length > 0) return;
+
+    await db.insert(funnelTierRules).values([
+      { name: 'Active Search', stage: 'search', minStreams: 1_000_000, minWowPct: 50, priority: 20 },
+      { name: 'Watch List', stage: 'watch', minStreams: 100_000, minWowPct: 20, priority: 10 },
+    ]);
+    console.log('Seeded default funnel tier rules');
   }
 
   /**
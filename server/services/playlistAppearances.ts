@@ -0,0 +1,84 @@
+/**
+ * Cross-playlist appearances
+ * Aggregates the per-playlist snapshot rows of a track, or of every track a contact wrote,
+ * into one entry per tracked playlist with first/last seen dates and combined follower reach.
+ *
+ * Playlist momentum counts the distinct editorial playlists that first picked the writer up
+ * within the last MOMENTUM_WINDOW_DAYS.
+ */
+
+import { storage } from "../storage";
+
+export const MOMENTUM_WINDOW_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface PlaylistAppearance {
+  playlistId: string;
+  playlistName: string;
+  isEditorial: boolean;
+  followers: number | null;
+  imageUrl: string | null;
+  trackCount: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface PlaylistMomentum {
+  score: number; // Distinct editorial pickups in the window
+  level: 'high' | 'medium' | 'low' | 'none';
+  windowDays: number;
+  playlists: string[];
+}
+
+export interface PlaylistAppearanceSummary {
+  appearances: PlaylistAppearance[];
+  totalPlaylists: number;
+  editorialPlaylists: number;
+  combinedReach: number;
+  momentum: PlaylistMomentum;
+}
+
+function getMomentumLevel(score: number): PlaylistMomentum['level'] {
+  if (score >= 3) return 'high';
+  if (score === 2) return 'medium';
+  if (score === 1) return 'low';
+  return 'none';
+}
+
+export function calculatePlaylistMomentum(appearances: PlaylistAppearance[], now: Date = new Date()): PlaylistMomentum {
+  const windowStart = now.getTime() - MOMENTUM_WINDOW_DAYS * MS_PER_DAY;
+  const pickups = appearances.filter(a => a.isEditorial && a.firstSeenAt.getTime() >= windowStart);
+
+  return {
+    score: pickups.length,
+    level: getMomentumLevel(pickups.length),
+    windowDays: MOMENTUM_WINDOW_DAYS,
+    playlists: pickups.map(a => a.playlistName),
+  };
+}
+
+async function summarizeAppearances(spotifyUrls: string[]): Promise<PlaylistAppearanceSummary> {
+  const rows = await storage.getPlaylistAppearances(Array.from(new Set(spotifyUrls)));
+  const appearances: PlaylistAppearance[] = rows.map(row => ({
+    ...row,
+    isEditorial: row.isEditorial === 1,
+  }));
+
+  return {
+    appearances,
+    totalPlaylists: appearances.length,
+    editorialPlaylists: appearances.filter(a => a.isEditorial).length,
+    combinedReach: appearances.reduce((sum, a) => sum + (a.followers || 0), 0),
+    momentum: calculatePlaylistMomentum(appearances),
+  };
+}
+
+export async function getTrackPlaylistAppearances(spotifyUrl: string): Promise<PlaylistAppearanceSummary> {
+  return summarizeAppearances([spotifyUrl]);
+}
+
+export async function getContactPlaylistAppearances(contactId: string): Promise<PlaylistAppearanceSummary> {
+  const tracks = await storage.getContactTracks(contactId);
+  return summarizeAppearances(tracks.map(track => track.spotifyUrl));
+}
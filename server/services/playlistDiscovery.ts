@@ -0,0 +1,274 @@
+/**
+ * Playlist discovery
+ * Finds untracked playlists carrying tracks by high-score contacts and queues them for review.
+ *
+ * Sources, per contact:
+ *   - Chartmetric current playlists for each track with a Chartmetric ID (confirmed placement)
+ *   - Chartmetric playlist search by songwriter name and Spotify playlist search by track + artist (name match only)
+ *
+ * Candidates rank by overlap: each matched contact adds unsignedScore / 10, weighted by
+ * SEARCH_MATCH_WEIGHT when the only evidence for that contact is a search hit.
+ * Already-tracked playlists are skipped; dismissed candidates keep their status on later runs.
+ */
+
+import { storage } from "../storage";
+import { getTrackPlaylists, searchPlaylists } from "../chartmetric";
+import { getUncachableSpotifyClient } from "../spotify";
+import type { MaxInt, SimplifiedPlaylist } from "@spotify/web-api-ts-sdk";
+import { broadcast } from "../websocket";
+import { providerLimiters } from "./rateLimiters";
+import type { InsertPlaylistCandidate, PlaylistSnapshot } from "../../shared/schema";
+
+export const DISCOVERY_MIN_SCORE = 7; // Matches the "high-scoring contact" threshold in metricsService
+const DISCOVERY_CONTACT_LIMIT = 25;
+const TRACKS_PER_CONTACT = 5;
+const SEARCH_RESULT_LIMIT: MaxInt<50> = 10;
+const SEARCH_MATCH_WEIGHT = 0.5;
+
+export type DiscoverySource = 'chartmetric_track' | 'chartmetric_search' | 'spotify_search';
+
+export interface MatchedContact {
+  contactId: string;
+  songwriterName: string;
+  unsignedScore: number;
+  trackNames: string[];
+}
+
+export interface PlaylistDiscoveryOptions {
+  minScore?: number;
+  contactLimit?: number;
+}
+
+export interface PlaylistDiscoveryResult {
+  contactsScanned: number;
+  tracksScanned: number;
+  candidatesFound: number;
+  skippedTracked: number;
+}
+
+interface DiscoveredPlaylist {
+  platformId: string;
+  name: string;
+  imageUrl?: string;
+  curator?: string;
+  followers?: number;
+  totalTracks?: number;
+  isEditorial: boolean;
+  chartmetricId?: string;
+}
+
+interface CandidateAccumulator {
+  playlist: DiscoveredPlaylist;
+  sources: Set<DiscoverySource>;
+  contacts: Map<string, MatchedContact & { confirmed: boolean }>;
+  trackUrls: Set<string>;
+}
+
+let discoveryRunning = false;
+
+export function isPlaylistDiscoveryRunning(): boolean {
+  return discoveryRunning;
+}
+
+// One row per song, preferring rows Chartmetric has matched
+function pickSeedTracks(tracks: PlaylistSnapshot[]): PlaylistSnapshot[] {
+  const byUrl = new Map<string, PlaylistSnapshot>();
+  for (const track of tracks) {
+    const existing = byUrl.get(track.spotifyUrl);
+    if (!existing || (!existing.chartmetricId && track.chartmetricId)) {
+      byUrl.set(track.spotifyUrl, track);
+    }
+  }
+  return Array.from(byUrl.values()).slice(0, TRACKS_PER_CONTACT);
+}
+
+function toCandidate(accumulator: CandidateAccumulator): InsertPlaylistCandidate {
+  const { playlist } = accumulator;
+  const matchedContacts = Array.from(accumulator.contacts.values());
+  const overlapScore = matchedContacts.reduce(
+    (sum, c) => sum + (c.unsignedScore / 10) * (c.confirmed ? 1 : SEARCH_MATCH_WEIGHT),
+    0
+  );
+
+  return {
+    playlistId: playlist.platformId,
+    name: playlist.name,
+    spotifyUrl: `https://open.spotify.com/playlist/${playlist.platformId}`,
+    imageUrl: playlist.imageUrl ?? null,
+    curator: playlist.curator ?? null,
+    followers: playlist.followers ?? null,
+    totalTracks: playlist.totalTracks ?? null,
+    isEditorial: playlist.isEditorial ? 1 : 0,
+    chartmetricId: playlist.chartmetricId ?? null,
+    sources: Array.from(accumulator.sources),
+    overlapScore: Math.round(overlapScore * 100) / 100,
+    matchedContactCount: matchedContacts.length,
+    matchedTrackCount: accumulator.trackUrls.size,
+    matchedContacts: JSON.stringify(matchedContacts.map(({ confirmed, ...contact }) => contact)),
+    lastDiscoveredAt: new Date(),
+  };
+}
+
+/**
+ * Run one discovery pass and upsert the ranked candidates into the review queue
+ */
+export async function runPlaylistDiscovery(options: PlaylistDiscoveryOptions = {}): Promise<PlaylistDiscoveryResult> {
+  if (discoveryRunning) {
+    throw new Error("Playlist discovery is already running");
+  }
+
+  discoveryRunning = true;
+  const minScore = options.minScore ?? DISCOVERY_MIN_SCORE;
+  const contactLimit = options.contactLimit ?? DISCOVERY_CONTACT_LIMIT;
+
+  try {
+    console.log(`🔭 Playlist discovery: scanning up to ${contactLimit} contacts with score >= ${minScore}`);
+
+    const [contacts, trackedPlaylists] = await Promise.all([
+      storage.getContacts({ minScore, sortField: "unsignedScore", sortDirection: "desc", limit: contactLimit }),
+      storage.getTrackedPlaylists(),
+    ]);
+    const trackedIds = new Set(trackedPlaylists.map(p => p.playlistId));
+
+    let spotify: Awaited<ReturnType<typeof getUncachableSpotifyClient>> | null = null;
+    try {
+      spotify = await getUncachableSpotifyClient();
+    } catch (error: any) {
+      console.log(`⚠️  Playlist discovery: Spotify unavailable, skipping Spotify search (${error.message})`);
+    }
+
+    const candidates = new Map<string, CandidateAccumulator>();
+    const skippedTracked = new Set<string>();
+    let tracksScanned = 0;
+
+    const addMatch = (
+      playlist: DiscoveredPlaylist,
+      source: DiscoverySource,
+      contact: { id: string; songwriterName: string; unsignedScore: number | null },
+      track: PlaylistSnapshot | null
+    ) => {
+      if (!playlist.platformId) return;
+      if (trackedIds.has(playlist.platformId)) {
+        skippedTracked.add(playlist.platformId);
+        return;
+      }
+
+      let accumulator = candidates.get(playlist.platformId);
+      if (!accumulator) {
+        accumulator = { playlist, sources: new Set(), contacts: new Map(), trackUrls: new Set() };
+        candidates.set(playlist.platformId, accumulator);
+      } else {
+        // Fill gaps from later sources without overwriting what we already have
+        const existing = accumulator.playlist;
+        existing.imageUrl = existing.imageUrl ?? playlist.imageUrl;
+        existing.curator = existing.curator ?? playlist.curator;
+        existing.followers = existing.followers ?? playlist.followers;
+        existing.totalTracks = existing.totalTracks ?? playlist.totalTracks;
+        existing.chartmetricId = existing.chartmetricId ?? playlist.chartmetricId;
+        existing.isEditorial = existing.isEditorial || playlist.isEditorial;
+      }
+
+      accumulator.sources.add(source);
+
+      const confirmed = source === 'chartmetric_track';
+      let matched = accumulator.contacts.get(contact.id);
+      if (!matched) {
+        matched = {
+          contactId: contact.id,
+          songwriterName: contact.songwriterName,
+          unsignedScore: contact.unsignedScore ?? 0,
+          trackNames: [],
+          confirmed,
+        };
+        accumulator.contacts.set(contact.id, matched);
+      }
+      matched.confirmed = matched.confirmed || confirmed;
+
+      if (track && confirmed) {
+        accumulator.trackUrls.add(track.spotifyUrl);
+        if (!matched.trackNames.includes(track.trackName)) {
+          matched.trackNames.push(track.trackName);
+        }
+      }
+    };
+
+    for (const contact of contacts) {
+      const seedTracks = pickSeedTracks(await storage.getContactTracks(contact.id));
+      tracksScanned += seedTracks.length;
+
+      for (const track of seedTracks) {
+        if (track.chartmetricId) {
+          const placements = await getTrackPlaylists(track.chartmetricId!);
+          for (const p of placements) {
+            addMatch({
+              platformId: p.platformId!,
+              name: p.name,
+              imageUrl: p.imageUrl,
+              curator: p.curator,
+              followers: p.followerCount,
+              totalTracks: p.trackCount,
+              isEditorial: !!p.isEditorial,
+              chartmetricId: p.id || undefined,
+            }, 'chartmetric_track', contact, track);
+          }
+        }
+
+        if (spotify) {
+          try {
+            const client = spotify;
+            const results = await providerLimiters.spotify.schedule(() =>
+              client.search(`${track.trackName} ${track.artistName}`, ["playlist"], undefined, SEARCH_RESULT_LIMIT)
+            );
+            // The SDK types search items without their track count, and Spotify returns null entries for playlists it can't show
+            const playlists = (results.playlists?.items ?? []) as Array<SimplifiedPlaylist | null>;
+            for (const p of playlists) {
+              if (!p?.id) continue;
+              addMatch({
+                platformId: p.id,
+                name: p.name,
+                imageUrl: p.images?.[0]?.url,
+                curator: p.owner?.display_name || p.owner?.id,
+                totalTracks: p.tracks?.total,
+                isEditorial: p.owner?.id === 'spotify',
+              }, 'spotify_search', contact, track);
+            }
+          } catch (error: any) {
+            console.error(`❌ Playlist discovery: Spotify search failed for "${track.trackName}":`, error.message);
+          }
+        }
+      }
+
+      const searchResults = await searchPlaylists(contact.songwriterName, 'spotify', SEARCH_RESULT_LIMIT);
+      for (const p of searchResults) {
+        if (!p.platformId || (p.platform && p.platform !== 'spotify')) continue;
+        addMatch({
+          platformId: p.platformId,
+          name: p.name,
+          imageUrl: p.imageUrl,
+          curator: p.curator,
+          followers: p.followerCount,
+          totalTracks: p.trackCount,
+          isEditorial: p.curator?.toLowerCase() === 'spotify',
+          chartmetricId: p.id || undefined,
+        }, 'chartmetric_search', contact, null);
+      }
+    }
+
+    const rows = Array.from(candidates.values()).map(toCandidate);
+    await storage.upsertPlaylistCandidates(rows);
+
+    const result: PlaylistDiscoveryResult = {
+      contactsScanned: contacts.length,
+      tracksScanned,
+      candidatesFound: rows.length,
+      skippedTracked: skippedTracked.size,
+    };
+
+    console.log(`✅ Playlist discovery: ${rows.length} candidates from ${contacts.length} contacts (${skippedTracked.size} already tracked)`);
+    broadcast('playlist_discovery_complete', result);
+
+    return result;
+  } finally {
+    discoveryRunning = false;
+  }
+}
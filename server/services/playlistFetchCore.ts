@@ -5,13 +5,14 @@
 
 import type { PlaylistFetchOptions } from "./playlistFetchService";
 import { PlaylistValidationError, PlaylistFetchError } from "./playlistFetchErrors";
-import { playlistLimiter, chartmetricLimiter, spotifyLimiter, puppeteerLimiter, delay, CHARTMETRIC_DELAY_MS } from "./rateLimiters";
+import { playlistLimiter, providerLimiters, puppeteerLimiter } from "./rateLimiters";
 import { storage } from "../storage";
 import { getUncachableSpotifyClient } from "../spotify";
 import { getPlaylistTracks } from "../chartmetric";
 import { calculateUnsignedScore } from "../scoring";
 import type { InsertPlaylistSnapshot } from "../../shared/schema";
 import { scheduleMetricsUpdate } from "../metricsUpdateManager";
+import { recordPlaylistPositions, logTrackRemovals, type ObservedPosition } from "./playlistPositions";
 
 export interface PlaylistFetchResult {
   success: boolean;
@@ -30,6 +31,7 @@ interface SinglePlaylistResult {
   playlistName: string;
   playlistId: string;
   newTracks: InsertPlaylistSnapshot[];
+  positions: ObservedPosition[]; // Every track seen on this fetch, including ones already stored this week
   completeness: {
     name: string;
     fetchCount: number;
@@ -54,6 +56,7 @@ async function fetchSinglePlaylist(
   console.log(`[Playlist ${playlist.playlistId}] Starting fetch for ${playlist.name} (isEditorial=${playlist.isEditorial})`);
 
   const newTracks: InsertPlaylistSnapshot[] = [];
+  const positions: ObservedPosition[] = [];
   let playlistTotalTracks = playlist.totalTracks;
   let skippedCount = 0;
   let fetchMethod: string | null = null;
@@ -63,20 +66,16 @@ async function fetchSinglePlaylist(
     try {
       console.log(`[Playlist ${playlist.playlistId}] Trying Chartmetric...`);
 
-      const cmTracks = await chartmetricLimiter(async () => {
-        try {
-          return await getPlaylistTracks(playlist.playlistId, 'spotify');
-        } finally {
-          // ALWAYS enforce 2-second delay (even on error) to prevent rate limit violations
-          await delay(CHARTMETRIC_DELAY_MS);
-        }
-      });
+      // Paced by the shared Chartmetric limiter inside the client
+      const cmTracks = await getPlaylistTracks(playlist.playlistId, 'spotify');
 
       if (cmTracks && cmTracks.length > 0) {
         console.log(`[Playlist ${playlist.playlistId}] ✅ Chartmetric: ${cmTracks.length} tracks`);
 
         for (const cmTrack of cmTracks) {
           const trackKey = `${playlist.id}_https://open.spotify.com/track/${cmTrack.spotifyId}`;
+          const position = cmTrack.position ?? positions.length + 1;
+          positions.push({ spotifyUrl: `https://open.spotify.com/track/${cmTrack.spotifyId}`, position });
 
           // Synchronous check before any await to prevent race conditions
           if (existingTrackKeys.has(trackKey)) {
@@ -96,6 +95,7 @@ async function fetchSinglePlaylist(
             label: null,
             unsignedScore: null,
             addedAt: new Date(),
+            position,
             dataSource: "chartmetric",
             chartmetricId: cmTrack.chartmetricId ? String(cmTrack.chartmetricId) : null,
             chartmetricStatus: "completed",
@@ -120,6 +120,7 @@ async function fetchSinglePlaylist(
           playlistName: playlist.name,
           playlistId: playlist.id,
           newTracks,
+          positions,
           completeness: {
             name: playlist.name,
             fetchCount: cmTracks.length - skippedCount,
@@ -140,7 +141,7 @@ async function fetchSinglePlaylist(
       try {
         console.log(`[Playlist ${playlist.playlistId}] Trying Spotify API...`);
 
-        const playlistData = await spotifyLimiter(() =>
+        const playlistData = await providerLimiters.spotify.schedule<any>(() =>
           spotify.playlists.getPlaylist(playlist.playlistId)
         );
         playlistTotalTracks = playlistData.tracks?.total || 0;
@@ -149,7 +150,7 @@ async function fetchSinglePlaylist(
         const limit = 100;
 
         while (offset < (playlistTotalTracks ?? 0)) {
-          const tracksPage = await spotifyLimiter(() =>
+          const tracksPage = await providerLimiters.spotify.schedule<any>(() =>
             spotify.playlists.getPlaylistItems(
               playlist.playlistId,
               undefined,
@@ -161,10 +162,15 @@ async function fetchSinglePlaylist(
 
           if (!tracksPage.items) break;
 
+          let position = offset;
           for (const item of tracksPage.items) {
-            if (!item.track?.id) continue;
+            position++;
+            // Local and unavailable tracks have no URL to key positions and snapshots on
+            const spotifyUrl: string | undefined = item.track?.external_urls?.spotify;
+            if (!item.track?.id || !spotifyUrl) continue;
 
-            const trackKey = `${playlist.id}_${item.track.external_urls?.spotify}`;
+            const trackKey = `${playlist.id}_${spotifyUrl}`;
+            positions.push({ spotifyUrl, position });
 
             // Synchronous check before any await
             if (existingTrackKeys.has(trackKey)) {
@@ -178,7 +184,7 @@ async function fetchSinglePlaylist(
               playlistId: playlist.id,
               trackName: item.track.name,
               artistName: item.track.artists?.map((a: any) => a.name).join(", ") || "Unknown",
-              spotifyUrl: item.track.external_urls?.spotify || "",
+              spotifyUrl,
               spotifyTrackId: item.track.id,
               albumArt: item.track.album?.images?.[0]?.url || null,
               isrc: (item.track as any).external_ids?.isrc || null,
@@ -187,6 +193,7 @@ async function fetchSinglePlaylist(
               popularity: (item.track as any).popularity || null,
               unsignedScore: null,
               addedAt: new Date(),
+              position,
               dataSource: "spotify_api",
             };
 
@@ -212,6 +219,7 @@ async function fetchSinglePlaylist(
           playlistName: playlist.name,
           playlistId: playlist.id,
           newTracks,
+          positions,
           completeness: {
             name: playlist.name,
             fetchCount: newTracks.length,
@@ -239,6 +247,7 @@ async function fetchSinglePlaylist(
         if (puppeteerTracks && puppeteerTracks.length > 0) {
           for (const track of puppeteerTracks) {
             const trackKey = `${playlist.id}_${track.spotifyUrl}`;
+            positions.push({ spotifyUrl: track.spotifyUrl, position: track.position });
 
             // Synchronous check before any await
             if (existingTrackKeys.has(trackKey)) {
@@ -257,6 +266,7 @@ async function fetchSinglePlaylist(
               isrc: track.isrc,
               unsignedScore: null,
               addedAt: new Date(),
+              position: track.position,
               dataSource: "puppeteer",
             };
 
@@ -336,6 +346,7 @@ async function fetchSinglePlaylist(
             playlistName: playlist.name,
             playlistId: playlist.id,
             newTracks,
+            positions,
             completeness: {
               name: playlist.name,
               fetchCount: puppeteerTracks.length - skippedCount,
@@ -364,6 +375,7 @@ async function fetchSinglePlaylist(
       playlistName: playlist.name,
       playlistId: playlist.id,
       newTracks: [],
+      positions: [],
       completeness: {
         name: playlist.name,
         fetchCount: 0,
@@ -384,6 +396,7 @@ async function fetchSinglePlaylist(
       playlistName: playlist.name,
       playlistId: playlist.id,
       newTracks: [],
+      positions: [],
       completeness: {
         name: playlist.name,
         fetchCount: 0,
@@ -531,6 +544,22 @@ export async function fetchPlaylistsCore(options: PlaylistFetchOptions): Promise
     }
   }
 
+  // Record position changes, including tracks already stored this week
+  for (const result of results) {
+    if (result.status !== 'fulfilled') continue;
+    const { playlistId, playlistName, positions, completeness, error } = result.value;
+    if (error || positions.length === 0) continue;
+
+    try {
+      const isComplete = completeness.isComplete || positions.length >= (completeness.totalTracks ?? Infinity);
+      const changes = await recordPlaylistPositions(playlistId, today, positions, isComplete);
+      await logTrackRemovals(playlistId, playlistName, changes.removed);
+      console.log(`📈 ${playlistName}: ${changes.entered} entered, ${changes.moved} moved, ${changes.removed.length} removed`);
+    } catch (error: any) {
+      console.error(`❌ Failed to record positions for "${playlistName}":`, error.message);
+    }
+  }
+
   return {
     success: true,
     tracksInserted: allTracks.length,
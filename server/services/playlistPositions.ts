@@ -0,0 +1,153 @@
+/**
+ * Playlist position tracking
+ * Records each fetch's track order into track_position_history.
+ * Only changes are written: a track entering (no previous position), moving, or leaving (null position).
+ * The timeline also drives the computed daysOnPlaylist/removedAt returned with tracks.
+ */
+
+import { storage } from "../storage";
+import type { InsertTrackPositionHistory, PlaylistSnapshot, PlaylistTenure } from "../../shared/schema";
+
+export interface ObservedPosition {
+  spotifyUrl: string;
+  position: number;
+}
+
+export interface PositionChangeSummary {
+  entered: number;
+  moved: number;
+  removed: Array<{ spotifyUrl: string; previousPosition: number }>;
+}
+
+/**
+ * Diff a fetch against each track's last known position and append the changes.
+ * Removals are only detected from complete fetches, so a partial page doesn't read as a mass drop-off.
+ */
+export async function recordPlaylistPositions(
+  playlistId: string,
+  week: string,
+  observed: ObservedPosition[],
+  isComplete: boolean
+): Promise<PositionChangeSummary> {
+  const summary: PositionChangeSummary = { entered: 0, moved: 0, removed: [] };
+
+  // Keep the first occurrence if a track appears twice in one fetch
+  const current = new Map<string, number>();
+  for (const { spotifyUrl, position } of observed) {
+    if (!current.has(spotifyUrl)) {
+      current.set(spotifyUrl, position);
+    }
+  }
+
+  const latest = await storage.getLatestTrackPositions(playlistId);
+  const previous = new Map(latest.map(entry => [entry.spotifyUrl, entry.position]));
+  const changes: InsertTrackPositionHistory[] = [];
+
+  current.forEach((position, spotifyUrl) => {
+    const previousPosition = previous.get(spotifyUrl) ?? null;
+
+    if (previousPosition === null) {
+      summary.entered++;
+      changes.push({ playlistId, spotifyUrl, position, previousPosition: null });
+    } else if (previousPosition !== position) {
+      summary.moved++;
+      changes.push({ playlistId, spotifyUrl, position, previousPosition });
+    }
+  });
+
+  if (isComplete) {
+    previous.forEach((previousPosition, spotifyUrl) => {
+      if (previousPosition === null || current.has(spotifyUrl)) return;
+
+      summary.removed.push({ spotifyUrl, previousPosition });
+      changes.push({ playlistId, spotifyUrl, position: null, previousPosition });
+    });
+  }
+
+  await storage.insertTrackPositionHistory(changes);
+  await storage.updateTrackPositions(
+    playlistId,
+    week,
+    Array.from(current, ([spotifyUrl, position]) => ({ spotifyUrl, position }))
+  );
+
+  return summary;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const TENURE_CHUNK_SIZE = 1000;
+
+/**
+ * Log each removal as an activity event on the track's latest snapshot row
+ */
+export async function logTrackRemovals(
+  playlistId: string,
+  playlistName: string,
+  removed: PositionChangeSummary["removed"]
+): Promise<void> {
+  if (removed.length === 0) return;
+
+  const trackIds = await storage.getLatestTrackIdsByUrl(playlistId, removed.map(r => r.spotifyUrl));
+  const tracks = await storage.getTracksByIds(Array.from(trackIds.values()));
+  const withTenure = await attachPlaylistTenure(tracks);
+  const tenureById = new Map(withTenure.map(track => [track.id, track.daysOnPlaylist]));
+
+  for (const { spotifyUrl, previousPosition } of removed) {
+    const trackId = trackIds.get(spotifyUrl);
+    if (!trackId) continue;
+
+    const daysOnPlaylist = tenureById.get(trackId) ?? null;
+    await storage.logActivity({
+      entityType: 'track',
+      trackId,
+      playlistId: null,
+      eventType: 'track_removed_from_playlist',
+      eventDescription: `Removed from ${playlistName} (was #${previousPosition}${daysOnPlaylist !== null ? ` after ${daysOnPlaylist} days` : ''})`,
+      metadata: JSON.stringify({ playlistId, previousPosition, daysOnPlaylist }),
+    });
+  }
+}
+
+/**
+ * Add daysOnPlaylist and removedAt to tracks.
+ * Tenure runs from the first snapshot of the track on its playlist until now, or until its latest removal.
+ */
+export async function attachPlaylistTenure<T extends PlaylistSnapshot>(tracks: T[]): Promise<Array<T & PlaylistTenure>> {
+  if (tracks.length === 0) return [];
+
+  const key = (playlistId: string, spotifyUrl: string) => `${playlistId}_${spotifyUrl}`;
+  const firstSeenByKey = new Map<string, Date>();
+  const removedByKey = new Map<string, Date>();
+
+  // Chunked to stay well under the Postgres bind parameter limit on unpaginated track lists
+  for (let i = 0; i < tracks.length; i += TENURE_CHUNK_SIZE) {
+    const chunk = tracks.slice(i, i + TENURE_CHUNK_SIZE);
+    const { firstSeen, latestPositions } = await storage.getPlaylistTenureData(
+      Array.from(new Set(chunk.map(t => t.playlistId))),
+      Array.from(new Set(chunk.map(t => t.spotifyUrl)))
+    );
+
+    for (const row of firstSeen) {
+      firstSeenByKey.set(key(row.playlistId, row.spotifyUrl), new Date(row.firstSeenAt));
+    }
+    for (const entry of latestPositions) {
+      if (entry.position === null) {
+        removedByKey.set(key(entry.playlistId, entry.spotifyUrl), new Date(entry.observedAt));
+      }
+    }
+  }
+
+  const now = Date.now();
+  return tracks.map(track => {
+    const trackKey = key(track.playlistId, track.spotifyUrl);
+    const firstSeenAt = firstSeenByKey.get(trackKey);
+    const removedAt = removedByKey.get(trackKey) ?? null;
+    const endTime = removedAt ? removedAt.getTime() : now;
+
+    return {
+      ...track,
+      daysOnPlaylist: firstSeenAt ? Math.max(0, Math.floor((endTime - firstSeenAt.getTime()) / MS_PER_DAY)) : null,
+      removedAt,
+    };
+  });
+}
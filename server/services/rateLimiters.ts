@@ -1,24 +1,317 @@
 /**
  * Rate limiter utilities for external API providers
  * Ensures we don't exceed rate limits when processing playlists in parallel
+ *
+ * Buckets live in each process, so the configured rates are split across every process that
+ * calls providers: API_RATE_LIMIT_PROCESSES (default 1) is the web server plus each worker
+ * process. Daily quotas are shared through api_quota_usage.
  */
 
 import pLimit from 'p-limit';
+import { storage } from "../storage";
+
+export type RateLimitedProvider = 'spotify' | 'chartmetric' | 'musicbrainz' | 'mlc' | 'youtube' | 'openai';
+
+interface ProviderLimitConfig {
+  label: string;
+  requestsPerSecond: number; // Steady refill rate of the token bucket
+  burst: number; // Bucket size: requests allowed back to back after an idle spell
+  dailyQuota: number | null; // Units per UTC day; null when the provider has no daily cap
+  unitLabel: string;
+}
+
+// <PROVIDER>_DAILY_QUOTA overrides the default, e.g. CHARTMETRIC_DAILY_QUOTA=20000
+function dailyQuotaFromEnv(provider: RateLimitedProvider, fallback: number | null): number | null {
+  const value = process.env[`${provider.toUpperCase()}_DAILY_QUOTA`];
+  if (!value) return fallback;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Processes sharing each provider's rate limit; every bucket gets an equal share
+const RATE_LIMIT_PROCESSES = Math.max(1, parseInt(process.env.API_RATE_LIMIT_PROCESSES || "1", 10) || 1);
+
+export const PROVIDER_LIMITS: Record<RateLimitedProvider, ProviderLimitConfig> = {
+  spotify: { label: 'Spotify', requestsPerSecond: 5, burst: 10, dailyQuota: dailyQuotaFromEnv('spotify', null), unitLabel: 'requests' },
+  // 30 requests/minute on our plan
+  chartmetric: { label: 'Chartmetric', requestsPerSecond: 0.5, burst: 1, dailyQuota: dailyQuotaFromEnv('chartmetric', null), unitLabel: 'requests' },
+  // MusicBrainz asks for at most one request per second per client
+  musicbrainz: { label: 'MusicBrainz', requestsPerSecond: 1, burst: 1, dailyQuota: dailyQuotaFromEnv('musicbrainz', null), unitLabel: 'requests' },
+  mlc: { label: 'MLC', requestsPerSecond: 2, burst: 2, dailyQuota: dailyQuotaFromEnv('mlc', null), unitLabel: 'requests' },
+  // 10,000 units/day hard limit; we stop at 8,000 to leave margin for concurrent workers
+  youtube: { label: 'YouTube', requestsPerSecond: 10, burst: 10, dailyQuota: dailyQuotaFromEnv('youtube', 8000), unitLabel: 'quota units' },
+  openai: { label: 'OpenAI', requestsPerSecond: 1, burst: 3, dailyQuota: dailyQuotaFromEnv('openai', null), unitLabel: 'tokens' },
+};
+
+export interface ProviderQuotaStatus {
+  provider: RateLimitedProvider;
+  label: string;
+  unitLabel: string;
+  dailyQuota: number | null;
+  usedToday: number;
+  remaining: number | null;
+  requestsPerSecond: number; // Current adaptive rate, below the configured rate after a 429
+  configuredRequestsPerSecond: number;
+  backedOffUntil: string | null;
+}
+
+export class QuotaExhaustedError extends Error {
+  constructor(readonly provider: RateLimitedProvider) {
+    super(`Daily ${PROVIDER_LIMITS[provider].label} quota exhausted`);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_BACKOFF_MS = 60_000;
+const USAGE_FLUSH_MS = 2000;
+// How often a capped provider re-reads today's usage, which other processes add to
+const QUOTA_RECHECK_MS = 10_000;
+
+function quotaDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
 
 /**
- * Chartmetric API rate limiter
- * - Limit: 30 requests/minute (~1 request every 2 seconds)
- * - Global limiter shared across all playlists
+ * Retry-After is either a number of seconds or an HTTP date
  */
-export const chartmetricLimiter = pLimit(1);
-export const CHARTMETRIC_DELAY_MS = 2000; // 2 seconds between requests
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// SDK errors (Spotify, OpenAI) carry the status and sometimes the headers
+function rateLimitFromError(error: any): { limited: boolean; retryAfterMs: number | null } {
+  const limited = error?.status === 429 || (typeof error?.message === 'string' && error.message.includes('429'));
+  const headers = error?.headers;
+  const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  return { limited, retryAfterMs: limited ? parseRetryAfter(retryAfter) : null };
+}
 
 /**
- * Spotify API rate limiter
- * - Allows 3-5 concurrent requests
- * - Shared across all playlists to avoid token refresh churn
+ * Token bucket for one provider, shared by everything in this process that calls it.
+ *
+ * A 429 halves the refill rate and pauses the bucket for Retry-After (or an exponential
+ * backoff when the provider doesn't send one); each success then recovers 10% of the
+ * configured rate. Every call is counted toward the provider's daily usage in api_quota_usage.
  */
-export const spotifyLimiter = pLimit(3);
+export class ProviderRateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private rate: number;
+  private pausedUntil = 0;
+  private consecutiveRateLimits = 0;
+  private pendingUnits = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private requestsPerSecond: number;
+  private burst: number;
+  private storedUsage = 0;
+  private unitsSinceQuotaCheck = 0;
+  private quotaCheckedAt = 0;
+
+  constructor(readonly provider: RateLimitedProvider, private config: ProviderLimitConfig) {
+    this.requestsPerSecond = config.requestsPerSecond / RATE_LIMIT_PROCESSES;
+    this.burst = Math.max(1, Math.floor(config.burst / RATE_LIMIT_PROCESSES));
+    this.tokens = this.burst;
+    this.rate = this.requestsPerSecond;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Refuse a call once today's quota is spent, counting every process's usage. Usage
+   * recorded by other processes is picked up every QUOTA_RECHECK_MS.
+   */
+  private async ensureQuotaAvailable(units: number): Promise<void> {
+    if (this.config.dailyQuota === null) return;
+
+    if (Date.now() - this.quotaCheckedAt > QUOTA_RECHECK_MS) {
+      this.storedUsage = await storage.getQuotaUsage(this.provider, quotaDate());
+      this.unitsSinceQuotaCheck = this.pendingUnits;
+      this.quotaCheckedAt = Date.now();
+    }
+
+    if (this.storedUsage + this.unitsSinceQuotaCheck + units > this.config.dailyQuota) {
+      throw new QuotaExhaustedError(this.provider);
+    }
+  }
+
+  async acquire(): Promise<void> {
+    while (true) {
+      const pausedFor = this.pausedUntil - Date.now();
+      if (pausedFor > 0) {
+        await delay(pausedFor);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await delay(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+    }
+  }
+
+  noteRateLimited(retryAfterMs: number | null): void {
+    this.consecutiveRateLimits++;
+    this.rate = Math.max(this.requestsPerSecond / 10, this.rate / 2);
+    const backoffMs = retryAfterMs ?? Math.min(MAX_BACKOFF_MS, 1000 * Math.pow(2, this.consecutiveRateLimits));
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + backoffMs);
+    this.tokens = 0;
+    console.warn(`[RateLimit] ${this.config.label} rate limited; pausing ${Math.round(backoffMs / 1000)}s, rate now ${this.rate.toFixed(2)}/s`);
+  }
+
+  noteSuccess(): void {
+    this.consecutiveRateLimits = 0;
+    if (this.rate < this.requestsPerSecond) {
+      this.rate = Math.min(this.requestsPerSecond, this.rate + this.requestsPerSecond / 10);
+    }
+  }
+
+  /**
+   * Count usage toward today's quota. Writes are batched; the buffered units still count
+   * toward this process's remaining budget.
+   */
+  recordUsage(units: number = 1): void {
+    if (units <= 0) return;
+    this.pendingUnits += units;
+    this.unitsSinceQuotaCheck += units;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flushUsage().catch(error => console.error(`[RateLimit] Failed to record ${this.config.label} usage:`, error));
+      }, USAGE_FLUSH_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  async flushUsage(): Promise<void> {
+    if (this.pendingUnits === 0) return;
+    const units = this.pendingUnits;
+    this.pendingUnits = 0;
+    try {
+      await storage.incrementQuotaUsage(this.provider, quotaDate(), units);
+    } catch (error) {
+      this.pendingUnits += units;
+      throw error;
+    }
+  }
+
+  async getUsedToday(): Promise<number> {
+    return (await storage.getQuotaUsage(this.provider, quotaDate())) + this.pendingUnits;
+  }
+
+  // Null when the provider has no daily cap
+  async getRemainingQuota(): Promise<number | null> {
+    if (this.config.dailyQuota === null) return null;
+    return Math.max(0, this.config.dailyQuota - await this.getUsedToday());
+  }
+
+  async getStatus(): Promise<ProviderQuotaStatus> {
+    const usedToday = await this.getUsedToday();
+    return {
+      provider: this.provider,
+      label: this.config.label,
+      unitLabel: this.config.unitLabel,
+      dailyQuota: this.config.dailyQuota,
+      usedToday,
+      remaining: this.config.dailyQuota === null ? null : Math.max(0, this.config.dailyQuota - usedToday),
+      requestsPerSecond: this.rate,
+      configuredRequestsPerSecond: this.requestsPerSecond,
+      backedOffUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+    };
+  }
+
+  /**
+   * Run an SDK call under the limiter, retrying on 429. units may depend on the result,
+   * e.g. tokens used by an OpenAI completion. Throws QuotaExhaustedError once today's quota is spent.
+   */
+  async schedule<T>(fn: () => Promise<T>, options?: { units?: number | ((result: T) => number) }): Promise<T> {
+    const units = options?.units ?? 1;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.ensureQuotaAvailable(typeof units === 'function' ? 1 : units);
+      await this.acquire();
+      try {
+        const result = await fn();
+        this.noteSuccess();
+        this.recordUsage(typeof units === 'function' ? units(result) : units);
+        return result;
+      } catch (error) {
+        this.recordUsage(typeof units === 'function' ? 1 : units);
+        const { limited, retryAfterMs } = rateLimitFromError(error);
+        if (!limited) throw error;
+        this.noteRateLimited(retryAfterMs);
+        if (attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+      }
+    }
+  }
+
+  /**
+   * fetch under the limiter. A 429 is retried after Retry-After; the final response is
+   * returned either way so callers keep their own error handling. Throws QuotaExhaustedError
+   * instead of calling once today's quota is spent.
+   */
+  async fetch(input: string | URL, init?: RequestInit, options?: { units?: number }): Promise<Response> {
+    const units = options?.units ?? 1;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.ensureQuotaAvailable(units);
+      await this.acquire();
+      const response = await fetch(input, init);
+      this.recordUsage(units);
+
+      if (response.status !== 429) {
+        this.noteSuccess();
+        return response;
+      }
+
+      this.noteRateLimited(parseRetryAfter(response.headers.get('retry-after')));
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) return response;
+    }
+  }
+}
+
+export const providerLimiters: Record<RateLimitedProvider, ProviderRateLimiter> = {
+  spotify: new ProviderRateLimiter('spotify', PROVIDER_LIMITS.spotify),
+  chartmetric: new ProviderRateLimiter('chartmetric', PROVIDER_LIMITS.chartmetric),
+  musicbrainz: new ProviderRateLimiter('musicbrainz', PROVIDER_LIMITS.musicbrainz),
+  mlc: new ProviderRateLimiter('mlc', PROVIDER_LIMITS.mlc),
+  youtube: new ProviderRateLimiter('youtube', PROVIDER_LIMITS.youtube),
+  openai: new ProviderRateLimiter('openai', PROVIDER_LIMITS.openai),
+};
+
+export async function getProviderQuotaStatuses(): Promise<ProviderQuotaStatus[]> {
+  return Promise.all(
+    (Object.keys(providerLimiters) as RateLimitedProvider[]).map(provider => providerLimiters[provider].getStatus())
+  );
+}
+
+/**
+ * Providers whose remaining daily budget can't cover the estimated units
+ */
+export async function findQuotaShortfalls(
+  estimate: Partial<Record<RateLimitedProvider, number>>
+): Promise<Array<{ provider: RateLimitedProvider; label: string; required: number; remaining: number }>> {
+  const shortfalls: Array<{ provider: RateLimitedProvider; label: string; required: number; remaining: number }> = [];
+  for (const provider of Object.keys(estimate) as RateLimitedProvider[]) {
+    const required = estimate[provider] || 0;
+    if (required <= 0) continue;
+    const remaining = await providerLimiters[provider].getRemainingQuota();
+    if (remaining !== null && remaining < required) {
+      shortfalls.push({ provider, label: PROVIDER_LIMITS[provider].label, required, remaining });
+    }
+  }
+  return shortfalls;
+}
 
 /**
  * Puppeteer browser pool limiter
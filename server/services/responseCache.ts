@@ -0,0 +1,107 @@
+/**
+ * Persistent cache for external metadata lookups
+ *
+ * Responses are stored in api_response_cache keyed by provider + endpoint + params, so an ISRC
+ * resolved once isn't looked up again for every week or playlist it appears in. "Not found"
+ * results are cached too, for a shorter time, since a missing record sometimes appears later.
+ * Errors are never cached.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { storage } from "../storage";
+
+export type CachedProvider = 'chartmetric' | 'musicbrainz' | 'mlc';
+
+interface CacheTtl {
+  hitMs: number;
+  notFoundMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// <PROVIDER>_CACHE_TTL_DAYS overrides the hit TTL, e.g. MUSICBRAINZ_CACHE_TTL_DAYS=60
+function ttlFromEnv(provider: CachedProvider, fallbackDays: number): number {
+  const value = process.env[`${provider.toUpperCase()}_CACHE_TTL_DAYS`];
+  const parsed = value ? parseFloat(value) : NaN;
+  return (Number.isFinite(parsed) && parsed >= 0 ? parsed : fallbackDays) * DAY_MS;
+}
+
+export const CACHE_TTLS: Record<CachedProvider, CacheTtl> = {
+  // Chartmetric IDs for an ISRC don't change once assigned
+  chartmetric: { hitMs: ttlFromEnv('chartmetric', 30), notFoundMs: 3 * DAY_MS },
+  // Community-edited; writer credits are added over time
+  musicbrainz: { hitMs: ttlFromEnv('musicbrainz', 14), notFoundMs: 7 * DAY_MS },
+  // Registrations and publisher shares change as deals are signed
+  mlc: { hitMs: ttlFromEnv('mlc', 7), notFoundMs: 2 * DAY_MS },
+};
+
+// RESPONSE_CACHE_BYPASS=true skips reads for the whole process; fresh responses are still stored
+const globalBypass = process.env.RESPONSE_CACHE_BYPASS === 'true';
+
+const bypassScope = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run fn with cache reads skipped for every lookup it makes, e.g. an enrichment job an
+ * admin started with "bypass cache". Responses fetched inside still refresh the cache.
+ */
+export function runWithCacheBypass<T>(bypass: boolean, fn: () => Promise<T>): Promise<T> {
+  return bypassScope.run(bypass, fn);
+}
+
+function isBypassed(): boolean {
+  return globalBypass || bypassScope.getStore() === true;
+}
+
+function buildCacheKey(endpoint: string, params: Record<string, string | number | undefined>): string {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== '')
+    .sort()
+    .map(key => `${key}=${String(params[key]).trim().toUpperCase()}`)
+    .join('&');
+  return `${endpoint}:${query}`;
+}
+
+/**
+ * Return the cached response for provider + endpoint + params, or call fetcher and cache
+ * what it returns. fetcher resolves null for "not found" and throws on errors, which pass
+ * through uncached.
+ */
+export async function withResponseCache<T>(
+  provider: CachedProvider,
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  fetcher: () => Promise<T | null>
+): Promise<T | null> {
+  const cacheKey = buildCacheKey(endpoint, params);
+
+  if (!isBypassed()) {
+    try {
+      const cached = await storage.getCachedApiResponse(provider, cacheKey);
+      if (cached && cached.expiresAt.getTime() > Date.now()) {
+        storage.recordCachedApiResponseHit(cached.id)
+          .catch(error => console.error(`[ResponseCache] Failed to record hit for ${provider} ${cacheKey}:`, error));
+        return cached.notFound === 1 || cached.body === null ? null : JSON.parse(cached.body) as T;
+      }
+    } catch (error) {
+      // A cache failure shouldn't block the lookup itself
+      console.error(`[ResponseCache] Failed to read ${provider} ${cacheKey}:`, error);
+    }
+  }
+
+  const result = await fetcher();
+
+  const ttl = CACHE_TTLS[provider];
+  try {
+    await storage.upsertCachedApiResponse({
+      provider,
+      cacheKey,
+      notFound: result === null ? 1 : 0,
+      body: result === null ? null : JSON.stringify(result),
+      expiresAt: new Date(Date.now() + (result === null ? ttl.notFoundMs : ttl.hitMs)),
+    });
+  } catch (error) {
+    console.error(`[ResponseCache] Failed to store ${provider} ${cacheKey}:`, error);
+  }
+
+  return result;
+}
@@ -0,0 +1,79 @@
+/**
+ * Precedence-aware track writes
+ * The enrichment worker runs every phase patch through the field precedence policy. Routes that
+ * write track metadata directly go through writeTrackMetadata instead of storage.updateTrackMetadata,
+ * so a scrape or lookup started by hand can't overwrite a higher-precedence value either, and every
+ * write records provenance and flags disagreements for review the same way a job does.
+ */
+
+import { storage } from "../storage";
+import { loadFieldPrecedencePolicy, resolveFieldPatch, type FieldConflictCandidate } from "../enrichment/fieldPrecedence";
+import type { TrackMetadataUpdate } from "../enrichment/trackStateContext";
+import { recordAttributedProvenance, type FieldAttribution } from "./fieldProvenance";
+import type { FieldSource, PlaylistSnapshot } from "@shared/schema";
+
+/**
+ * Write metadata gathered from one source, or from several with attribution naming the source of
+ * each field. Governed fields a higher-precedence source already set are dropped; fields with no
+ * attribution (status flags, timestamps) are written as they are. Returns what was written.
+ */
+export async function writeTrackMetadata(
+  track: PlaylistSnapshot,
+  metadata: TrackMetadataUpdate,
+  sourceOrAttribution: FieldSource | FieldAttribution
+): Promise<TrackMetadataUpdate> {
+  const attribution: FieldAttribution = {};
+  if (typeof sourceOrAttribution === 'string') {
+    Object.keys(metadata).forEach(field => {
+      attribution[field] = sourceOrAttribution;
+    });
+  } else {
+    Object.assign(attribution, sourceOrAttribution);
+  }
+
+  const policy = await loadFieldPrecedencePolicy(storage);
+  const currentSources: Record<string, FieldSource> = {};
+  const latest = await storage.getLatestFieldSources([track.id], Object.keys(policy));
+  latest.forEach(({ field, source }) => {
+    currentSources[field] = source;
+  });
+
+  const bySource = new Map<FieldSource, Record<string, unknown>>();
+  const written: Record<string, unknown> = {};
+
+  Object.keys(metadata).forEach(field => {
+    const value = (metadata as Record<string, unknown>)[field];
+    const source = attribution[field];
+    if (!source) {
+      written[field] = value;
+      return;
+    }
+    if (!bySource.has(source)) {
+      bySource.set(source, {});
+    }
+    bySource.get(source)![field] = value;
+  });
+
+  const conflicts: FieldConflictCandidate[] = [];
+  Array.from(bySource.entries()).forEach(([source, patch]) => {
+    const resolved = resolveFieldPatch(track, patch as TrackMetadataUpdate, source, currentSources, policy);
+    Object.assign(written, resolved.patch);
+    conflicts.push(...resolved.conflicts);
+  });
+
+  const applied = written as TrackMetadataUpdate;
+  if (Object.keys(applied).length === 0) return applied;
+
+  await storage.updateTrackMetadata(track.id, applied);
+  await recordAttributedProvenance(track.id, applied, attribution);
+
+  if (conflicts.length > 0) {
+    try {
+      await storage.createFieldConflicts(conflicts.map(conflict => ({ ...conflict, jobId: null })));
+    } catch (error) {
+      console.error(`[FieldPrecedence] Failed to flag field conflicts for track ${track.id}:`, error);
+    }
+  }
+
+  return applied;
+}
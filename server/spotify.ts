@@ -3,6 +3,7 @@ import { db } from "./db";
 import { spotifyTokens } from "@shared/schema";
 import { encrypt, decrypt } from "./encryption";
 import { eq } from "drizzle-orm";
+import { providerLimiters } from "./services/rateLimiters";
 
 const CLIENT_ID = process.env.SPOTIFY_CLIENT_ID!;
 const CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET!;
@@ -211,7 +212,7 @@ export async function searchTrackByNameAndArtist(trackName: string, artistName:
     const query = `track:${trackName} artist:${artistName}`;
     console.log(`Searching Spotify for: ${query}`);
     
-    const results = await spotify.search(query, ["track"], undefined, 1);
+    const results = await providerLimiters.spotify.schedule(() => spotify.search(query, ["track"], undefined, 1));
     
     if (!results.tracks?.items?.length) {
       console.log(`No Spotify results found for: ${trackName} by ${artistName}`);
@@ -224,13 +225,13 @@ export async function searchTrackByNameAndArtist(trackName: string, artistName:
     
     // Fetch full track details for complete metadata
     try {
-      const fullTrack = await spotify.tracks.get(track.id);
+      const fullTrack = await providerLimiters.spotify.schedule(() => spotify.tracks.get(track.id));
       isrc = fullTrack.external_ids?.isrc || isrc;
       
       // Fetch audio features (provides mood/energy data)
       let audioFeatures;
       try {
-        const features = await spotify.tracks.audioFeatures(track.id);
+        const features = await providerLimiters.spotify.schedule(() => spotify.tracks.audioFeatures(track.id));
         audioFeatures = {
           energy: features.energy,
           danceability: features.danceability,
@@ -246,7 +247,7 @@ export async function searchTrackByNameAndArtist(trackName: string, artistName:
       const artistsData = [];
       for (const artist of fullTrack.artists.slice(0, 3)) { // Limit to 3 artists to avoid rate limits
         try {
-          const artistDetails = await spotify.artists.get(artist.id);
+          const artistDetails = await providerLimiters.spotify.schedule(() => spotify.artists.get(artist.id));
           artistsData.push({
             id: artist.id,
             name: artist.name,
@@ -333,7 +334,7 @@ export async function batchEnrichTracks(
         // - Single ID: Track
         // - Multiple IDs: { tracks: Track[] }
         // - Or Track[] (depending on SDK version/behavior)
-        const rawResponse = await spotify.tracks.get(batch);
+        const rawResponse = await providerLimiters.spotify.schedule(() => spotify.tracks.get(batch));
         const tracks = Array.isArray(rawResponse) 
           ? rawResponse 
           : (rawResponse as any).tracks ?? [rawResponse];
@@ -1,6 +1,15 @@
-import { playlistSnapshots, tags, trackTags, trackedPlaylists, activityHistory, artists, artistSongwriters, enrichmentJobs, contacts, contactTracks, songwriterProfiles, contactNotes, apiQuotaUsage, type PlaylistSnapshot, type InsertPlaylistSnapshot, type Tag, type InsertTag, type TrackedPlaylist, type InsertTrackedPlaylist, type ActivityHistory, type InsertActivityHistory, type Artist, type InsertArtist, type EnrichmentJob, type InsertEnrichmentJob, type Contact, type ContactWithSongwriter, type ContactNote, type InsertContactNote } from "@shared/schema";
+import { playlistSnapshots, tags, trackTags, trackedPlaylists, playlistCandidates, activityHistory, trackPositionHistory, artists, artistSongwriters, enrichmentJobs, enrichmentJobEvents, enrichmentJobFailures, trackEnrichmentAttempts, contacts, contactTracks, songwriterProfiles, contactNotes, contactStageHistory, funnelTierRules, scoringProfiles, contactScoreHistory, labelOverrides, mlcWriterShares, trackFieldProvenance, fieldPrecedenceRules, fieldConflicts, trackSongwriters, contactAlerts, alertRules, deals, outreachActivities, apiQuotaUsage, apiResponseCache, dealStageEnum, type PlaylistSnapshot, type InsertPlaylistSnapshot, type Tag, type InsertTag, type TrackedPlaylist, type InsertTrackedPlaylist, type PlaylistCandidate, type InsertPlaylistCandidate, type ActivityHistory, type InsertActivityHistory, type TrackPositionHistory, type InsertTrackPositionHistory, type Artist, type InsertArtist, type EnrichmentJob, type EnrichmentJobStatus, type InsertEnrichmentJob, type EnrichmentJobSummary, type EnrichmentJobFailureWithTrack, type InsertEnrichmentJobFailure, type TrackEnrichmentAttempt, type TrackEnrichmentAttemptWithTrack, type InsertTrackEnrichmentAttempt, type EnrichmentJobEvent, type InsertEnrichmentJobEvent, type Contact, type ContactWithSongwriter, type ContactNote, type InsertContactNote, type OutreachActivity, type InsertOutreachActivity, type OutreachActivityWithContact, type ContactStageHistory, type InsertContactStageHistory, type FunnelTierRule, type InsertFunnelTierRule, type ScoringProfile, type InsertScoringProfile, type ContactScoreHistory, type LabelOverride, type InsertLabelOverride, type MlcWriterShare, type InsertMlcWriterShare, type TrackFieldProvenance, type InsertTrackFieldProvenance, type FieldSource, type FieldPrecedenceRule, type InsertFieldPrecedenceRule, type FieldConflict, type InsertFieldConflict, type ContactAlert, type InsertContactAlert, type AlertRule, type InsertAlertRule, type Deal, type InsertDeal, type DealWithContact, type DealStage, type ContactStage, type ApiResponseCacheEntry, type InsertApiResponseCacheEntry } from "@shared/schema";
 import { db } from "./db";
-import { eq, sql, desc, asc, inArray, and, count, isNull, isNotNull, gte, lte } from "drizzle-orm";
+import { eq, sql, desc, asc, inArray, and, count, isNull, isNotNull, gte, lte, getTableColumns } from "drizzle-orm";
+import { normalizeSongwriterName } from "./utils/songwriterNormalization";
+
+// Order of the deal stages for mirroring a contact's most advanced deal; 'passed' only wins when every deal was passed on
+const DEAL_STAGE_RANK: Record<DealStage, number> = {
+  passed: 0,
+  offer_sent: 1,
+  negotiating: 2,
+  signed: 3,
+};
 
 export interface IStorage {
   getTracksByWeek(week: string, options?: { limit?: number; offset?: number; sortField?: string; sortDirection?: 'asc' | 'desc'; publisherStatus?: string; labelStatus?: string; enrichmentStatus?: string; creditsStatus?: string; isrcStatus?: string; spotifyStreamsRange?: string }): Promise<PlaylistSnapshot[]>;
@@ -19,7 +28,6 @@ export interface IStorage {
   batchUpdateTrackMetadata(updates: Array<{ id: string; metadata: { isrc?: string | null; label?: string | null; spotifyUrl?: string; publisher?: string | null; publisherStatus?: string | null; mlcSongCode?: string | null; songwriter?: string | null; producer?: string | null; spotifyStreams?: number | null; enrichedAt?: Date | null; enrichmentStatus?: string | null; enrichmentTier?: string | null; creditsStatus?: string | null; lastEnrichmentAttempt?: Date | null; unsignedScore?: number | null; youtubeVideoId?: string | null; youtubeViews?: number | null; youtubeChannelId?: string | null; youtubeChannelSubscribers?: number | null; chartmetricId?: string | null; chartmetricStatus?: string | null } }>): Promise<{ successCount: number; failedIds: string[] }>;
   updateBatchLastEnrichmentAttempt(trackIds: string[]): Promise<void>;
   getUnenrichedTracks(limit?: number): Promise<PlaylistSnapshot[]>;
-  getTracksNeedingRetry(beforeDate: Date): Promise<PlaylistSnapshot[]>;
   getAllTags(): Promise<Tag[]>;
   createTag(tag: InsertTag): Promise<Tag>;
   deleteTag(id: string): Promise<void>;
@@ -37,10 +45,22 @@ export interface IStorage {
   updateTrackedPlaylistMetadata(id: string, metadata: { name?: string; curator?: string | null; followers?: number | null; totalTracks?: number | null; imageUrl?: string | null }): Promise<void>;
   updatePlaylistLastChecked(id: string): Promise<void>;
   deleteTrackedPlaylist(id: string): Promise<void>;
+  getPlaylistCandidates(status?: 'pending' | 'tracked' | 'dismissed'): Promise<PlaylistCandidate[]>;
+  getPlaylistCandidateById(id: string): Promise<PlaylistCandidate | null>;
+  upsertPlaylistCandidates(candidates: InsertPlaylistCandidate[]): Promise<number>;
+  updatePlaylistCandidateStatus(id: string, status: 'pending' | 'tracked' | 'dismissed'): Promise<PlaylistCandidate | null>;
+  markPlaylistCandidateTracked(playlistId: string): Promise<void>;
   updateTrackContact(id: string, contact: { instagram?: string; twitter?: string; tiktok?: string; email?: string; contactNotes?: string }): Promise<void>;
   logActivity(activity: InsertActivityHistory): Promise<void>;
   getTrackActivity(trackId: string): Promise<ActivityHistory[]>;
   getPlaylistActivity(playlistId: string): Promise<ActivityHistory[]>;
+  getLatestTrackPositions(playlistId: string): Promise<TrackPositionHistory[]>;
+  getTrackPositionHistory(playlistId: string, spotifyUrl: string): Promise<TrackPositionHistory[]>;
+  insertTrackPositionHistory(entries: InsertTrackPositionHistory[]): Promise<void>;
+  updateTrackPositions(playlistId: string, week: string, positions: Array<{ spotifyUrl: string; position: number }>): Promise<void>;
+  getPlaylistTenureData(playlistIds: string[], spotifyUrls: string[]): Promise<{ firstSeen: Array<{ playlistId: string; spotifyUrl: string; firstSeenAt: Date }>; latestPositions: TrackPositionHistory[] }>;
+  getLatestTrackIdsByUrl(playlistId: string, spotifyUrls: string[]): Promise<Map<string, string>>;
+  getPlaylistAppearances(spotifyUrls: string[]): Promise<Array<{ playlistId: string; playlistName: string; isEditorial: number; followers: number | null; imageUrl: string | null; trackCount: number; firstSeenAt: Date; lastSeenAt: Date }>>;
   getPlaylistQualityMetrics(playlistId: string): Promise<{ totalTracks: number; enrichedCount: number; isrcCount: number; avgUnsignedScore: number }>;
   createOrUpdateArtist(artist: InsertArtist & { musicbrainzId?: string }): Promise<Artist>;
   linkArtistToTrack(artistId: string, trackId: string): Promise<void>;
@@ -56,9 +76,27 @@ export interface IStorage {
   deletePlaylistCascade(playlistId: string, options: { deleteSongwriters?: boolean }): Promise<{ tracksDeleted: number; songwritersDeleted: number }>;
   createEnrichmentJob(job: InsertEnrichmentJob): Promise<EnrichmentJob>;
   getEnrichmentJobById(id: string): Promise<EnrichmentJob | null>;
-  getEnrichmentJobsByStatus(statuses: Array<'queued' | 'running' | 'completed' | 'failed'>): Promise<EnrichmentJob[]>;
+  getEnrichmentJobsByStatus(statuses: EnrichmentJobStatus[]): Promise<EnrichmentJob[]>;
   updateEnrichmentJob(id: string, updates: Partial<Omit<EnrichmentJob, 'id' | 'createdAt'>>): Promise<void>;
-  claimNextEnrichmentJob(): Promise<EnrichmentJob | null>;
+  transitionEnrichmentJob(id: string, fromStatuses: EnrichmentJobStatus[], updates: Partial<Omit<EnrichmentJob, 'id' | 'createdAt'>>, claimToken?: string | null): Promise<EnrichmentJob | null>;
+  markEnrichmentJobPhaseCompleted(id: string, phase: string): Promise<void>;
+  getEnrichmentJobs(options?: { status?: EnrichmentJobStatus[]; type?: EnrichmentJob['type']; playlistId?: string; from?: Date; to?: Date; limit?: number; offset?: number }): Promise<EnrichmentJobSummary[]>;
+  recordEnrichmentJobFailures(failures: InsertEnrichmentJobFailure[]): Promise<void>;
+  getEnrichmentJobFailures(jobId: string): Promise<EnrichmentJobFailureWithTrack[]>;
+  getTrackEnrichmentAttempts(phase: string, trackIds: string[]): Promise<TrackEnrichmentAttempt[]>;
+  getTrackEnrichmentAttemptById(id: string): Promise<TrackEnrichmentAttempt | null>;
+  getDueTrackEnrichmentAttempts(now: Date, limit?: number): Promise<TrackEnrichmentAttempt[]>;
+  seedLegacyTrackEnrichmentAttempts(): Promise<number>;
+  getDeadLetteredTrackEnrichmentAttempts(options?: { phase?: string; limit?: number; offset?: number }): Promise<{ attempts: TrackEnrichmentAttemptWithTrack[]; total: number }>;
+  upsertTrackEnrichmentAttempts(attempts: InsertTrackEnrichmentAttempt[]): Promise<TrackEnrichmentAttempt[]>;
+  updateTrackEnrichmentAttempt(id: string, updates: Partial<Pick<TrackEnrichmentAttempt, 'status' | 'attempts' | 'nextAttemptAt'>>): Promise<TrackEnrichmentAttempt | null>;
+  deferTrackEnrichmentAttempts(ids: string[], until: Date): Promise<void>;
+  deleteTrackEnrichmentAttempts(phase: string, trackIds: string[]): Promise<void>;
+  appendEnrichmentJobEvents(events: InsertEnrichmentJobEvent[]): Promise<EnrichmentJobEvent[]>;
+  getEnrichmentJobEvents(jobId: string, options?: { level?: EnrichmentJobEvent['level']; limit?: number; offset?: number }): Promise<{ events: EnrichmentJobEvent[]; total: number }>;
+  claimNextEnrichmentJob(workerId: string, leaseMs: number): Promise<{ job: EnrichmentJob; reclaimedFromWorkerId: string | null } | null>;
+  renewEnrichmentJobLease(id: string, claimToken: string, leaseMs: number): Promise<boolean>;
+  releaseEnrichmentJobLeases(workerId: string): Promise<number>;
   
   // Contact management methods
   getContacts(options?: { stage?: string; search?: string; hotLeads?: boolean; chartmetricLinked?: boolean; positiveWow?: boolean; hasEmail?: boolean; minScore?: number; maxScore?: number; hasSocialLinks?: boolean; sortField?: string; sortDirection?: "asc" | "desc"; limit?: number; offset?: number }): Promise<ContactWithSongwriter[]>;
@@ -72,10 +110,92 @@ export interface IStorage {
   getContactArtistSocials(contactId: string): Promise<{ instagram?: string | null; twitter?: string | null; facebook?: string | null; tiktok?: string | null }>;
   createContactNote(contactId: string, content: string): Promise<ContactNote>;
   getContactNotesById(contactId: string): Promise<ContactNote[]>;
+  getContactStageHistory(contactId: string): Promise<ContactStageHistory[]>;
+  createContactStageHistory(entry: InsertContactStageHistory): Promise<ContactStageHistory>;
+  getContactScoreHistory(contactId: string, limit?: number): Promise<ContactScoreHistory[]>;
+  
+  // Outreach activity methods
+  getOutreachActivities(options?: { contactId?: string; activityType?: string; outcome?: string; relatedTrackId?: string; from?: Date; to?: Date; limit?: number; offset?: number }): Promise<OutreachActivityWithContact[]>;
+  getOutreachActivitiesCount(options?: { contactId?: string; activityType?: string; outcome?: string; relatedTrackId?: string; from?: Date; to?: Date }): Promise<number>;
+  getOutreachOutcomes(): Promise<string[]>;
+  getOutreachActivityById(id: string): Promise<OutreachActivity | null>;
+  createOutreachActivity(activity: InsertOutreachActivity): Promise<OutreachActivity>;
+  updateOutreachActivity(id: string, updates: Partial<Omit<InsertOutreachActivity, 'contactId'>>): Promise<OutreachActivity | null>;
+  deleteOutreachActivity(id: string): Promise<void>;
+  
+  // Contact alert methods
+  getContactAlerts(options?: { contactId?: string; status?: string; limit?: number }): Promise<ContactAlert[]>;
+  getContactAlertById(id: string): Promise<ContactAlert | null>;
+  createContactAlert(alert: InsertContactAlert): Promise<ContactAlert>;
+  updateContactAlertStatus(id: string, status: 'pending' | 'resolved' | 'dismissed'): Promise<ContactAlert | null>;
+  
+  // Funnel tier rule methods
+  getFunnelTierRules(): Promise<FunnelTierRule[]>;
+  createFunnelTierRule(rule: InsertFunnelTierRule): Promise<FunnelTierRule>;
+  updateFunnelTierRule(id: string, updates: Partial<InsertFunnelTierRule>): Promise<FunnelTierRule | null>;
+  deleteFunnelTierRule(id: string): Promise<void>;
+  
+  // Scoring profile methods
+  getScoringProfiles(): Promise<ScoringProfile[]>;
+  getScoringProfileById(id: string): Promise<ScoringProfile | null>;
+  createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile>;
+  updateScoringProfile(id: string, updates: Partial<InsertScoringProfile>): Promise<ScoringProfile | null>;
+  deleteScoringProfile(id: string): Promise<void>;
+  activateScoringProfile(id: string): Promise<ScoringProfile | null>;
+  
+  // Label registry methods
+  getTrackLabelCounts(): Promise<Array<{ label: string; trackCount: number }>>;
+  getLabelOverrides(): Promise<LabelOverride[]>;
+  getLabelOverridesVersion(): Promise<string>;
+  getLabelOverrideById(id: string): Promise<LabelOverride | null>;
+  upsertLabelOverride(override: InsertLabelOverride & { normalizedLabel: string }): Promise<LabelOverride>;
+  deleteLabelOverride(id: string): Promise<void>;
+  getContactIdsByTrackLabels(labels: string[]): Promise<string[]>;
+  getContactIdsByTrackId(trackId: string): Promise<string[]>;
+  
+  // MLC writer share methods
+  getTracksMissingWriterShares(limit: number): Promise<Array<{ id: string; mlcSongCode: string }>>;
+  replaceMlcWriterShares(trackId: string, shares: Array<Omit<InsertMlcWriterShare, 'trackId' | 'trackSongwriterId'>>): Promise<MlcWriterShare[]>;
+  
+  // Field provenance methods
+  recordFieldProvenance(entries: InsertTrackFieldProvenance[]): Promise<void>;
+  getTrackFieldProvenance(trackId: string): Promise<TrackFieldProvenance[]>;
+  getLatestFieldSources(trackIds: string[], fields: string[]): Promise<Array<{ trackId: string; field: string; source: FieldSource }>>;
+  
+  // Field precedence and conflict review methods
+  getFieldPrecedenceRules(): Promise<FieldPrecedenceRule[]>;
+  upsertFieldPrecedenceRule(rule: InsertFieldPrecedenceRule): Promise<FieldPrecedenceRule>;
+  deleteFieldPrecedenceRule(field: string): Promise<void>;
+  createFieldConflicts(conflicts: InsertFieldConflict[]): Promise<number>;
+  getFieldConflicts(status?: FieldConflict['status']): Promise<Array<FieldConflict & { trackName: string; artistName: string }>>;
+  getFieldConflictById(id: string): Promise<FieldConflict | null>;
+  resolveFieldConflict(id: string, resolvedValue: string | null): Promise<FieldConflict | null>;
+  
+  // Alert rule methods
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRuleById(id: string): Promise<AlertRule | null>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | null>;
+  deleteAlertRule(id: string): Promise<void>;
+  
+  // Deal pipeline methods
+  getDeals(options?: { contactId?: string; stage?: string }): Promise<DealWithContact[]>;
+  getDealById(id: string): Promise<Deal | null>;
+  createDeal(deal: InsertDeal, changedByUserId?: string | null): Promise<Deal>;
+  updateDeal(id: string, updates: Partial<Omit<InsertDeal, 'contactId' | 'stage'>>): Promise<Deal | null>;
+  moveDealStage(id: string, stage: DealStage, options?: { reason?: string | null; changedByUserId?: string | null }): Promise<Deal | null>;
+  deleteDeal(id: string): Promise<void>;
   
   // API Quota tracking methods
   getQuotaUsage(service: string, quotaDate: string): Promise<number>;
   incrementQuotaUsage(service: string, quotaDate: string, units: number): Promise<number>;
+
+  // API response cache methods
+  getCachedApiResponse(provider: string, cacheKey: string): Promise<ApiResponseCacheEntry | null>;
+  upsertCachedApiResponse(entry: InsertApiResponseCacheEntry): Promise<void>;
+  recordCachedApiResponseHit(id: string): Promise<void>;
+  purgeApiResponseCache(options?: { provider?: string; expiredOnly?: boolean }): Promise<number>;
+  getApiResponseCacheStats(): Promise<Array<{ provider: string; entries: number; notFound: number; expired: number; hits: number }>>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -533,17 +653,6 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
-  async getTracksNeedingRetry(beforeDate: Date): Promise<PlaylistSnapshot[]> {
-    return db.select()
-      .from(playlistSnapshots)
-      .where(
-        and(
-          sql`${playlistSnapshots.creditsStatus} IN ('no_data', 'failed')`,
-          sql`${playlistSnapshots.lastEnrichmentAttempt} < ${beforeDate.toISOString()}`
-        )
-      );
-  }
-
   async getUnenrichedTracksByPlaylist(playlistId: string, limit: number = 50): Promise<PlaylistSnapshot[]> {
     return db.select()
       .from(playlistSnapshots)
@@ -757,6 +866,66 @@ export class DatabaseStorage implements IStorage {
     await db.delete(trackedPlaylists).where(eq(trackedPlaylists.id, id));
   }
 
+  async getPlaylistCandidates(status?: 'pending' | 'tracked' | 'dismissed'): Promise<PlaylistCandidate[]> {
+    return db.select()
+      .from(playlistCandidates)
+      .where(status ? eq(playlistCandidates.status, status) : undefined)
+      .orderBy(desc(playlistCandidates.overlapScore), desc(playlistCandidates.followers));
+  }
+
+  async getPlaylistCandidateById(id: string): Promise<PlaylistCandidate | null> {
+    const [candidate] = await db.select()
+      .from(playlistCandidates)
+      .where(eq(playlistCandidates.id, id))
+      .limit(1);
+    return candidate || null;
+  }
+
+  async upsertPlaylistCandidates(candidates: InsertPlaylistCandidate[]): Promise<number> {
+    if (candidates.length === 0) return 0;
+
+    // Refresh discovery data but keep the review status, so dismissed playlists stay dismissed
+    const rows = await db.insert(playlistCandidates)
+      .values(candidates)
+      .onConflictDoUpdate({
+        target: playlistCandidates.playlistId,
+        set: {
+          name: sql`excluded.name`,
+          spotifyUrl: sql`excluded.spotify_url`,
+          imageUrl: sql`COALESCE(excluded.image_url, ${playlistCandidates.imageUrl})`,
+          curator: sql`COALESCE(excluded.curator, ${playlistCandidates.curator})`,
+          followers: sql`COALESCE(excluded.followers, ${playlistCandidates.followers})`,
+          totalTracks: sql`COALESCE(excluded.total_tracks, ${playlistCandidates.totalTracks})`,
+          isEditorial: sql`excluded.is_editorial`,
+          chartmetricId: sql`COALESCE(excluded.chartmetric_id, ${playlistCandidates.chartmetricId})`,
+          sources: sql`excluded.sources`,
+          overlapScore: sql`excluded.overlap_score`,
+          matchedContactCount: sql`excluded.matched_contact_count`,
+          matchedTrackCount: sql`excluded.matched_track_count`,
+          matchedContacts: sql`excluded.matched_contacts`,
+          lastDiscoveredAt: sql`excluded.last_discovered_at`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: playlistCandidates.id });
+
+    return rows.length;
+  }
+
+  async updatePlaylistCandidateStatus(id: string, status: 'pending' | 'tracked' | 'dismissed'): Promise<PlaylistCandidate | null> {
+    const [updated] = await db.update(playlistCandidates)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(playlistCandidates.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async markPlaylistCandidateTracked(playlistId: string): Promise<void> {
+    await db.update(playlistCandidates)
+      .set({ status: 'tracked', updatedAt: new Date() })
+      .where(eq(playlistCandidates.playlistId, playlistId));
+  }
+
   async updateTrackContact(id: string, contact: { instagram?: string; twitter?: string; tiktok?: string; email?: string; contactNotes?: string }): Promise<void> {
     await db.update(playlistSnapshots)
       .set(contact)
@@ -781,6 +950,118 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(activityHistory.createdAt));
   }
 
+  async getLatestTrackPositions(playlistId: string): Promise<TrackPositionHistory[]> {
+    // Most recent timeline row per track on this playlist
+    return db.selectDistinctOn([trackPositionHistory.spotifyUrl])
+      .from(trackPositionHistory)
+      .where(eq(trackPositionHistory.playlistId, playlistId))
+      .orderBy(trackPositionHistory.spotifyUrl, desc(trackPositionHistory.observedAt));
+  }
+
+  async getTrackPositionHistory(playlistId: string, spotifyUrl: string): Promise<TrackPositionHistory[]> {
+    return db.select()
+      .from(trackPositionHistory)
+      .where(and(
+        eq(trackPositionHistory.playlistId, playlistId),
+        eq(trackPositionHistory.spotifyUrl, spotifyUrl)
+      ))
+      .orderBy(asc(trackPositionHistory.observedAt));
+  }
+
+  async insertTrackPositionHistory(entries: InsertTrackPositionHistory[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(trackPositionHistory).values(entries);
+  }
+
+  async getPlaylistTenureData(playlistIds: string[], spotifyUrls: string[]): Promise<{ firstSeen: Array<{ playlistId: string; spotifyUrl: string; firstSeenAt: Date }>; latestPositions: TrackPositionHistory[] }> {
+    if (playlistIds.length === 0 || spotifyUrls.length === 0) {
+      return { firstSeen: [], latestPositions: [] };
+    }
+    
+    const [firstSeen, latestPositions] = await Promise.all([
+      db.select({
+        playlistId: playlistSnapshots.playlistId,
+        spotifyUrl: playlistSnapshots.spotifyUrl,
+        firstSeenAt: sql<Date>`MIN(${playlistSnapshots.addedAt})`,
+      })
+        .from(playlistSnapshots)
+        .where(and(
+          inArray(playlistSnapshots.playlistId, playlistIds),
+          inArray(playlistSnapshots.spotifyUrl, spotifyUrls)
+        ))
+        .groupBy(playlistSnapshots.playlistId, playlistSnapshots.spotifyUrl),
+      db.selectDistinctOn([trackPositionHistory.playlistId, trackPositionHistory.spotifyUrl])
+        .from(trackPositionHistory)
+        .where(and(
+          inArray(trackPositionHistory.playlistId, playlistIds),
+          inArray(trackPositionHistory.spotifyUrl, spotifyUrls)
+        ))
+        .orderBy(trackPositionHistory.playlistId, trackPositionHistory.spotifyUrl, desc(trackPositionHistory.observedAt)),
+    ]);
+    
+    return { firstSeen, latestPositions };
+  }
+
+  async getLatestTrackIdsByUrl(playlistId: string, spotifyUrls: string[]): Promise<Map<string, string>> {
+    if (spotifyUrls.length === 0) return new Map();
+    
+    const rows = await db.selectDistinctOn([playlistSnapshots.spotifyUrl], {
+      id: playlistSnapshots.id,
+      spotifyUrl: playlistSnapshots.spotifyUrl,
+    })
+      .from(playlistSnapshots)
+      .where(and(
+        eq(playlistSnapshots.playlistId, playlistId),
+        inArray(playlistSnapshots.spotifyUrl, spotifyUrls)
+      ))
+      .orderBy(playlistSnapshots.spotifyUrl, desc(playlistSnapshots.week));
+    
+    return new Map(rows.map(row => [row.spotifyUrl, row.id]));
+  }
+
+  async getPlaylistAppearances(spotifyUrls: string[]): Promise<Array<{ playlistId: string; playlistName: string; isEditorial: number; followers: number | null; imageUrl: string | null; trackCount: number; firstSeenAt: Date; lastSeenAt: Date }>> {
+    if (spotifyUrls.length === 0) return [];
+    
+    // One row per tracked playlist, aggregated across weekly snapshot rows
+    const rows = await db.select({
+      playlistId: trackedPlaylists.id,
+      playlistName: trackedPlaylists.name,
+      isEditorial: trackedPlaylists.isEditorial,
+      followers: trackedPlaylists.followers,
+      imageUrl: trackedPlaylists.imageUrl,
+      trackCount: sql<number>`CAST(COUNT(DISTINCT ${playlistSnapshots.spotifyUrl}) AS INTEGER)`,
+      firstSeenAt: sql<Date>`MIN(${playlistSnapshots.addedAt})`,
+      lastSeenAt: sql<Date>`MAX(${playlistSnapshots.addedAt})`,
+    })
+      .from(playlistSnapshots)
+      .innerJoin(trackedPlaylists, eq(playlistSnapshots.playlistId, trackedPlaylists.id))
+      .where(inArray(playlistSnapshots.spotifyUrl, spotifyUrls))
+      .groupBy(trackedPlaylists.id)
+      .orderBy(sql`MIN(${playlistSnapshots.addedAt})`);
+    
+    return rows.map(row => ({
+      ...row,
+      firstSeenAt: new Date(row.firstSeenAt),
+      lastSeenAt: new Date(row.lastSeenAt),
+    }));
+  }
+
+  async updateTrackPositions(playlistId: string, week: string, positions: Array<{ spotifyUrl: string; position: number }>): Promise<void> {
+    if (positions.length === 0) return;
+    
+    await db.transaction(async (tx) => {
+      for (const { spotifyUrl, position } of positions) {
+        await tx.update(playlistSnapshots)
+          .set({ position })
+          .where(and(
+            eq(playlistSnapshots.playlistId, playlistId),
+            eq(playlistSnapshots.week, week),
+            eq(playlistSnapshots.spotifyUrl, spotifyUrl)
+          ));
+      }
+    });
+  }
+
   async getPlaylistQualityMetrics(playlistId: string): Promise<{ totalTracks: number; enrichedCount: number; isrcCount: number; avgUnsignedScore: number }> {
     // playlistId is the database UUID from tracked_playlists
     // We need to query playlist_snapshots where playlist_id matches this UUID
@@ -1047,7 +1328,7 @@ export class DatabaseStorage implements IStorage {
     return job || null;
   }
 
-  async getEnrichmentJobsByStatus(statuses: Array<'queued' | 'running' | 'completed' | 'failed'>): Promise<EnrichmentJob[]> {
+  async getEnrichmentJobsByStatus(statuses: EnrichmentJobStatus[]): Promise<EnrichmentJob[]> {
     return db.select()
       .from(enrichmentJobs)
       .where(inArray(enrichmentJobs.status, statuses))
@@ -1060,21 +1341,264 @@ export class DatabaseStorage implements IStorage {
       .where(eq(enrichmentJobs.id, id));
   }
 
-  async claimNextEnrichmentJob(): Promise<EnrichmentJob | null> {
+  // Conditional update: only applies while the job is still in one of the given statuses (and, with a claimToken, still under that claim)
+  async transitionEnrichmentJob(id: string, fromStatuses: EnrichmentJobStatus[], updates: Partial<Omit<EnrichmentJob, 'id' | 'createdAt'>>, claimToken?: string | null): Promise<EnrichmentJob | null> {
+    const [job] = await db.update(enrichmentJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(enrichmentJobs.id, id),
+        inArray(enrichmentJobs.status, fromStatuses),
+        claimToken ? eq(enrichmentJobs.claimToken, claimToken) : undefined
+      ))
+      .returning();
+    return job || null;
+  }
+
+  async markEnrichmentJobPhaseCompleted(id: string, phase: string): Promise<void> {
+    await db.update(enrichmentJobs)
+      .set({ completedPhases: sql`array_append(${enrichmentJobs.completedPhases}, ${phase})` })
+      .where(eq(enrichmentJobs.id, id));
+  }
+
+  async getEnrichmentJobs(options?: { status?: EnrichmentJobStatus[]; type?: EnrichmentJob['type']; playlistId?: string; from?: Date; to?: Date; limit?: number; offset?: number }): Promise<EnrichmentJobSummary[]> {
+    const { status, type, playlistId, from, to, limit = 50, offset = 0 } = options || {};
+
+    const conditions = [];
+    if (status && status.length > 0) conditions.push(inArray(enrichmentJobs.status, status));
+    if (type) conditions.push(eq(enrichmentJobs.type, type));
+    if (playlistId) conditions.push(eq(enrichmentJobs.playlistId, playlistId));
+    if (from) conditions.push(gte(enrichmentJobs.createdAt, from));
+    if (to) conditions.push(lte(enrichmentJobs.createdAt, to));
+
+    const rows = await db.select({
+      ...getTableColumns(enrichmentJobs),
+      playlistName: trackedPlaylists.name,
+      failedTrackCount: sql<number>`(
+        SELECT COUNT(DISTINCT ${enrichmentJobFailures.trackId})::int
+        FROM ${enrichmentJobFailures}
+        WHERE ${enrichmentJobFailures.jobId} = ${enrichmentJobs.id}
+      )`,
+    })
+      .from(enrichmentJobs)
+      .leftJoin(trackedPlaylists, eq(enrichmentJobs.playlistId, trackedPlaylists.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(enrichmentJobs.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return rows;
+  }
+
+  async recordEnrichmentJobFailures(failures: InsertEnrichmentJobFailure[]): Promise<void> {
+    if (failures.length === 0) return;
+    await db.insert(enrichmentJobFailures).values(failures);
+  }
+
+  async getEnrichmentJobFailures(jobId: string): Promise<EnrichmentJobFailureWithTrack[]> {
+    const rows = await db.select({
+      failure: enrichmentJobFailures,
+      trackName: playlistSnapshots.trackName,
+      artistName: playlistSnapshots.artistName,
+    })
+      .from(enrichmentJobFailures)
+      .innerJoin(playlistSnapshots, eq(enrichmentJobFailures.trackId, playlistSnapshots.id))
+      .where(eq(enrichmentJobFailures.jobId, jobId))
+      .orderBy(asc(enrichmentJobFailures.createdAt));
+
+    return rows.map(row => ({ ...row.failure, trackName: row.trackName, artistName: row.artistName }));
+  }
+
+  async getTrackEnrichmentAttempts(phase: string, trackIds: string[]): Promise<TrackEnrichmentAttempt[]> {
+    if (trackIds.length === 0) return [];
+    return db.select()
+      .from(trackEnrichmentAttempts)
+      .where(and(
+        eq(trackEnrichmentAttempts.phase, phase),
+        inArray(trackEnrichmentAttempts.trackId, trackIds)
+      ));
+  }
+
+  async getTrackEnrichmentAttemptById(id: string): Promise<TrackEnrichmentAttempt | null> {
+    const [attempt] = await db.select()
+      .from(trackEnrichmentAttempts)
+      .where(eq(trackEnrichmentAttempts.id, id))
+      .limit(1);
+    return attempt || null;
+  }
+
+  // Retrying tracks whose backoff has elapsed, longest-waiting first
+  async getDueTrackEnrichmentAttempts(now: Date, limit: number = 500): Promise<TrackEnrichmentAttempt[]> {
+    return db.select()
+      .from(trackEnrichmentAttempts)
+      .where(and(
+        eq(trackEnrichmentAttempts.status, 'retrying'),
+        lte(trackEnrichmentAttempts.nextAttemptAt, now)
+      ))
+      .orderBy(asc(trackEnrichmentAttempts.nextAttemptAt))
+      .limit(limit);
+  }
+
+  /**
+   * Give tracks whose credits or Chartmetric lookup failed (or found nothing) before retry
+   * tracking existed an attempt row, due now, so the retry job picks them up. Only statuses
+   * older than the first attempt row count; later failures record their own attempts.
+   */
+  async seedLegacyTrackEnrichmentAttempts(): Promise<number> {
+    const result = await db.execute(sql`
+      WITH tracking_started AS (
+        SELECT COALESCE(MIN(created_at), 'infinity'::timestamp) AS started_at FROM track_enrichment_attempts
+      ),
+      legacy AS (
+        SELECT id AS track_id, 'credits' AS phase,
+          CASE WHEN credits_status = 'failed' THEN 'unknown' ELSE 'not_found' END AS error_class,
+          CASE WHEN credits_status = 'failed' THEN 'Credits scrape failed' ELSE 'No credits data found' END AS last_error,
+          last_enrichment_attempt AS attempted_at
+        FROM playlist_snapshots
+        WHERE credits_status IN ('failed', 'no_data')
+        UNION ALL
+        SELECT id, 'chartmetric',
+          CASE WHEN chartmetric_status = 'failed_api' THEN 'unknown' ELSE 'not_found' END,
+          CASE WHEN chartmetric_status = 'failed_api' THEN 'Chartmetric lookup failed' ELSE 'Missing ISRC' END,
+          chartmetric_enriched_at
+        FROM playlist_snapshots
+        WHERE chartmetric_status IN ('failed_api', 'failed_missing_isrc')
+      )
+      INSERT INTO track_enrichment_attempts (track_id, phase, status, attempts, error_class, last_error, last_attempt_at, next_attempt_at)
+      SELECT legacy.track_id, legacy.phase, 'retrying'::enrichment_retry_status, 1, legacy.error_class::enrichment_error_class,
+        legacy.last_error, COALESCE(legacy.attempted_at, NOW()), NOW()
+      FROM legacy, tracking_started
+      WHERE COALESCE(legacy.attempted_at, '-infinity'::timestamp) < tracking_started.started_at
+      ON CONFLICT (track_id, phase) DO NOTHING
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async getDeadLetteredTrackEnrichmentAttempts(options?: { phase?: string; limit?: number; offset?: number }): Promise<{ attempts: TrackEnrichmentAttemptWithTrack[]; total: number }> {
+    const { phase, limit = 50, offset = 0 } = options || {};
+    const conditions = [eq(trackEnrichmentAttempts.status, 'dead_letter')];
+    if (phase) {
+      conditions.push(eq(trackEnrichmentAttempts.phase, phase));
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({
+        attempt: trackEnrichmentAttempts,
+        trackName: playlistSnapshots.trackName,
+        artistName: playlistSnapshots.artistName,
+      })
+        .from(trackEnrichmentAttempts)
+        .innerJoin(playlistSnapshots, eq(trackEnrichmentAttempts.trackId, playlistSnapshots.id))
+        .where(and(...conditions))
+        .orderBy(desc(trackEnrichmentAttempts.lastAttemptAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ total: count() })
+        .from(trackEnrichmentAttempts)
+        .where(and(...conditions)),
+    ]);
+
+    return {
+      attempts: rows.map(row => ({ ...row.attempt, trackName: row.trackName, artistName: row.artistName })),
+      total,
+    };
+  }
+
+  async upsertTrackEnrichmentAttempts(attempts: InsertTrackEnrichmentAttempt[]): Promise<TrackEnrichmentAttempt[]> {
+    if (attempts.length === 0) return [];
+    return db.insert(trackEnrichmentAttempts)
+      .values(attempts)
+      .onConflictDoUpdate({
+        target: [trackEnrichmentAttempts.trackId, trackEnrichmentAttempts.phase],
+        set: {
+          status: sql`excluded.status`,
+          attempts: sql`excluded.attempts`,
+          errorClass: sql`excluded.error_class`,
+          lastError: sql`excluded.last_error`,
+          lastAttemptAt: sql`excluded.last_attempt_at`,
+          nextAttemptAt: sql`excluded.next_attempt_at`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  async updateTrackEnrichmentAttempt(id: string, updates: Partial<Pick<TrackEnrichmentAttempt, 'status' | 'attempts' | 'nextAttemptAt'>>): Promise<TrackEnrichmentAttempt | null> {
+    const [attempt] = await db.update(trackEnrichmentAttempts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(trackEnrichmentAttempts.id, id))
+      .returning();
+    return attempt || null;
+  }
+
+  async deferTrackEnrichmentAttempts(ids: string[], until: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(trackEnrichmentAttempts)
+      .set({ nextAttemptAt: until, updatedAt: new Date() })
+      .where(inArray(trackEnrichmentAttempts.id, ids));
+  }
+
+  async deleteTrackEnrichmentAttempts(phase: string, trackIds: string[]): Promise<void> {
+    if (trackIds.length === 0) return;
+    await db.delete(trackEnrichmentAttempts)
+      .where(and(
+        eq(trackEnrichmentAttempts.phase, phase),
+        inArray(trackEnrichmentAttempts.trackId, trackIds)
+      ));
+  }
+
+  async appendEnrichmentJobEvents(events: InsertEnrichmentJobEvent[]): Promise<EnrichmentJobEvent[]> {
+    if (events.length === 0) return [];
+    return db.insert(enrichmentJobEvents).values(events).returning();
+  }
+
+  // Newest first; offset pages back through older events
+  async getEnrichmentJobEvents(jobId: string, options?: { level?: EnrichmentJobEvent['level']; limit?: number; offset?: number }): Promise<{ events: EnrichmentJobEvent[]; total: number }> {
+    const { level, limit = 100, offset = 0 } = options || {};
+    const conditions = [eq(enrichmentJobEvents.jobId, jobId)];
+    if (level) conditions.push(eq(enrichmentJobEvents.level, level));
+
+    const [events, [{ total }]] = await Promise.all([
+      db.select()
+        .from(enrichmentJobEvents)
+        .where(and(...conditions))
+        .orderBy(desc(enrichmentJobEvents.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ total: count() })
+        .from(enrichmentJobEvents)
+        .where(and(...conditions)),
+    ]);
+
+    return { events, total };
+  }
+
+  /**
+   * Atomically claim the next job for a worker: a queued job, or a running job whose lease
+   * expired because its worker stopped heartbeating. Running jobs without a lease predate
+   * leases and are treated as expired.
+   */
+  async claimNextEnrichmentJob(workerId: string, leaseMs: number): Promise<{ job: EnrichmentJob; reclaimedFromWorkerId: string | null } | null> {
+    const leaseSeconds = Math.ceil(leaseMs / 1000);
     const result = await db.execute(sql`
       WITH claimed AS (
-        SELECT id
+        SELECT id, status AS previous_status, worker_id AS previous_worker_id
         FROM enrichment_jobs
         WHERE status = 'queued'
-        ORDER BY created_at ASC
+          OR (status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at < NOW()))
+        ORDER BY priority DESC, created_at ASC
         LIMIT 1
         FOR UPDATE SKIP LOCKED
       )
       UPDATE enrichment_jobs
-      SET status = 'running', updated_at = NOW()
+      SET status = 'running',
+        worker_id = ${workerId},
+        claim_token = gen_random_uuid(),
+        lease_expires_at = NOW() + make_interval(secs => ${leaseSeconds}),
+        heartbeat_at = NOW(),
+        updated_at = NOW()
       FROM claimed
       WHERE enrichment_jobs.id = claimed.id
-      RETURNING enrichment_jobs.*
+      RETURNING enrichment_jobs.*, claimed.previous_status, claimed.previous_worker_id
     `);
 
     if (result.rows.length === 0) {
@@ -1082,7 +1606,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     const row = result.rows[0] as any;
-    return {
+    const job: EnrichmentJob = {
       id: row.id,
       type: row.type,
       status: row.status,
@@ -1092,14 +1616,56 @@ export class DatabaseStorage implements IStorage {
       totalTracks: row.total_tracks,
       enrichedTracks: row.enriched_tracks,
       errorCount: row.error_count,
-      logs: row.logs || [],
       targetPhase: row.target_phase,
+      captureSnapshotAfter: row.capture_snapshot_after ?? 0,
+      bypassCache: row.bypass_cache ?? 0,
+      priority: row.priority ?? 0,
+      completedPhases: row.completed_phases || [],
+      phaseTimings: row.phase_timings,
+      retryOfJobId: row.retry_of_job_id,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       completedAt: row.completed_at ? new Date(row.completed_at) : null,
+      workerId: row.worker_id,
+      claimToken: row.claim_token,
+      leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : null,
+      heartbeatAt: row.heartbeat_at ? new Date(row.heartbeat_at) : null,
+    };
+
+    return {
+      job,
+      reclaimedFromWorkerId: row.previous_status === 'running' ? (row.previous_worker_id ?? 'unknown') : null,
     };
   }
 
+  // Extend the lease while the claim is still current; false once the job was claimed again
+  async renewEnrichmentJobLease(id: string, claimToken: string, leaseMs: number): Promise<boolean> {
+    // Database clock, same as the claim, so workers with skewed clocks agree on expiry
+    const renewed = await db.update(enrichmentJobs)
+      .set({
+        leaseExpiresAt: sql`NOW() + make_interval(secs => ${Math.ceil(leaseMs / 1000)})`,
+        heartbeatAt: sql`NOW()`,
+      })
+      .where(and(
+        eq(enrichmentJobs.id, id),
+        eq(enrichmentJobs.claimToken, claimToken)
+      ))
+      .returning({ id: enrichmentJobs.id });
+    return renewed.length > 0;
+  }
+
+  // Expire a worker's leases on shutdown so its running jobs are reclaimable immediately
+  async releaseEnrichmentJobLeases(workerId: string): Promise<number> {
+    const released = await db.update(enrichmentJobs)
+      .set({ leaseExpiresAt: sql`NOW()` })
+      .where(and(
+        eq(enrichmentJobs.workerId, workerId),
+        eq(enrichmentJobs.status, 'running')
+      ))
+      .returning({ id: enrichmentJobs.id });
+    return released.length;
+  }
+
   // Contact management methods
   async getContacts(options?: { stage?: string; search?: string; hotLeads?: boolean; chartmetricLinked?: boolean; positiveWow?: boolean; hasEmail?: boolean; minScore?: number; maxScore?: number; hasSocialLinks?: boolean; mlcStatus?: string; musicbrainzStatus?: string; sortField?: string; sortDirection?: "asc" | "desc"; limit?: number; offset?: number }): Promise<ContactWithSongwriter[]> {
     const { stage, search, hotLeads, chartmetricLinked, positiveWow, hasEmail, minScore, maxScore, hasSocialLinks, mlcStatus, musicbrainzStatus, sortField = "totalStreams", sortDirection = "desc", limit, offset } = options || {};
@@ -1111,8 +1677,10 @@ export class DatabaseStorage implements IStorage {
       songwriterChartmetricId: songwriterProfiles.chartmetricId,
       stage: contacts.stage,
       stageUpdatedAt: contacts.stageUpdatedAt,
+      stageLocked: contacts.stageLocked,
       wowGrowthPct: contacts.wowGrowthPct,
       wowYoutubeGrowthPct: contacts.wowYoutubeGrowthPct,
+      velocityAlertThresholdPct: contacts.velocityAlertThresholdPct,
       hotLead: contacts.hotLead,
       assignedUserId: contacts.assignedUserId,
       totalStreams: contacts.totalStreams,
@@ -1512,8 +2080,10 @@ export class DatabaseStorage implements IStorage {
       songwriterChartmetricId: songwriterProfiles.chartmetricId,
       stage: contacts.stage,
       stageUpdatedAt: contacts.stageUpdatedAt,
+      stageLocked: contacts.stageLocked,
       wowGrowthPct: contacts.wowGrowthPct,
       wowYoutubeGrowthPct: contacts.wowYoutubeGrowthPct,
+      velocityAlertThresholdPct: contacts.velocityAlertThresholdPct,
       hotLead: contacts.hotLead,
       assignedUserId: contacts.assignedUserId,
       totalStreams: contacts.totalStreams,
@@ -1549,6 +2119,8 @@ export class DatabaseStorage implements IStorage {
     if (updates.hotLead !== undefined) mutableUpdates.hotLead = updates.hotLead;
     if (updates.wowGrowthPct !== undefined) mutableUpdates.wowGrowthPct = updates.wowGrowthPct;
     if (updates.assignedUserId !== undefined) mutableUpdates.assignedUserId = updates.assignedUserId;
+    if (updates.velocityAlertThresholdPct !== undefined) mutableUpdates.velocityAlertThresholdPct = updates.velocityAlertThresholdPct;
+    if (updates.stageLocked !== undefined) mutableUpdates.stageLocked = updates.stageLocked;
     
     // If stage changed, update stageUpdatedAt
     if (updates.stage !== undefined) {
@@ -1619,6 +2191,805 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(contactNotes.createdAt));
   }
 
+  async getContactStageHistory(contactId: string): Promise<ContactStageHistory[]> {
+    return db.select()
+      .from(contactStageHistory)
+      .where(eq(contactStageHistory.contactId, contactId))
+      .orderBy(desc(contactStageHistory.changedAt));
+  }
+
+  async createContactStageHistory(entry: InsertContactStageHistory): Promise<ContactStageHistory> {
+    const [created] = await db.insert(contactStageHistory)
+      .values(entry)
+      .returning();
+    return created;
+  }
+
+  async getContactScoreHistory(contactId: string, limit: number = 20): Promise<ContactScoreHistory[]> {
+    return db.select()
+      .from(contactScoreHistory)
+      .where(eq(contactScoreHistory.contactId, contactId))
+      .orderBy(desc(contactScoreHistory.calculatedAt))
+      .limit(limit);
+  }
+
+  private buildOutreachFilters(options?: { contactId?: string; activityType?: string; outcome?: string; relatedTrackId?: string; from?: Date; to?: Date }) {
+    const filters: any[] = [];
+    
+    if (!options) return filters;
+    
+    if (options.contactId) {
+      filters.push(eq(outreachActivities.contactId, options.contactId));
+    }
+    if (options.activityType) {
+      filters.push(eq(outreachActivities.activityType, options.activityType as any));
+    }
+    if (options.outcome) {
+      filters.push(eq(outreachActivities.outcome, options.outcome));
+    }
+    if (options.relatedTrackId) {
+      filters.push(eq(outreachActivities.relatedTrackId, options.relatedTrackId));
+    }
+    if (options.from) {
+      filters.push(gte(outreachActivities.performedAt, options.from));
+    }
+    if (options.to) {
+      filters.push(lte(outreachActivities.performedAt, options.to));
+    }
+    
+    return filters;
+  }
+
+  async getOutreachActivities(options?: { contactId?: string; activityType?: string; outcome?: string; relatedTrackId?: string; from?: Date; to?: Date; limit?: number; offset?: number }): Promise<OutreachActivityWithContact[]> {
+    const { limit, offset } = options || {};
+    const filters = this.buildOutreachFilters(options);
+    
+    let query = db.select({
+      id: outreachActivities.id,
+      contactId: outreachActivities.contactId,
+      performedByUserId: outreachActivities.performedByUserId,
+      activityType: outreachActivities.activityType,
+      channel: outreachActivities.channel,
+      subject: outreachActivities.subject,
+      body: outreachActivities.body,
+      outcome: outreachActivities.outcome,
+      metadata: outreachActivities.metadata,
+      relatedTrackId: outreachActivities.relatedTrackId,
+      performedAt: outreachActivities.performedAt,
+      songwriterName: songwriterProfiles.name,
+      contactStage: contacts.stage,
+      relatedTrackName: playlistSnapshots.trackName,
+      relatedArtistName: playlistSnapshots.artistName,
+    })
+      .from(outreachActivities)
+      .innerJoin(contacts, eq(outreachActivities.contactId, contacts.id))
+      .innerJoin(songwriterProfiles, eq(contacts.songwriterId, songwriterProfiles.id))
+      .leftJoin(playlistSnapshots, eq(outreachActivities.relatedTrackId, playlistSnapshots.id))
+      .$dynamic();
+    
+    if (filters.length > 0) {
+      query = query.where(and(...filters));
+    }
+    
+    query = query.orderBy(desc(outreachActivities.performedAt), desc(outreachActivities.id));
+    
+    if (limit !== undefined) {
+      query = query.limit(limit);
+    }
+    if (offset !== undefined && offset > 0) {
+      query = query.offset(offset);
+    }
+    
+    return query;
+  }
+
+  async getOutreachActivitiesCount(options?: { contactId?: string; activityType?: string; outcome?: string; relatedTrackId?: string; from?: Date; to?: Date }): Promise<number> {
+    const filters = this.buildOutreachFilters(options);
+    
+    let query = db.select({ count: count() })
+      .from(outreachActivities)
+      .$dynamic();
+    
+    if (filters.length > 0) {
+      query = query.where(and(...filters));
+    }
+    
+    const result = await query;
+    const raw = result[0]?.count ?? 0;
+    return typeof raw === "bigint" ? Number(raw) : Number(raw);
+  }
+
+  async getOutreachOutcomes(): Promise<string[]> {
+    const result = await db.selectDistinct({ outcome: outreachActivities.outcome })
+      .from(outreachActivities)
+      .where(isNotNull(outreachActivities.outcome))
+      .orderBy(asc(outreachActivities.outcome));
+    
+    return result.map(r => r.outcome).filter((o): o is string => !!o);
+  }
+
+  async getOutreachActivityById(id: string): Promise<OutreachActivity | null> {
+    const [activity] = await db.select()
+      .from(outreachActivities)
+      .where(eq(outreachActivities.id, id))
+      .limit(1);
+    return activity || null;
+  }
+
+  async createOutreachActivity(activity: InsertOutreachActivity): Promise<OutreachActivity> {
+    const [created] = await db.insert(outreachActivities)
+      .values(activity)
+      .returning();
+    return created;
+  }
+
+  async updateOutreachActivity(id: string, updates: Partial<Omit<InsertOutreachActivity, 'contactId'>>): Promise<OutreachActivity | null> {
+    // Whitelist mutable columns only
+    const mutableUpdates: any = {};
+    
+    if (updates.activityType !== undefined) mutableUpdates.activityType = updates.activityType;
+    if (updates.channel !== undefined) mutableUpdates.channel = updates.channel;
+    if (updates.subject !== undefined) mutableUpdates.subject = updates.subject;
+    if (updates.body !== undefined) mutableUpdates.body = updates.body;
+    if (updates.outcome !== undefined) mutableUpdates.outcome = updates.outcome;
+    if (updates.metadata !== undefined) mutableUpdates.metadata = updates.metadata;
+    if (updates.relatedTrackId !== undefined) mutableUpdates.relatedTrackId = updates.relatedTrackId;
+    if (updates.performedAt !== undefined) mutableUpdates.performedAt = updates.performedAt;
+    
+    if (Object.keys(mutableUpdates).length === 0) {
+      return this.getOutreachActivityById(id);
+    }
+    
+    const [updated] = await db.update(outreachActivities)
+      .set(mutableUpdates)
+      .where(eq(outreachActivities.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async deleteOutreachActivity(id: string): Promise<void> {
+    await db.delete(outreachActivities)
+      .where(eq(outreachActivities.id, id));
+  }
+
+  async getContactAlerts(options?: { contactId?: string; status?: string; limit?: number }): Promise<ContactAlert[]> {
+    const filters: any[] = [];
+    
+    if (options?.contactId) {
+      filters.push(eq(contactAlerts.contactId, options.contactId));
+    }
+    if (options?.status) {
+      filters.push(eq(contactAlerts.status, options.status as any));
+    }
+    
+    let query = db.select()
+      .from(contactAlerts)
+      .$dynamic();
+    
+    if (filters.length > 0) {
+      query = query.where(and(...filters));
+    }
+    
+    query = query.orderBy(desc(contactAlerts.triggeredAt));
+    
+    if (options?.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+    
+    return query;
+  }
+
+  async getContactAlertById(id: string): Promise<ContactAlert | null> {
+    const [alert] = await db.select()
+      .from(contactAlerts)
+      .where(eq(contactAlerts.id, id))
+      .limit(1);
+    return alert || null;
+  }
+
+  async createContactAlert(alert: InsertContactAlert): Promise<ContactAlert> {
+    const [created] = await db.insert(contactAlerts)
+      .values(alert)
+      .returning();
+    return created;
+  }
+
+  async updateContactAlertStatus(id: string, status: 'pending' | 'resolved' | 'dismissed'): Promise<ContactAlert | null> {
+    const [updated] = await db.update(contactAlerts)
+      .set({
+        status,
+        resolvedAt: status === 'pending' ? null : new Date(),
+      })
+      .where(eq(contactAlerts.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async getFunnelTierRules(): Promise<FunnelTierRule[]> {
+    return db.select()
+      .from(funnelTierRules)
+      .orderBy(desc(funnelTierRules.priority));
+  }
+
+  async createFunnelTierRule(rule: InsertFunnelTierRule): Promise<FunnelTierRule> {
+    const [created] = await db.insert(funnelTierRules)
+      .values(rule)
+      .returning();
+    return created;
+  }
+
+  async updateFunnelTierRule(id: string, updates: Partial<InsertFunnelTierRule>): Promise<FunnelTierRule | null> {
+    // Whitelist mutable columns only
+    const mutableUpdates: any = {};
+    
+    if (updates.name !== undefined) mutableUpdates.name = updates.name;
+    if (updates.stage !== undefined) mutableUpdates.stage = updates.stage;
+    if (updates.minStreams !== undefined) mutableUpdates.minStreams = updates.minStreams;
+    if (updates.minWowPct !== undefined) mutableUpdates.minWowPct = updates.minWowPct;
+    if (updates.priority !== undefined) mutableUpdates.priority = updates.priority;
+    if (updates.enabled !== undefined) mutableUpdates.enabled = updates.enabled;
+    
+    mutableUpdates.updatedAt = new Date();
+    
+    const [updated] = await db.update(funnelTierRules)
+      .set(mutableUpdates)
+      .where(eq(funnelTierRules.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async deleteFunnelTierRule(id: string): Promise<void> {
+    await db.delete(funnelTierRules)
+      .where(eq(funnelTierRules.id, id));
+  }
+
+  async getScoringProfiles(): Promise<ScoringProfile[]> {
+    return db.select()
+      .from(scoringProfiles)
+      .orderBy(desc(scoringProfiles.isActive), asc(scoringProfiles.createdAt));
+  }
+
+  async getScoringProfileById(id: string): Promise<ScoringProfile | null> {
+    const [profile] = await db.select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.id, id))
+      .limit(1);
+    return profile || null;
+  }
+
+  async createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile> {
+    const [created] = await db.insert(scoringProfiles)
+      .values({
+        ...profile,
+        weights: JSON.stringify(profile.weights),
+      })
+      .returning();
+    return created;
+  }
+
+  async updateScoringProfile(id: string, updates: Partial<InsertScoringProfile>): Promise<ScoringProfile | null> {
+    // Whitelist mutable columns only
+    const mutableUpdates: any = {};
+    
+    if (updates.name !== undefined) mutableUpdates.name = updates.name;
+    if (updates.description !== undefined) mutableUpdates.description = updates.description;
+    if (updates.weights !== undefined) mutableUpdates.weights = JSON.stringify(updates.weights);
+    
+    mutableUpdates.updatedAt = new Date();
+    
+    const [updated] = await db.update(scoringProfiles)
+      .set(mutableUpdates)
+      .where(eq(scoringProfiles.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async deleteScoringProfile(id: string): Promise<void> {
+    await db.delete(scoringProfiles)
+      .where(eq(scoringProfiles.id, id));
+  }
+
+  async getTrackLabelCounts(): Promise<Array<{ label: string; trackCount: number }>> {
+    const rows = await db.select({
+      label: playlistSnapshots.label,
+      trackCount: sql<number>`count(*)`,
+    })
+      .from(playlistSnapshots)
+      .where(sql`${playlistSnapshots.label} IS NOT NULL AND ${playlistSnapshots.label} <> ''`)
+      .groupBy(playlistSnapshots.label)
+      .orderBy(sql`count(*) DESC`);
+    
+    return rows.map(row => ({
+      label: row.label as string,
+      trackCount: Number(row.trackCount),
+    }));
+  }
+
+  async getLabelOverrides(): Promise<LabelOverride[]> {
+    return db.select()
+      .from(labelOverrides)
+      .orderBy(asc(labelOverrides.label));
+  }
+
+  // Changes whenever an override is added, edited or deleted
+  async getLabelOverridesVersion(): Promise<string> {
+    const [row] = await db.select({
+      total: count(),
+      lastUpdated: sql<string | null>`MAX(${labelOverrides.updatedAt})::text`,
+    })
+      .from(labelOverrides);
+    return `${row?.total ?? 0}:${row?.lastUpdated ?? ''}`;
+  }
+
+  async getLabelOverrideById(id: string): Promise<LabelOverride | null> {
+    const [override] = await db.select()
+      .from(labelOverrides)
+      .where(eq(labelOverrides.id, id))
+      .limit(1);
+    return override || null;
+  }
+
+  async upsertLabelOverride(override: InsertLabelOverride & { normalizedLabel: string }): Promise<LabelOverride> {
+    const [saved] = await db.insert(labelOverrides)
+      .values(override)
+      .onConflictDoUpdate({
+        target: labelOverrides.normalizedLabel,
+        set: {
+          tier: override.tier ?? null,
+          parentCompany: override.parentCompany ?? null,
+          notes: override.notes ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteLabelOverride(id: string): Promise<void> {
+    await db.delete(labelOverrides)
+      .where(eq(labelOverrides.id, id));
+  }
+
+  async getContactIdsByTrackLabels(labels: string[]): Promise<string[]> {
+    if (labels.length === 0) return [];
+    
+    const rows = await db.selectDistinct({ contactId: contactTracks.contactId })
+      .from(contactTracks)
+      .innerJoin(playlistSnapshots, eq(contactTracks.trackId, playlistSnapshots.id))
+      .where(inArray(playlistSnapshots.label, labels));
+    
+    return rows.map(row => row.contactId);
+  }
+
+  async getContactIdsByTrackId(trackId: string): Promise<string[]> {
+    const rows = await db.selectDistinct({ contactId: contactTracks.contactId })
+      .from(contactTracks)
+      .where(eq(contactTracks.trackId, trackId));
+    
+    return rows.map(row => row.contactId);
+  }
+
+  // Tracks with an MLC song code but no writer shares (enriched before shares were stored)
+  async getTracksMissingWriterShares(limit: number): Promise<Array<{ id: string; mlcSongCode: string }>> {
+    const rows = await db.select({ id: playlistSnapshots.id, mlcSongCode: playlistSnapshots.mlcSongCode })
+      .from(playlistSnapshots)
+      .where(
+        and(
+          isNotNull(playlistSnapshots.mlcSongCode),
+          sql`NOT EXISTS (SELECT 1 FROM ${mlcWriterShares} WHERE ${mlcWriterShares.trackId} = ${playlistSnapshots.id})`
+        )
+      )
+      .orderBy(desc(playlistSnapshots.week))
+      .limit(limit);
+    
+    return rows.map(row => ({ id: row.id, mlcSongCode: row.mlcSongCode! }));
+  }
+
+  async replaceMlcWriterShares(trackId: string, shares: Array<Omit<InsertMlcWriterShare, 'trackId' | 'trackSongwriterId'>>): Promise<MlcWriterShare[]> {
+    // Link each MLC writer to the track's songwriter by credited name or profile name
+    const links = await db.select({
+      id: trackSongwriters.id,
+      sourceText: trackSongwriters.sourceText,
+      profileName: songwriterProfiles.name,
+    })
+      .from(trackSongwriters)
+      .innerJoin(songwriterProfiles, eq(trackSongwriters.songwriterId, songwriterProfiles.id))
+      .where(eq(trackSongwriters.trackId, trackId));
+    
+    const findLink = (writerName: string | null | undefined) => {
+      if (!writerName) return null;
+      const normalized = normalizeSongwriterName(writerName);
+      const link = links.find(l =>
+        normalizeSongwriterName(l.profileName) === normalized ||
+        (!!l.sourceText && normalizeSongwriterName(l.sourceText) === normalized)
+      );
+      return link?.id ?? null;
+    };
+    
+    return db.transaction(async (tx) => {
+      await tx.delete(mlcWriterShares)
+        .where(eq(mlcWriterShares.trackId, trackId));
+      
+      if (shares.length === 0) return [];
+      
+      return tx.insert(mlcWriterShares)
+        .values(shares.map(share => ({
+          ...share,
+          trackId,
+          trackSongwriterId: findLink(share.writerName),
+        })))
+        .returning();
+    });
+  }
+
+  async recordFieldProvenance(entries: InsertTrackFieldProvenance[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(trackFieldProvenance).values(entries);
+  }
+
+  async getTrackFieldProvenance(trackId: string): Promise<TrackFieldProvenance[]> {
+    return db.select()
+      .from(trackFieldProvenance)
+      .where(eq(trackFieldProvenance.trackId, trackId))
+      .orderBy(desc(trackFieldProvenance.recordedAt));
+  }
+
+  async getLatestFieldSources(trackIds: string[], fields: string[]): Promise<Array<{ trackId: string; field: string; source: FieldSource }>> {
+    if (trackIds.length === 0 || fields.length === 0) return [];
+    
+    return db.selectDistinctOn([trackFieldProvenance.trackId, trackFieldProvenance.field], {
+      trackId: trackFieldProvenance.trackId,
+      field: trackFieldProvenance.field,
+      source: trackFieldProvenance.source,
+    })
+      .from(trackFieldProvenance)
+      .where(and(
+        inArray(trackFieldProvenance.trackId, trackIds),
+        inArray(trackFieldProvenance.field, fields)
+      ))
+      .orderBy(trackFieldProvenance.trackId, trackFieldProvenance.field, desc(trackFieldProvenance.recordedAt));
+  }
+
+  async getFieldPrecedenceRules(): Promise<FieldPrecedenceRule[]> {
+    return db.select()
+      .from(fieldPrecedenceRules)
+      .orderBy(asc(fieldPrecedenceRules.field));
+  }
+
+  async upsertFieldPrecedenceRule(rule: InsertFieldPrecedenceRule): Promise<FieldPrecedenceRule> {
+    const [saved] = await db.insert(fieldPrecedenceRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: fieldPrecedenceRules.field,
+        set: {
+          sources: rule.sources,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteFieldPrecedenceRule(field: string): Promise<void> {
+    await db.delete(fieldPrecedenceRules)
+      .where(eq(fieldPrecedenceRules.field, field));
+  }
+
+  async createFieldConflicts(conflicts: InsertFieldConflict[]): Promise<number> {
+    if (conflicts.length === 0) return 0;
+    
+    // Re-running a job shouldn't queue the same disagreement twice, nor bring back one a reviewer
+    // already resolved or dismissed
+    const existing = await db.select({
+      trackId: fieldConflicts.trackId,
+      field: fieldConflicts.field,
+      overriddenValue: fieldConflicts.overriddenValue,
+      appliedValue: fieldConflicts.appliedValue,
+    })
+      .from(fieldConflicts)
+      .where(inArray(fieldConflicts.trackId, Array.from(new Set(conflicts.map(c => c.trackId)))));
+    
+    const conflictKey = (c: { trackId: string; field: string; appliedValue?: string | null; overriddenValue?: string | null }) =>
+      [c.trackId, c.field, c.appliedValue ?? '', c.overriddenValue ?? ''].join('|');
+    const existingKeys = new Set(existing.map(conflictKey));
+    const newConflicts = conflicts.filter(c => !existingKeys.has(conflictKey(c)));
+    
+    if (newConflicts.length === 0) return 0;
+    
+    await db.insert(fieldConflicts).values(newConflicts);
+    return newConflicts.length;
+  }
+
+  async getFieldConflicts(status?: FieldConflict['status']): Promise<Array<FieldConflict & { trackName: string; artistName: string }>> {
+    const rows = await db.select({
+      conflict: fieldConflicts,
+      trackName: playlistSnapshots.trackName,
+      artistName: playlistSnapshots.artistName,
+    })
+      .from(fieldConflicts)
+      .innerJoin(playlistSnapshots, eq(fieldConflicts.trackId, playlistSnapshots.id))
+      .where(status ? eq(fieldConflicts.status, status) : undefined)
+      .orderBy(desc(fieldConflicts.createdAt));
+    
+    return rows.map(row => ({ ...row.conflict, trackName: row.trackName, artistName: row.artistName }));
+  }
+
+  async getFieldConflictById(id: string): Promise<FieldConflict | null> {
+    const [conflict] = await db.select()
+      .from(fieldConflicts)
+      .where(eq(fieldConflicts.id, id))
+      .limit(1);
+    return conflict || null;
+  }
+
+  async resolveFieldConflict(id: string, resolvedValue: string | null): Promise<FieldConflict | null> {
+    const [resolved] = await db.update(fieldConflicts)
+      .set({ status: 'resolved', resolvedValue, resolvedAt: new Date() })
+      .where(eq(fieldConflicts.id, id))
+      .returning();
+    return resolved || null;
+  }
+
+  async activateScoringProfile(id: string): Promise<ScoringProfile | null> {
+    return db.transaction(async (tx) => {
+      // Only one profile can be active at a time
+      await tx.update(scoringProfiles)
+        .set({ isActive: 0 })
+        .where(eq(scoringProfiles.isActive, 1));
+      
+      const [activated] = await tx.update(scoringProfiles)
+        .set({ isActive: 1, activatedAt: new Date(), updatedAt: new Date() })
+        .where(eq(scoringProfiles.id, id))
+        .returning();
+      return activated || null;
+    });
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return db.select()
+      .from(alertRules)
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRuleById(id: string): Promise<AlertRule | null> {
+    const [rule] = await db.select()
+      .from(alertRules)
+      .where(eq(alertRules.id, id))
+      .limit(1);
+    return rule || null;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db.insert(alertRules)
+      .values(rule)
+      .returning();
+    return created;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | null> {
+    // Whitelist mutable columns only
+    const mutableUpdates: any = {};
+    
+    if (updates.name !== undefined) mutableUpdates.name = updates.name;
+    if (updates.metric !== undefined) mutableUpdates.metric = updates.metric;
+    if (updates.comparator !== undefined) mutableUpdates.comparator = updates.comparator;
+    if (updates.threshold !== undefined) mutableUpdates.threshold = updates.threshold;
+    if (updates.scope !== undefined) mutableUpdates.scope = updates.scope;
+    if (updates.scopeValue !== undefined) mutableUpdates.scopeValue = updates.scopeValue;
+    if (updates.enabled !== undefined) mutableUpdates.enabled = updates.enabled;
+    
+    if (Object.keys(mutableUpdates).length === 0) {
+      return this.getAlertRuleById(id);
+    }
+    
+    mutableUpdates.updatedAt = new Date();
+    
+    const [updated] = await db.update(alertRules)
+      .set(mutableUpdates)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async deleteAlertRule(id: string): Promise<void> {
+    await db.delete(alertRules)
+      .where(eq(alertRules.id, id));
+  }
+
+  async getDeals(options?: { contactId?: string; stage?: string }): Promise<DealWithContact[]> {
+    const filters: any[] = [];
+    
+    if (options?.contactId) {
+      filters.push(eq(deals.contactId, options.contactId));
+    }
+    if (options?.stage) {
+      filters.push(eq(deals.stage, options.stage as any));
+    }
+    
+    let query = db.select({
+      id: deals.id,
+      contactId: deals.contactId,
+      title: deals.title,
+      stage: deals.stage,
+      dealType: deals.dealType,
+      publisherSharePct: deals.publisherSharePct,
+      adminFeePct: deals.adminFeePct,
+      advanceAmount: deals.advanceAmount,
+      termMonths: deals.termMonths,
+      territory: deals.territory,
+      notes: deals.notes,
+      assignedUserId: deals.assignedUserId,
+      stageUpdatedAt: deals.stageUpdatedAt,
+      createdAt: deals.createdAt,
+      updatedAt: deals.updatedAt,
+      songwriterName: songwriterProfiles.name,
+      unsignedScore: contacts.unsignedScore,
+    })
+      .from(deals)
+      .innerJoin(contacts, eq(deals.contactId, contacts.id))
+      .innerJoin(songwriterProfiles, eq(contacts.songwriterId, songwriterProfiles.id))
+      .$dynamic();
+    
+    if (filters.length > 0) {
+      query = query.where(and(...filters));
+    }
+    
+    return query.orderBy(desc(deals.stageUpdatedAt));
+  }
+
+  async getDealById(id: string): Promise<Deal | null> {
+    const [deal] = await db.select()
+      .from(deals)
+      .where(eq(deals.id, id))
+      .limit(1);
+    return deal || null;
+  }
+
+  async createDeal(deal: InsertDeal, changedByUserId?: string | null): Promise<Deal> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(deals)
+        .values(deal)
+        .returning();
+      
+      // Opening a deal moves the contact into the deal side of the funnel
+      await this.syncContactStageWithDeals(tx, deal.contactId, {
+        reason: `Deal opened: ${created.title}`,
+        changedByUserId,
+        dealId: created.id,
+      });
+      
+      return created;
+    });
+  }
+
+  async updateDeal(id: string, updates: Partial<Omit<InsertDeal, 'contactId' | 'stage'>>): Promise<Deal | null> {
+    // Whitelist mutable columns only (stage changes go through moveDealStage)
+    const mutableUpdates: any = {};
+    
+    if (updates.title !== undefined) mutableUpdates.title = updates.title;
+    if (updates.dealType !== undefined) mutableUpdates.dealType = updates.dealType;
+    if (updates.publisherSharePct !== undefined) mutableUpdates.publisherSharePct = updates.publisherSharePct;
+    if (updates.adminFeePct !== undefined) mutableUpdates.adminFeePct = updates.adminFeePct;
+    if (updates.advanceAmount !== undefined) mutableUpdates.advanceAmount = updates.advanceAmount;
+    if (updates.termMonths !== undefined) mutableUpdates.termMonths = updates.termMonths;
+    if (updates.territory !== undefined) mutableUpdates.territory = updates.territory;
+    if (updates.notes !== undefined) mutableUpdates.notes = updates.notes;
+    if (updates.assignedUserId !== undefined) mutableUpdates.assignedUserId = updates.assignedUserId;
+    
+    if (Object.keys(mutableUpdates).length === 0) {
+      return this.getDealById(id);
+    }
+    
+    mutableUpdates.updatedAt = new Date();
+    
+    const [updated] = await db.update(deals)
+      .set(mutableUpdates)
+      .where(eq(deals.id, id))
+      .returning();
+    return updated || null;
+  }
+
+  async moveDealStage(id: string, stage: DealStage, options?: { reason?: string | null; changedByUserId?: string | null }): Promise<Deal | null> {
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx.select()
+        .from(deals)
+        .where(eq(deals.id, id))
+        .limit(1);
+      
+      if (!deal) return null;
+      if (deal.stage === stage) return deal;
+      
+      const now = new Date();
+      const [updated] = await tx.update(deals)
+        .set({ stage, stageUpdatedAt: now, updatedAt: now })
+        .where(eq(deals.id, id))
+        .returning();
+      
+      await this.syncContactStageWithDeals(tx, deal.contactId, {
+        reason: options?.reason || `Deal moved: ${deal.title}`,
+        changedByUserId: options?.changedByUserId,
+        dealId: deal.id,
+      });
+      
+      return updated;
+    });
+  }
+
+  async deleteDeal(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deal] = await tx.delete(deals)
+        .where(eq(deals.id, id))
+        .returning();
+      
+      if (!deal) return;
+      
+      await this.syncContactStageWithDeals(tx, deal.contactId, {
+        reason: `Deal deleted: ${deal.title}`,
+      });
+    });
+  }
+
+  /**
+   * Mirror the contact's most advanced deal onto its stage: an open deal (signed ahead of
+   * negotiating ahead of offer_sent) wins, then 'passed' when every deal was passed on.
+   * With no deals left the contact goes back to the stage it had before its first deal.
+   */
+  private async syncContactStageWithDeals(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    contactId: string,
+    change: { reason: string; changedByUserId?: string | null; dealId?: string | null }
+  ): Promise<void> {
+    const [contact] = await tx.select({ stage: contacts.stage })
+      .from(contacts)
+      .where(eq(contacts.id, contactId))
+      .limit(1);
+    
+    if (!contact) return;
+    
+    const remaining = await tx.select({ stage: deals.stage })
+      .from(deals)
+      .where(eq(deals.contactId, contactId));
+    
+    let target: ContactStage;
+    if (remaining.length > 0) {
+      target = remaining
+        .map(d => d.stage)
+        .reduce((best, stage) => DEAL_STAGE_RANK[stage] > DEAL_STAGE_RANK[best] ? stage : best);
+    } else if (!(dealStageEnum.enumValues as readonly string[]).includes(contact.stage)) {
+      // Never entered the deal side (or already left it); leave the contact where it is
+      return;
+    } else {
+      const [preDeal] = await tx.select({ previousStage: contactStageHistory.previousStage })
+        .from(contactStageHistory)
+        .where(
+          and(
+            eq(contactStageHistory.contactId, contactId),
+            inArray(contactStageHistory.previousStage, ['discovery', 'watch', 'search']),
+            inArray(contactStageHistory.newStage, dealStageEnum.enumValues)
+          )
+        )
+        .orderBy(desc(contactStageHistory.changedAt))
+        .limit(1);
+      target = preDeal?.previousStage ?? 'search';
+    }
+    
+    if (target === contact.stage) return;
+    
+    const now = new Date();
+    await tx.update(contacts)
+      .set({ stage: target, stageUpdatedAt: now, updatedAt: now })
+      .where(eq(contacts.id, contactId));
+    
+    await tx.insert(contactStageHistory).values({
+      contactId,
+      previousStage: contact.stage,
+      newStage: target,
+      reason: change.reason,
+      changedByUserId: change.changedByUserId ?? null,
+      dealId: change.dealId ?? null,
+    });
+  }
+
   async getQuotaUsage(service: string, quotaDate: string): Promise<number> {
     const result = await db.select()
       .from(apiQuotaUsage)
@@ -1653,6 +3024,73 @@ export class DatabaseStorage implements IStorage {
     
     return result[0].usedUnits;
   }
+
+  async getCachedApiResponse(provider: string, cacheKey: string): Promise<ApiResponseCacheEntry | null> {
+    const result = await db.select()
+      .from(apiResponseCache)
+      .where(
+        and(
+          eq(apiResponseCache.provider, provider),
+          eq(apiResponseCache.cacheKey, cacheKey)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  async upsertCachedApiResponse(entry: InsertApiResponseCacheEntry): Promise<void> {
+    await db
+      .insert(apiResponseCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [apiResponseCache.provider, apiResponseCache.cacheKey],
+        set: {
+          notFound: sql`excluded.not_found`,
+          body: sql`excluded.body`,
+          expiresAt: sql`excluded.expires_at`,
+          hits: 0,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async recordCachedApiResponseHit(id: string): Promise<void> {
+    await db.update(apiResponseCache)
+      .set({ hits: sql`${apiResponseCache.hits} + 1` })
+      .where(eq(apiResponseCache.id, id));
+  }
+
+  async purgeApiResponseCache(options?: { provider?: string; expiredOnly?: boolean }): Promise<number> {
+    const conditions = [];
+    if (options?.provider) {
+      conditions.push(eq(apiResponseCache.provider, options.provider));
+    }
+    if (options?.expiredOnly) {
+      conditions.push(lte(apiResponseCache.expiresAt, new Date()));
+    }
+
+    const deleted = await db.delete(apiResponseCache)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .returning({ id: apiResponseCache.id });
+
+    return deleted.length;
+  }
+
+  async getApiResponseCacheStats(): Promise<Array<{ provider: string; entries: number; notFound: number; expired: number; hits: number }>> {
+    const rows = await db.select({
+      provider: apiResponseCache.provider,
+      entries: count(),
+      notFound: sql<number>`COALESCE(SUM(${apiResponseCache.notFound}), 0)::int`,
+      expired: sql<number>`COUNT(*) FILTER (WHERE ${apiResponseCache.expiresAt} <= NOW())::int`,
+      hits: sql<number>`COALESCE(SUM(${apiResponseCache.hits}), 0)::int`,
+    })
+      .from(apiResponseCache)
+      .groupBy(apiResponseCache.provider)
+      .orderBy(asc(apiResponseCache.provider));
+
+    return rows;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -5,8 +5,10 @@ import { EnrichmentWorker } from "./enrichment/worker";
 async function main() {
   console.log("🔧 Starting standalone enrichment worker...");
 
+  // Run several of these processes to scale out; each claims jobs under its own lease
   const jobQueue = new JobQueue({
-    maxConcurrency: 1,
+    maxConcurrency: parseInt(process.env.ENRICHMENT_WORKER_CONCURRENCY || "1", 10) || 1,
+    workerId: process.env.ENRICHMENT_WORKER_ID,
     storage,
   });
 
@@ -22,17 +24,20 @@ async function main() {
 
   console.log("✅ Standalone enrichment worker running");
 
-  process.on('SIGINT', () => {
+  // Release leases so other workers can pick up our running jobs right away
+  const shutdown = async () => {
     console.log("\n🛑 Shutting down worker...");
     worker.stop();
+    try {
+      await jobQueue.releaseLeases();
+    } catch (error) {
+      console.error("❌ Failed to release job leases:", error);
+    }
     process.exit(0);
-  });
+  };
 
-  process.on('SIGTERM', () => {
-    console.log("\n🛑 Shutting down worker...");
-    worker.stop();
-    process.exit(0);
-  });
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
 main().catch((error) => {
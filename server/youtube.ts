@@ -1,3 +1,5 @@
+import { providerLimiters } from "./services/rateLimiters";
+
 const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
 const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
 
@@ -52,24 +54,8 @@ export interface YouTubeMetadata {
   licensed: boolean;
 }
 
-class YouTubeRateLimiter {
-  private lastRequestTime: number = 0;
-  private readonly minInterval: number = 100; // 100ms between requests (conservative)
-
-  async throttle(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.minInterval) {
-      const waitTime = this.minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastRequestTime = Date.now();
-  }
-}
-
-const rateLimiter = new YouTubeRateLimiter();
+// search.list costs 100 quota units, videos.list costs 1
+const SEARCH_QUOTA_UNITS = 100;
 
 /**
  * Search YouTube for a video by ISRC code with fallback to track/artist search
@@ -90,8 +76,6 @@ export async function searchVideoByISRC(
 
   // Strategy 1: Try ISRC search first
   if (isrc) {
-    await rateLimiter.throttle();
-
     const searchQuery = `ISRC:${isrc}`;
     const url = new URL(`${YOUTUBE_API_BASE}/search`);
     url.searchParams.set('part', 'snippet');
@@ -101,7 +85,7 @@ export async function searchVideoByISRC(
     url.searchParams.set('key', YOUTUBE_API_KEY);
 
     try {
-      const response = await fetch(url.toString());
+      const response = await providerLimiters.youtube.fetch(url.toString(), undefined, { units: SEARCH_QUOTA_UNITS });
 
       if (response.ok) {
         const data: YouTubeSearchResult = await response.json();
@@ -121,8 +105,6 @@ export async function searchVideoByISRC(
 
   // Strategy 2: Fallback to track name + artist name search
   if (trackName && artistName) {
-    await rateLimiter.throttle();
-
     // Search for "track name artist name official music video"
     const searchQuery = `${trackName} ${artistName} official music video`;
     const url = new URL(`${YOUTUBE_API_BASE}/search`);
@@ -133,7 +115,7 @@ export async function searchVideoByISRC(
     url.searchParams.set('key', YOUTUBE_API_KEY);
 
     try {
-      const response = await fetch(url.toString());
+      const response = await providerLimiters.youtube.fetch(url.toString(), undefined, { units: SEARCH_QUOTA_UNITS });
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -174,15 +156,13 @@ export async function getVideoMetadata(videoId: string): Promise<YouTubeMetadata
     throw new Error("YOUTUBE_API_KEY not configured. Please add it to Replit Secrets.");
   }
 
-  await rateLimiter.throttle();
-
   const url = new URL(`${YOUTUBE_API_BASE}/videos`);
   url.searchParams.set('part', 'snippet,statistics,contentDetails');
   url.searchParams.set('id', videoId);
   url.searchParams.set('key', YOUTUBE_API_KEY);
 
   try {
-    const response = await fetch(url.toString());
+    const response = await providerLimiters.youtube.fetch(url.toString());
 
     if (!response.ok) {
       const errorText = await response.text();
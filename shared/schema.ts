@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, date, uniqueIndex, index, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, date, uniqueIndex, index, pgEnum } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,6 +21,7 @@ export const playlistSnapshots = pgTable("playlist_snapshots", {
   duration: integer("duration"),
   explicit: integer("explicit"),
   addedAt: timestamp("added_at").notNull(),
+  position: integer("position"), // 1-based position in the playlist on the latest fetch
   createdAt: timestamp("created_at").notNull().defaultNow(),
   publisher: text("publisher"),
   publisherStatus: text("publisher_status"),
@@ -76,6 +77,12 @@ export const insertPlaylistSnapshotSchema = createInsertSchema(playlistSnapshots
 export type InsertPlaylistSnapshot = z.infer<typeof insertPlaylistSnapshotSchema>;
 export type PlaylistSnapshot = typeof playlistSnapshots.$inferSelect;
 
+// Computed from the track's first snapshot and its position timeline, not stored
+export type PlaylistTenure = {
+  daysOnPlaylist: number | null;
+  removedAt: Date | null;
+};
+
 export const tags = pgTable("tags", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -131,6 +138,43 @@ export const insertTrackedPlaylistSchema = createInsertSchema(trackedPlaylists).
 export type InsertTrackedPlaylist = z.infer<typeof insertTrackedPlaylistSchema>;
 export type TrackedPlaylist = typeof trackedPlaylists.$inferSelect;
 
+// Playlist discovery review queue: untracked playlists found through contacts' tracks.
+// matchedContacts is JSON: [{ contactId, songwriterName, unsignedScore, trackNames }]
+export const playlistCandidateStatusEnum = pgEnum('playlist_candidate_status', ['pending', 'tracked', 'dismissed']);
+
+export const playlistCandidates = pgTable("playlist_candidates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  playlistId: text("playlist_id").notNull().unique(), // Spotify playlist ID
+  name: text("name").notNull(),
+  spotifyUrl: text("spotify_url").notNull(),
+  imageUrl: text("image_url"),
+  curator: text("curator"),
+  followers: integer("followers"),
+  totalTracks: integer("total_tracks"),
+  isEditorial: integer("is_editorial").notNull().default(0),
+  chartmetricId: text("chartmetric_id"),
+  sources: text("sources").array(), // 'chartmetric_track', 'chartmetric_search', 'spotify_search'
+  status: playlistCandidateStatusEnum("status").notNull().default('pending'),
+  overlapScore: real("overlap_score").notNull().default(0),
+  matchedContactCount: integer("matched_contact_count").notNull().default(0),
+  matchedTrackCount: integer("matched_track_count").notNull().default(0),
+  matchedContacts: text("matched_contacts"),
+  lastDiscoveredAt: timestamp("last_discovered_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  statusScoreIdx: index("idx_playlist_candidates_status_score").on(table.status, table.overlapScore),
+}));
+
+export const insertPlaylistCandidateSchema = createInsertSchema(playlistCandidates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPlaylistCandidate = z.infer<typeof insertPlaylistCandidateSchema>;
+export type PlaylistCandidate = typeof playlistCandidates.$inferSelect;
+
 // Playlist search types
 export const playlistSearchResultSchema = z.object({
   id: z.string(),
@@ -182,6 +226,27 @@ export const insertActivityHistorySchema = createInsertSchema(activityHistory).o
 export type InsertActivityHistory = z.infer<typeof insertActivityHistorySchema>;
 export type ActivityHistory = typeof activityHistory.$inferSelect;
 
+// Position timeline per playlist track, keyed on playlist + spotifyUrl so it spans weekly snapshot rows.
+// A row is written when a track enters, moves or leaves; position is null for a removal.
+export const trackPositionHistory = pgTable("track_position_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  playlistId: varchar("playlist_id").notNull().references(() => trackedPlaylists.id, { onDelete: "cascade" }),
+  spotifyUrl: text("spotify_url").notNull(),
+  position: integer("position"),
+  previousPosition: integer("previous_position"),
+  observedAt: timestamp("observed_at").notNull().defaultNow(),
+}, (table) => ({
+  playlistTrackIdx: index("idx_track_position_history_playlist_track").on(table.playlistId, table.spotifyUrl, table.observedAt),
+}));
+
+export const insertTrackPositionHistorySchema = createInsertSchema(trackPositionHistory).omit({
+  id: true,
+  observedAt: true,
+});
+
+export type InsertTrackPositionHistory = z.infer<typeof insertTrackPositionHistorySchema>;
+export type TrackPositionHistory = typeof trackPositionHistory.$inferSelect;
+
 export const artists = pgTable("artists", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   musicbrainzId: text("musicbrainz_id").unique(),
@@ -308,6 +373,112 @@ export type TrackSongwriter = typeof trackSongwriters.$inferSelect;
 export type InsertSongwriterAlias = z.infer<typeof insertSongwriterAliasSchema>;
 export type SongwriterAlias = typeof songwriterAliases.$inferSelect;
 
+// MLC work data per writer share. writerName is null for publisher shares MLC doesn't tie to a writer;
+// trackSongwriterId is set when the MLC writer matches a songwriter linked to the track
+export const mlcWriterShares = pgTable("mlc_writer_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackId: varchar("track_id").notNull().references(() => playlistSnapshots.id, { onDelete: "cascade" }),
+  trackSongwriterId: varchar("track_songwriter_id").references(() => trackSongwriters.id, { onDelete: "set null" }),
+  mlcSongCode: text("mlc_song_code"),
+  writerName: text("writer_name"),
+  writerIpi: text("writer_ipi"),
+  publisherName: text("publisher_name"),
+  publisherIpi: text("publisher_ipi"),
+  administrators: text("administrators"),
+  collectionShare: real("collection_share"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  trackIdx: index("idx_mlc_writer_shares_track").on(table.trackId),
+  trackSongwriterIdx: index("idx_mlc_writer_shares_track_songwriter").on(table.trackSongwriterId),
+}));
+
+export const insertMlcWriterShareSchema = createInsertSchema(mlcWriterShares).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertMlcWriterShare = z.infer<typeof insertMlcWriterShareSchema>;
+export type MlcWriterShare = typeof mlcWriterShares.$inferSelect;
+
+export const fieldSourceEnum = pgEnum('field_source', ['spotify_api', 'credits_scrape', 'musicbrainz', 'mlc', 'chartmetric', 'youtube', 'manual']);
+
+// Append-only ledger of every track field write: which source supplied the value, and when
+export const trackFieldProvenance = pgTable("track_field_provenance", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackId: varchar("track_id").notNull().references(() => playlistSnapshots.id, { onDelete: "cascade" }),
+  field: text("field").notNull(),
+  value: text("value"),
+  source: fieldSourceEnum("source").notNull(),
+  confidence: real("confidence").notNull(),
+  jobId: varchar("job_id"),
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+}, (table) => ({
+  trackFieldIdx: index("idx_track_field_provenance_track_field").on(table.trackId, table.field, table.recordedAt),
+}));
+
+export const insertTrackFieldProvenanceSchema = createInsertSchema(trackFieldProvenance).omit({
+  id: true,
+  recordedAt: true,
+});
+
+export type InsertTrackFieldProvenance = z.infer<typeof insertTrackFieldProvenanceSchema>;
+export type TrackFieldProvenance = typeof trackFieldProvenance.$inferSelect;
+export type FieldSource = TrackFieldProvenance["source"];
+
+// Per-field source order, highest precedence first. Fields without a rule use the built-in defaults
+export const fieldPrecedenceRules = pgTable("field_precedence_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  field: text("field").notNull().unique(),
+  sources: fieldSourceEnum("sources").array().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFieldPrecedenceRuleSchema = createInsertSchema(fieldPrecedenceRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  field: z.string().trim().min(1),
+  sources: z.array(z.enum(fieldSourceEnum.enumValues)).min(1),
+});
+
+export type InsertFieldPrecedenceRule = z.infer<typeof insertFieldPrecedenceRuleSchema>;
+export type FieldPrecedenceRule = typeof fieldPrecedenceRules.$inferSelect;
+
+export const fieldConflictStatusEnum = pgEnum('field_conflict_status', ['pending', 'resolved']);
+
+// Two sources disagreed on a field; the precedence policy picked appliedValue, a reviewer confirms or swaps it
+export const fieldConflicts = pgTable("field_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackId: varchar("track_id").notNull().references(() => playlistSnapshots.id, { onDelete: "cascade" }),
+  field: text("field").notNull(),
+  appliedValue: text("applied_value"),
+  appliedSource: fieldSourceEnum("applied_source").notNull(),
+  overriddenValue: text("overridden_value"),
+  // Null when the overwritten value had no recorded source
+  overriddenSource: fieldSourceEnum("overridden_source"),
+  jobId: varchar("job_id"),
+  status: fieldConflictStatusEnum("status").notNull().default('pending'),
+  resolvedValue: text("resolved_value"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  statusIdx: index("idx_field_conflicts_status").on(table.status, table.createdAt),
+  trackIdx: index("idx_field_conflicts_track").on(table.trackId),
+}));
+
+export const insertFieldConflictSchema = createInsertSchema(fieldConflicts).omit({
+  id: true,
+  status: true,
+  resolvedValue: true,
+  resolvedAt: true,
+  createdAt: true,
+});
+
+export type InsertFieldConflict = z.infer<typeof insertFieldConflictSchema>;
+export type FieldConflict = typeof fieldConflicts.$inferSelect;
+
 export const spotifyTokens = pgTable("spotify_tokens", {
   id: varchar("id").primaryKey().default("singleton"),
   encryptedAccessToken: text("encrypted_access_token").notNull(),
@@ -327,27 +498,43 @@ export type InsertSpotifyToken = z.infer<typeof insertSpotifyTokenSchema>;
 export type SpotifyToken = typeof spotifyTokens.$inferSelect;
 
 export const jobTypeEnum = pgEnum('job_type', ['enrich-playlist', 'enrich-tracks']);
-export const jobStatusEnum = pgEnum('job_status', ['queued', 'running', 'completed', 'failed']);
+export const jobStatusEnum = pgEnum('job_status', ['queued', 'running', 'paused', 'completed', 'failed', 'cancelled']);
+export const jobEventLevelEnum = pgEnum('job_event_level', ['info', 'warn', 'error']);
+export const enrichmentErrorClassEnum = pgEnum('enrichment_error_class', ['rate_limit', 'not_found', 'auth', 'timeout', 'unknown']);
+export const enrichmentRetryStatusEnum = pgEnum('enrichment_retry_status', ['retrying', 'dead_letter', 'no_data']);
 
 // CRM Enums
-export const contactStageEnum = pgEnum('contact_stage', ['discovery', 'watch', 'search']);
+export const contactStageEnum = pgEnum('contact_stage', ['discovery', 'watch', 'search', 'offer_sent', 'negotiating', 'signed', 'passed']);
 export const outreachActivityTypeEnum = pgEnum('outreach_activity_type', ['dm', 'email', 'call', 'meeting', 'social_touch', 'other']);
-export const alertTypeEnum = pgEnum('alert_type', ['stream_threshold', 'velocity_spike', 'inactivity', 'manual']);
+export const alertTypeEnum = pgEnum('alert_type', ['stream_threshold', 'velocity_spike', 'inactivity', 'manual', 'custom_rule']);
 export const alertStatusEnum = pgEnum('alert_status', ['pending', 'resolved', 'dismissed']);
+export const alertRuleMetricEnum = pgEnum('alert_rule_metric', ['spotify_streams', 'youtube_views', 'wow_pct', 'unsigned_score', 'playlist_adds']);
+export const alertRuleComparatorEnum = pgEnum('alert_rule_comparator', ['gt', 'gte', 'lt', 'lte', 'eq']);
+export const alertRuleScopeEnum = pgEnum('alert_rule_scope', ['all', 'tag', 'stage']);
+export const dealStageEnum = pgEnum('deal_stage', ['offer_sent', 'negotiating', 'signed', 'passed']);
+export const dealTypeEnum = pgEnum('deal_type', ['co_publishing', 'administration', 'full_publishing']);
 
 export const enrichmentJobs = pgTable("enrichment_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: jobTypeEnum("type").notNull(),
   playlistId: varchar("playlist_id").references(() => trackedPlaylists.id, { onDelete: "cascade" }),
   trackIds: text("track_ids").array().notNull(),
-  targetPhase: integer("target_phase"),
+  targetPhase: text("target_phase"),
   captureSnapshotAfter: integer("capture_snapshot_after").notNull().default(0),
+  bypassCache: integer("bypass_cache").notNull().default(0), // 1 = skip the API response cache and refresh it
   status: jobStatusEnum("status").notNull().default('queued'),
+  priority: integer("priority").notNull().default(0), // Higher runs first; user-triggered jobs jump scheduled batches
+  completedPhases: text("completed_phases").array().notNull().default(sql`ARRAY[]::text[]`), // Phases a resumed job skips
+  phaseTimings: text("phase_timings"), // JSON: { [phaseName]: { startedAt, durationMs } }
+  retryOfJobId: varchar("retry_of_job_id"), // Set on "retry failed tracks" jobs
+  workerId: varchar("worker_id"), // Worker that last claimed the job
+  claimToken: varchar("claim_token"), // New on every claim; a worker only touches the job under the claim it holds
+  leaseExpiresAt: timestamp("lease_expires_at"), // Renewed by heartbeats; a running job past it can be reclaimed
+  heartbeatAt: timestamp("heartbeat_at"),
   progress: integer("progress").notNull().default(0),
   totalTracks: integer("total_tracks").notNull().default(0),
   enrichedTracks: integer("enriched_tracks").notNull().default(0),
   errorCount: integer("error_count").notNull().default(0),
-  logs: text("logs").array().default(sql`ARRAY[]::text[]`),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
@@ -361,6 +548,91 @@ export const insertEnrichmentJobSchema = createInsertSchema(enrichmentJobs).omit
 
 export type InsertEnrichmentJob = z.infer<typeof insertEnrichmentJobSchema>;
 export type EnrichmentJob = typeof enrichmentJobs.$inferSelect;
+export type EnrichmentJobStatus = EnrichmentJob["status"];
+
+export interface EnrichmentPhaseTiming {
+  startedAt: string;
+  durationMs: number;
+}
+
+// Append-only job log: one row per event, never rewritten
+export const enrichmentJobEvents = pgTable("enrichment_job_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => enrichmentJobs.id, { onDelete: "cascade" }),
+  level: jobEventLevelEnum("level").notNull().default('info'),
+  phase: text("phase"), // Phase name, null for job-level events
+  trackId: varchar("track_id").references(() => playlistSnapshots.id, { onDelete: "set null" }),
+  message: text("message").notNull(),
+  metadata: text("metadata"), // JSON, event-specific
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  jobCreatedIdx: index("idx_enrichment_job_events_job_created").on(table.jobId, table.createdAt),
+}));
+
+export const insertEnrichmentJobEventSchema = createInsertSchema(enrichmentJobEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEnrichmentJobEvent = z.infer<typeof insertEnrichmentJobEventSchema>;
+export type EnrichmentJobEvent = typeof enrichmentJobEvents.$inferSelect;
+
+// Why a track failed in a job, one row per track and phase
+export const enrichmentJobFailures = pgTable("enrichment_job_failures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => enrichmentJobs.id, { onDelete: "cascade" }),
+  trackId: varchar("track_id").notNull().references(() => playlistSnapshots.id, { onDelete: "cascade" }),
+  phase: text("phase").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  jobIdx: index("idx_enrichment_job_failures_job").on(table.jobId),
+}));
+
+export const insertEnrichmentJobFailureSchema = createInsertSchema(enrichmentJobFailures).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEnrichmentJobFailure = z.infer<typeof insertEnrichmentJobFailureSchema>;
+export type EnrichmentJobFailure = typeof enrichmentJobFailures.$inferSelect;
+export type EnrichmentJobFailureWithTrack = EnrichmentJobFailure & { trackName: string; artistName: string };
+
+// Retry state per track and phase. A row exists only while the track is failing that phase;
+// success deletes it, and after too many attempts it is dead-lettered for manual review
+export const trackEnrichmentAttempts = pgTable("track_enrichment_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackId: varchar("track_id").notNull().references(() => playlistSnapshots.id, { onDelete: "cascade" }),
+  phase: text("phase").notNull(),
+  status: enrichmentRetryStatusEnum("status").notNull().default('retrying'),
+  attempts: integer("attempts").notNull().default(0),
+  errorClass: enrichmentErrorClassEnum("error_class").notNull(),
+  lastError: text("last_error").notNull(),
+  lastAttemptAt: timestamp("last_attempt_at").notNull().defaultNow(),
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once dead-lettered or resolved
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  trackPhaseIdx: uniqueIndex("idx_track_enrichment_attempts_track_phase").on(table.trackId, table.phase),
+  statusNextIdx: index("idx_track_enrichment_attempts_status_next").on(table.status, table.nextAttemptAt),
+}));
+
+export const insertTrackEnrichmentAttemptSchema = createInsertSchema(trackEnrichmentAttempts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertTrackEnrichmentAttempt = z.infer<typeof insertTrackEnrichmentAttemptSchema>;
+export type TrackEnrichmentAttempt = typeof trackEnrichmentAttempts.$inferSelect;
+export type EnrichmentErrorClass = TrackEnrichmentAttempt["errorClass"];
+export type TrackEnrichmentAttemptWithTrack = TrackEnrichmentAttempt & { trackName: string; artistName: string };
+
+// Row shape of the jobs list: the job plus its playlist name and failure count
+export type EnrichmentJobSummary = EnrichmentJob & {
+  playlistName: string | null;
+  failedTrackCount: number;
+};
 
 // CRM System Tables
 export const contacts = pgTable("contacts", {
@@ -368,8 +640,10 @@ export const contacts = pgTable("contacts", {
   songwriterId: varchar("songwriter_id").notNull().references(() => songwriterProfiles.id, { onDelete: "cascade" }).unique(),
   stage: contactStageEnum("stage").notNull().default('discovery'),
   stageUpdatedAt: timestamp("stage_updated_at").notNull().defaultNow(),
+  stageLocked: integer("stage_locked").notNull().default(0), // 1 = stage set by hand, skipped by autoAssignFunnelTiers
   wowGrowthPct: integer("wow_growth_pct"),
   wowYoutubeGrowthPct: integer("wow_youtube_growth_pct"),
+  velocityAlertThresholdPct: integer("velocity_alert_threshold_pct"), // Per-contact WoW % that fires a velocity_spike alert (null = default)
   hotLead: integer("hot_lead").notNull().default(0),
   assignedUserId: varchar("assigned_user_id"),
   totalStreams: integer("total_streams"),
@@ -406,9 +680,46 @@ export const contactStageHistory = pgTable("contact_stage_history", {
   newStage: contactStageEnum("new_stage").notNull(),
   reason: text("reason"),
   changedByUserId: varchar("changed_by_user_id"),
+  dealId: varchar("deal_id").references(() => deals.id, { onDelete: "set null" }),
+  funnelTierRuleId: varchar("funnel_tier_rule_id").references(() => funnelTierRules.id, { onDelete: "set null" }),
   changedAt: timestamp("changed_at").notNull().defaultNow(),
 });
 
+export const FUNNEL_TIER_STAGES = ['discovery', 'watch', 'search'] as const;
+
+// Funnel tier rules evaluated weekly by autoAssignFunnelTiers (highest priority match wins)
+export const funnelTierRules = pgTable("funnel_tier_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  stage: contactStageEnum("stage").notNull(),
+  minStreams: integer("min_streams"), // Matches when total streams exceed this
+  minWowPct: integer("min_wow_pct"), // OR when WoW growth exceeds this
+  priority: integer("priority").notNull().default(0),
+  enabled: integer("enabled").notNull().default(1),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const deals = pgTable("deals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  stage: dealStageEnum("stage").notNull().default('offer_sent'),
+  dealType: dealTypeEnum("deal_type").notNull().default('co_publishing'),
+  publisherSharePct: integer("publisher_share_pct"), // Publisher's share of the writer's publishing (e.g. 50 for a standard co-pub)
+  adminFeePct: integer("admin_fee_pct"),
+  advanceAmount: integer("advance_amount"), // USD, whole dollars
+  termMonths: integer("term_months"),
+  territory: text("territory").default("World"),
+  notes: text("notes"),
+  assignedUserId: varchar("assigned_user_id"),
+  stageUpdatedAt: timestamp("stage_updated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  contactIdx: index("idx_deals_contact_id").on(table.contactId),
+}));
+
 export const outreachActivities = pgTable("outreach_activities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
@@ -459,8 +770,27 @@ export const contactAlerts = pgTable("contact_alerts", {
   actualValue: integer("actual_value"),
   message: text("message").notNull(),
   status: alertStatusEnum("status").notNull().default('pending'),
+  alertRuleId: varchar("alert_rule_id").references(() => alertRules.id, { onDelete: "set null" }), // Set for custom_rule alerts
   triggeredAt: timestamp("triggered_at").notNull().defaultNow(),
   resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  contactStatusIdx: index("idx_contact_alerts_contact_status").on(table.contactId, table.status),
+}));
+
+// User-defined alert rules evaluated after every snapshot and enrichment job
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  metric: alertRuleMetricEnum("metric").notNull(),
+  comparator: alertRuleComparatorEnum("comparator").notNull().default('gt'),
+  threshold: integer("threshold").notNull(),
+  scope: alertRuleScopeEnum("scope").notNull().default('all'),
+  scopeValue: text("scope_value"), // Tag ID for 'tag' scope, stage for 'stage' scope
+  enabled: integer("enabled").notNull().default(1),
+  createdByUserId: varchar("created_by_user_id"),
+  lastEvaluatedAt: timestamp("last_evaluated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const contactTags = pgTable("contact_tags", {
@@ -489,9 +819,24 @@ export const insertContactStageHistorySchema = createInsertSchema(contactStageHi
   changedAt: true,
 });
 
+export const insertFunnelTierRuleSchema = createInsertSchema(funnelTierRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  // Rules only tier the pre-deal funnel; deal stages are driven by the deals pipeline
+  stage: z.enum(FUNNEL_TIER_STAGES),
+});
+
+export const insertDealSchema = createInsertSchema(deals).omit({
+  id: true,
+  stageUpdatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertOutreachActivitySchema = createInsertSchema(outreachActivities).omit({
   id: true,
-  performedAt: true,
 });
 
 export const insertContactNoteSchema = createInsertSchema(contactNotes).omit({
@@ -510,6 +855,13 @@ export const insertContactAlertSchema = createInsertSchema(contactAlerts).omit({
   triggeredAt: true,
 });
 
+export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
+  id: true,
+  lastEvaluatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertContactTagSchema = createInsertSchema(contactTags).omit({
   id: true,
   createdAt: true,
@@ -526,17 +878,113 @@ export type ContactTrack = typeof contactTracks.$inferSelect;
 export type InsertContactTrack = z.infer<typeof insertContactTrackSchema>;
 export type ContactStageHistory = typeof contactStageHistory.$inferSelect;
 export type InsertContactStageHistory = z.infer<typeof insertContactStageHistorySchema>;
+export type FunnelTierRule = typeof funnelTierRules.$inferSelect;
+export type InsertFunnelTierRule = z.infer<typeof insertFunnelTierRuleSchema>;
+export type Deal = typeof deals.$inferSelect;
+export type InsertDeal = z.infer<typeof insertDealSchema>;
+export type DealStage = Deal["stage"];
+export type ContactStage = Contact["stage"];
+export type DealWithContact = Deal & {
+  songwriterName: string;
+  unsignedScore: number | null;
+};
 export type OutreachActivity = typeof outreachActivities.$inferSelect;
 export type InsertOutreachActivity = z.infer<typeof insertOutreachActivitySchema>;
+export type OutreachActivityWithContact = OutreachActivity & {
+  songwriterName: string;
+  contactStage: string;
+  relatedTrackName: string | null;
+  relatedArtistName: string | null;
+};
 export type ContactNote = typeof contactNotes.$inferSelect;
 export type InsertContactNote = z.infer<typeof insertContactNoteSchema>;
 export type TrackPerformanceSnapshot = typeof trackPerformanceSnapshots.$inferSelect;
 export type InsertTrackPerformanceSnapshot = z.infer<typeof insertTrackPerformanceSnapshotSchema>;
 export type ContactAlert = typeof contactAlerts.$inferSelect;
 export type InsertContactAlert = z.infer<typeof insertContactAlertSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
 export type ContactTag = typeof contactTags.$inferSelect;
 export type InsertContactTag = z.infer<typeof insertContactTagSchema>;
 
+// Scoring profiles: named category caps + signal points for contactScoring.ts
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  weights: text("weights").notNull(), // JSON ScoringWeights
+  isActive: integer("is_active").notNull().default(0),
+  activatedAt: timestamp("activated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Contact scores are read on a 0-10 scale (score bands, alert and funnel thresholds)
+export const SCORING_MAX_TOTAL = 10;
+
+export const scoringWeightsSchema = z.object({
+  categories: z.record(z.number().min(0).max(SCORING_MAX_TOTAL)), // Category name -> max points
+  signals: z.record(z.number().min(0).max(SCORING_MAX_TOTAL)), // Signal name -> points awarded
+});
+
+export const insertScoringProfileSchema = createInsertSchema(scoringProfiles).omit({
+  id: true,
+  weights: true,
+  isActive: true,
+  activatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  weights: scoringWeightsSchema,
+});
+
+export type ScoringWeights = z.infer<typeof scoringWeightsSchema>;
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+
+// One row per score calculation so score changes can be explained later
+export const contactScoreHistory = pgTable("contact_score_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  finalScore: integer("final_score").notNull(),
+  confidence: text("confidence"),
+  scoreData: text("score_data").notNull(), // JSON category breakdown, same shape as contacts.trackScoreData
+  scoringProfileId: varchar("scoring_profile_id").references(() => scoringProfiles.id, { onDelete: "set null" }),
+  calculatedAt: timestamp("calculated_at").notNull().defaultNow(),
+}, (table) => ({
+  contactCalculatedIdx: index("idx_contact_score_history_contact_calculated").on(table.contactId, table.calculatedAt),
+}));
+
+export type ContactScoreHistory = typeof contactScoreHistory.$inferSelect;
+
+// Label registry: DB overrides layered over server/scoring/labelClassification.json
+export const labelTierEnum = pgEnum('label_tier', ['diy', 'indie', 'majorDistribution', 'major']);
+
+export const labelOverrides = pgTable("label_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  label: text("label").notNull().unique(), // Label name as it appears on tracks
+  normalizedLabel: text("normalized_label").notNull().unique(), // Match key (see normalizeLabel in labelClassifier.ts)
+  tier: labelTierEnum("tier"), // Explicit tier; null means classify via parentCompany
+  parentCompany: text("parent_company"), // e.g. "Warner Records" for a major's vanity imprint
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLabelOverrideSchema = createInsertSchema(labelOverrides).omit({
+  id: true,
+  normalizedLabel: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  label: z.string().trim().min(1),
+}).refine(data => !!data.tier || !!data.parentCompany?.trim(), {
+  message: "Set a tier or a parent company",
+});
+
+export type LabelOverride = typeof labelOverrides.$inferSelect;
+export type InsertLabelOverride = z.infer<typeof insertLabelOverrideSchema>;
+
 // System Notifications
 export const notificationTypeEnum = pgEnum('notification_type', [
   'automation_complete',
@@ -584,6 +1032,32 @@ export const insertApiQuotaUsageSchema = createInsertSchema(apiQuotaUsage).omit(
 export type ApiQuotaUsage = typeof apiQuotaUsage.$inferSelect;
 export type InsertApiQuotaUsage = z.infer<typeof insertApiQuotaUsageSchema>;
 
+// Cached external API responses, keyed by provider + endpoint + params
+export const apiResponseCache = pgTable("api_response_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // e.g., 'chartmetric', 'musicbrainz', 'mlc'
+  cacheKey: text("cache_key").notNull(), // endpoint plus sorted params, e.g. 'track/isrc:isrc=USRC17607839'
+  notFound: integer("not_found").notNull().default(0), // 1 = provider had no record (negative cache)
+  body: text("body"), // JSON response; null when notFound
+  hits: integer("hits").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  providerKeyIdx: uniqueIndex("idx_api_response_cache_provider_key").on(table.provider, table.cacheKey),
+  expiresAtIdx: index("idx_api_response_cache_expires_at").on(table.expiresAt),
+}));
+
+export const insertApiResponseCacheSchema = createInsertSchema(apiResponseCache).omit({
+  id: true,
+  hits: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ApiResponseCacheEntry = typeof apiResponseCache.$inferSelect;
+export type InsertApiResponseCacheEntry = z.infer<typeof insertApiResponseCacheSchema>;
+
 export const playlists = [
   {
     name: "Fresh Finds",